@@ -9,6 +9,14 @@ module.exports = {
     '!src/**/*.test.ts',
     '!src/**/index.ts',
     '!src/handler.ts',
+    '!src/httpHandler.ts',
+    '!src/sqsHandler.ts',
+    '!src/queryHandler.ts',
+    '!src/reconcileHandler.ts',
+    '!src/historyStreamHandler.ts',
+    '!src/backfill.ts',
+    '!src/replayDeadLetters.ts',
+    '!src/bootstrap.ts',
   ],
   coverageThreshold: {
     global: {
@@ -0,0 +1,46 @@
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { DomainEvent } from "../../domain/events/DomainEvent";
+import { EventPublisher } from "../../domain/ports/EventPublisher";
+
+/**
+ * EventBridge adapter for domain events
+ * The event type becomes the detail-type, so rules can match on
+ * `"detail-type": ["InventoryChanged"]` and the detail's `version`
+ */
+export class EventBridgeEventPublisher implements EventPublisher {
+  constructor(
+    private client: EventBridgeClient,
+    private eventBusName: string,
+    private source: string
+  ) {}
+
+  /**
+   * PutEvents reports rejected entries in the response rather than
+   * throwing, so a failed entry is turned into an error here
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    const result = await this.client.send(
+      new PutEventsCommand({
+        Entries: [
+          {
+            EventBusName: this.eventBusName,
+            Source: this.source,
+            DetailType: event.type,
+            Detail: JSON.stringify(event.toDetail()),
+            Time: event.occurredAt,
+          },
+        ],
+      })
+    );
+
+    if (result.FailedEntryCount) {
+      const [entry] = result.Entries ?? [];
+      throw new Error(
+        `Failed to publish ${event.type} event: ${entry?.ErrorCode ?? "unknown error"}${entry?.ErrorMessage ? ` (${entry.ErrorMessage})` : ""}`
+      );
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { DomainEvent } from "../../domain/events/DomainEvent";
+import { EventPublisher } from "../../domain/ports/EventPublisher";
+
+/**
+ * In-memory event publisher
+ * Suitable for tests and local runs; keeps every event it is sent
+ */
+export class InMemoryEventPublisher implements EventPublisher {
+  readonly events: DomainEvent[] = [];
+
+  async publish(event: DomainEvent): Promise<void> {
+    this.events.push(event);
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+} from "@aws-sdk/client-eventbridge";
+import { EventBridgeEventPublisher } from "../EventBridgeEventPublisher";
+import { InventoryChanged } from "../../../domain/events/InventoryChanged";
+
+describe("EventBridgeEventPublisher", () => {
+  const event = new InventoryChanged(
+    "myshop",
+    55555,
+    789,
+    10,
+    3,
+    new Date("2024-01-15T10:30:00Z"),
+    new Date("2024-01-15T10:30:01Z"),
+    12345,
+    "evt-1",
+    "inventory_levels/update"
+  );
+
+  let send: jest.Mock;
+  let publisher: EventBridgeEventPublisher;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue({
+      FailedEntryCount: 0,
+      Entries: [{ EventId: "eb-1" }],
+    });
+    publisher = new EventBridgeEventPublisher(
+      { send } as unknown as EventBridgeClient,
+      "inventory-events",
+      "shopify-inventory"
+    );
+  });
+
+  it("should put the event on the bus", async () => {
+    await publisher.publish(event);
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PutEventsCommand);
+    expect(command.input).toEqual({
+      Entries: [
+        {
+          EventBusName: "inventory-events",
+          Source: "shopify-inventory",
+          DetailType: "InventoryChanged",
+          Detail: JSON.stringify(event.toDetail()),
+          Time: new Date("2024-01-15T10:30:01Z"),
+        },
+      ],
+    });
+  });
+
+  it("should throw when the entry is rejected", async () => {
+    send.mockResolvedValue({
+      FailedEntryCount: 1,
+      Entries: [
+        { ErrorCode: "ThrottlingException", ErrorMessage: "Rate exceeded" },
+      ],
+    });
+
+    await expect(publisher.publish(event)).rejects.toThrow(
+      "Failed to publish InventoryChanged event: ThrottlingException (Rate exceeded)"
+    );
+  });
+
+  it("should propagate client errors", async () => {
+    send.mockRejectedValue(new Error("AccessDeniedException"));
+
+    await expect(publisher.publish(event)).rejects.toThrow(
+      "AccessDeniedException"
+    );
+  });
+});
@@ -0,0 +1,16 @@
+import { InMemoryEventPublisher } from "../InMemoryEventPublisher";
+import { InventoryChanged } from "../../../domain/events/InventoryChanged";
+
+describe("InMemoryEventPublisher", () => {
+  it("should keep events in the order they were published", async () => {
+    const publisher = new InMemoryEventPublisher();
+    const changedAt = new Date("2024-01-15T10:30:00Z");
+    const first = new InventoryChanged("myshop", 1, 789, null, 5, changedAt, changedAt);
+    const second = new InventoryChanged("myshop", 1, 789, 5, 4, changedAt, changedAt);
+
+    await publisher.publish(first);
+    await publisher.publish(second);
+
+    expect(publisher.events).toEqual([first, second]);
+  });
+});
@@ -0,0 +1,108 @@
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { BackfillInventoryUseCase } from "../../domain/usecases/BackfillInventoryUseCase";
+import { Logger } from "../../domain/ports/Logger";
+import { BulkOperationInventoryReader } from "../shopify/BulkOperationInventoryReader";
+import { LineSource } from "../sources/LineSource";
+
+export const BACKFILL_USAGE =
+  "Usage: backfill <shop> <file | s3://bucket/key> [--restart] [--job <id>]";
+
+interface BackfillArguments {
+  shopName: string;
+  location: string;
+  restart: boolean;
+  jobId?: string;
+}
+
+/**
+ * Command-line adapter seeding a shop from a bulk operation export
+ * Returns the process exit code: 0 when the export was read to the end,
+ * 1 when the run failed and can be resumed by running it again, 2 for
+ * bad arguments
+ */
+export class BackfillCommandHandler {
+  constructor(
+    private backfillInventory: BackfillInventoryUseCase,
+    private openSource: (location: string) => LineSource,
+    private logger: Logger
+  ) {}
+
+  async run(argv: string[]): Promise<number> {
+    const args = parseArguments(argv);
+    if (!args) {
+      this.logger.error(BACKFILL_USAGE);
+      return 2;
+    }
+
+    try {
+      const shopName = normalizeShopDomain(args.shopName);
+      const source = this.openSource(args.location);
+      // Keyed by shop and export, so a rerun of the same command resumes
+      const jobId = args.jobId ?? `${shopName} ${source.location}`;
+
+      const report = await this.backfillInventory.execute({
+        shopName,
+        jobId,
+        restart: args.restart,
+        source: new BulkOperationInventoryReader(source),
+        onProgress: (progress) =>
+          this.logger.info("Backfill progress", { ...progress }),
+      });
+
+      this.logger.info("Inventory backfilled", {
+        shopName: report.shopName,
+        jobId: report.jobId,
+        resumedAfterLine: report.resumedAfterLine,
+        lines: report.line,
+        itemsMapped: report.itemsMapped,
+        levelsSaved: report.levelsSaved,
+        levelsStale: report.levelsStale,
+        levelsSkipped: report.levelsSkipped,
+        deferredReplayed: report.deferredReplayed,
+        invalidRecords: report.invalidRecords,
+      });
+      if (report.invalidRecords > 0) {
+        this.logger.warn("Invalid backfill records", {
+          shopName: report.shopName,
+          invalid: report.invalid,
+        });
+      }
+
+      return 0;
+    } catch (error) {
+      this.logger.error("Inventory backfill failed; run again to resume", {
+        shopName: args.shopName,
+        location: args.location,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return 1;
+    }
+  }
+}
+
+function parseArguments(argv: string[]): BackfillArguments | null {
+  const positional: string[] = [];
+  let restart = false;
+  let jobId: string | undefined;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--restart") {
+      restart = true;
+    } else if (argv[i] === "--job") {
+      jobId = argv[++i];
+      if (!jobId) {
+        return null;
+      }
+    } else if (argv[i].startsWith("--")) {
+      return null;
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+
+  if (positional.length !== 2) {
+    return null;
+  }
+
+  return { shopName: positional[0], location: positional[1], restart, jobId };
+}
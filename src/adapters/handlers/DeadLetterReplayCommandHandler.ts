@@ -0,0 +1,225 @@
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { DeadLetteredWebhook } from "../../domain/entities/DeadLetteredWebhook";
+import {
+  DeadLetterFilter,
+  DeadLetterRepository,
+} from "../../domain/ports/DeadLetterRepository";
+import { Logger } from "../../domain/ports/Logger";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import { WebhookRequestHandler } from "./WebhookRequestHandler";
+import { failureOf, WebhookDeadLetterRecorder } from "./WebhookDeadLetterRecorder";
+
+export const REPLAY_USAGE =
+  "Usage: replay-dead-letters [--id <id>]... [--shop <shop>] [--topic <topic>] " +
+  "[--since <date>] [--until <date>] [--limit <n>] [--include-replayed] [--dry-run]";
+
+export type ReplayOutcome = "would_replay" | "replayed" | "failed" | "not_found";
+
+export interface ReplayResult {
+  id: string;
+  outcome: ReplayOutcome;
+  shopName?: string;
+  topic?: string;
+  attemptCount?: number;
+  statusCode?: number;
+  reason?: string;
+}
+
+interface ReplayArguments {
+  ids: string[];
+  filter: DeadLetterFilter;
+  limit?: number;
+  dryRun: boolean;
+}
+
+/**
+ * Command-line adapter re-running dead-lettered webhook events through
+ * the current webhook processing, chosen by ID or by filter
+ * Returns the process exit code: 0 when every selected event was replayed
+ * (or would be, in a dry run), 1 when any failed or was not found, 2 for
+ * bad arguments
+ */
+export class DeadLetterReplayCommandHandler {
+  constructor(
+    private deadLetters: DeadLetterRepository,
+    private recorder: WebhookDeadLetterRecorder,
+    private webhookRequestHandler: WebhookRequestHandler,
+    private parser: WebhookPayloadParser,
+    private logger: Logger,
+    private now: () => number = Date.now
+  ) {}
+
+  async run(argv: string[]): Promise<number> {
+    const args = parseArguments(argv);
+    if (!args) {
+      this.logger.error(REPLAY_USAGE);
+      return 2;
+    }
+
+    let results: ReplayResult[];
+    try {
+      results = await this.replay(args);
+    } catch (error) {
+      this.logger.error("Dead letter replay failed", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return 1;
+    }
+
+    const count = (outcome: ReplayOutcome) =>
+      results.filter((result) => result.outcome === outcome).length;
+    this.logger.info("Dead letters replayed", {
+      dryRun: args.dryRun,
+      selected: results.length,
+      wouldReplay: count("would_replay"),
+      replayed: count("replayed"),
+      failed: count("failed"),
+      notFound: count("not_found"),
+      results,
+    });
+
+    return results.every(
+      (result) => result.outcome === "replayed" || result.outcome === "would_replay"
+    )
+      ? 0
+      : 1;
+  }
+
+  /**
+   * Events replay one at a time, oldest failure first, so later updates
+   * land after earlier ones
+   */
+  private async replay(args: ReplayArguments): Promise<ReplayResult[]> {
+    const results: ReplayResult[] = [];
+
+    let entries: DeadLetteredWebhook[];
+    if (args.ids.length > 0) {
+      entries = [];
+      for (const id of args.ids) {
+        const entry = await this.deadLetters.get(id);
+        if (entry) {
+          entries.push(entry);
+        } else {
+          results.push({ id, outcome: "not_found" });
+        }
+      }
+    } else {
+      entries = await this.deadLetters.list(args.filter);
+    }
+
+    for (const entry of entries.slice(0, args.limit)) {
+      const described = {
+        id: entry.id,
+        shopName: entry.shopName,
+        topic: entry.topic,
+      };
+
+      if (args.dryRun) {
+        results.push({
+          ...described,
+          outcome: "would_replay",
+          attemptCount: entry.attemptCount,
+          statusCode: entry.statusCode,
+          reason: entry.reason,
+        });
+        continue;
+      }
+
+      const response = await this.webhookRequestHandler.handle(() =>
+        this.parser.parseEventBridgeEvent(parseEvent(entry))
+      );
+      const failure = failureOf(response);
+
+      if (!failure) {
+        await this.deadLetters.markReplayed(entry.id, new Date(this.now()));
+        results.push({ ...described, outcome: "replayed" });
+        continue;
+      }
+
+      const recorded = await this.recorder.record(entry.event, failure, 1);
+      results.push({
+        ...described,
+        outcome: "failed",
+        attemptCount: recorded.attemptCount,
+        statusCode: failure.statusCode,
+        reason: failure.reason,
+      });
+    }
+
+    return results;
+  }
+}
+
+function parseEvent(entry: DeadLetteredWebhook): unknown {
+  try {
+    return JSON.parse(entry.event);
+  } catch {
+    throw new Error(`Invalid dead-lettered event: ${entry.id}`);
+  }
+}
+
+function parseArguments(argv: string[]): ReplayArguments | null {
+  const ids: string[] = [];
+  const filter: DeadLetterFilter = {};
+  let limit: number | undefined;
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const option = argv[i];
+    if (option === "--dry-run") {
+      dryRun = true;
+      continue;
+    }
+    if (option === "--include-replayed") {
+      filter.includeReplayed = true;
+      continue;
+    }
+
+    const value = argv[++i];
+    if (value === undefined) {
+      return null;
+    }
+    switch (option) {
+      case "--id":
+        ids.push(value);
+        break;
+      case "--shop":
+        try {
+          filter.shopName = normalizeShopDomain(value);
+        } catch {
+          return null;
+        }
+        break;
+      case "--topic":
+        filter.topic = value;
+        break;
+      case "--since":
+      case "--until": {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return null;
+        }
+        filter[option === "--since" ? "failedFrom" : "failedTo"] = date;
+        break;
+      }
+      case "--limit":
+        limit = Number(value);
+        if (!Number.isInteger(limit) || limit <= 0) {
+          return null;
+        }
+        break;
+      default:
+        return null;
+    }
+  }
+
+  // Chosen IDs are replayed as given, so filters would be ignored
+  const filtered = Object.keys(filter).some(
+    (key) => key !== "includeReplayed"
+  );
+  if (ids.length > 0 && filtered) {
+    return null;
+  }
+
+  return { ids, filter, limit, dryRun };
+}
@@ -0,0 +1,38 @@
+import type { APIGatewayProxyResultV2 } from "aws-lambda";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import { WebhookRequestHandler } from "./WebhookRequestHandler";
+import {
+  failureOf,
+  WebhookDeadLetterRecorder,
+} from "./WebhookDeadLetterRecorder";
+import { isRetryable } from "./WebhookErrorMapper";
+
+/**
+ * Processes EventBridge webhook events invoked directly on the Lambda
+ * EventBridge ignores the response, so events that failed in a way a
+ * retry could fix are dead-lettered instead of being lost
+ */
+export class EventBridgeWebhookHandler {
+  constructor(
+    private webhookRequestHandler: WebhookRequestHandler,
+    private parser: WebhookPayloadParser,
+    private deadLetters: WebhookDeadLetterRecorder
+  ) {}
+
+  /**
+   * Throws only when the event could not be dead-lettered, leaving it to
+   * the Lambda's own retries
+   */
+  async handle(event: unknown): Promise<APIGatewayProxyResultV2> {
+    const response = await this.webhookRequestHandler.handle(() =>
+      this.parser.parseEventBridgeEvent(event)
+    );
+
+    const failure = failureOf(response);
+    if (failure && isRetryable(failure.statusCode)) {
+      await this.deadLetters.record(JSON.stringify(event), failure, 1);
+    }
+
+    return response;
+  }
+}
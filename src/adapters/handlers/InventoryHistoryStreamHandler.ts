@@ -0,0 +1,86 @@
+import type {
+  DynamoDBBatchItemFailure,
+  DynamoDBBatchResponse,
+  DynamoDBRecord,
+  DynamoDBStreamEvent,
+} from "aws-lambda";
+import type { AttributeValue } from "@aws-sdk/client-dynamodb";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { InventoryHistoryEntry } from "../../domain/entities/InventoryHistoryEntry";
+import { Logger } from "../../domain/ports/Logger";
+import { ProcessInventoryChangeUseCase } from "../../domain/usecases/ProcessInventoryChangeUseCase";
+import { fromHistoryItem } from "../repositories/DynamoDBInventoryHistoryRepository";
+
+/**
+ * Processes the inventory history table's stream
+ * Each new ledger entry is handed to ProcessInventoryChangeUseCase. Records
+ * of a shard arrive in order, so processing stops at the first failure and
+ * reports it; the stream redelivers it and everything after it
+ * An entry that cannot be read would fail on every delivery and hold up
+ * its shard, so it is logged and skipped instead
+ */
+export class InventoryHistoryStreamHandler {
+  constructor(
+    private useCase: ProcessInventoryChangeUseCase,
+    private logger: Logger
+  ) {}
+
+  async handle(event: DynamoDBStreamEvent): Promise<DynamoDBBatchResponse> {
+    const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+
+    for (const record of event.Records) {
+      const processed = await this.logger.withContext(
+        { sequenceNumber: record.dynamodb?.SequenceNumber },
+        () => this.process(record)
+      );
+      if (!processed) {
+        batchItemFailures.push({
+          itemIdentifier: record.dynamodb?.SequenceNumber ?? "",
+        });
+        break;
+      }
+    }
+
+    this.logger.info("Processed inventory history batch", {
+      records: event.Records.length,
+      failed: batchItemFailures.length,
+    });
+
+    return { batchItemFailures };
+  }
+
+  /**
+   * Returns false when the record should be delivered again
+   */
+  private async process(record: DynamoDBRecord): Promise<boolean> {
+    // Entries are append-only; only their insertion is a change
+    const image = record.dynamodb?.NewImage;
+    if (record.eventName !== "INSERT" || !image) {
+      return true;
+    }
+
+    let entry: InventoryHistoryEntry;
+    try {
+      entry = fromHistoryItem(
+        unmarshall(image as Record<string, AttributeValue>)
+      );
+    } catch (error) {
+      this.logger.error("Skipped unreadable inventory history entry", {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return true;
+    }
+
+    try {
+      await this.useCase.execute(entry);
+      return true;
+    } catch (error) {
+      this.logger.warn("Inventory change will be retried", {
+        variantId: entry.variantId,
+        locationId: entry.locationId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return false;
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import type {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+} from "aws-lambda";
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { ApiKeyValidator } from "../../domain/ports/ApiKeyValidator";
+import { Logger } from "../../domain/ports/Logger";
+import {
+  GetVariantInventoryUseCase,
+  LocatedInventoryLevel,
+} from "../../domain/usecases/GetVariantInventoryUseCase";
+
+const VARIANT_ROUTE = "GET /shops/{shop}/variants/{variantId}/inventory";
+const LOCATION_ROUTE =
+  "GET /shops/{shop}/variants/{variantId}/locations/{locationId}";
+
+/**
+ * Read-only HTTP API over stored inventory
+ * Routes are matched on the API Gateway route key; every request needs an
+ * `X-Api-Key` issued for the shop in the path
+ */
+export class InventoryQueryHandler {
+  constructor(
+    private getVariantInventory: GetVariantInventoryUseCase,
+    private apiKeyValidator: ApiKeyValidator,
+    private logger: Logger
+  ) {}
+
+  async handle(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+    try {
+      if (event.routeKey !== VARIANT_ROUTE && event.routeKey !== LOCATION_ROUTE) {
+        return buildResponse(404, { error: `Route not found: ${event.routeKey}` });
+      }
+
+      const params = event.pathParameters ?? {};
+      if (!params.shop?.trim()) {
+        return buildResponse(400, { error: "Bad request: shop is required" });
+      }
+
+      let shopName: string;
+      try {
+        shopName = normalizeShopDomain(params.shop);
+      } catch (error) {
+        return buildResponse(400, {
+          error: `Bad request: Invalid shop domain: ${params.shop}`,
+        });
+      }
+
+      const apiKey = event.headers?.["x-api-key"];
+      if (!(await this.apiKeyValidator.validate(shopName, apiKey))) {
+        this.logger.warn("Query API key rejected", { shopName });
+        return buildResponse(401, { error: "Unauthorized: Invalid API key" });
+      }
+
+      const variantId = parseId(params.variantId);
+      if (variantId === null) {
+        return buildResponse(400, {
+          error: `Bad request: Invalid variant ID: ${params.variantId}`,
+        });
+      }
+
+      if (event.routeKey === VARIANT_ROUTE) {
+        return await this.variantInventory(shopName, variantId);
+      }
+
+      const locationId = parseId(params.locationId);
+      if (locationId === null) {
+        return buildResponse(400, {
+          error: `Bad request: Invalid location ID: ${params.locationId}`,
+        });
+      }
+
+      return await this.locationInventory(shopName, variantId, locationId);
+    } catch (error) {
+      this.logger.error("Unexpected error querying inventory", {
+        error: error instanceof Error ? error.message : "Unknown error",
+        stack: error instanceof Error ? error.stack : undefined,
+      });
+      return buildResponse(500, { error: "Internal server error" });
+    }
+  }
+
+  private async variantInventory(
+    shopName: string,
+    variantId: number
+  ): Promise<APIGatewayProxyResultV2> {
+    const inventory = await this.getVariantInventory.execute({
+      shopName,
+      variantId,
+    });
+
+    if (inventory.levels.length === 0) {
+      return buildResponse(404, {
+        error: `Not found: no inventory for variant ${variantId}`,
+      });
+    }
+
+    return buildResponse(200, {
+      shopName,
+      variantId,
+      sellableTotal: inventory.sellableTotal,
+      levels: inventory.levels.map(toLevelBody),
+    });
+  }
+
+  private async locationInventory(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<APIGatewayProxyResultV2> {
+    const located = await this.getVariantInventory.getLevel({
+      shopName,
+      variantId,
+      locationId,
+    });
+
+    if (!located) {
+      return buildResponse(404, {
+        error: `Not found: no inventory for variant ${variantId} at location ${locationId}`,
+      });
+    }
+
+    return buildResponse(200, { shopName, variantId, ...toLevelBody(located) });
+  }
+}
+
+function toLevelBody({ level, location, sellable }: LocatedInventoryLevel) {
+  return {
+    locationId: level.locationId,
+    available: level.available,
+    updatedAt: level.updatedAt.toISOString(),
+    sellable,
+    orphaned: level.isOrphaned(),
+    location: location && {
+      name: location.name,
+      active: location.active,
+      fulfillsOnlineOrders: location.fulfillsOnlineOrders,
+      deleted: location.deletedAt !== undefined,
+    },
+  };
+}
+
+/**
+ * Path IDs must be positive integers; anything else is a client error
+ */
+function parseId(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  const id = Number(value);
+  return id > 0 && Number.isSafeInteger(id) ? id : null;
+}
+
+function buildResponse(
+  statusCode: number,
+  body: unknown
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    body: JSON.stringify(body),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  };
+}
@@ -0,0 +1,71 @@
+import {
+  ReconcileInventoryUseCase,
+  ReconciliationReport,
+} from "../../domain/usecases/ReconcileInventoryUseCase";
+import { Logger } from "../../domain/ports/Logger";
+
+/**
+ * Input of the scheduled reconciliation job, set on the schedule's target
+ */
+export interface ReconciliationJobEvent {
+  shopNames: string[];
+  repair?: boolean;
+}
+
+export interface ReconciliationJobResult {
+  reports: ReconciliationReport[];
+  failures: Array<{ shopName: string; error: string }>;
+}
+
+/**
+ * Runs reconciliation for each configured shop in turn
+ * A shop that fails is logged and skipped so the others still run
+ */
+export class ReconciliationJobHandler {
+  constructor(
+    private reconcileInventory: ReconcileInventoryUseCase,
+    private logger: Logger
+  ) {}
+
+  async handle(event: ReconciliationJobEvent): Promise<ReconciliationJobResult> {
+    if (!Array.isArray(event.shopNames) || event.shopNames.length === 0) {
+      throw new Error("Invalid reconciliation job: shopNames is required");
+    }
+
+    const result: ReconciliationJobResult = { reports: [], failures: [] };
+
+    for (const shopName of event.shopNames) {
+      try {
+        const report = await this.reconcileInventory.execute({
+          shopName,
+          repair: event.repair ?? false,
+        });
+        result.reports.push(report);
+
+        this.logger.info("Inventory reconciled", {
+          shopName: report.shopName,
+          repair: report.repair,
+          variantsChecked: report.variantsChecked,
+          levelsChecked: report.levelsChecked,
+          discrepancyCount: report.discrepancies.length,
+          repairedCount: report.repairedCount,
+        });
+        if (report.discrepancies.length > 0) {
+          this.logger.warn("Inventory discrepancies found", {
+            shopName: report.shopName,
+            discrepancies: report.discrepancies,
+          });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        this.logger.error("Inventory reconciliation failed", {
+          shopName,
+          error: message,
+        });
+        result.failures.push({ shopName, error: message });
+      }
+    }
+
+    return result;
+  }
+}
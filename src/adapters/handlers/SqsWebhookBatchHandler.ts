@@ -0,0 +1,109 @@
+import type {
+  SQSBatchItemFailure,
+  SQSBatchResponse,
+  SQSEvent,
+  SQSRecord,
+} from "aws-lambda";
+import { Logger } from "../../domain/ports/Logger";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import { WebhookRequestHandler } from "./WebhookRequestHandler";
+import {
+  failureOf,
+  WebhookDeadLetterRecorder,
+  WebhookResponseFailure,
+} from "./WebhookDeadLetterRecorder";
+import { isRetryable } from "./WebhookErrorMapper";
+
+/**
+ * Processes EventBridge webhook events buffered through SQS
+ * Messages run one at a time so a burst drains at the pace the event
+ * source mapping allows, and only messages that failed in a way a retry
+ * can fix are reported back for redelivery
+ * On its last delivery a failing message is dead-lettered and removed, so
+ * it can be replayed; the queue's own DLQ only catches messages that
+ * could not be recorded
+ */
+export class SqsWebhookBatchHandler {
+  constructor(
+    private webhookRequestHandler: WebhookRequestHandler,
+    private parser: WebhookPayloadParser,
+    private logger: Logger,
+    private deadLetters?: WebhookDeadLetterRecorder,
+    /**
+     * The queue's redrive maxReceiveCount
+     */
+    private maxReceiveCount = Infinity
+  ) {}
+
+  async handle(event: SQSEvent): Promise<SQSBatchResponse> {
+    const batchItemFailures: SQSBatchItemFailure[] = [];
+
+    for (const record of event.Records) {
+      const processed = await this.logger.withContext(
+        { messageId: record.messageId },
+        () => this.process(record)
+      );
+      if (!processed) {
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
+
+    this.logger.info("Processed webhook batch", {
+      messages: event.Records.length,
+      failed: batchItemFailures.length,
+    });
+
+    return { batchItemFailures };
+  }
+
+  /**
+   * Returns false when the message should be delivered again
+   */
+  private async process(record: SQSRecord): Promise<boolean> {
+    const receiveCount = Number(record.attributes?.ApproximateReceiveCount ?? 1);
+
+    let failure: WebhookResponseFailure | null;
+    try {
+      failure = failureOf(
+        await this.webhookRequestHandler.handle(() =>
+          this.parser.parseSqsRecord(record)
+        )
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : "Unknown error";
+      this.logger.error("Webhook message failed", { receiveCount, error: reason });
+      failure = { statusCode: 500, reason };
+    }
+
+    if (!failure) {
+      return true;
+    }
+
+    if (!isRetryable(failure.statusCode)) {
+      this.logger.warn("Webhook message dropped", {
+        receiveCount,
+        statusCode: failure.statusCode,
+      });
+      return true;
+    }
+
+    if (this.deadLetters && receiveCount >= this.maxReceiveCount) {
+      try {
+        await this.deadLetters.record(record.body, failure, receiveCount);
+        return true;
+      } catch (error) {
+        this.logger.error("Failed to dead-letter webhook message", {
+          receiveCount,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+        return false;
+      }
+    }
+
+    this.logger.warn("Webhook message will be retried", {
+      receiveCount,
+      statusCode: failure.statusCode,
+    });
+    return false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { createHash } from "crypto";
+import type { APIGatewayProxyResultV2 } from "aws-lambda";
+import { DeadLetteredWebhook } from "../../domain/entities/DeadLetteredWebhook";
+import { DeadLetterRepository } from "../../domain/ports/DeadLetterRepository";
+import { Logger } from "../../domain/ports/Logger";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import {
+  isShopifyEventBridgeEvent,
+  isShopifyWebhookMetadata,
+} from "../types/EventBridgeTypes";
+
+/**
+ * Why a webhook response counts as a failure
+ */
+export interface WebhookResponseFailure {
+  statusCode: number;
+  reason: string;
+}
+
+/**
+ * Records EventBridge webhook events that failed processing in the
+ * dead-letter store, so they can be replayed
+ */
+export class WebhookDeadLetterRecorder {
+  constructor(
+    private deadLetters: DeadLetterRepository,
+    private logger: Logger,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * @param event the original EventBridge event as received
+   * @param attempts failed attempts this call accounts for
+   */
+  async record(
+    event: string,
+    failure: WebhookResponseFailure,
+    attempts: number
+  ): Promise<DeadLetteredWebhook> {
+    const entry = await this.deadLetters.record({
+      ...describeEvent(event),
+      event,
+      reason: failure.reason,
+      statusCode: failure.statusCode,
+      attempts,
+      failedAt: new Date(this.now()),
+    });
+
+    this.logger.warn("Webhook dead-lettered", {
+      id: entry.id,
+      shopName: entry.shopName,
+      topic: entry.topic,
+      statusCode: entry.statusCode,
+      reason: entry.reason,
+      attemptCount: entry.attemptCount,
+    });
+
+    return entry;
+  }
+}
+
+/**
+ * The failure a response reports, or null when it succeeded
+ * Partial successes count as failures, since some updates were not applied
+ */
+export function failureOf(
+  response: APIGatewayProxyResultV2
+): WebhookResponseFailure | null {
+  if (typeof response === "string") {
+    return null;
+  }
+  const statusCode = response.statusCode ?? 200;
+  if (statusCode < 400 && statusCode !== 207) {
+    return null;
+  }
+  return { statusCode, reason: reasonOf(response.body) ?? `HTTP ${statusCode}` };
+}
+
+/**
+ * Builds the reason from an error response body, including the per-update
+ * errors of a partial success
+ */
+function reasonOf(body: string | undefined): string | undefined {
+  let parsed: { error?: unknown; details?: unknown };
+  try {
+    parsed = JSON.parse(body ?? "");
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed?.error !== "string") {
+    return undefined;
+  }
+
+  const details = parsed.details as { errors?: unknown } | string | undefined;
+  if (typeof details === "string") {
+    return `${parsed.error}: ${details}`;
+  }
+  if (Array.isArray(details?.errors) && details.errors.length > 0) {
+    const reasons = details.errors.map(
+      (error: { reason?: unknown }) => error.reason
+    );
+    return `${parsed.error}: ${reasons.join("; ")}`;
+  }
+  return parsed.error;
+}
+
+/**
+ * Identifies the event and, where it can be read, its shop and topic
+ * Unreadable events are keyed by a hash of their content
+ */
+function describeEvent(event: string): {
+  id: string;
+  shopName?: string;
+  topic?: string;
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(event);
+  } catch {
+    parsed = undefined;
+  }
+  if (!isShopifyEventBridgeEvent(parsed)) {
+    return { id: createHash("sha256").update(event).digest("hex") };
+  }
+
+  const headers = isShopifyWebhookMetadata(parsed.detail.metadata)
+    ? parsed.detail.metadata
+    : {};
+  let shopName: string | undefined;
+  try {
+    shopName = WebhookPayloadParser.extractShopName(headers);
+  } catch {
+    shopName = undefined;
+  }
+
+  return {
+    id: parsed.id,
+    shopName,
+    topic: WebhookPayloadParser.extractTopic(headers),
+  };
+}
@@ -0,0 +1,107 @@
+import type { APIGatewayProxyResultV2 } from "aws-lambda";
+import { AuthenticationError } from "../../domain/errors/AuthenticationError";
+import { AuthenticationUnavailableError } from "../../domain/errors/AuthenticationUnavailableError";
+import { DomainValidationError } from "../../domain/errors/DomainValidationError";
+import { PayloadValidationError } from "../../domain/errors/PayloadValidationError";
+import { ShopAccessError } from "../../domain/errors/ShopAccessError";
+import { TransientStorageError } from "../../domain/errors/TransientStorageError";
+import { UnsupportedTopicError } from "../../domain/errors/UnsupportedTopicError";
+import { Logger } from "../../domain/ports/Logger";
+import { MetricDimensions, Metrics } from "../../domain/ports/Metrics";
+import { buildErrorResponse, buildSuccessResponse } from "./responses";
+
+/**
+ * Maps errors raised while handling a webhook to responses, by type only
+ * The status code is what the entry points use to decide between retrying
+ * a delivery and dropping it, see isRetryable
+ */
+export class WebhookErrorMapper {
+  constructor(
+    private logger: Logger,
+    private metrics: Metrics
+  ) {}
+
+  /**
+   * Dimensions name the shop and topic when they could be read
+   */
+  toResponse(
+    error: unknown,
+    dimensions: MetricDimensions = {}
+  ): APIGatewayProxyResultV2 {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+
+    if (error instanceof UnsupportedTopicError) {
+      // Counted by the IgnoredWebhooks log metric filter
+      this.logger.info("Ignored unsupported webhook topic", {
+        topic: error.topic,
+        shopName: dimensions.shop,
+      });
+      this.metrics.count("WebhooksSkipped", {
+        ...dimensions,
+        reason: "unsupported",
+      });
+      return buildSuccessResponse({
+        message: "Webhook topic ignored",
+        topic: error.topic,
+        processed: 0,
+        ignored: true,
+      });
+    }
+
+    if (error instanceof AuthenticationError) {
+      this.logger.warn("Webhook authentication failed", { error: errorMessage });
+      this.metrics.count("AuthenticationFailures", dimensions);
+      return buildErrorResponse(401, "Unauthorized: Webhook authentication failed");
+    }
+
+    if (error instanceof AuthenticationUnavailableError) {
+      this.logger.error("Webhook authentication unavailable", {
+        error: errorMessage,
+      });
+      return buildErrorResponse(503, "Service unavailable", errorMessage);
+    }
+
+    if (error instanceof ShopAccessError) {
+      this.logger.warn("Webhook rejected for shop", {
+        shopName: error.shopName,
+        error: errorMessage,
+      });
+      return buildErrorResponse(403, `Forbidden: ${errorMessage}`);
+    }
+
+    if (
+      error instanceof PayloadValidationError ||
+      error instanceof DomainValidationError
+    ) {
+      this.logger.warn("Invalid webhook payload", { error: errorMessage });
+      this.metrics.count("ValidationFailures", dimensions);
+      return buildErrorResponse(400, `Bad request: ${errorMessage}`);
+    }
+
+    if (error instanceof TransientStorageError) {
+      this.logger.warn("Storage temporarily unavailable", { error: errorMessage });
+      return buildErrorResponse(503, "Service unavailable", errorMessage);
+    }
+
+    this.logger.error("Unexpected error processing webhook", {
+      error: errorMessage,
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return buildErrorResponse(
+      500,
+      "Internal server error",
+      error instanceof Error ? error.message : undefined
+    );
+  }
+}
+
+/**
+ * Server errors, partial failures and deliveries another attempt was still
+ * processing (409) may succeed on another attempt; other client errors
+ * would fail the same way every time
+ */
+export function isRetryable(statusCode: number): boolean {
+  return statusCode >= 500 || statusCode === 207 || statusCode === 409;
+}
@@ -0,0 +1,179 @@
+import type { APIGatewayProxyResultV2 } from "aws-lambda";
+import { DeduplicationStore } from "../../domain/ports/DeduplicationStore";
+import { ShopRegistry } from "../../domain/services/ShopRegistry";
+import { WebhookAuthenticator } from "../../domain/services/WebhookAuthenticator";
+import { Logger } from "../../domain/ports/Logger";
+import { Metrics } from "../../domain/ports/Metrics";
+import {
+  ParsedWebhookResult,
+  WebhookPayloadParser,
+} from "../parsers/WebhookPayloadParser";
+import { TopicRegistry } from "../topics/TopicRegistry";
+import { WebhookContext } from "../topics/TopicHandler";
+import { buildErrorResponse, buildSuccessResponse } from "./responses";
+import { WebhookErrorMapper } from "./WebhookErrorMapper";
+
+/**
+ * Channel-independent webhook processing shared by the Lambda entry points
+ * Orchestrates authentication, shop checks, topic routing, deduplication
+ * and responses; errors are mapped to responses by WebhookErrorMapper
+ */
+export class WebhookRequestHandler {
+  private errors: WebhookErrorMapper;
+
+  constructor(
+    private topics: TopicRegistry,
+    private deduplicationStore: DeduplicationStore,
+    private shopRegistry: ShopRegistry,
+    private authenticator: WebhookAuthenticator,
+    private logger: Logger,
+    private metrics: Metrics
+  ) {
+    this.errors = new WebhookErrorMapper(logger, metrics);
+  }
+
+  /**
+   * Parsing runs inside so its failures map to responses like any other
+   * Everything logged while the webhook is processed carries its event ID,
+   * shop and topic
+   */
+  async handle(
+    parse: () => ParsedWebhookResult
+  ): Promise<APIGatewayProxyResultV2> {
+    let parsed: ParsedWebhookResult;
+    let shopName: string;
+    let topic: string;
+    try {
+      parsed = parse();
+      shopName = WebhookPayloadParser.extractShopName(parsed.headers);
+      topic = WebhookPayloadParser.extractTopic(parsed.headers);
+    } catch (error) {
+      return this.errors.toResponse(error);
+    }
+
+    return this.logger.withContext(
+      {
+        eventId: parsed.deliveryId,
+        webhookId: WebhookPayloadParser.extractWebhookId(parsed.headers),
+        shopName,
+        topic,
+      },
+      async () => {
+        try {
+          return await this.process(parsed, shopName, topic);
+        } catch (error) {
+          return this.errors.toResponse(error, { shop: shopName, topic });
+        }
+      }
+    );
+  }
+
+  private async process(
+    parsed: ParsedWebhookResult,
+    shopName: string,
+    topic: string
+  ): Promise<APIGatewayProxyResultV2> {
+    const { headers, body } = parsed;
+    const signature = WebhookPayloadParser.extractSignature(headers);
+    const dimensions = { shop: shopName, topic };
+
+    this.logger.info("Parsed webhook", { channel: parsed.channel });
+    this.metrics.count("WebhooksReceived", dimensions);
+
+    // Authenticated before the shop's status is revealed or the delivery
+    // is claimed, so a forged request learns nothing and cannot hold the
+    // claim of a genuine one. The use cases authenticate again as their
+    // own guard
+    const registered = await this.shopRegistry.find(shopName);
+    await this.authenticator.authenticate({
+      shopName,
+      rawBody: body,
+      signature,
+      webhookSecretName: registered?.webhookSecretName,
+      channel: parsed.channel,
+      eventSource: parsed.source,
+      account: parsed.account,
+    });
+    const shop = this.shopRegistry.ensureActive(shopName, registered);
+
+    const topicHandler = this.topics.require(topic);
+    const payload = topicHandler.parse(parsed.payload);
+    const context: WebhookContext = {
+      channel: parsed.channel,
+      topic,
+      shopName,
+      shop,
+      headers,
+      rawBody: body,
+      signature,
+      deliveryId: parsed.deliveryId,
+      eventTime: parsed.eventTime,
+      eventSource: parsed.source,
+      account: parsed.account,
+    };
+
+    const dedupKeys = WebhookPayloadParser.buildDeduplicationKeys(
+      parsed.deliveryId,
+      headers
+    );
+    const claim = await this.deduplicationStore.claim(dedupKeys);
+    if (claim === "completed") {
+      this.logger.info("Skipping duplicate webhook delivery", { dedupKeys });
+      return buildSuccessResponse({
+        message: "Duplicate webhook ignored",
+        processed: 0,
+        duplicate: true,
+      });
+    }
+    if (claim === "in_progress") {
+      // Not acknowledged: the other attempt may still fail or die
+      this.logger.info("Webhook delivery already in progress", { dedupKeys });
+      return buildErrorResponse(
+        409,
+        "Conflict: webhook delivery already in progress"
+      );
+    }
+
+    // Execute use case, releasing the claim if it fails so a retry is processed
+    let result;
+    try {
+      result = await topicHandler.handle(payload, context);
+    } catch (error) {
+      await this.deduplicationStore.release(dedupKeys);
+      throw error;
+    }
+
+    if (!result.success && result.errors.length > 0) {
+      await this.deduplicationStore.release(dedupKeys);
+      this.logger.warn("Some updates failed", {
+        processed: result.processedCount,
+        errors: result.errors,
+      });
+      return buildErrorResponse(
+        207,
+        "Partial success: some updates failed",
+        { ...result, partialSuccess: true }
+      );
+    }
+
+    if (result.skippedCount > 0) {
+      this.logger.info("Skipped stale updates", {
+        skipped: result.skipped,
+      });
+    }
+
+    await this.deduplicationStore.complete(dedupKeys);
+
+    this.logger.info("Webhook processed successfully", {
+      processed: result.processedCount,
+      skipped: result.skippedCount,
+    });
+    this.metrics.count("WebhooksProcessed", dimensions);
+
+    return buildSuccessResponse({
+      message: "Webhook processed successfully",
+      processed: result.processedCount,
+      skipped: result.skippedCount,
+    });
+  }
+}
@@ -0,0 +1,133 @@
+import { BackfillCommandHandler, BACKFILL_USAGE } from "../BackfillCommandHandler";
+import { BulkOperationInventoryReader } from "../../shopify/BulkOperationInventoryReader";
+import {
+  BackfillInventoryUseCase,
+  BackfillReport,
+} from "../../../domain/usecases/BackfillInventoryUseCase";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+describe("BackfillCommandHandler", () => {
+  const SHOP = "myshop.myshopify.com";
+  const date = new Date("2024-02-01T00:00:00Z");
+  const report = (invalidRecords = 0): BackfillReport => ({
+    shopName: SHOP,
+    jobId: `${SHOP} s3://exports/bulk.jsonl`,
+    resumedAfterLine: 0,
+    line: 3,
+    itemsMapped: 1,
+    levelsSaved: 2,
+    levelsStale: 0,
+    levelsSkipped: 0,
+    deferredReplayed: 0,
+    invalidRecords,
+    invalid: invalidRecords ? [{ line: 3, reason: "Available stock cannot be negative" }] : [],
+    startedAt: date,
+    completedAt: date,
+  });
+
+  let execute: jest.Mock;
+  let openSource: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: BackfillCommandHandler;
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue(report());
+    openSource = jest.fn((location: string) => ({
+      location,
+      async *lines() {},
+    }));
+    logger = new InMemoryLogger();
+    handler = new BackfillCommandHandler(
+      { execute } as unknown as BackfillInventoryUseCase,
+      openSource,
+      logger
+    );
+  });
+
+  it("should backfill the shop from the given export", async () => {
+    const exitCode = await handler.run(["MyShop", "s3://exports/bulk.jsonl"]);
+
+    expect(exitCode).toBe(0);
+    expect(openSource).toHaveBeenCalledWith("s3://exports/bulk.jsonl");
+    expect(execute).toHaveBeenCalledWith({
+      shopName: SHOP,
+      jobId: `${SHOP} s3://exports/bulk.jsonl`,
+      restart: false,
+      source: expect.any(BulkOperationInventoryReader),
+      onProgress: expect.any(Function),
+    });
+    expect(logger.linesFor("Inventory backfilled")).toEqual([
+      expect.objectContaining({ level: "info", shopName: SHOP, levelsSaved: 2 }),
+    ]);
+  });
+
+  it("should pass restart and job options through", async () => {
+    await handler.run(["--restart", SHOP, "export.jsonl", "--job", "initial"]);
+
+    expect(execute).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: "initial", restart: true })
+    );
+  });
+
+  it("should log progress reported by the use case", async () => {
+    execute.mockImplementation(async ({ onProgress }) => {
+      onProgress({ line: 100, levelsSaved: 99 });
+      return report();
+    });
+
+    await handler.run([SHOP, "export.jsonl"]);
+
+    expect(logger.linesFor("Backfill progress")).toEqual([
+      expect.objectContaining({ line: 100, levelsSaved: 99 }),
+    ]);
+  });
+
+  it("should warn about invalid records", async () => {
+    execute.mockResolvedValue(report(1));
+
+    const exitCode = await handler.run([SHOP, "export.jsonl"]);
+
+    expect(exitCode).toBe(0);
+    expect(logger.linesFor("Invalid backfill records")).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        shopName: SHOP,
+        invalid: [{ line: 3, reason: "Available stock cannot be negative" }],
+      }),
+    ]);
+  });
+
+  it("should exit with 1 when the backfill fails", async () => {
+    execute.mockRejectedValue(new Error("DynamoDB unavailable"));
+
+    const exitCode = await handler.run([SHOP, "export.jsonl"]);
+
+    expect(exitCode).toBe(1);
+    expect(
+      logger.linesFor("Inventory backfill failed; run again to resume")
+    ).toEqual([
+      expect.objectContaining({
+        level: "error",
+        shopName: SHOP,
+        location: "export.jsonl",
+        error: "DynamoDB unavailable",
+      }),
+    ]);
+  });
+
+  it.each([
+    [[]],
+    [[SHOP]],
+    [[SHOP, "a.jsonl", "b.jsonl"]],
+    [[SHOP, "a.jsonl", "--job"]],
+    [[SHOP, "a.jsonl", "--force"]],
+  ])("should print usage for arguments %j", async (argv) => {
+    const exitCode = await handler.run(argv);
+
+    expect(exitCode).toBe(2);
+    expect(logger.linesFor(BACKFILL_USAGE)).toEqual([
+      expect.objectContaining({ level: "error" }),
+    ]);
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,257 @@
+import {
+  DeadLetterReplayCommandHandler,
+  REPLAY_USAGE,
+} from "../DeadLetterReplayCommandHandler";
+import { WebhookRequestHandler } from "../WebhookRequestHandler";
+import { WebhookDeadLetterRecorder } from "../WebhookDeadLetterRecorder";
+import {
+  ParsedWebhookResult,
+  WebhookPayloadParser,
+} from "../../parsers/WebhookPayloadParser";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import { DeadLetteredWebhook } from "../../../domain/entities/DeadLetteredWebhook";
+import { DeadLetterRepository } from "../../../domain/ports/DeadLetterRepository";
+
+const SHOP = "myshop.myshopify.com";
+
+const eventFor = (id: string) =>
+  JSON.stringify({
+    version: "0",
+    id,
+    "detail-type": "shopifyWebhook",
+    source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+    account: "123456789012",
+    time: "2024-01-15T10:30:01Z",
+    region: "us-east-1",
+    resources: [],
+    detail: {
+      payload: { inventory_item_id: 12345 },
+      metadata: { "X-Shopify-Topic": "inventory_levels/update" },
+    },
+  });
+
+const deadLetter = (id: string, event = eventFor(id)) =>
+  new DeadLetteredWebhook(
+    id,
+    event,
+    "Internal server error: DynamoDB unavailable",
+    500,
+    2,
+    new Date("2024-01-15T10:30:00Z"),
+    new Date("2024-01-15T10:35:00Z"),
+    SHOP,
+    "inventory_levels/update"
+  );
+
+const response = (statusCode: number, body: unknown = {}) => ({
+  statusCode,
+  body: JSON.stringify(body),
+  headers: { "Content-Type": "application/json" },
+});
+
+describe("DeadLetterReplayCommandHandler", () => {
+  const replayedAt = new Date("2024-02-01T00:00:00Z");
+
+  let entries: Map<string, DeadLetteredWebhook>;
+  let list: jest.Mock;
+  let markReplayed: jest.Mock;
+  let record: jest.Mock;
+  let handle: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: DeadLetterReplayCommandHandler;
+
+  const summary = () =>
+    logger.linesFor("Dead letters replayed")[0] as { results: unknown[] };
+
+  beforeEach(() => {
+    entries = new Map(
+      ["event-1", "event-2"].map((id) => [id, deadLetter(id)])
+    );
+    list = jest.fn(async () => Array.from(entries.values()));
+    markReplayed = jest.fn().mockResolvedValue(undefined);
+    record = jest.fn(async () => ({ attemptCount: 3 }));
+    handle = jest.fn().mockResolvedValue(response(200));
+    logger = new InMemoryLogger();
+
+    const repository: DeadLetterRepository = {
+      record: jest.fn(),
+      get: async (id) => entries.get(id) ?? null,
+      list,
+      markReplayed,
+    };
+    handler = new DeadLetterReplayCommandHandler(
+      repository,
+      { record } as unknown as WebhookDeadLetterRecorder,
+      { handle } as unknown as WebhookRequestHandler,
+      new WebhookPayloadParser(logger),
+      logger,
+      () => replayedAt.getTime()
+    );
+  });
+
+  it("should replay every unreplayed event through webhook processing", async () => {
+    const parsed: ParsedWebhookResult[] = [];
+    handle.mockImplementation(async (parse: () => ParsedWebhookResult) => {
+      parsed.push(parse());
+      return response(200);
+    });
+
+    const exitCode = await handler.run([]);
+
+    expect(exitCode).toBe(0);
+    expect(list).toHaveBeenCalledWith({});
+    expect(parsed.map((p) => [p.channel, p.deliveryId])).toEqual([
+      ["eventbridge", "event-1"],
+      ["eventbridge", "event-2"],
+    ]);
+    expect(markReplayed.mock.calls).toEqual([
+      ["event-1", replayedAt],
+      ["event-2", replayedAt],
+    ]);
+    expect(summary()).toMatchObject({
+      level: "info",
+      dryRun: false,
+      selected: 2,
+      wouldReplay: 0,
+      replayed: 2,
+      failed: 0,
+      notFound: 0,
+      results: ["event-1", "event-2"].map((id) => ({
+        id,
+        shopName: SHOP,
+        topic: "inventory_levels/update",
+        outcome: "replayed",
+      })),
+    });
+  });
+
+  it("should pass filters through and cap the replay at the limit", async () => {
+    await handler.run([
+      "--shop",
+      "MyShop",
+      "--topic",
+      "inventory_levels/update",
+      "--since",
+      "2024-01-01",
+      "--until",
+      "2024-01-31T23:59:59Z",
+      "--include-replayed",
+      "--limit",
+      "1",
+    ]);
+
+    expect(list).toHaveBeenCalledWith({
+      shopName: SHOP,
+      topic: "inventory_levels/update",
+      failedFrom: new Date("2024-01-01"),
+      failedTo: new Date("2024-01-31T23:59:59Z"),
+      includeReplayed: true,
+    });
+    expect(handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should replay chosen events and report unknown ones", async () => {
+    const exitCode = await handler.run(["--id", "event-2", "--id", "event-9"]);
+
+    expect(exitCode).toBe(1);
+    expect(list).not.toHaveBeenCalled();
+    expect(markReplayed).toHaveBeenCalledWith("event-2", replayedAt);
+    expect(summary().results).toEqual([
+      { id: "event-9", outcome: "not_found" },
+      expect.objectContaining({ id: "event-2", outcome: "replayed" }),
+    ]);
+  });
+
+  it("should only report what would be replayed in a dry run", async () => {
+    const exitCode = await handler.run(["--dry-run", "--id", "event-1"]);
+
+    expect(exitCode).toBe(0);
+    expect(handle).not.toHaveBeenCalled();
+    expect(markReplayed).not.toHaveBeenCalled();
+    expect(summary().results).toEqual([
+      {
+        id: "event-1",
+        shopName: SHOP,
+        topic: "inventory_levels/update",
+        outcome: "would_replay",
+        attemptCount: 2,
+        statusCode: 500,
+        reason: "Internal server error: DynamoDB unavailable",
+      },
+    ]);
+  });
+
+  it("should record another attempt when a replay fails", async () => {
+    handle
+      .mockResolvedValueOnce(
+        response(207, {
+          error: "Partial success: some updates failed",
+          details: { errors: [{ index: 0, reason: "Throttled" }] },
+        })
+      )
+      .mockResolvedValueOnce(response(200));
+
+    const exitCode = await handler.run([]);
+
+    expect(exitCode).toBe(1);
+    expect(record).toHaveBeenCalledWith(
+      eventFor("event-1"),
+      { statusCode: 207, reason: "Partial success: some updates failed: Throttled" },
+      1
+    );
+    expect(markReplayed).toHaveBeenCalledTimes(1);
+    expect(summary().results[0]).toEqual({
+      id: "event-1",
+      shopName: SHOP,
+      topic: "inventory_levels/update",
+      outcome: "failed",
+      attemptCount: 3,
+      statusCode: 207,
+      reason: "Partial success: some updates failed: Throttled",
+    });
+  });
+
+  it("should report events that cannot be read as failed", async () => {
+    entries = new Map([["event-1", deadLetter("event-1", "not json")]]);
+    handle.mockImplementation(async (parse: () => ParsedWebhookResult) => {
+      try {
+        parse();
+      } catch (error) {
+        return response(400, { error: `Bad request: ${(error as Error).message}` });
+      }
+      return response(200);
+    });
+
+    await handler.run([]);
+
+    expect(summary().results[0]).toMatchObject({
+      outcome: "failed",
+      statusCode: 400,
+      reason: "Bad request: Invalid dead-lettered event: event-1",
+    });
+  });
+
+  it("should fail when the dead letters cannot be read", async () => {
+    list.mockRejectedValue(new Error("DynamoDB unavailable"));
+
+    expect(await handler.run([])).toBe(1);
+    expect(logger.linesFor("Dead letter replay failed")).toEqual([
+      expect.objectContaining({ level: "error", error: "DynamoDB unavailable" }),
+    ]);
+  });
+
+  it.each([
+    [["--limit", "0"]],
+    [["--since", "yesterday"]],
+    [["--shop", "not a shop"]],
+    [["--topic"]],
+    [["--id", "event-1", "--shop", SHOP]],
+    [["event-1"]],
+  ])("should print usage for %j", async (argv) => {
+    expect(await handler.run(argv)).toBe(2);
+    expect(logger.linesFor(REPLAY_USAGE)).toEqual([
+      expect.objectContaining({ level: "error" }),
+    ]);
+    expect(list).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { EventBridgeWebhookHandler } from "../EventBridgeWebhookHandler";
+import { WebhookRequestHandler } from "../WebhookRequestHandler";
+import { WebhookDeadLetterRecorder } from "../WebhookDeadLetterRecorder";
+import {
+  ParsedWebhookResult,
+  WebhookPayloadParser,
+} from "../../parsers/WebhookPayloadParser";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const event = {
+  version: "0",
+  id: "event-1",
+  "detail-type": "shopifyWebhook",
+  source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+  account: "123456789012",
+  time: "2024-01-15T10:30:01Z",
+  region: "us-east-1",
+  resources: [],
+  detail: {
+    payload: { inventory_item_id: 12345 },
+    metadata: { "X-Shopify-Topic": "inventory_levels/update" },
+  },
+};
+
+const response = (statusCode: number, body: unknown = {}) => ({
+  statusCode,
+  body: JSON.stringify(body),
+  headers: { "Content-Type": "application/json" },
+});
+
+describe("EventBridgeWebhookHandler", () => {
+  let handle: jest.Mock;
+  let record: jest.Mock;
+  let handler: EventBridgeWebhookHandler;
+
+  beforeEach(() => {
+    handle = jest.fn().mockResolvedValue(response(200));
+    record = jest.fn().mockResolvedValue(undefined);
+    handler = new EventBridgeWebhookHandler(
+      { handle } as unknown as WebhookRequestHandler,
+      new WebhookPayloadParser(new InMemoryLogger()),
+      { record } as unknown as WebhookDeadLetterRecorder
+    );
+  });
+
+  it("should process the event and return the response", async () => {
+    let parsed: ParsedWebhookResult | undefined;
+    handle.mockImplementation(async (parse: () => ParsedWebhookResult) => {
+      parsed = parse();
+      return response(200);
+    });
+
+    expect(await handler.handle(event)).toEqual(response(200));
+    expect(parsed?.deliveryId).toBe("event-1");
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [
+      500,
+      { error: "Internal server error", details: "DynamoDB unavailable" },
+      "Internal server error: DynamoDB unavailable",
+    ],
+    [
+      207,
+      {
+        error: "Partial success: some updates failed",
+        details: { errors: [{ index: 0, reason: "Throttled" }] },
+      },
+      "Partial success: some updates failed: Throttled",
+    ],
+  ])("should dead-letter the event on %i", async (statusCode, body, reason) => {
+    handle.mockResolvedValue(response(statusCode, body));
+
+    expect(await handler.handle(event)).toEqual(response(statusCode, body));
+    expect(record).toHaveBeenCalledWith(
+      JSON.stringify(event),
+      { statusCode, reason },
+      1
+    );
+  });
+
+  it("should not dead-letter events that were rejected", async () => {
+    handle.mockResolvedValue(response(400, { error: "Bad request" }));
+
+    await handler.handle(event);
+
+    expect(record).not.toHaveBeenCalled();
+  });
+
+  it("should throw when the event cannot be dead-lettered", async () => {
+    handle.mockResolvedValue(response(500));
+    record.mockRejectedValue(new Error("DynamoDB unavailable"));
+
+    await expect(handler.handle(event)).rejects.toThrow("DynamoDB unavailable");
+  });
+});
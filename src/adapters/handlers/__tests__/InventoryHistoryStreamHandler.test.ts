@@ -0,0 +1,101 @@
+import type { DynamoDBRecord, DynamoDBStreamEvent } from "aws-lambda";
+import { marshall } from "@aws-sdk/util-dynamodb";
+import { InventoryHistoryStreamHandler } from "../InventoryHistoryStreamHandler";
+import { InventoryHistoryEntry } from "../../../domain/entities/InventoryHistoryEntry";
+import { ProcessInventoryChangeUseCase } from "../../../domain/usecases/ProcessInventoryChangeUseCase";
+import { toHistoryItem } from "../../repositories/DynamoDBInventoryHistoryRepository";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const entry = (eventId: string) =>
+  new InventoryHistoryEntry(
+    "myshop.myshopify.com",
+    55555,
+    789,
+    10,
+    3,
+    new Date("2024-01-15T10:30:00Z"),
+    new Date("2024-02-01T00:00:00Z"),
+    12345,
+    eventId,
+    "inventory_levels/update"
+  );
+
+const record = (
+  sequenceNumber: string,
+  item: Record<string, unknown> = toHistoryItem(entry(`evt-${sequenceNumber}`)),
+  eventName: DynamoDBRecord["eventName"] = "INSERT"
+) =>
+  ({
+    eventID: `event-${sequenceNumber}`,
+    eventName,
+    dynamodb: {
+      SequenceNumber: sequenceNumber,
+      NewImage: marshall(item, { removeUndefinedValues: true }),
+    },
+  }) as unknown as DynamoDBRecord;
+
+const batch = (...records: DynamoDBRecord[]): DynamoDBStreamEvent => ({
+  Records: records,
+});
+
+describe("InventoryHistoryStreamHandler", () => {
+  let execute: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: InventoryHistoryStreamHandler;
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue(undefined);
+    logger = new InMemoryLogger();
+    handler = new InventoryHistoryStreamHandler(
+      { execute } as unknown as ProcessInventoryChangeUseCase,
+      logger
+    );
+  });
+
+  it("should process each new entry in order", async () => {
+    const result = await handler.handle(batch(record("1"), record("2")));
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(execute.mock.calls).toEqual([[entry("evt-1")], [entry("evt-2")]]);
+  });
+
+  it("should ignore entries that are modified or removed", async () => {
+    const result = await handler.handle(
+      batch(record("1", undefined, "MODIFY"), record("2", undefined, "REMOVE"))
+    );
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(execute).not.toHaveBeenCalled();
+  });
+
+  it("should stop at the first failure and report it for redelivery", async () => {
+    execute
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error("PutEvents failed"));
+
+    const result = await handler.handle(
+      batch(record("1"), record("2"), record("3"))
+    );
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: "2" }] });
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(logger.linesFor("Inventory change will be retried")).toEqual([
+      expect.objectContaining({
+        sequenceNumber: "2",
+        error: "PutEvents failed",
+      }),
+    ]);
+  });
+
+  it("should skip entries it cannot read rather than block the shard", async () => {
+    const result = await handler.handle(
+      batch(record("1", { shop_variant_id: "myshop#55555" }), record("2"))
+    );
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(execute.mock.calls).toEqual([[entry("evt-2")]]);
+    expect(
+      logger.linesFor("Skipped unreadable inventory history entry")
+    ).toHaveLength(1);
+  });
+});
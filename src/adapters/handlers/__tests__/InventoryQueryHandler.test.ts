@@ -0,0 +1,281 @@
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+import { InventoryQueryHandler } from "../InventoryQueryHandler";
+import { GetVariantInventoryUseCase } from "../../../domain/usecases/GetVariantInventoryUseCase";
+import { InventoryLevel } from "../../../domain/entities/InventoryLevel";
+import { Location } from "../../../domain/entities/Location";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const VARIANT_ROUTE = "GET /shops/{shop}/variants/{variantId}/inventory";
+const LOCATION_ROUTE =
+  "GET /shops/{shop}/variants/{variantId}/locations/{locationId}";
+
+const request = (
+  routeKey: string,
+  pathParameters: Record<string, string>,
+  apiKey = "key-1"
+) =>
+  ({
+    routeKey,
+    pathParameters,
+    headers: apiKey ? { "x-api-key": apiKey } : {},
+  }) as unknown as APIGatewayProxyEventV2;
+
+const bodyOf = (response: unknown) =>
+  JSON.parse((response as { body: string }).body);
+
+describe("InventoryQueryHandler", () => {
+  const date = new Date("2024-01-15T10:30:00Z");
+  const level = new InventoryLevel("myshop.myshopify.com", 55555, 789, 12, date, 12345);
+  const location = new Location(
+    "myshop.myshopify.com",
+    789,
+    "Main warehouse",
+    {
+      address1: null,
+      address2: null,
+      city: null,
+      province: null,
+      provinceCode: null,
+      zip: null,
+      country: null,
+      countryCode: null,
+    },
+    true,
+    true,
+    date
+  );
+
+  let execute: jest.Mock;
+  let getLevel: jest.Mock;
+  let validate: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: InventoryQueryHandler;
+
+  beforeEach(() => {
+    execute = jest.fn().mockResolvedValue({
+      shopName: "myshop.myshopify.com",
+      variantId: 55555,
+      levels: [{ level, location, sellable: true }],
+      sellableTotal: 12,
+    });
+    getLevel = jest
+      .fn()
+      .mockResolvedValue({ level, location: null, sellable: true });
+    validate = jest.fn().mockResolvedValue(true);
+    logger = new InMemoryLogger();
+    handler = new InventoryQueryHandler(
+      { execute, getLevel } as unknown as GetVariantInventoryUseCase,
+      { validate },
+      logger
+    );
+  });
+
+  describe("variant inventory", () => {
+    const params = { shop: "myshop.myshopify.com", variantId: "55555" };
+
+    it("should return every level with its location", async () => {
+      const response = await handler.handle(request(VARIANT_ROUTE, params));
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 200 }));
+      expect(execute).toHaveBeenCalledWith({
+        shopName: "myshop.myshopify.com",
+        variantId: 55555,
+      });
+      expect(bodyOf(response)).toEqual({
+        shopName: "myshop.myshopify.com",
+        variantId: 55555,
+        sellableTotal: 12,
+        levels: [
+          {
+            locationId: 789,
+            available: 12,
+            updatedAt: "2024-01-15T10:30:00.000Z",
+            sellable: true,
+            orphaned: false,
+            location: {
+              name: "Main warehouse",
+              active: true,
+              fulfillsOnlineOrders: true,
+              deleted: false,
+            },
+          },
+        ],
+      });
+    });
+
+    it("should return 404 when the variant has no inventory", async () => {
+      execute.mockResolvedValue({
+        shopName: "myshop.myshopify.com",
+        variantId: 55555,
+        levels: [],
+        sellableTotal: 0,
+      });
+
+      const response = await handler.handle(request(VARIANT_ROUTE, params));
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 404 }));
+      expect(bodyOf(response).error).toBe(
+        "Not found: no inventory for variant 55555"
+      );
+    });
+
+    it.each(["abc", "0", "-1", "1.5", "99999999999999999999"])(
+      "should reject variant ID %s",
+      async (variantId) => {
+        const response = await handler.handle(
+          request(VARIANT_ROUTE, { ...params, variantId })
+        );
+
+        expect(response).toEqual(expect.objectContaining({ statusCode: 400 }));
+        expect(bodyOf(response).error).toBe(
+          `Bad request: Invalid variant ID: ${variantId}`
+        );
+        expect(execute).not.toHaveBeenCalled();
+      }
+    );
+  });
+
+  describe("location inventory", () => {
+    const params = {
+      shop: "myshop.myshopify.com",
+      variantId: "55555",
+      locationId: "789",
+    };
+
+    it("should return the level at the location", async () => {
+      const response = await handler.handle(request(LOCATION_ROUTE, params));
+
+      expect(getLevel).toHaveBeenCalledWith({
+        shopName: "myshop.myshopify.com",
+        variantId: 55555,
+        locationId: 789,
+      });
+      expect(bodyOf(response)).toEqual({
+        shopName: "myshop.myshopify.com",
+        variantId: 55555,
+        locationId: 789,
+        available: 12,
+        updatedAt: "2024-01-15T10:30:00.000Z",
+        sellable: true,
+        orphaned: false,
+        location: null,
+      });
+    });
+
+    it("should return 404 when the variant is not stocked there", async () => {
+      getLevel.mockResolvedValue(null);
+
+      const response = await handler.handle(request(LOCATION_ROUTE, params));
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 404 }));
+      expect(bodyOf(response).error).toBe(
+        "Not found: no inventory for variant 55555 at location 789"
+      );
+    });
+
+    it("should reject an invalid location ID", async () => {
+      const response = await handler.handle(
+        request(LOCATION_ROUTE, { ...params, locationId: "main" })
+      );
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 400 }));
+      expect(bodyOf(response).error).toBe(
+        "Bad request: Invalid location ID: main"
+      );
+    });
+  });
+
+  describe("authentication", () => {
+    const params = { shop: "myshop.myshopify.com", variantId: "55555" };
+
+    it("should check the key against the shop in the path", async () => {
+      await handler.handle(request(VARIANT_ROUTE, params, "key-1"));
+
+      expect(validate).toHaveBeenCalledWith("myshop.myshopify.com", "key-1");
+    });
+
+    it("should return 401 for a rejected key", async () => {
+      validate.mockResolvedValue(false);
+
+      const response = await handler.handle(request(VARIANT_ROUTE, params));
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 401 }));
+      expect(bodyOf(response).error).toBe("Unauthorized: Invalid API key");
+      expect(execute).not.toHaveBeenCalled();
+      expect(logger.linesFor("Query API key rejected")).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          shopName: "myshop.myshopify.com",
+        }),
+      ]);
+    });
+
+    it("should pass a missing key to the validator", async () => {
+      validate.mockResolvedValue(false);
+
+      await handler.handle(request(VARIANT_ROUTE, params, ""));
+
+      expect(validate).toHaveBeenCalledWith("myshop.myshopify.com", undefined);
+    });
+
+    it("should authenticate before validating the path", async () => {
+      validate.mockResolvedValue(false);
+
+      const response = await handler.handle(
+        request(VARIANT_ROUTE, { ...params, variantId: "abc" })
+      );
+
+      expect(response).toEqual(expect.objectContaining({ statusCode: 401 }));
+    });
+  });
+
+  it("should return 400 when the shop is missing", async () => {
+    const response = await handler.handle(
+      request(VARIANT_ROUTE, { variantId: "55555" })
+    );
+
+    expect(response).toEqual(expect.objectContaining({ statusCode: 400 }));
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it("should normalize the shop in the path", async () => {
+    await handler.handle(
+      request(VARIANT_ROUTE, { shop: "MyShop", variantId: "55555" }, "key-1")
+    );
+
+    expect(validate).toHaveBeenCalledWith("myshop.myshopify.com", "key-1");
+    expect(execute).toHaveBeenCalledWith({
+      shopName: "myshop.myshopify.com",
+      variantId: 55555,
+    });
+  });
+
+  it("should return 400 for a malformed shop", async () => {
+    const response = await handler.handle(
+      request(VARIANT_ROUTE, { shop: "my shop", variantId: "55555" })
+    );
+
+    expect(response).toEqual(expect.objectContaining({ statusCode: 400 }));
+    expect(bodyOf(response).error).toBe(
+      "Bad request: Invalid shop domain: my shop"
+    );
+    expect(validate).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for unknown routes", async () => {
+    const response = await handler.handle(request("GET /shops/{shop}", {}));
+
+    expect(response).toEqual(expect.objectContaining({ statusCode: 404 }));
+  });
+
+  it("should return 500 without details when a read fails", async () => {
+    execute.mockRejectedValue(new Error("DynamoDB timeout"));
+
+    const response = await handler.handle(
+      request(VARIANT_ROUTE, { shop: "myshop.myshopify.com", variantId: "55555" })
+    );
+
+    expect(response).toEqual(expect.objectContaining({ statusCode: 500 }));
+    expect(bodyOf(response)).toEqual({ error: "Internal server error" });
+  });
+});
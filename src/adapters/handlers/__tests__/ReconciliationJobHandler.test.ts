@@ -0,0 +1,102 @@
+import { ReconciliationJobHandler } from "../ReconciliationJobHandler";
+import {
+  ReconcileInventoryUseCase,
+  ReconciliationReport,
+} from "../../../domain/usecases/ReconcileInventoryUseCase";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+describe("ReconciliationJobHandler", () => {
+  const startedAt = new Date("2024-02-01T00:00:00Z");
+  const report = (shopName: string, discrepancyCount = 0): ReconciliationReport => ({
+    shopName,
+    repair: false,
+    variantsChecked: 3,
+    levelsChecked: 6,
+    discrepancies: Array.from({ length: discrepancyCount }, (_, index) => ({
+      kind: "missing" as const,
+      variantId: 100 + index,
+      inventoryItemId: 200 + index,
+      locationId: 1,
+      shopifyAvailable: 5,
+      storedAvailable: null,
+    })),
+    repairedCount: 0,
+    startedAt,
+    completedAt: startedAt,
+  });
+
+  let execute: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: ReconciliationJobHandler;
+
+  beforeEach(() => {
+    execute = jest.fn(async ({ shopName }) => report(shopName));
+    logger = new InMemoryLogger();
+    handler = new ReconciliationJobHandler(
+      { execute } as unknown as ReconcileInventoryUseCase,
+      logger
+    );
+  });
+
+  it("should reconcile each shop in turn", async () => {
+    const result = await handler.handle({
+      shopNames: ["a.myshopify.com", "b.myshopify.com"],
+      repair: true,
+    });
+
+    expect(execute).toHaveBeenNthCalledWith(1, {
+      shopName: "a.myshopify.com",
+      repair: true,
+    });
+    expect(execute).toHaveBeenNthCalledWith(2, {
+      shopName: "b.myshopify.com",
+      repair: true,
+    });
+    expect(result).toEqual({
+      reports: [report("a.myshopify.com"), report("b.myshopify.com")],
+      failures: [],
+    });
+  });
+
+  it("should only report discrepancies unless repair is set", async () => {
+    await handler.handle({ shopNames: ["a.myshopify.com"] });
+
+    expect(execute).toHaveBeenCalledWith({
+      shopName: "a.myshopify.com",
+      repair: false,
+    });
+  });
+
+  it("should log discrepancies as a warning", async () => {
+    execute.mockResolvedValue(report("a.myshopify.com", 2));
+
+    await handler.handle({ shopNames: ["a.myshopify.com"] });
+
+    expect(logger.linesFor("Inventory discrepancies found")).toEqual([
+      expect.objectContaining({ level: "warn", shopName: "a.myshopify.com" }),
+    ]);
+  });
+
+  it("should carry on with the other shops when one fails", async () => {
+    execute.mockRejectedValueOnce(new Error("Shop is suspended: a.myshopify.com"));
+
+    const result = await handler.handle({
+      shopNames: ["a.myshopify.com", "b.myshopify.com"],
+    });
+
+    expect(result.reports).toEqual([report("b.myshopify.com")]);
+    expect(result.failures).toEqual([
+      {
+        shopName: "a.myshopify.com",
+        error: "Shop is suspended: a.myshopify.com",
+      },
+    ]);
+  });
+
+  it("should reject a job without shops", async () => {
+    await expect(handler.handle({ shopNames: [] })).rejects.toThrow(
+      "Invalid reconciliation job: shopNames is required"
+    );
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
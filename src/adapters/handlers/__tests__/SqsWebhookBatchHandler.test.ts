@@ -0,0 +1,229 @@
+import type { SQSEvent, SQSRecord } from "aws-lambda";
+import { SqsWebhookBatchHandler } from "../SqsWebhookBatchHandler";
+import { WebhookRequestHandler } from "../WebhookRequestHandler";
+import { WebhookDeadLetterRecorder } from "../WebhookDeadLetterRecorder";
+import {
+  ParsedWebhookResult,
+  WebhookPayloadParser,
+} from "../../parsers/WebhookPayloadParser";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const eventBridgeEvent = (id: string) => ({
+  version: "0",
+  id,
+  "detail-type": "shopifyWebhook",
+  source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+  account: "123456789012",
+  time: "2024-01-15T10:30:01Z",
+  region: "us-east-1",
+  resources: [],
+  detail: {
+    payload: { inventory_item_id: 12345 },
+    metadata: { "X-Shopify-Topic": "inventory_levels/update" },
+  },
+});
+
+const record = (
+  messageId: string,
+  body = JSON.stringify(eventBridgeEvent(messageId)),
+  receiveCount = 2
+) =>
+  ({
+    messageId,
+    body,
+    attributes: { ApproximateReceiveCount: String(receiveCount) },
+  }) as unknown as SQSRecord;
+
+const batch = (...records: SQSRecord[]): SQSEvent => ({ Records: records });
+
+const response = (statusCode: number) => ({
+  statusCode,
+  body: "{}",
+  headers: { "Content-Type": "application/json" },
+});
+
+describe("SqsWebhookBatchHandler", () => {
+  let handle: jest.Mock;
+  let logger: InMemoryLogger;
+  let handler: SqsWebhookBatchHandler;
+
+  beforeEach(() => {
+    handle = jest.fn().mockResolvedValue(response(200));
+    logger = new InMemoryLogger();
+    handler = new SqsWebhookBatchHandler(
+      { handle } as unknown as WebhookRequestHandler,
+      new WebhookPayloadParser(logger),
+      logger
+    );
+  });
+
+  it("should process each message's EventBridge event in order", async () => {
+    const parsed: ParsedWebhookResult[] = [];
+    handle.mockImplementation(async (parse: () => ParsedWebhookResult) => {
+      parsed.push(parse());
+      return response(200);
+    });
+
+    const result = await handler.handle(batch(record("m-1"), record("m-2")));
+
+    expect(result).toEqual({ batchItemFailures: [] });
+    expect(parsed.map((p) => [p.channel, p.deliveryId])).toEqual([
+      ["eventbridge", "m-1"],
+      ["eventbridge", "m-2"],
+    ]);
+  });
+
+  it("should report only the messages that failed", async () => {
+    handle
+      .mockResolvedValueOnce(response(200))
+      .mockResolvedValueOnce(response(500))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await handler.handle(
+      batch(record("m-1"), record("m-2"), record("m-3"))
+    );
+
+    expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: "m-2" }] });
+    expect(logger.linesFor("Webhook message will be retried")).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        messageId: "m-2",
+        receiveCount: 2,
+        statusCode: 500,
+      }),
+    ]);
+  });
+
+  it("should retry messages where some updates failed", async () => {
+    handle.mockResolvedValue(response(207));
+
+    const result = await handler.handle(batch(record("m-1")));
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: "m-1" }]);
+  });
+
+  it.each([400, 401, 403])(
+    "should drop messages rejected with %i instead of retrying them",
+    async (statusCode) => {
+      handle.mockResolvedValue(response(statusCode));
+
+      const result = await handler.handle(batch(record("m-1")));
+
+      expect(result.batchItemFailures).toEqual([]);
+      expect(logger.linesFor("Webhook message dropped")).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          messageId: "m-1",
+          receiveCount: 2,
+          statusCode,
+        }),
+      ]);
+    }
+  );
+
+  it("should retry a message whose processing throws and carry on", async () => {
+    handle
+      .mockRejectedValueOnce(new Error("Connection reset"))
+      .mockResolvedValueOnce(response(200));
+
+    const result = await handler.handle(batch(record("m-1"), record("m-2")));
+
+    expect(result.batchItemFailures).toEqual([{ itemIdentifier: "m-1" }]);
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+
+  it("should surface unparseable bodies as request failures", async () => {
+    let thrown: unknown;
+    handle.mockImplementation(async (parse: () => ParsedWebhookResult) => {
+      try {
+        parse();
+      } catch (error) {
+        thrown = error;
+      }
+      return response(400);
+    });
+
+    const result = await handler.handle(batch(record("m-1", "not json")));
+
+    expect((thrown as Error).message).toBe("Invalid SQS message body: m-1");
+    expect(result.batchItemFailures).toEqual([]);
+  });
+
+  describe("dead letters", () => {
+    let deadLetter: jest.Mock;
+
+    beforeEach(() => {
+      deadLetter = jest.fn().mockResolvedValue(undefined);
+      handler = new SqsWebhookBatchHandler(
+        { handle } as unknown as WebhookRequestHandler,
+        new WebhookPayloadParser(logger),
+        logger,
+        { record: deadLetter } as unknown as WebhookDeadLetterRecorder,
+        3
+      );
+    });
+
+    it("should keep retrying before the last delivery", async () => {
+      handle.mockResolvedValue(response(500));
+
+      const result = await handler.handle(batch(record("m-1")));
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: "m-1" }]);
+      expect(deadLetter).not.toHaveBeenCalled();
+    });
+
+    it("should dead-letter and remove a message failing its last delivery", async () => {
+      const message = record("m-1", undefined, 3);
+      handle.mockResolvedValue({
+        ...response(500),
+        body: JSON.stringify({ error: "Internal server error", details: "Throttled" }),
+      });
+
+      const result = await handler.handle(batch(message));
+
+      expect(result.batchItemFailures).toEqual([]);
+      expect(deadLetter).toHaveBeenCalledWith(
+        message.body,
+        { statusCode: 500, reason: "Internal server error: Throttled" },
+        3
+      );
+    });
+
+    it("should dead-letter a message whose processing throws", async () => {
+      handle.mockRejectedValue(new Error("Connection reset"));
+
+      await handler.handle(batch(record("m-1", undefined, 3)));
+
+      expect(deadLetter).toHaveBeenCalledWith(
+        expect.any(String),
+        { statusCode: 500, reason: "Connection reset" },
+        3
+      );
+    });
+
+    it("should leave a message to the queue when it cannot be dead-lettered", async () => {
+      handle.mockResolvedValue(response(500));
+      deadLetter.mockRejectedValue(new Error("DynamoDB unavailable"));
+
+      const result = await handler.handle(batch(record("m-1", undefined, 3)));
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: "m-1" }]);
+      expect(logger.linesFor("Failed to dead-letter webhook message")).toEqual([
+        expect.objectContaining({
+          level: "error",
+          messageId: "m-1",
+          receiveCount: 3,
+          error: "DynamoDB unavailable",
+        }),
+      ]);
+    });
+
+    it("should not dead-letter rejected messages", async () => {
+      handle.mockResolvedValue(response(400));
+
+      await handler.handle(batch(record("m-1", undefined, 3)));
+
+      expect(deadLetter).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { createHash } from "crypto";
+import {
+  failureOf,
+  WebhookDeadLetterRecorder,
+} from "../WebhookDeadLetterRecorder";
+import { DeadLetteredWebhook } from "../../../domain/entities/DeadLetteredWebhook";
+import {
+  DeadLetterRepository,
+  WebhookFailure,
+} from "../../../domain/ports/DeadLetterRepository";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const response = (statusCode: number, body: unknown) => ({
+  statusCode,
+  body: JSON.stringify(body),
+  headers: { "Content-Type": "application/json" },
+});
+
+describe("WebhookDeadLetterRecorder", () => {
+  const failedAt = new Date("2024-01-15T10:30:00Z");
+  const event = JSON.stringify({
+    version: "0",
+    id: "event-1",
+    "detail-type": "shopifyWebhook",
+    source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+    account: "123456789012",
+    time: "2024-01-15T10:30:01Z",
+    region: "us-east-1",
+    resources: [],
+    detail: {
+      payload: { inventory_item_id: 12345 },
+      metadata: {
+        "X-Shopify-Topic": "inventory_levels/update",
+        "X-Shopify-Shop-Domain": "MyShop.myshopify.com",
+      },
+    },
+  });
+
+  let record: jest.Mock;
+  let logger: InMemoryLogger;
+  let recorder: WebhookDeadLetterRecorder;
+
+  beforeEach(() => {
+    record = jest.fn(
+      async (failure: WebhookFailure) =>
+        new DeadLetteredWebhook(
+          failure.id,
+          failure.event,
+          failure.reason,
+          failure.statusCode,
+          failure.attempts,
+          failure.failedAt,
+          failure.failedAt,
+          failure.shopName,
+          failure.topic
+        )
+    );
+    logger = new InMemoryLogger();
+    recorder = new WebhookDeadLetterRecorder(
+      { record } as unknown as DeadLetterRepository,
+      logger,
+      () => failedAt.getTime()
+    );
+  });
+
+  it("should record the event under its ID with its shop and topic", async () => {
+    await recorder.record(event, { statusCode: 500, reason: "Internal server error" }, 3);
+
+    expect(record).toHaveBeenCalledWith({
+      id: "event-1",
+      event,
+      reason: "Internal server error",
+      statusCode: 500,
+      attempts: 3,
+      failedAt,
+      shopName: "myshop.myshopify.com",
+      topic: "inventory_levels/update",
+    });
+    expect(logger.linesFor("Webhook dead-lettered")).toEqual([
+      expect.objectContaining({ level: "warn", id: "event-1", attemptCount: 3 }),
+    ]);
+  });
+
+  it("should key unreadable events by a hash of their content", async () => {
+    await recorder.record("not json", { statusCode: 500, reason: "Boom" }, 1);
+
+    expect(record).toHaveBeenCalledWith({
+      id: createHash("sha256").update("not json").digest("hex"),
+      event: "not json",
+      reason: "Boom",
+      statusCode: 500,
+      attempts: 1,
+      failedAt,
+    });
+  });
+
+  describe("failureOf", () => {
+    it.each([
+      ["a success", response(200, { message: "ok" }), null],
+      [
+        "a server error",
+        response(500, { error: "Internal server error", details: "DynamoDB unavailable" }),
+        { statusCode: 500, reason: "Internal server error: DynamoDB unavailable" },
+      ],
+      [
+        "a partial success",
+        response(207, {
+          error: "Partial success: some updates failed",
+          details: {
+            errors: [
+              { index: 0, reason: "Throttled" },
+              { index: 2, reason: "Timed out" },
+            ],
+          },
+        }),
+        {
+          statusCode: 207,
+          reason: "Partial success: some updates failed: Throttled; Timed out",
+        },
+      ],
+      [
+        "a client error",
+        response(400, { error: "Bad request: Invalid payload" }),
+        { statusCode: 400, reason: "Bad request: Invalid payload" },
+      ],
+      [
+        "an unreadable body",
+        { statusCode: 502, body: "Bad gateway" },
+        { statusCode: 502, reason: "HTTP 502" },
+      ],
+    ])("should describe %s", (_description, webhookResponse, expected) => {
+      expect(failureOf(webhookResponse)).toEqual(expected);
+    });
+  });
+});
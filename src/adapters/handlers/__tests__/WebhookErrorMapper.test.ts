@@ -0,0 +1,119 @@
+import { isRetryable, WebhookErrorMapper } from "../WebhookErrorMapper";
+import { AuthenticationError } from "../../../domain/errors/AuthenticationError";
+import { AuthenticationUnavailableError } from "../../../domain/errors/AuthenticationUnavailableError";
+import { DomainValidationError } from "../../../domain/errors/DomainValidationError";
+import { PayloadValidationError } from "../../../domain/errors/PayloadValidationError";
+import { ShopAccessError } from "../../../domain/errors/ShopAccessError";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { UnsupportedTopicError } from "../../../domain/errors/UnsupportedTopicError";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import { InMemoryMetrics } from "../../metrics/InMemoryMetrics";
+
+const bodyOf = (response: unknown) =>
+  JSON.parse((response as { body: string }).body);
+const statusOf = (response: unknown) =>
+  (response as { statusCode: number }).statusCode;
+
+describe("WebhookErrorMapper", () => {
+  const dimensions = {
+    shop: "myshop.myshopify.com",
+    topic: "inventory_levels/update",
+  };
+
+  let logger: InMemoryLogger;
+  let metrics: InMemoryMetrics;
+  let mapper: WebhookErrorMapper;
+
+  beforeEach(() => {
+    logger = new InMemoryLogger();
+    metrics = new InMemoryMetrics();
+    mapper = new WebhookErrorMapper(logger, metrics);
+  });
+
+  it.each([
+    [new AuthenticationError("Invalid webhook signature"), 401],
+    [new AuthenticationUnavailableError("Unable to verify webhook: Throttled"), 503],
+    [new ShopAccessError("Shop is suspended", "myshop.myshopify.com"), 403],
+    [new PayloadValidationError("Invalid location payload"), 400],
+    [new DomainValidationError("Available stock cannot be negative"), 400],
+    [new TransientStorageError("DynamoDB temporarily unavailable"), 503],
+    [new Error("Connection reset"), 500],
+    ["not an error", 500],
+  ])("should map %p to %i", (error, statusCode) => {
+    expect(statusOf(mapper.toResponse(error, dimensions))).toBe(statusCode);
+  });
+
+  it("should acknowledge unsupported topics as ignored", () => {
+    const response = mapper.toResponse(
+      new UnsupportedTopicError("orders/create"),
+      { ...dimensions, topic: "orders/create" }
+    );
+
+    expect(statusOf(response)).toBe(200);
+    expect(bodyOf(response)).toEqual({
+      message: "Webhook topic ignored",
+      topic: "orders/create",
+      processed: 0,
+      ignored: true,
+    });
+    expect(metrics.total("WebhooksSkipped", { reason: "unsupported" })).toBe(1);
+  });
+
+  it("should count validation failures by shop and topic", () => {
+    const response = mapper.toResponse(
+      new DomainValidationError("Available stock cannot be negative"),
+      dimensions
+    );
+
+    expect(bodyOf(response).error).toBe(
+      "Bad request: Available stock cannot be negative"
+    );
+    expect(metrics.total("ValidationFailures", dimensions)).toBe(1);
+  });
+
+  it("should not reveal why authentication failed", () => {
+    const response = mapper.toResponse(
+      new AuthenticationError("Invalid webhook signature"),
+      dimensions
+    );
+
+    expect(bodyOf(response).error).toBe(
+      "Unauthorized: Webhook authentication failed"
+    );
+    expect(metrics.total("AuthenticationFailures", dimensions)).toBe(1);
+  });
+
+  it("should ask for a retry when storage is briefly unavailable", () => {
+    const response = mapper.toResponse(
+      new TransientStorageError("DynamoDB temporarily unavailable: Rate exceeded")
+    );
+
+    expect(isRetryable(statusOf(response))).toBe(true);
+    expect(logger.linesFor("Storage temporarily unavailable")).toEqual([
+      expect.objectContaining({ level: "warn" }),
+    ]);
+  });
+
+  it("should log unexpected errors with their stack", () => {
+    mapper.toResponse(new Error("Connection reset"));
+
+    expect(logger.linesFor("Unexpected error processing webhook")).toEqual([
+      expect.objectContaining({
+        level: "error",
+        error: "Connection reset",
+        stack: expect.any(String),
+      }),
+    ]);
+  });
+
+  it.each([
+    [500, true],
+    [503, true],
+    [207, true],
+    [409, true],
+    [400, false],
+    [403, false],
+  ])("should treat %i as retryable: %s", (statusCode, expected) => {
+    expect(isRetryable(statusCode)).toBe(expected);
+  });
+});
@@ -0,0 +1,550 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { WebhookRequestHandler } from "../WebhookRequestHandler";
+import { WebhookProcessingResult } from "../../../domain/usecases/WebhookProcessingResult";
+import { AuthenticationError } from "../../../domain/errors/AuthenticationError";
+import { PayloadValidationError } from "../../../domain/errors/PayloadValidationError";
+import { Shop } from "../../../domain/entities/Shop";
+import { VariantMapping } from "../../../domain/entities/VariantMapping";
+import { ProcessInventoryWebhookUseCase } from "../../../domain/usecases/ProcessInventoryWebhookUseCase";
+import { ShopRegistry } from "../../../domain/services/ShopRegistry";
+import { WebhookAuthenticator } from "../../../domain/services/WebhookAuthenticator";
+import { DynamoDBDeduplicationStore } from "../../repositories/DynamoDBDeduplicationStore";
+import { InMemoryDeduplicationStore } from "../../repositories/InMemoryDeduplicationStore";
+import { DynamoDBInventoryRepository } from "../../repositories/DynamoDBInventoryRepository";
+import { LocalDynamoDB } from "../../repositories/__tests__/support/LocalDynamoDB";
+import { ParsedWebhookResult } from "../../parsers/WebhookPayloadParser";
+import { TopicRegistry } from "../../topics/TopicRegistry";
+import { TopicHandler } from "../../topics/TopicHandler";
+import { shopifyTopicHandlers, ShopifyTopicUseCases } from "../../topics/ShopifyTopics";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import { InMemoryMetrics } from "../../metrics/InMemoryMetrics";
+
+const processed: WebhookProcessingResult = {
+  success: true,
+  processedCount: 1,
+  skippedCount: 0,
+  skipped: [],
+  errors: [],
+};
+
+const payload = {
+  inventory_item_id: 12345,
+  location_id: 789,
+  available: 50,
+  updated_at: "2024-01-15T10:30:00Z",
+};
+
+const parsedWebhook = (
+  overrides: Partial<ParsedWebhookResult> = {}
+): ParsedWebhookResult => ({
+  channel: "eventbridge",
+  payload,
+  headers: {
+    "X-Shopify-Shop-Domain": "myshop.myshopify.com",
+    "X-Shopify-Topic": "inventory_levels/update",
+    "X-Shopify-Webhook-Id": "wh-1",
+  },
+  body: "{}",
+  deliveryId: "eb-1",
+  eventTime: "2024-01-15T10:30:01Z",
+  source: "aws.partner/shopify.com/1/events",
+  account: "123456789012",
+  ...overrides,
+});
+
+const bodyOf = (response: unknown) =>
+  JSON.parse((response as { body: string }).body);
+const statusOf = (response: unknown) =>
+  (response as { statusCode: number }).statusCode;
+
+describe("WebhookRequestHandler", () => {
+  const shop = new Shop(
+    "myshop.myshopify.com",
+    "active",
+    new Date("2024-01-01T00:00:00Z")
+  );
+
+  let topicHandler: TopicHandler & { parse: jest.Mock; handle: jest.Mock };
+  let deduplicationStore: InMemoryDeduplicationStore;
+  let getByShopName: jest.Mock;
+  let validate: jest.Mock;
+  let logger: InMemoryLogger;
+  let metrics: InMemoryMetrics;
+  let handler: WebhookRequestHandler;
+
+  beforeEach(() => {
+    topicHandler = {
+      topic: "inventory_levels/update",
+      parse: jest.fn((raw: unknown) => raw),
+      handle: jest.fn().mockResolvedValue(processed),
+    };
+    deduplicationStore = new InMemoryDeduplicationStore(60, 30);
+    getByShopName = jest.fn().mockResolvedValue(shop);
+    validate = jest.fn().mockResolvedValue(true);
+    logger = new InMemoryLogger();
+    metrics = new InMemoryMetrics();
+    handler = new WebhookRequestHandler(
+      new TopicRegistry().register(topicHandler),
+      deduplicationStore,
+      new ShopRegistry({ getByShopName, save: jest.fn() }),
+      new WebhookAuthenticator({ validate }),
+      logger,
+      metrics
+    );
+  });
+
+  it("should tag everything logged while processing with the webhook", async () => {
+    topicHandler.handle.mockImplementation(async () => {
+      logger.info("Saving inventory");
+      return processed;
+    });
+
+    await handler.handle(() => parsedWebhook());
+
+    const context = {
+      eventId: "eb-1",
+      webhookId: "wh-1",
+      shopName: "myshop.myshopify.com",
+      topic: "inventory_levels/update",
+    };
+    expect(logger.linesFor("Saving inventory")).toEqual([
+      expect.objectContaining(context),
+    ]);
+    expect(logger.linesFor("Webhook processed successfully")).toEqual([
+      expect.objectContaining(context),
+    ]);
+  });
+
+  it("should route the payload and context to the topic handler", async () => {
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(200);
+    expect(bodyOf(response)).toEqual({
+      message: "Webhook processed successfully",
+      processed: 1,
+      skipped: 0,
+    });
+    expect(topicHandler.parse).toHaveBeenCalledWith(payload);
+    expect(topicHandler.handle).toHaveBeenCalledWith(payload, {
+      channel: "eventbridge",
+      topic: "inventory_levels/update",
+      shopName: "myshop.myshopify.com",
+      shop,
+      headers: parsedWebhook().headers,
+      rawBody: "{}",
+      signature: undefined,
+      deliveryId: "eb-1",
+      eventTime: "2024-01-15T10:30:01Z",
+      eventSource: "aws.partner/shopify.com/1/events",
+      account: "123456789012",
+    });
+  });
+
+  it("should count received and processed webhooks by shop and topic", async () => {
+    await handler.handle(() => parsedWebhook());
+
+    const dimensions = {
+      shop: "myshop.myshopify.com",
+      topic: "inventory_levels/update",
+    };
+    expect(metrics.recorded).toEqual([
+      { name: "WebhooksReceived", value: 1, unit: "Count", dimensions },
+      { name: "WebhooksProcessed", value: 1, unit: "Count", dimensions },
+    ]);
+  });
+
+  describe("shop registry", () => {
+    it("should look up the normalized shop domain", async () => {
+      await handler.handle(() =>
+        parsedWebhook({
+          headers: {
+            "X-Shopify-Shop-Domain": "MyShop",
+            "X-Shopify-Topic": "inventory_levels/update",
+          },
+        })
+      );
+
+      expect(getByShopName).toHaveBeenCalledWith("myshop.myshopify.com");
+      expect(topicHandler.handle).toHaveBeenCalledWith(
+        payload,
+        expect.objectContaining({ shopName: "myshop.myshopify.com" })
+      );
+    });
+
+    it("should reject webhooks from unregistered shops", async () => {
+      getByShopName.mockResolvedValue(null);
+
+      const response = await handler.handle(() => parsedWebhook());
+
+      expect(statusOf(response)).toBe(403);
+      expect(bodyOf(response).error).toBe(
+        "Forbidden: Shop is not registered: myshop.myshopify.com"
+      );
+      expect(topicHandler.handle).not.toHaveBeenCalled();
+    });
+
+    it("should reject webhooks from suspended shops", async () => {
+      getByShopName.mockResolvedValue(
+        new Shop("myshop.myshopify.com", "suspended", new Date())
+      );
+
+      const response = await handler.handle(() => parsedWebhook());
+
+      expect(statusOf(response)).toBe(403);
+      expect(bodyOf(response).error).toBe(
+        "Forbidden: Shop is suspended: myshop.myshopify.com"
+      );
+      expect(topicHandler.handle).not.toHaveBeenCalled();
+    });
+
+    it("should not claim deliveries from rejected shops", async () => {
+      getByShopName.mockResolvedValueOnce(null);
+      await handler.handle(() => parsedWebhook());
+
+      const response = await handler.handle(() => parsedWebhook());
+
+      expect(statusOf(response)).toBe(200);
+      expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not reveal a shop's status to unauthenticated requests", async () => {
+      getByShopName.mockResolvedValue(null);
+      validate.mockResolvedValue(false);
+
+      const response = await handler.handle(() => parsedWebhook());
+
+      expect(statusOf(response)).toBe(401);
+      expect(JSON.stringify(bodyOf(response))).not.toContain("registered");
+    });
+
+    it("should authenticate with the shop's own secret whatever its status", async () => {
+      getByShopName.mockResolvedValue(
+        new Shop(
+          "myshop.myshopify.com",
+          "suspended",
+          new Date(),
+          "shopify-webhook-secret-myshop"
+        )
+      );
+
+      await handler.handle(() => parsedWebhook());
+
+      expect(validate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shopDomain: "myshop.myshopify.com",
+          webhookSecretName: "shopify-webhook-secret-myshop",
+          channel: "eventbridge",
+          eventSource: "aws.partner/shopify.com/1/events",
+          account: "123456789012",
+        })
+      );
+    });
+
+    it("should reject malformed shop domains", async () => {
+      const response = await handler.handle(() =>
+        parsedWebhook({
+          headers: {
+            "X-Shopify-Shop-Domain": "evil.example.com/x",
+            "X-Shopify-Topic": "inventory_levels/update",
+          },
+        })
+      );
+
+      expect(statusOf(response)).toBe(400);
+      expect(getByShopName).not.toHaveBeenCalled();
+    });
+  });
+
+  it("should report unregistered topics as ignored", async () => {
+    const response = await handler.handle(() =>
+      parsedWebhook({
+        headers: {
+          "X-Shopify-Shop-Domain": "myshop.myshopify.com",
+          "X-Shopify-Topic": "orders/create",
+        },
+      })
+    );
+
+    expect(statusOf(response)).toBe(200);
+    expect(bodyOf(response)).toEqual({
+      message: "Webhook topic ignored",
+      topic: "orders/create",
+      processed: 0,
+      ignored: true,
+    });
+    expect(logger.linesFor("Ignored unsupported webhook topic")).toEqual([
+      expect.objectContaining({
+        level: "info",
+        topic: "orders/create",
+        shopName: "myshop.myshopify.com",
+      }),
+    ]);
+    expect(
+      metrics.total("WebhooksSkipped", {
+        topic: "orders/create",
+        reason: "unsupported",
+      })
+    ).toBe(1);
+    expect(metrics.total("WebhooksProcessed")).toBe(0);
+    expect(topicHandler.handle).not.toHaveBeenCalled();
+  });
+
+  it("should reject payloads the topic handler cannot parse", async () => {
+    topicHandler.parse.mockImplementation(() => {
+      throw new PayloadValidationError("Invalid inventory level payload");
+    });
+
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(400);
+    expect(topicHandler.handle).not.toHaveBeenCalled();
+  });
+
+  it("should acknowledge a duplicate delivery without processing it", async () => {
+    await handler.handle(() => parsedWebhook());
+
+    const response = await handler.handle(() =>
+      parsedWebhook({ deliveryId: "eb-2" })
+    );
+
+    expect(statusOf(response)).toBe(200);
+    expect(bodyOf(response).duplicate).toBe(true);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ask for a redelivery while another attempt holds the claim", async () => {
+    let finish: (result: WebhookProcessingResult) => void = () => {};
+    topicHandler.handle.mockReturnValueOnce(
+      new Promise((resolve) => (finish = resolve))
+    );
+
+    const first = handler.handle(() => parsedWebhook());
+    const redelivered = await handler.handle(() =>
+      parsedWebhook({ deliveryId: "eb-2" })
+    );
+    finish(processed);
+
+    expect(statusOf(redelivered)).toBe(409);
+    expect(statusOf(await first)).toBe(200);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should process a redelivery once a dead attempt's lease expires", async () => {
+    let now = Date.parse("2024-01-15T10:30:00Z");
+    const store = new InMemoryDeduplicationStore(60, 30, () => now);
+    handler = new WebhookRequestHandler(
+      new TopicRegistry().register(topicHandler),
+      store,
+      new ShopRegistry({ getByShopName, save: jest.fn() }),
+      new WebhookAuthenticator({ validate }),
+      logger,
+      metrics
+    );
+    // The attempt that claimed the delivery timed out before finishing
+    await store.claim(["eventbridge:eb-1", "webhook:wh-1"]);
+    now += 30_000;
+
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(200);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should process an HTTP delivery that carries no IDs", async () => {
+    const db = new LocalDynamoDB({
+      "shopify-webhook-dedup-test": { hashKey: "dedup_key" },
+    });
+    handler = new WebhookRequestHandler(
+      new TopicRegistry().register(topicHandler),
+      new DynamoDBDeduplicationStore(
+        db.asDocumentClient(),
+        "shopify-webhook-dedup-test",
+        60,
+        30
+      ),
+      new ShopRegistry({ getByShopName, save: jest.fn() }),
+      new WebhookAuthenticator({ validate }),
+      logger,
+      metrics
+    );
+
+    const response = await handler.handle(() =>
+      parsedWebhook({
+        channel: "http",
+        headers: {
+          "X-Shopify-Shop-Domain": "myshop.myshopify.com",
+          "X-Shopify-Topic": "inventory_levels/update",
+        },
+        deliveryId: undefined,
+        eventTime: undefined,
+        source: undefined,
+        account: undefined,
+      })
+    );
+
+    expect(statusOf(response)).toBe(200);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should allow a retry after the use case fails", async () => {
+    topicHandler.handle.mockRejectedValueOnce(new Error("Throttled"));
+
+    const failed = await handler.handle(() => parsedWebhook());
+    const retried = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(failed)).toBe(500);
+    expect(statusOf(retried)).toBe(200);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return 207 and allow a retry when the save fails", async () => {
+    topicHandler.handle.mockResolvedValueOnce({
+      ...processed,
+      success: false,
+      processedCount: 0,
+      errors: [{ index: 0, reason: "DynamoDB error" }],
+    });
+
+    const failed = await handler.handle(() => parsedWebhook());
+    const retried = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(failed)).toBe(207);
+    expect(statusOf(retried)).toBe(200);
+  });
+
+  it("should not let an unauthenticated request claim a delivery", async () => {
+    validate.mockResolvedValueOnce(false);
+    const forged = await handler.handle(() => parsedWebhook());
+
+    const genuine = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(forged)).toBe(401);
+    expect(statusOf(genuine)).toBe(200);
+    expect(topicHandler.handle).toHaveBeenCalledTimes(1);
+  });
+
+  it("should ask for a retry when the webhook cannot be verified", async () => {
+    validate.mockRejectedValueOnce(new Error("Secrets Manager throttled"));
+
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(503);
+    expect(metrics.total("AuthenticationFailures")).toBe(0);
+    expect(topicHandler.handle).not.toHaveBeenCalled();
+  });
+
+  it("should map authentication failures to 401", async () => {
+    topicHandler.handle.mockRejectedValueOnce(
+      new AuthenticationError("Invalid webhook signature")
+    );
+
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(401);
+    expect(
+      metrics.total("AuthenticationFailures", { shop: "myshop.myshopify.com" })
+    ).toBe(1);
+  });
+
+  it("should map parse failures to 400", async () => {
+    const response = await handler.handle(() => {
+      throw new PayloadValidationError("Invalid EventBridge event structure");
+    });
+
+    expect(statusOf(response)).toBe(400);
+    expect(bodyOf(response).error).toBe(
+      "Bad request: Invalid EventBridge event structure"
+    );
+    expect(metrics.metricsFor("ValidationFailures")).toEqual([
+      { name: "ValidationFailures", value: 1, unit: "Count", dimensions: {} },
+    ]);
+  });
+
+  it("should not infer the status from the error message", async () => {
+    topicHandler.handle.mockRejectedValueOnce(
+      new Error("Invalid signature returned by upstream")
+    );
+
+    const response = await handler.handle(() => parsedWebhook());
+
+    expect(statusOf(response)).toBe(500);
+  });
+
+  describe("with the inventory use case", () => {
+    const TABLE = "shopify-inventory-test";
+    const HISTORY_TABLE = "shopify-inventory-history-test";
+
+    let db: LocalDynamoDB;
+
+    beforeEach(() => {
+      db = new LocalDynamoDB({
+        [TABLE]: { hashKey: "shop_variant_id", rangeKey: "location" },
+        [HISTORY_TABLE]: { hashKey: "shop_variant_id", rangeKey: "change_key" },
+      });
+      const inventory = new ProcessInventoryWebhookUseCase(
+        new DynamoDBInventoryRepository(
+          db.asDocumentClient(),
+          TABLE,
+          HISTORY_TABLE,
+          logger
+        ),
+        { validate },
+        {
+          saveMany: jest.fn(),
+          getByInventoryItem: async (shopName, inventoryItemId) =>
+            new VariantMapping(
+              shopName,
+              inventoryItemId,
+              55555,
+              777,
+              new Date("2024-01-01T00:00:00Z")
+            ),
+        },
+        {
+          defer: jest.fn(),
+          discard: jest.fn(),
+          findForInventoryItem: jest.fn().mockResolvedValue([]),
+          remove: jest.fn(),
+        },
+        logger,
+        metrics
+      );
+      const topics = new TopicRegistry();
+      shopifyTopicHandlers({
+        inventory,
+      } as unknown as ShopifyTopicUseCases).forEach((topic) =>
+        topics.register(topic)
+      );
+      handler = new WebhookRequestHandler(
+        topics,
+        deduplicationStore,
+        new ShopRegistry({ getByShopName, save: jest.fn() }),
+        new WebhookAuthenticator({ validate }),
+        logger,
+        metrics
+      );
+    });
+
+    it("should ask for a retry while the inventory table is throttled", async () => {
+      jest.spyOn(db, "send").mockRejectedValueOnce(
+        new ProvisionedThroughputExceededException({
+          message: "Rate exceeded",
+          $metadata: {},
+        })
+      );
+
+      const throttled = await handler.handle(() => parsedWebhook());
+      const retried = await handler.handle(() => parsedWebhook());
+
+      expect(statusOf(throttled)).toBe(503);
+      expect(bodyOf(throttled).error).toBe("Service unavailable");
+      expect(statusOf(retried)).toBe(200);
+      expect(
+        db.peek(TABLE, {
+          shop_variant_id: "myshop.myshopify.com#55555",
+          location: "789",
+        })
+      ).toEqual(expect.objectContaining({ stock_count: 50 }));
+    });
+  });
+});
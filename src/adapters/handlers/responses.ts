@@ -0,0 +1,34 @@
+import type { APIGatewayProxyResultV2 } from "aws-lambda";
+
+/**
+ * Build success response
+ */
+export function buildSuccessResponse(data: unknown): APIGatewayProxyResultV2 {
+  return {
+    statusCode: 200,
+    body: JSON.stringify(data),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  };
+}
+
+/**
+ * Build error response
+ */
+export function buildErrorResponse(
+  statusCode: number,
+  message: string,
+  details?: unknown
+): APIGatewayProxyResultV2 {
+  return {
+    statusCode,
+    body: JSON.stringify({
+      error: message,
+      details,
+    }),
+    headers: {
+      "Content-Type": "application/json",
+    },
+  };
+}
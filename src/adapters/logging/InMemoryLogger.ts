@@ -0,0 +1,24 @@
+import { LogLevel } from "../../domain/ports/Logger";
+import { JsonLogger } from "./JsonLogger";
+
+/**
+ * In-memory logger
+ * Suitable for tests; keeps every line it writes, parsed back into an
+ * object, with context and redaction applied as in production
+ */
+export class InMemoryLogger extends JsonLogger {
+  readonly lines: Array<Record<string, unknown>>;
+
+  constructor(level: LogLevel = "debug") {
+    const lines: Array<Record<string, unknown>> = [];
+    super({ level, write: (line) => lines.push(JSON.parse(line)) });
+    this.lines = lines;
+  }
+
+  /**
+   * Lines logged with the given message
+   */
+  linesFor(message: string): Array<Record<string, unknown>> {
+    return this.lines.filter((line) => line.message === message);
+  }
+}
@@ -0,0 +1,140 @@
+import { AsyncLocalStorage } from "async_hooks";
+import {
+  LogFields,
+  Logger,
+  LogLevel,
+} from "../../domain/ports/Logger";
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Field names whose values are credentials; names of secrets, such as
+ * webhookSecretName, are kept
+ */
+const SENSITIVE_KEY = /signature|hmac|secret|token|password|authorization|api[-_]?key/i;
+const NAME_KEY = /name$/i;
+
+/**
+ * Shopify access tokens and app secrets, wherever they appear in a value
+ */
+const SHOPIFY_CREDENTIAL = /\bshp(at|ca|pa|ss)_[0-9a-zA-Z]+/g;
+
+export interface JsonLoggerOptions {
+  /**
+   * Lines below this level are dropped
+   */
+  level?: LogLevel;
+  /**
+   * Receives each line; stdout by default, one JSON object per line
+   */
+  write?: (line: string) => void;
+  now?: () => number;
+}
+
+/**
+ * Logger writing one JSON object per line, carrying the fields of every
+ * enclosing context, with credentials redacted
+ */
+export class JsonLogger implements Logger {
+  private context = new AsyncLocalStorage<LogFields>();
+  private level: LogLevel;
+  private write: (line: string) => void;
+  private now: () => number;
+
+  constructor(options: JsonLoggerOptions = {}) {
+    this.level = options.level ?? "info";
+    this.write =
+      options.write ?? ((line) => process.stdout.write(`${line}\n`));
+    this.now = options.now ?? Date.now;
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log("error", message, fields);
+  }
+
+  withContext<T>(fields: LogFields, work: () => Promise<T>): Promise<T> {
+    return this.context.run({ ...this.context.getStore(), ...fields }, work);
+  }
+
+  private log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(this.level)) {
+      return;
+    }
+
+    this.write(
+      JSON.stringify(
+        redact({
+          level,
+          time: new Date(this.now()).toISOString(),
+          message,
+          ...this.context.getStore(),
+          ...fields,
+        })
+      )
+    );
+  }
+}
+
+/**
+ * Reads a log level such as LOG_LEVEL, case-insensitively
+ */
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.trim().toLowerCase() as LogLevel;
+  if (!LEVELS.includes(level)) {
+    throw new Error(`Unknown LOG_LEVEL: ${value}`);
+  }
+  return level;
+}
+
+function redact(value: unknown, ancestors = new WeakSet<object>()): unknown {
+  if (typeof value === "string") {
+    return value.replace(SHOPIFY_CREDENTIAL, REDACTED);
+  }
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (ancestors.has(value)) {
+    return "[Circular]";
+  }
+
+  ancestors.add(value);
+  try {
+    if (value instanceof Error) {
+      return redact(
+        { name: value.name, message: value.message, stack: value.stack },
+        ancestors
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item, ancestors));
+    }
+
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        SENSITIVE_KEY.test(key) && !NAME_KEY.test(key) && field !== undefined
+          ? REDACTED
+          : redact(field, ancestors),
+      ])
+    );
+  } finally {
+    ancestors.delete(value);
+  }
+}
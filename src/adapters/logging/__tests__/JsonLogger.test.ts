@@ -0,0 +1,166 @@
+import { JsonLogger, parseLogLevel } from "../JsonLogger";
+import { InMemoryLogger } from "../InMemoryLogger";
+
+describe("JsonLogger", () => {
+  const now = Date.parse("2024-01-15T10:30:00Z");
+
+  let lines: string[];
+  let logger: JsonLogger;
+
+  beforeEach(() => {
+    lines = [];
+    logger = new JsonLogger({
+      level: "info",
+      write: (line) => lines.push(line),
+      now: () => now,
+    });
+  });
+
+  it("should write one JSON object per line", () => {
+    logger.info("Webhook processed successfully", { processed: 1 });
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        level: "info",
+        time: "2024-01-15T10:30:00.000Z",
+        message: "Webhook processed successfully",
+        processed: 1,
+      },
+    ]);
+  });
+
+  it("should drop lines below the configured level", () => {
+    logger.debug("Webhook received");
+    logger.warn("Malformed webhook");
+
+    expect(lines.map((line) => JSON.parse(line).message)).toEqual([
+      "Malformed webhook",
+    ]);
+  });
+
+  describe("context", () => {
+    let memory: InMemoryLogger;
+
+    beforeEach(() => {
+      memory = new InMemoryLogger();
+    });
+
+    it("should add the context to every line logged within it", async () => {
+      await memory.withContext({ requestId: "req-1" }, async () => {
+        memory.info("Received SQS webhook batch");
+        await memory.withContext({ eventId: "eb-1" }, async () => {
+          memory.info("Parsed webhook");
+        });
+        memory.info("Processed webhook batch");
+      });
+      memory.info("Outside");
+
+      expect(
+        memory.lines.map(({ message, requestId, eventId }) => ({
+          message,
+          requestId,
+          eventId,
+        }))
+      ).toEqual([
+        { message: "Received SQS webhook batch", requestId: "req-1" },
+        { message: "Parsed webhook", requestId: "req-1", eventId: "eb-1" },
+        { message: "Processed webhook batch", requestId: "req-1" },
+        { message: "Outside" },
+      ]);
+    });
+
+    it("should keep concurrent contexts apart", async () => {
+      await Promise.all(
+        ["m-1", "m-2"].map((messageId) =>
+          memory.withContext({ messageId }, async () => {
+            await new Promise((resolve) => setImmediate(resolve));
+            memory.info("Webhook message processed", { expected: messageId });
+          })
+        )
+      );
+
+      for (const line of memory.lines) {
+        expect(line.messageId).toBe(line.expected);
+      }
+    });
+  });
+
+  describe("redaction", () => {
+    it("should redact signatures, secrets and tokens by field name", () => {
+      logger.info("Webhook received", {
+        headers: {
+          "X-Shopify-Hmac-SHA256": "c2lnbmF0dXJl",
+          "X-Shopify-Topic": "inventory_levels/update",
+        },
+        signature: "c2lnbmF0dXJl",
+        webhookSecret: "whsec",
+        accessToken: "token",
+        "x-api-key": "key-1",
+        Authorization: "Bearer abc",
+      });
+
+      expect(JSON.parse(lines[0])).toEqual(
+        expect.objectContaining({
+          headers: {
+            "X-Shopify-Hmac-SHA256": "[REDACTED]",
+            "X-Shopify-Topic": "inventory_levels/update",
+          },
+          signature: "[REDACTED]",
+          webhookSecret: "[REDACTED]",
+          accessToken: "[REDACTED]",
+          "x-api-key": "[REDACTED]",
+          Authorization: "[REDACTED]",
+        })
+      );
+    });
+
+    it("should keep the names of secrets", () => {
+      logger.info("Secret loaded", { webhookSecretName: "SHOP_A_SECRET" });
+
+      expect(JSON.parse(lines[0]).webhookSecretName).toBe("SHOP_A_SECRET");
+    });
+
+    it("should redact Shopify credentials wherever they appear", () => {
+      logger.error("Admin API request failed", {
+        error: "Invalid token shpat_0123456789abcdef for shop",
+      });
+
+      expect(JSON.parse(lines[0]).error).toBe(
+        "Invalid token [REDACTED] for shop"
+      );
+    });
+  });
+
+  it("should serialize errors, dates and circular references", () => {
+    const circular: Record<string, unknown> = { id: 1 };
+    circular.self = circular;
+    const shared = { id: 2 };
+
+    logger.error("Unexpected error processing webhook", {
+      error: new Error("Connection reset"),
+      at: new Date(now),
+      circular,
+      pair: [shared, shared],
+    });
+
+    const line = JSON.parse(lines[0]);
+    expect(line.error).toEqual(
+      expect.objectContaining({ name: "Error", message: "Connection reset" })
+    );
+    expect(line.at).toBe("2024-01-15T10:30:00.000Z");
+    expect(line.circular).toEqual({ id: 1, self: "[Circular]" });
+    expect(line.pair).toEqual([{ id: 2 }, { id: 2 }]);
+  });
+
+  describe("parseLogLevel", () => {
+    it("should read levels case-insensitively", () => {
+      expect(parseLogLevel(" DEBUG ")).toBe("debug");
+    });
+
+    it("should reject unknown levels", () => {
+      expect(() => parseLogLevel("verbose")).toThrow(
+        "Unknown LOG_LEVEL: verbose"
+      );
+    });
+  });
+});
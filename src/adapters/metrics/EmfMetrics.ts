@@ -0,0 +1,79 @@
+import {
+  MetricDimensions,
+  Metrics,
+  MetricUnit,
+} from "../../domain/ports/Metrics";
+
+export interface EmfMetricsOptions {
+  namespace: string;
+  /**
+   * Added as a dimension of every metric
+   */
+  environment: string;
+  /**
+   * Receives each metric; stdout by default, where CloudWatch Logs
+   * extracts it from the Lambda log
+   */
+  write?: (line: string) => void;
+  now?: () => number;
+}
+
+/**
+ * Metrics written as CloudWatch Embedded Metric Format log lines
+ * See: https://docs.aws.amazon.com/AmazonCloudWatch/latest/monitoring/CloudWatch_Embedded_Metric_Format_Specification.html
+ */
+export class EmfMetrics implements Metrics {
+  private write: (line: string) => void;
+  private now: () => number;
+
+  constructor(private options: EmfMetricsOptions) {
+    this.write =
+      options.write ?? ((line) => process.stdout.write(`${line}\n`));
+    this.now = options.now ?? Date.now;
+  }
+
+  count(name: string, dimensions: MetricDimensions, value = 1): void {
+    this.emit(name, value, "Count", dimensions);
+  }
+
+  duration(
+    name: string,
+    milliseconds: number,
+    dimensions: MetricDimensions
+  ): void {
+    this.emit(name, milliseconds, "Milliseconds", dimensions);
+  }
+
+  private emit(
+    name: string,
+    value: number,
+    unit: MetricUnit,
+    dimensions: MetricDimensions
+  ): void {
+    const values: Record<string, string> = {
+      environment: this.options.environment,
+    };
+    for (const [key, dimension] of Object.entries(dimensions)) {
+      if (dimension !== undefined) {
+        values[key] = dimension;
+      }
+    }
+
+    this.write(
+      JSON.stringify({
+        _aws: {
+          Timestamp: this.now(),
+          CloudWatchMetrics: [
+            {
+              Namespace: this.options.namespace,
+              Dimensions: [Object.keys(values)],
+              Metrics: [{ Name: name, Unit: unit }],
+            },
+          ],
+        },
+        ...values,
+        [name]: value,
+      })
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  MetricDimensions,
+  Metrics,
+  MetricUnit,
+} from "../../domain/ports/Metrics";
+
+export interface RecordedMetric {
+  name: string;
+  value: number;
+  unit: MetricUnit;
+  dimensions: Record<string, string>;
+}
+
+/**
+ * In-memory metrics
+ * Suitable for tests and local runs; keeps every metric it is sent
+ */
+export class InMemoryMetrics implements Metrics {
+  readonly recorded: RecordedMetric[] = [];
+
+  count(name: string, dimensions: MetricDimensions, value = 1): void {
+    this.record(name, value, "Count", dimensions);
+  }
+
+  duration(
+    name: string,
+    milliseconds: number,
+    dimensions: MetricDimensions
+  ): void {
+    this.record(name, milliseconds, "Milliseconds", dimensions);
+  }
+
+  /**
+   * Metrics recorded under the given name
+   */
+  metricsFor(name: string): RecordedMetric[] {
+    return this.recorded.filter((metric) => metric.name === name);
+  }
+
+  /**
+   * Total of the counts recorded under the given name, optionally only
+   * those with matching dimensions
+   */
+  total(name: string, dimensions: MetricDimensions = {}): number {
+    return this.metricsFor(name)
+      .filter((metric) =>
+        Object.entries(dimensions).every(
+          ([key, value]) => metric.dimensions[key] === value
+        )
+      )
+      .reduce((sum, metric) => sum + metric.value, 0);
+  }
+
+  private record(
+    name: string,
+    value: number,
+    unit: MetricUnit,
+    dimensions: MetricDimensions
+  ): void {
+    this.recorded.push({ name, value, unit, dimensions: defined(dimensions) });
+  }
+}
+
+function defined(dimensions: MetricDimensions): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(dimensions).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    )
+  );
+}
@@ -0,0 +1,63 @@
+import { EmfMetrics } from "../EmfMetrics";
+
+describe("EmfMetrics", () => {
+  const now = Date.parse("2024-01-15T10:30:00Z");
+
+  let lines: string[];
+  let metrics: EmfMetrics;
+
+  beforeEach(() => {
+    lines = [];
+    metrics = new EmfMetrics({
+      namespace: "ShopifyInventory",
+      environment: "prod",
+      write: (line) => lines.push(line),
+      now: () => now,
+    });
+  });
+
+  it("should write counts in Embedded Metric Format", () => {
+    metrics.count("WebhooksReceived", {
+      shop: "myshop.myshopify.com",
+      topic: "inventory_levels/update",
+    });
+
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      {
+        _aws: {
+          Timestamp: now,
+          CloudWatchMetrics: [
+            {
+              Namespace: "ShopifyInventory",
+              Dimensions: [["environment", "shop", "topic"]],
+              Metrics: [{ Name: "WebhooksReceived", Unit: "Count" }],
+            },
+          ],
+        },
+        environment: "prod",
+        shop: "myshop.myshopify.com",
+        topic: "inventory_levels/update",
+        WebhooksReceived: 1,
+      },
+    ]);
+  });
+
+  it("should write durations in milliseconds", () => {
+    metrics.duration("RepositoryLatency", 42, { operation: "save" });
+
+    const line = JSON.parse(lines[0]);
+    expect(line._aws.CloudWatchMetrics[0].Metrics).toEqual([
+      { Name: "RepositoryLatency", Unit: "Milliseconds" },
+    ]);
+    expect(line.RepositoryLatency).toBe(42);
+  });
+
+  it("should leave out dimensions that are not known", () => {
+    metrics.count("ValidationFailures", { shop: undefined }, 2);
+
+    const line = JSON.parse(lines[0]);
+    expect(line._aws.CloudWatchMetrics[0].Dimensions).toEqual([["environment"]]);
+    expect(line).not.toHaveProperty("shop");
+    expect(line.ValidationFailures).toBe(2);
+  });
+});
@@ -0,0 +1,40 @@
+import { InMemoryMetrics } from "../InMemoryMetrics";
+
+describe("InMemoryMetrics", () => {
+  let metrics: InMemoryMetrics;
+
+  beforeEach(() => {
+    metrics = new InMemoryMetrics();
+  });
+
+  it("should keep every metric with its defined dimensions", () => {
+    metrics.count("WebhooksReceived", { shop: "a.myshopify.com", topic: undefined });
+    metrics.duration("WebhookLag", 1500, { shop: "a.myshopify.com" });
+
+    expect(metrics.recorded).toEqual([
+      {
+        name: "WebhooksReceived",
+        value: 1,
+        unit: "Count",
+        dimensions: { shop: "a.myshopify.com" },
+      },
+      {
+        name: "WebhookLag",
+        value: 1500,
+        unit: "Milliseconds",
+        dimensions: { shop: "a.myshopify.com" },
+      },
+    ]);
+  });
+
+  it("should total counts matching the given dimensions", () => {
+    metrics.count("WebhooksSkipped", { shop: "a.myshopify.com", reason: "stale" });
+    metrics.count("WebhooksSkipped", { shop: "b.myshopify.com", reason: "stale" }, 2);
+    metrics.count("WebhooksSkipped", { shop: "a.myshopify.com", reason: "unsupported" });
+
+    expect(metrics.total("WebhooksSkipped")).toBe(4);
+    expect(metrics.total("WebhooksSkipped", { reason: "stale" })).toBe(3);
+    expect(metrics.total("WebhooksSkipped", { shop: "a.myshopify.com" })).toBe(2);
+    expect(metrics.total("WebhooksProcessed")).toBe(0);
+  });
+});
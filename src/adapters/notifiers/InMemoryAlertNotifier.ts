@@ -0,0 +1,14 @@
+import { StockAlert } from "../../domain/entities/StockAlert";
+import { AlertNotifier } from "../../domain/ports/AlertNotifier";
+
+/**
+ * In-memory alert notifier
+ * Suitable for tests and local runs; keeps every alert it is sent
+ */
+export class InMemoryAlertNotifier implements AlertNotifier {
+  readonly alerts: StockAlert[] = [];
+
+  async notify(alert: StockAlert): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
@@ -0,0 +1,52 @@
+import { PublishCommand, SNSClient } from "@aws-sdk/client-sns";
+import { StockAlert } from "../../domain/entities/StockAlert";
+import { AlertNotifier } from "../../domain/ports/AlertNotifier";
+
+const STATUS_LABELS = {
+  in_stock: "Back in stock",
+  low_stock: "Low stock",
+  sold_out: "Sold out",
+} as const;
+
+/**
+ * SNS adapter for stock alerts
+ * Publishes a JSON message with `type` and `status` message attributes so
+ * subscribers can filter recovery notices or sold-out alerts
+ */
+export class SnsAlertNotifier implements AlertNotifier {
+  constructor(
+    private client: SNSClient,
+    private topicArn: string
+  ) {}
+
+  async notify(alert: StockAlert): Promise<void> {
+    const type = alert.isRecovery() ? "recovery" : "alert";
+
+    await this.client.send(
+      new PublishCommand({
+        TopicArn: this.topicArn,
+        // SNS subjects are limited to 100 characters
+        Subject: `${STATUS_LABELS[alert.status]}: variant ${alert.variantId} at location ${alert.locationId}`.slice(
+          0,
+          100
+        ),
+        Message: JSON.stringify({
+          type,
+          shopName: alert.shopName,
+          variantId: alert.variantId,
+          locationId: alert.locationId,
+          status: alert.status,
+          previousStatus: alert.previousStatus,
+          available: alert.available,
+          lowStockThreshold: alert.lowStockThreshold,
+          changedAt: alert.changedAt.toISOString(),
+        }),
+        MessageAttributes: {
+          type: { DataType: "String", StringValue: type },
+          status: { DataType: "String", StringValue: alert.status },
+          shop: { DataType: "String", StringValue: alert.shopName },
+        },
+      })
+    );
+  }
+}
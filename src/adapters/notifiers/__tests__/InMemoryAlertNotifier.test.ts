@@ -0,0 +1,16 @@
+import { InMemoryAlertNotifier } from "../InMemoryAlertNotifier";
+import { StockAlert } from "../../../domain/entities/StockAlert";
+
+describe("InMemoryAlertNotifier", () => {
+  it("should keep alerts in the order they were sent", async () => {
+    const notifier = new InMemoryAlertNotifier();
+    const changedAt = new Date("2024-01-15T10:30:00Z");
+    const low = new StockAlert("myshop", 1, 789, "low_stock", "in_stock", 3, 5, changedAt);
+    const soldOut = new StockAlert("myshop", 1, 789, "sold_out", "low_stock", 0, 5, changedAt);
+
+    await notifier.notify(low);
+    await notifier.notify(soldOut);
+
+    expect(notifier.alerts).toEqual([low, soldOut]);
+  });
+});
@@ -0,0 +1,69 @@
+import { PublishCommand, SNSClient } from "@aws-sdk/client-sns";
+import { SnsAlertNotifier } from "../SnsAlertNotifier";
+import { StockAlert } from "../../../domain/entities/StockAlert";
+
+describe("SnsAlertNotifier", () => {
+  const changedAt = new Date("2024-01-15T10:30:00Z");
+
+  let send: jest.Mock;
+  let notifier: SnsAlertNotifier;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue({ MessageId: "msg-1" });
+    notifier = new SnsAlertNotifier(
+      { send } as unknown as SNSClient,
+      "arn:aws:sns:us-east-1:123456789012:stock-alerts"
+    );
+  });
+
+  it("should publish an alert with filterable attributes", async () => {
+    await notifier.notify(
+      new StockAlert("myshop", 55555, 789, "sold_out", "low_stock", 0, 5, changedAt)
+    );
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(PublishCommand);
+    expect(command.input.TopicArn).toBe(
+      "arn:aws:sns:us-east-1:123456789012:stock-alerts"
+    );
+    expect(command.input.Subject).toBe("Sold out: variant 55555 at location 789");
+    expect(JSON.parse(command.input.Message)).toEqual({
+      type: "alert",
+      shopName: "myshop",
+      variantId: 55555,
+      locationId: 789,
+      status: "sold_out",
+      previousStatus: "low_stock",
+      available: 0,
+      lowStockThreshold: 5,
+      changedAt: "2024-01-15T10:30:00.000Z",
+    });
+    expect(command.input.MessageAttributes).toEqual({
+      type: { DataType: "String", StringValue: "alert" },
+      status: { DataType: "String", StringValue: "sold_out" },
+      shop: { DataType: "String", StringValue: "myshop" },
+    });
+  });
+
+  it("should mark upward crossings as recoveries", async () => {
+    await notifier.notify(
+      new StockAlert("myshop", 55555, 789, "in_stock", "sold_out", 30, 5, changedAt)
+    );
+
+    const command = send.mock.calls[0][0];
+    expect(command.input.Subject).toBe(
+      "Back in stock: variant 55555 at location 789"
+    );
+    expect(command.input.MessageAttributes.type.StringValue).toBe("recovery");
+  });
+
+  it("should propagate publish errors", async () => {
+    send.mockRejectedValue(new Error("AuthorizationError"));
+
+    await expect(
+      notifier.notify(
+        new StockAlert("myshop", 55555, 789, "low_stock", "in_stock", 3, 5, changedAt)
+      )
+    ).rejects.toThrow("AuthorizationError");
+  });
+});
@@ -1,53 +1,282 @@
-import { WebhookInventoryLevelDTO } from "../../domain/usecases/ProcessInventoryWebhookUseCase";
+import type { APIGatewayProxyEventV2, SQSRecord } from "aws-lambda";
+import {
+  WebhookInventoryLevelConnectDTO,
+  WebhookInventoryLevelDisconnectDTO,
+  WebhookInventoryLevelDTO,
+} from "../../domain/usecases/ProcessInventoryWebhookUseCase";
+import {
+  InventoryItemDeleteWebhookDTO,
+  InventoryItemWebhookDTO,
+} from "../../domain/usecases/ProcessInventoryItemWebhookUseCase";
+import {
+  LocationDeleteWebhookDTO,
+  LocationWebhookDTO,
+} from "../../domain/usecases/ProcessLocationWebhookUseCase";
+import { ProductWebhookDTO } from "../../domain/usecases/ProcessProductWebhookUseCase";
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { WebhookChannel } from "../../domain/ports/WebhookValidator";
+import { Logger } from "../../domain/ports/Logger";
+import { PayloadValidationError } from "../../domain/errors/PayloadValidationError";
 import {
   isShopifyEventBridgeEvent,
   isShopifyEventBridgeDetail,
+  isInventoryLevelPayload,
   isInventoryLevelPayloadArray,
+  isInventoryLevelConnectPayload,
+  isInventoryLevelDisconnectPayload,
+  isProductPayload,
+  isInventoryItemPayload,
+  isInventoryItemDeletePayload,
+  isLocationPayload,
+  isLocationDeletePayload,
   isShopifyWebhookMetadata,
   type ShopifyEventBridgeEvent,
   type ShopifyWebhookMetadata,
 } from "../types/EventBridgeTypes";
 
+/**
+ * A webhook normalized from whichever channel delivered it
+ */
 export interface ParsedWebhookResult {
-  inventoryLevel: WebhookInventoryLevelDTO;
+  channel: WebhookChannel;
+  /**
+   * Topic-specific payload, validated by the topic's handler
+   */
+  payload: unknown;
   headers: ShopifyWebhookMetadata;
+  /**
+   * For HTTP, the exact request body. EventBridge delivers parsed JSON, so
+   * there this is re-serialized and cannot be HMAC-verified.
+   */
   body: string;
+  /**
+   * EventBridge event ID; absent for direct HTTP deliveries
+   */
+  deliveryId?: string;
+  /**
+   * EventBridge event time; absent for direct HTTP deliveries
+   */
+  eventTime?: string;
+  source?: string;
+  account?: string;
 }
 
 /**
  * Parses and validates webhook payload structure
+ * Channel parsing reports what arrived through the injected logger, with
+ * signatures redacted; payload and header helpers are pure and static
  */
 export class WebhookPayloadParser {
+  constructor(private logger: Logger) {}
+
   /**
-   * Parse EventBridge event and extract inventory levels and metadata
+   * Parse EventBridge event and extract payload and metadata
    */
-  static parseEventBridgeEvent(event: unknown): ParsedWebhookResult {
-    if (!isShopifyEventBridgeEvent(event)) {
-      throw new Error("Invalid EventBridge event structure");
+  parseEventBridgeEvent(event: unknown): ParsedWebhookResult {
+    return this.logged("eventbridge", () => {
+      if (!isShopifyEventBridgeEvent(event)) {
+        throw new PayloadValidationError("Invalid EventBridge event structure");
+      }
+
+      const eventBridgeEvent = event as ShopifyEventBridgeEvent;
+      const detail = eventBridgeEvent.detail;
+
+      if (!isShopifyEventBridgeDetail(detail)) {
+        throw new PayloadValidationError("Invalid EventBridge detail structure");
+      }
+
+      if (!isShopifyWebhookMetadata(detail.metadata)) {
+        throw new PayloadValidationError("Invalid metadata in EventBridge event");
+      }
+
+      const headers = detail.metadata as ShopifyWebhookMetadata;
+      const body = JSON.stringify(detail.payload);
+
+      return {
+        channel: "eventbridge",
+        payload: detail.payload,
+        headers,
+        body,
+        deliveryId: eventBridgeEvent.id,
+        eventTime: eventBridgeEvent.time,
+        source: eventBridgeEvent.source,
+        account: eventBridgeEvent.account,
+      };
+    });
+  }
+
+  /**
+   * Parse an EventBridge event buffered through SQS, which delivers the
+   * whole event as the message body
+   */
+  parseSqsRecord(record: SQSRecord): ParsedWebhookResult {
+    let event: unknown;
+    try {
+      event = JSON.parse(record.body);
+    } catch {
+      const error = new PayloadValidationError(`Invalid SQS message body: ${record.messageId}`);
+      this.logger.warn("Malformed webhook", {
+        channel: "eventbridge",
+        error: error.message,
+      });
+      throw error;
     }
 
-    const eventBridgeEvent = event as ShopifyEventBridgeEvent;
-    const detail = eventBridgeEvent.detail;
+    return this.parseEventBridgeEvent(event);
+  }
+
+  /**
+   * Parse a webhook posted directly to API Gateway
+   * Header names are lower-cased and base64 bodies decoded, keeping the
+   * exact bytes Shopify signed
+   */
+  parseApiGatewayEvent(event: APIGatewayProxyEventV2): ParsedWebhookResult {
+    return this.logged("http", () => {
+      const headers: ShopifyWebhookMetadata = {};
+      Object.entries(event.headers ?? {}).forEach(([name, value]) => {
+        headers[name.toLowerCase()] = value;
+      });
+
+      if (!event.body) {
+        throw new PayloadValidationError("Invalid webhook request: empty body");
+      }
+
+      const body = event.isBase64Encoded
+        ? Buffer.from(event.body, "base64").toString("utf8")
+        : event.body;
+
+      let payload: unknown;
+      try {
+        payload = JSON.parse(body);
+      } catch (error) {
+        throw new PayloadValidationError("Invalid JSON in webhook body");
+      }
 
-    if (!isShopifyEventBridgeDetail(detail)) {
-      throw new Error("Invalid EventBridge detail structure");
+      if (typeof payload !== "object" || payload === null) {
+        throw new PayloadValidationError("Invalid webhook request: body must be a JSON object");
+      }
+
+      return {
+        channel: "http",
+        payload,
+        headers,
+        body,
+      };
+    });
+  }
+
+  private logged(
+    channel: WebhookChannel,
+    parse: () => ParsedWebhookResult
+  ): ParsedWebhookResult {
+    let parsed: ParsedWebhookResult;
+    try {
+      parsed = parse();
+    } catch (error) {
+      this.logger.warn("Malformed webhook", {
+        channel,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      throw error;
     }
 
-    if (!isShopifyWebhookMetadata(detail.metadata)) {
-      throw new Error("Invalid metadata in EventBridge event");
+    this.logger.debug("Webhook received", {
+      channel,
+      eventId: parsed.deliveryId,
+      headers: parsed.headers,
+    });
+    return parsed;
+  }
+
+  /**
+   * Validate an inventory_levels/* webhook payload
+   */
+  static parseInventoryLevelPayload(payload: unknown): WebhookInventoryLevelDTO {
+    if (!isInventoryLevelPayload(payload)) {
+      throw new PayloadValidationError("Invalid inventory level payload");
     }
+    return payload;
+  }
 
-    const inventoryLevel = detail.payload as WebhookInventoryLevelDTO;
-    const headers = detail.metadata as ShopifyWebhookMetadata;
-    const body = JSON.stringify({ inventory_levels: [inventoryLevel] });
+  /**
+   * Validate an inventory_levels/connect payload
+   */
+  static parseInventoryLevelConnectPayload(
+    payload: unknown
+  ): WebhookInventoryLevelConnectDTO {
+    if (!isInventoryLevelConnectPayload(payload)) {
+      throw new PayloadValidationError("Invalid inventory level payload");
+    }
+    return payload;
+  }
 
+  /**
+   * Validate an inventory_levels/disconnect payload
+   */
+  static parseInventoryLevelDisconnectPayload(
+    payload: unknown
+  ): WebhookInventoryLevelDisconnectDTO {
+    if (!isInventoryLevelDisconnectPayload(payload)) {
+      throw new PayloadValidationError("Invalid inventory level payload");
+    }
     return {
-      inventoryLevel,
-      headers,
-      body,
+      inventory_item_id: payload.inventory_item_id,
+      location_id: payload.location_id,
     };
   }
 
+  /**
+   * Validate a products/create or products/update payload
+   */
+  static parseProductPayload(payload: unknown): ProductWebhookDTO {
+    if (!isProductPayload(payload)) {
+      throw new PayloadValidationError("Invalid product payload");
+    }
+    return payload;
+  }
+
+  /**
+   * Validate an inventory_items/create or inventory_items/update payload
+   */
+  static parseInventoryItemPayload(payload: unknown): InventoryItemWebhookDTO {
+    if (!isInventoryItemPayload(payload)) {
+      throw new PayloadValidationError("Invalid inventory item payload");
+    }
+    return payload;
+  }
+
+  /**
+   * Validate an inventory_items/delete payload
+   */
+  static parseInventoryItemDeletePayload(
+    payload: unknown
+  ): InventoryItemDeleteWebhookDTO {
+    if (!isInventoryItemDeletePayload(payload)) {
+      throw new PayloadValidationError("Invalid inventory item payload");
+    }
+    return { id: payload.id };
+  }
+
+  /**
+   * Validate a locations/create or locations/update payload
+   */
+  static parseLocationPayload(payload: unknown): LocationWebhookDTO {
+    if (!isLocationPayload(payload)) {
+      throw new PayloadValidationError("Invalid location payload");
+    }
+    return payload;
+  }
+
+  /**
+   * Validate a locations/delete payload
+   */
+  static parseLocationDeletePayload(payload: unknown): LocationDeleteWebhookDTO {
+    if (!isLocationDeletePayload(payload)) {
+      throw new PayloadValidationError("Invalid location payload");
+    }
+    return { id: payload.id };
+  }
+
   /**
    * Parse and extract inventory levels from webhook payload
    */
@@ -56,7 +285,7 @@ export class WebhookPayloadParser {
       const payload = JSON.parse(body);
 
       if (!Array.isArray(payload.inventory_levels)) {
-        throw new Error("Missing or invalid inventory_levels array");
+        throw new PayloadValidationError("Missing or invalid inventory_levels array");
       }
 
       // Validate each inventory level entry
@@ -67,26 +296,26 @@ export class WebhookPayloadParser {
       return payload.inventory_levels as WebhookInventoryLevelDTO[];
     } catch (error) {
       if (error instanceof SyntaxError) {
-        throw new Error("Invalid JSON in webhook body");
+        throw new PayloadValidationError("Invalid JSON in webhook body");
       }
       throw error;
     }
   }
 
   /**
-   * Extract shop name from headers
+   * Extract the shop name from headers, normalized to its myshopify.com
+   * domain so every spelling of a shop maps to the same records
    */
   static extractShopName(headers: Record<string, string | undefined>): string {
     const shopDomain =
       headers["x-shopify-shop-domain"] ||
-      headers["X-Shopify-Shop-Domain"] ||
-      headers["x-shopify-shop-api-call-limit"];
+      headers["X-Shopify-Shop-Domain"];
 
     if (!shopDomain) {
-      throw new Error("Unable to extract shop name from headers");
+      throw new PayloadValidationError("Unable to extract shop name from headers");
     }
 
-    return shopDomain;
+    return normalizeShopDomain(shopDomain);
   }
 
   /**
@@ -110,36 +339,96 @@ export class WebhookPayloadParser {
     );
   }
 
+  /**
+   * Extract the delivery ID, which is stable across Shopify retries
+   */
+  static extractWebhookId(headers: Record<string, string | undefined>): string | undefined {
+    return (
+      headers["x-shopify-webhook-id"] ||
+      headers["X-Shopify-Webhook-Id"]
+    );
+  }
+
+  /**
+   * Extract the ID of the Shopify event that triggered the webhook
+   */
+  static extractEventId(headers: Record<string, string | undefined>): string | undefined {
+    return (
+      headers["x-shopify-event-id"] ||
+      headers["X-Shopify-Event-Id"]
+    );
+  }
+
+  /**
+   * When Shopify triggered the webhook, from its header or else the
+   * EventBridge event time; undefined if neither holds a valid date
+   */
+  static extractTriggeredAt(
+    headers: Record<string, string | undefined>,
+    eventTime?: string
+  ): Date | undefined {
+    return [
+      headers["x-shopify-triggered-at"] || headers["X-Shopify-Triggered-At"],
+      eventTime,
+    ]
+      .map((value) => (value ? new Date(value) : undefined))
+      .find((date) => date !== undefined && !isNaN(date.getTime()));
+  }
+
+  /**
+   * Build the keys used to recognise a redelivered webhook
+   * The EventBridge ID catches replays of the same event; the Shopify IDs
+   * catch the same webhook arriving inside a new EventBridge event
+   */
+  static buildDeduplicationKeys(
+    eventBridgeId: string | undefined,
+    headers: Record<string, string | undefined>
+  ): string[] {
+    const keys = eventBridgeId ? [`eventbridge:${eventBridgeId}`] : [];
+
+    const webhookId = this.extractWebhookId(headers);
+    if (webhookId) {
+      keys.push(`webhook:${webhookId}`);
+    }
+
+    const eventId = this.extractEventId(headers);
+    if (eventId) {
+      keys.push(`event:${eventId}:${this.extractTopic(headers)}`);
+    }
+
+    return keys;
+  }
+
   private static validateInventoryLevel(
     level: unknown,
     index: number
   ): void {
     if (typeof level !== "object" || level === null) {
-      throw new Error(`Invalid inventory level at index ${index}: not an object`);
+      throw new PayloadValidationError(`Invalid inventory level at index ${index}: not an object`);
     }
 
     const obj = level as Record<string, unknown>;
 
     if (typeof obj.inventory_item_id !== "number") {
-      throw new Error(
+      throw new PayloadValidationError(
         `Invalid inventory_item_id at index ${index}: must be a number`
       );
     }
 
     if (typeof obj.location_id !== "number") {
-      throw new Error(
+      throw new PayloadValidationError(
         `Invalid location_id at index ${index}: must be a number`
       );
     }
 
     if (typeof obj.available !== "number") {
-      throw new Error(
+      throw new PayloadValidationError(
         `Invalid available stock at index ${index}: must be a number`
       );
     }
 
     if (typeof obj.updated_at !== "string") {
-      throw new Error(
+      throw new PayloadValidationError(
         `Invalid updated_at at index ${index}: must be a string (ISO 8601)`
       );
     }
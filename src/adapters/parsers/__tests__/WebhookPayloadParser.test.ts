@@ -1,6 +1,428 @@
+import type { APIGatewayProxyEventV2, SQSRecord } from "aws-lambda";
 import { WebhookPayloadParser } from "../WebhookPayloadParser";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import { PayloadValidationError } from "../../../domain/errors/PayloadValidationError";
 
 describe("WebhookPayloadParser", () => {
+  let logger: InMemoryLogger;
+  let parser: WebhookPayloadParser;
+
+  beforeEach(() => {
+    logger = new InMemoryLogger();
+    parser = new WebhookPayloadParser(logger);
+  });
+
+  describe("parseEventBridgeEvent", () => {
+    const payload = {
+      inventory_item_id: 12345,
+      location_id: 789,
+      available: 50,
+      updated_at: "2024-01-15T10:30:00Z",
+    };
+    const event = {
+      version: "0",
+      id: "eb-1",
+      "detail-type": "shopifyWebhook",
+      source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+      account: "123456789012",
+      time: "2024-01-15T10:30:01Z",
+      region: "us-east-1",
+      resources: [],
+      detail: {
+        payload,
+        metadata: { "X-Shopify-Topic": "inventory_levels/update" },
+      },
+    };
+
+    it("should return the payload, metadata, source and account", () => {
+      const result = parser.parseEventBridgeEvent(event);
+
+      expect(result.payload).toEqual(payload);
+      expect(result.headers).toEqual({
+        "X-Shopify-Topic": "inventory_levels/update",
+      });
+      expect(result.source).toBe(
+        "aws.partner/shopify.com/285340631041/shopify-events-dev"
+      );
+      expect(result.account).toBe("123456789012");
+    });
+
+    it("should serialize the payload itself as the body", () => {
+      const result = parser.parseEventBridgeEvent(event);
+
+      expect(JSON.parse(result.body)).toEqual(payload);
+    });
+
+    it("should throw on a non-EventBridge event", () => {
+      expect(() => {
+        parser.parseEventBridgeEvent({ foo: "bar" });
+      }).toThrow("Invalid EventBridge event structure");
+    });
+
+    it("should leave payload validation to the topic", () => {
+      const result = parser.parseEventBridgeEvent({
+        ...event,
+        detail: { ...event.detail, payload: { id: 1 } },
+      });
+
+      expect(result.payload).toEqual({ id: 1 });
+    });
+
+    it("should throw when the payload is not an object", () => {
+      expect(() => {
+        parser.parseEventBridgeEvent({
+          ...event,
+          detail: { ...event.detail, payload: "text" },
+        });
+      }).toThrow("Invalid EventBridge detail structure");
+    });
+
+    it("should log what arrived", () => {
+      parser.parseEventBridgeEvent(event);
+
+      expect(logger.linesFor("Webhook received")).toEqual([
+        expect.objectContaining({
+          level: "debug",
+          channel: "eventbridge",
+          eventId: "eb-1",
+          headers: { "X-Shopify-Topic": "inventory_levels/update" },
+        }),
+      ]);
+    });
+
+    it("should log malformed events", () => {
+      expect(() => parser.parseEventBridgeEvent({ foo: "bar" })).toThrow();
+
+      expect(logger.linesFor("Malformed webhook")).toEqual([
+        expect.objectContaining({
+          level: "warn",
+          channel: "eventbridge",
+          error: "Invalid EventBridge event structure",
+        }),
+      ]);
+    });
+  });
+
+  describe("parseSqsRecord", () => {
+    const event = {
+      version: "0",
+      id: "eb-1",
+      "detail-type": "shopifyWebhook",
+      source: "aws.partner/shopify.com/285340631041/shopify-events-dev",
+      account: "123456789012",
+      time: "2024-01-15T10:30:01Z",
+      region: "us-east-1",
+      resources: [],
+      detail: {
+        payload: { inventory_item_id: 12345 },
+        metadata: { "X-Shopify-Topic": "inventory_levels/update" },
+      },
+    };
+    const record = (body: string) =>
+      ({ messageId: "msg-1", body }) as unknown as SQSRecord;
+
+    it("should parse the EventBridge event in the message body", () => {
+      const result = parser.parseSqsRecord(
+        record(JSON.stringify(event))
+      );
+
+      expect(result).toEqual(parser.parseEventBridgeEvent(event));
+      expect(result.channel).toBe("eventbridge");
+      expect(result.deliveryId).toBe("eb-1");
+      expect(result.eventTime).toBe("2024-01-15T10:30:01Z");
+    });
+
+    it("should throw on a body that is not JSON", () => {
+      expect(() => {
+        parser.parseSqsRecord(record("not json"));
+      }).toThrow("Invalid SQS message body: msg-1");
+      expect(() => {
+        parser.parseSqsRecord(record("not json"));
+      }).toThrow(PayloadValidationError);
+    });
+
+    it("should throw on a body that is not an EventBridge event", () => {
+      expect(() => {
+        parser.parseSqsRecord(record("{}"));
+      }).toThrow("Invalid EventBridge event structure");
+    });
+  });
+
+  describe("parseApiGatewayEvent", () => {
+    const rawBody =
+      '{"inventory_item_id":12345,"location_id":789,"available":50,"updated_at":"2024-01-15T10:30:00Z"}';
+    const request = (overrides: Record<string, unknown> = {}) =>
+      ({
+        version: "2.0",
+        routeKey: "POST /webhooks",
+        rawPath: "/webhooks",
+        rawQueryString: "",
+        headers: {
+          "X-Shopify-Topic": "inventory_levels/update",
+          "X-Shopify-Hmac-SHA256": "sig",
+        },
+        requestContext: {},
+        body: rawBody,
+        isBase64Encoded: false,
+        ...overrides,
+      }) as unknown as APIGatewayProxyEventV2;
+
+    it("should keep the exact raw body for HMAC verification", () => {
+      const result = parser.parseApiGatewayEvent(request());
+
+      expect(result.channel).toBe("http");
+      expect(result.body).toBe(rawBody);
+      expect(result.payload).toEqual(JSON.parse(rawBody));
+      expect(result.deliveryId).toBeUndefined();
+    });
+
+    it("should decode base64-encoded bodies", () => {
+      const result = parser.parseApiGatewayEvent(
+        request({
+          body: Buffer.from(rawBody, "utf8").toString("base64"),
+          isBase64Encoded: true,
+        })
+      );
+
+      expect(result.body).toBe(rawBody);
+    });
+
+    it("should lower-case header names", () => {
+      const result = parser.parseApiGatewayEvent(request());
+
+      expect(WebhookPayloadParser.extractTopic(result.headers)).toBe(
+        "inventory_levels/update"
+      );
+      expect(result.headers["x-shopify-hmac-sha256"]).toBe("sig");
+    });
+
+    it("should throw on an empty body", () => {
+      expect(() => {
+        parser.parseApiGatewayEvent(request({ body: undefined }));
+      }).toThrow("Invalid webhook request: empty body");
+    });
+
+    it("should throw on invalid JSON", () => {
+      expect(() => {
+        parser.parseApiGatewayEvent(request({ body: "{ nope" }));
+      }).toThrow("Invalid JSON in webhook body");
+    });
+
+    it("should throw when the body is not a JSON object", () => {
+      expect(() => {
+        parser.parseApiGatewayEvent(request({ body: '"text"' }));
+      }).toThrow("Invalid webhook request: body must be a JSON object");
+    });
+
+    it("should redact the signature from the logged headers", () => {
+      parser.parseApiGatewayEvent(request());
+
+      expect(logger.linesFor("Webhook received")[0].headers).toEqual({
+        "x-shopify-topic": "inventory_levels/update",
+        "x-shopify-hmac-sha256": "[REDACTED]",
+      });
+    });
+  });
+
+  describe("parseInventoryLevelPayload", () => {
+    it("should return a valid inventory level payload", () => {
+      const payload = {
+        inventory_item_id: 12345,
+        location_id: 789,
+        available: 50,
+        updated_at: "2024-01-15T10:30:00Z",
+      };
+
+      expect(WebhookPayloadParser.parseInventoryLevelPayload(payload)).toBe(
+        payload
+      );
+    });
+
+    it("should throw when the payload is not an inventory level", () => {
+      expect(() => {
+        WebhookPayloadParser.parseInventoryLevelPayload({ id: 1 });
+      }).toThrow("Invalid inventory level payload");
+    });
+  });
+
+  describe("parseInventoryLevelConnectPayload", () => {
+    it("should accept a connection without stock", () => {
+      const payload = {
+        inventory_item_id: 12345,
+        location_id: 789,
+        available: null,
+        updated_at: "2024-01-15T10:30:00Z",
+      };
+
+      expect(
+        WebhookPayloadParser.parseInventoryLevelConnectPayload(payload)
+      ).toBe(payload);
+    });
+
+    it("should throw when updated_at is missing", () => {
+      expect(() => {
+        WebhookPayloadParser.parseInventoryLevelConnectPayload({
+          inventory_item_id: 12345,
+          location_id: 789,
+        });
+      }).toThrow("Invalid inventory level payload");
+    });
+  });
+
+  describe("parseInventoryLevelDisconnectPayload", () => {
+    it("should return the item and location IDs", () => {
+      expect(
+        WebhookPayloadParser.parseInventoryLevelDisconnectPayload({
+          inventory_item_id: 12345,
+          location_id: 789,
+          admin_graphql_api_id: "gid://shopify/InventoryLevel/1",
+        })
+      ).toEqual({ inventory_item_id: 12345, location_id: 789 });
+    });
+
+    it("should throw when the location is missing", () => {
+      expect(() => {
+        WebhookPayloadParser.parseInventoryLevelDisconnectPayload({
+          inventory_item_id: 12345,
+        });
+      }).toThrow("Invalid inventory level payload");
+    });
+  });
+
+  describe("parseProductPayload", () => {
+    it("should return a valid product payload", () => {
+      const payload = {
+        id: 777,
+        updated_at: "2024-01-15T10:30:00Z",
+        variants: [
+          { id: 55555, product_id: 777, inventory_item_id: 12345, sku: "A-1" },
+        ],
+      };
+
+      expect(WebhookPayloadParser.parseProductPayload(payload)).toBe(payload);
+    });
+
+    it("should throw when a variant has no inventory item", () => {
+      expect(() => {
+        WebhookPayloadParser.parseProductPayload({
+          id: 777,
+          updated_at: "2024-01-15T10:30:00Z",
+          variants: [{ id: 55555, product_id: 777 }],
+        });
+      }).toThrow("Invalid product payload");
+    });
+
+    it("should throw when variants are missing", () => {
+      expect(() => {
+        WebhookPayloadParser.parseProductPayload({
+          id: 777,
+          updated_at: "2024-01-15T10:30:00Z",
+        });
+      }).toThrow("Invalid product payload");
+    });
+  });
+
+  describe("parseInventoryItemPayload", () => {
+    const payload = {
+      id: 12345,
+      sku: "TSHIRT-RED-M",
+      tracked: true,
+      cost: "12.50",
+      country_code_of_origin: "PT",
+      requires_shipping: true,
+      updated_at: "2024-01-15T10:30:00Z",
+    };
+
+    it("should return a valid inventory item payload", () => {
+      expect(WebhookPayloadParser.parseInventoryItemPayload(payload)).toBe(
+        payload
+      );
+    });
+
+    it("should accept items without cost or origin", () => {
+      const { cost, country_code_of_origin, ...rest } = payload;
+
+      expect(() =>
+        WebhookPayloadParser.parseInventoryItemPayload({ ...rest, sku: null })
+      ).not.toThrow();
+    });
+
+    it("should throw when tracked is not a boolean", () => {
+      expect(() => {
+        WebhookPayloadParser.parseInventoryItemPayload({
+          ...payload,
+          tracked: "yes",
+        });
+      }).toThrow("Invalid inventory item payload");
+    });
+  });
+
+  describe("parseInventoryItemDeletePayload", () => {
+    it("should return only the item ID", () => {
+      expect(
+        WebhookPayloadParser.parseInventoryItemDeletePayload({
+          id: 12345,
+          admin_graphql_api_id: "gid://shopify/InventoryItem/12345",
+        })
+      ).toEqual({ id: 12345 });
+    });
+
+    it("should throw when the ID is missing", () => {
+      expect(() => {
+        WebhookPayloadParser.parseInventoryItemDeletePayload({});
+      }).toThrow("Invalid inventory item payload");
+    });
+  });
+
+  describe("parseLocationPayload", () => {
+    const payload = {
+      id: 789,
+      name: "Main warehouse",
+      address1: "1 Harbour Rd",
+      address2: null,
+      city: "Lisbon",
+      zip: "1000-001",
+      province: null,
+      country: "PT",
+      country_code: "PT",
+      active: true,
+      legacy: false,
+      updated_at: "2024-01-15T10:30:00Z",
+    };
+
+    it("should return a valid location payload", () => {
+      expect(WebhookPayloadParser.parseLocationPayload(payload)).toBe(payload);
+    });
+
+    it("should throw when active is missing", () => {
+      const { active, ...rest } = payload;
+
+      expect(() => {
+        WebhookPayloadParser.parseLocationPayload(rest);
+      }).toThrow("Invalid location payload");
+    });
+
+    it("should throw when an address field has the wrong type", () => {
+      expect(() => {
+        WebhookPayloadParser.parseLocationPayload({ ...payload, city: 7 });
+      }).toThrow("Invalid location payload");
+    });
+  });
+
+  describe("parseLocationDeletePayload", () => {
+    it("should return only the location ID", () => {
+      expect(
+        WebhookPayloadParser.parseLocationDeletePayload({ id: 789, name: "x" })
+      ).toEqual({ id: 789 });
+    });
+
+    it("should throw when the ID is missing", () => {
+      expect(() => {
+        WebhookPayloadParser.parseLocationDeletePayload({ name: "x" });
+      }).toThrow("Invalid location payload");
+    });
+  });
+
   describe("parseInventoryLevels", () => {
     it("should parse valid inventory levels from JSON", () => {
       const body = JSON.stringify({
@@ -181,22 +603,38 @@ describe("WebhookPayloadParser", () => {
       );
     });
 
-    it("should prefer x-shopify-shop-domain over fallback headers", () => {
-      const headers = {
-        "x-shopify-shop-domain": "primary.myshopify.com",
-        "x-shopify-shop-api-call-limit": "fallback.myshopify.com",
-      };
+    it("should normalize the shop domain", () => {
+      const headers = { "x-shopify-shop-domain": "MyShop" };
       expect(WebhookPayloadParser.extractShopName(headers)).toBe(
-        "primary.myshopify.com"
+        "myshop.myshopify.com"
       );
     });
 
+    it("should throw on a malformed shop domain", () => {
+      const headers = { "x-shopify-shop-domain": "my shop.example.com" };
+
+      expect(() => {
+        WebhookPayloadParser.extractShopName(headers);
+      }).toThrow("Invalid shop domain: my shop.example.com");
+    });
+
+    it("should not take the shop from other headers", () => {
+      const headers = { "x-shopify-shop-api-call-limit": "40/40" };
+
+      expect(() => {
+        WebhookPayloadParser.extractShopName(headers);
+      }).toThrow("Unable to extract shop name from headers");
+    });
+
     it("should throw when no shop domain header is present", () => {
       const headers = {};
 
       expect(() => {
         WebhookPayloadParser.extractShopName(headers);
       }).toThrow("Unable to extract shop name from headers");
+      expect(() => {
+        WebhookPayloadParser.extractShopName(headers);
+      }).toThrow(PayloadValidationError);
     });
 
     it("should handle case-insensitive header lookup", () => {
@@ -249,6 +687,86 @@ describe("WebhookPayloadParser", () => {
     });
   });
 
+  describe("extractWebhookId", () => {
+    it("should extract webhook ID from x-shopify-webhook-id header", () => {
+      const headers = { "x-shopify-webhook-id": "b54557e4-bdd9-4b37" };
+      expect(WebhookPayloadParser.extractWebhookId(headers)).toBe(
+        "b54557e4-bdd9-4b37"
+      );
+    });
+
+    it("should extract webhook ID from X-Shopify-Webhook-Id (capitalized)", () => {
+      const headers = { "X-Shopify-Webhook-Id": "b54557e4-bdd9-4b37" };
+      expect(WebhookPayloadParser.extractWebhookId(headers)).toBe(
+        "b54557e4-bdd9-4b37"
+      );
+    });
+
+    it("should return undefined when webhook ID header is missing", () => {
+      expect(WebhookPayloadParser.extractWebhookId({})).toBeUndefined();
+    });
+  });
+
+  describe("extractEventId", () => {
+    it("should extract event ID from x-shopify-event-id header", () => {
+      const headers = { "x-shopify-event-id": "98880550-7158-44d4" };
+      expect(WebhookPayloadParser.extractEventId(headers)).toBe(
+        "98880550-7158-44d4"
+      );
+    });
+
+    it("should return undefined when event ID header is missing", () => {
+      expect(WebhookPayloadParser.extractEventId({})).toBeUndefined();
+    });
+  });
+
+  describe("extractTriggeredAt", () => {
+    it("should prefer the X-Shopify-Triggered-At header", () => {
+      const headers = { "x-shopify-triggered-at": "2024-01-15T10:30:00.123Z" };
+      expect(
+        WebhookPayloadParser.extractTriggeredAt(headers, "2024-01-15T10:30:01Z")
+      ).toEqual(new Date("2024-01-15T10:30:00.123Z"));
+    });
+
+    it("should fall back to the EventBridge event time", () => {
+      expect(
+        WebhookPayloadParser.extractTriggeredAt({}, "2024-01-15T10:30:01Z")
+      ).toEqual(new Date("2024-01-15T10:30:01Z"));
+    });
+
+    it("should ignore values that are not dates", () => {
+      const headers = { "X-Shopify-Triggered-At": "yesterday" };
+      expect(
+        WebhookPayloadParser.extractTriggeredAt(headers, "2024-01-15T10:30:01Z")
+      ).toEqual(new Date("2024-01-15T10:30:01Z"));
+      expect(WebhookPayloadParser.extractTriggeredAt(headers)).toBeUndefined();
+    });
+  });
+
+  describe("buildDeduplicationKeys", () => {
+    it("should key on the EventBridge ID alone when no Shopify IDs exist", () => {
+      expect(WebhookPayloadParser.buildDeduplicationKeys("eb-1", {})).toEqual([
+        "eventbridge:eb-1",
+      ]);
+    });
+
+    it("should include webhook and topic-scoped event IDs", () => {
+      const headers = {
+        "x-shopify-topic": "inventory_levels/update",
+        "x-shopify-webhook-id": "wh-1",
+        "x-shopify-event-id": "ev-1",
+      };
+
+      expect(
+        WebhookPayloadParser.buildDeduplicationKeys("eb-1", headers)
+      ).toEqual([
+        "eventbridge:eb-1",
+        "webhook:wh-1",
+        "event:ev-1:inventory_levels/update",
+      ]);
+    });
+  });
+
   describe("integration scenarios", () => {
     it("should parse a complete realistic webhook payload", () => {
       const body = JSON.stringify({
@@ -0,0 +1,208 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  ScanCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { DeadLetteredWebhook } from "../../domain/entities/DeadLetteredWebhook";
+import {
+  DeadLetterFilter,
+  DeadLetterRepository,
+  WebhookFailure,
+} from "../../domain/ports/DeadLetterRepository";
+import { transient } from "./transient";
+
+/**
+ * DynamoDB adapter for dead-lettered webhook events
+ * One item per event, keyed by its EventBridge event ID
+ */
+export class DynamoDBDeadLetterRepository implements DeadLetterRepository {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  /**
+   * A single update, so concurrent failures of one event add up instead
+   * of overwriting each other's attempts
+   */
+  async record(failure: WebhookFailure): Promise<DeadLetteredWebhook> {
+    const assignments = [
+      "#event = :event",
+      "#reason = :reason",
+      "#status = :status",
+      "#first = if_not_exists(#first, :failed)",
+      "#last = :failed",
+    ];
+    const names: Record<string, string> = {
+      "#event": "event",
+      "#reason": "reason",
+      "#status": "status_code",
+      "#first": "first_failed_at",
+      "#last": "last_failed_at",
+      "#attempts": "attempt_count",
+      "#replayed": "replayed_at",
+    };
+    const values: Record<string, unknown> = {
+      ":event": failure.event,
+      ":reason": failure.reason,
+      ":status": failure.statusCode,
+      ":failed": failure.failedAt.toISOString(),
+      ":attempts": failure.attempts,
+    };
+    if (failure.shopName !== undefined) {
+      assignments.push("#shop = :shop");
+      names["#shop"] = "shop_name";
+      values[":shop"] = failure.shopName;
+    }
+    if (failure.topic !== undefined) {
+      assignments.push("#topic = :topic");
+      names["#topic"] = "topic";
+      values[":topic"] = failure.topic;
+    }
+
+    const result = await transient(() =>
+      this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { dead_letter_id: failure.id },
+          UpdateExpression: `SET ${assignments.join(", ")} REMOVE #replayed ADD #attempts :attempts`,
+          ExpressionAttributeNames: names,
+          ExpressionAttributeValues: values,
+          ReturnValues: "ALL_NEW",
+        })
+      )
+    );
+
+    return this.toEntity(result.Attributes ?? {});
+  }
+
+  async get(id: string): Promise<DeadLetteredWebhook | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { dead_letter_id: id },
+        })
+      )
+    );
+
+    return result.Item ? this.toEntity(result.Item) : null;
+  }
+
+  /**
+   * Scans the whole table; dead letters are expected to be few, and the
+   * replay command is run by hand
+   */
+  async list(filter: DeadLetterFilter): Promise<DeadLetteredWebhook[]> {
+    const conditions: string[] = [];
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+
+    if (filter.shopName !== undefined) {
+      conditions.push("#shop = :shop");
+      names["#shop"] = "shop_name";
+      values[":shop"] = filter.shopName;
+    }
+    if (filter.topic !== undefined) {
+      conditions.push("#topic = :topic");
+      names["#topic"] = "topic";
+      values[":topic"] = filter.topic;
+    }
+    if (filter.failedFrom !== undefined) {
+      conditions.push("#last >= :from");
+      names["#last"] = "last_failed_at";
+      values[":from"] = filter.failedFrom.toISOString();
+    }
+    if (filter.failedTo !== undefined) {
+      conditions.push("#last <= :to");
+      names["#last"] = "last_failed_at";
+      values[":to"] = filter.failedTo.toISOString();
+    }
+    if (!filter.includeReplayed) {
+      conditions.push("attribute_not_exists(#replayed)");
+      names["#replayed"] = "replayed_at";
+    }
+
+    const entries: DeadLetteredWebhook[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+    do {
+      const result = await transient(() =>
+        this.docClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            ...(conditions.length > 0 && {
+              FilterExpression: conditions.join(" AND "),
+              ExpressionAttributeNames: names,
+            }),
+            ...(Object.keys(values).length > 0 && {
+              ExpressionAttributeValues: values,
+            }),
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        )
+      );
+      (result.Items ?? []).forEach((item) => entries.push(this.toEntity(item)));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return entries.sort(
+      (a, b) => a.firstFailedAt.getTime() - b.firstFailedAt.getTime()
+    );
+  }
+
+  async markReplayed(id: string, replayedAt: Date): Promise<void> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { dead_letter_id: id },
+            UpdateExpression: "SET #replayed = :replayed",
+            ConditionExpression: "attribute_exists(#id)",
+            ExpressionAttributeNames: {
+              "#replayed": "replayed_at",
+              "#id": "dead_letter_id",
+            },
+            ExpressionAttributeValues: { ":replayed": replayedAt.toISOString() },
+          })
+        )
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new Error(`Unknown dead letter: ${id}`);
+      }
+      throw error;
+    }
+  }
+
+  private toEntity(item: Record<string, unknown>): DeadLetteredWebhook {
+    if (
+      typeof item.dead_letter_id !== "string" ||
+      typeof item.event !== "string" ||
+      typeof item.reason !== "string" ||
+      typeof item.status_code !== "number" ||
+      typeof item.attempt_count !== "number" ||
+      typeof item.first_failed_at !== "string" ||
+      typeof item.last_failed_at !== "string"
+    ) {
+      throw new Error(`Invalid dead letter: ${String(item.dead_letter_id)}`);
+    }
+
+    return new DeadLetteredWebhook(
+      item.dead_letter_id,
+      item.event,
+      item.reason,
+      item.status_code,
+      item.attempt_count,
+      new Date(item.first_failed_at),
+      new Date(item.last_failed_at),
+      typeof item.shop_name === "string" ? item.shop_name : undefined,
+      typeof item.topic === "string" ? item.topic : undefined,
+      typeof item.replayed_at === "string"
+        ? new Date(item.replayed_at)
+        : undefined
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { TransactionCanceledException } from "@aws-sdk/client-dynamodb";
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  ClaimOutcome,
+  DeduplicationStore,
+} from "../../domain/ports/DeduplicationStore";
+import { transient } from "./transient";
+
+/**
+ * DynamoDB adapter for webhook deduplication
+ * A claim is stored as `in_progress` with a short lease, then rewritten as
+ * `completed` for the full window. Items carry an `expires_at`
+ * epoch-seconds attribute for DynamoDB TTL. TTL deletion is lazy, so expiry
+ * is also checked in the write condition.
+ */
+export class DynamoDBDeduplicationStore implements DeduplicationStore {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string,
+    private ttlSeconds: number,
+    /**
+     * Longer than the Lambda timeout, so a live attempt keeps its claim
+     */
+    private leaseSeconds: number,
+    private now: () => number = Date.now
+  ) {}
+
+  async claim(keys: string[]): Promise<ClaimOutcome> {
+    // DynamoDB rejects an empty transaction, and a delivery without IDs
+    // has nothing to be recognised by
+    if (keys.length === 0) {
+      return "claimed";
+    }
+
+    const nowSeconds = Math.floor(this.now() / 1000);
+
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new TransactWriteCommand({
+            TransactItems: keys.map((key) => ({
+              Put: {
+                TableName: this.tableName,
+                Item: {
+                  dedup_key: key,
+                  status: "in_progress",
+                  claimed_at: new Date(this.now()).toISOString(),
+                  expires_at: nowSeconds + this.leaseSeconds,
+                },
+                ConditionExpression:
+                  "attribute_not_exists(#key) OR #expires <= :now",
+                ExpressionAttributeNames: {
+                  "#key": "dedup_key",
+                  "#expires": "expires_at",
+                },
+                ExpressionAttributeValues: {
+                  ":now": nowSeconds,
+                },
+              },
+            })),
+          })
+        )
+      );
+      return "claimed";
+    } catch (error) {
+      if (!(error instanceof TransactionCanceledException)) {
+        throw error;
+      }
+      return (await this.anyCompleted(keys)) ? "completed" : "in_progress";
+    }
+  }
+
+  async complete(keys: string[]): Promise<void> {
+    const nowSeconds = Math.floor(this.now() / 1000);
+
+    await Promise.all(
+      keys.map((key) =>
+        transient(() =>
+          this.docClient.send(
+            new PutCommand({
+              TableName: this.tableName,
+              Item: {
+                dedup_key: key,
+                status: "completed",
+                completed_at: new Date(this.now()).toISOString(),
+                expires_at: nowSeconds + this.ttlSeconds,
+              },
+            })
+          )
+        )
+      )
+    );
+  }
+
+  async release(keys: string[]): Promise<void> {
+    await Promise.all(
+      keys.map((key) =>
+        transient(() =>
+          this.docClient.send(
+            new DeleteCommand({
+              TableName: this.tableName,
+              Key: { dedup_key: key },
+            })
+          )
+        )
+      )
+    );
+  }
+
+  /**
+   * A cancelled claim does not say which key was held or why, so read them
+   */
+  private async anyCompleted(keys: string[]): Promise<boolean> {
+    const nowSeconds = Math.floor(this.now() / 1000);
+    const items = await Promise.all(
+      keys.map(async (key) => {
+        const result = await transient(() =>
+          this.docClient.send(
+            new GetCommand({
+              TableName: this.tableName,
+              Key: { dedup_key: key },
+              ConsistentRead: true,
+            })
+          )
+        );
+        return result.Item;
+      })
+    );
+
+    return items.some(
+      (item) =>
+        item?.status === "completed" &&
+        typeof item.expires_at === "number" &&
+        item.expires_at > nowSeconds
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto";
+import { DynamoDBDocumentClient, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { InventoryHistoryEntry } from "../../domain/entities/InventoryHistoryEntry";
+import { InventoryLevel } from "../../domain/entities/InventoryLevel";
+import {
+  InventoryHistoryQuery,
+  InventoryHistoryRepository,
+} from "../../domain/ports/InventoryHistoryRepository";
+import { transient } from "./transient";
+
+/**
+ * Stored form of a history entry
+ * Partitioned by shop and variant; the `change_key` range key starts with
+ * the ISO change time so entries sort chronologically and time ranges map
+ * to a key condition. Keyed by event where known, so recording the same
+ * change twice leaves one entry
+ */
+export function toHistoryItem(
+  entry: InventoryHistoryEntry,
+  newId: () => string = randomUUID
+): Record<string, unknown> {
+  return {
+    shop_variant_id: `${entry.shopName}#${entry.variantId}`,
+    change_key: [
+      entry.changedAt.toISOString(),
+      entry.locationId,
+      entry.eventId ?? newId(),
+    ].join("#"),
+    location_id: entry.locationId,
+    inventory_item_id: entry.inventoryItemId,
+    previous_available: entry.previousAvailable,
+    new_available: entry.newAvailable,
+    delta: entry.delta,
+    changed_at: entry.changedAt.toISOString(),
+    recorded_at: entry.recordedAt.toISOString(),
+    event_id: entry.eventId,
+    topic: entry.topic,
+    removed: entry.removed,
+  };
+}
+
+/**
+ * Rebuild a history entry from its stored form
+ */
+export function fromHistoryItem(
+  item: Record<string, unknown>
+): InventoryHistoryEntry {
+  if (
+    typeof item.shop_variant_id !== "string" ||
+    typeof item.location_id !== "number" ||
+    typeof item.new_available !== "number" ||
+    typeof item.changed_at !== "string" ||
+    typeof item.recorded_at !== "string"
+  ) {
+    throw new Error(
+      `Invalid history entry for ${item.shop_variant_id}: ${item.change_key}`
+    );
+  }
+
+  const { shopName, variantId } = InventoryLevel.parseCompositeKey(
+    item.shop_variant_id
+  );
+  return new InventoryHistoryEntry(
+    shopName,
+    variantId,
+    item.location_id,
+    typeof item.previous_available === "number"
+      ? item.previous_available
+      : null,
+    item.new_available,
+    new Date(item.changed_at),
+    new Date(item.recorded_at),
+    typeof item.inventory_item_id === "number"
+      ? item.inventory_item_id
+      : undefined,
+    typeof item.event_id === "string" ? item.event_id : undefined,
+    typeof item.topic === "string" ? item.topic : undefined,
+    item.removed === true
+  );
+}
+
+/**
+ * DynamoDB adapter for reading the inventory history ledger
+ * Entries are written by DynamoDBInventoryRepository in the same
+ * transaction as the level they record, and the table's stream feeds
+ * InventoryHistoryStreamHandler
+ */
+export class DynamoDBInventoryHistoryRepository
+  implements InventoryHistoryRepository
+{
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async query(query: InventoryHistoryQuery): Promise<InventoryHistoryEntry[]> {
+    const names: Record<string, string> = {
+      "#pk": "shop_variant_id",
+      "#sk": "change_key",
+    };
+    const values: Record<string, unknown> = {
+      ":pk": `${query.shopName}#${query.variantId}`,
+      // Every key starts with a timestamp, so these bounds cover all
+      // entries and the '~' suffix keeps entries at exactly `to`
+      ":from": query.from?.toISOString() ?? "0",
+      ":to": `${query.to?.toISOString() ?? "9"}~`,
+    };
+
+    let filterExpression: string | undefined;
+    if (query.locationId !== undefined) {
+      filterExpression = "#location_id = :location_id";
+      names["#location_id"] = "location_id";
+      values[":location_id"] = query.locationId;
+    }
+
+    const entries: InventoryHistoryEntry[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await transient(() =>
+        this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: "#pk = :pk AND #sk BETWEEN :from AND :to",
+            FilterExpression: filterExpression,
+            ExpressionAttributeNames: names,
+            ExpressionAttributeValues: values,
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        )
+      );
+
+      entries.push(...(result.Items ?? []).map(fromHistoryItem));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (
+      exclusiveStartKey &&
+      (query.limit === undefined || entries.length < query.limit)
+    );
+
+    return query.limit === undefined ? entries : entries.slice(0, query.limit);
+  }
+}
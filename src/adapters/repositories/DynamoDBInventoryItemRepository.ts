@@ -0,0 +1,141 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { InventoryItem } from "../../domain/entities/InventoryItem";
+import { InventoryItemRepository } from "../../domain/ports/InventoryItemRepository";
+import { SaveOutcome } from "../../domain/ports/InventoryRepository";
+import { transient } from "./transient";
+
+const RECORD_TYPE = "item";
+
+/**
+ * DynamoDB adapter for the inventory item catalog
+ * Shares the inventory items table, with record_type "item" as the sort key
+ */
+export class DynamoDBInventoryItemRepository implements InventoryItemRepository {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  /**
+   * Conditional on updated_at and the absence of a tombstone so late
+   * webhooks neither overwrite newer data nor restore a deleted item
+   */
+  async save(item: InventoryItem): Promise<SaveOutcome> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: this.keyOf(item.shopName, item.inventoryItemId),
+            UpdateExpression:
+              "SET #sku = :sku, #tracked = :tracked, #cost = :cost, #origin = :origin, #shipping = :shipping, #updated = :updated",
+            ConditionExpression:
+              "attribute_not_exists(#deleted) AND (attribute_not_exists(#updated) OR #updated < :updated)",
+            ExpressionAttributeNames: {
+              "#sku": "sku",
+              "#tracked": "tracked",
+              "#cost": "unit_cost",
+              "#origin": "country_of_origin",
+              "#shipping": "requires_shipping",
+              "#updated": "updated_at",
+              "#deleted": "deleted_at",
+            },
+            ExpressionAttributeValues: {
+              ":sku": item.sku,
+              ":tracked": item.tracked,
+              ":cost": item.unitCost,
+              ":origin": item.countryOfOrigin,
+              ":shipping": item.requiresShipping,
+              ":updated": item.updatedAt.toISOString(),
+            },
+          })
+        )
+      );
+      return "saved";
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return "stale";
+      }
+      throw error;
+    }
+  }
+
+  async markDeleted(
+    shopName: string,
+    inventoryItemId: number,
+    deletedAt: Date
+  ): Promise<void> {
+    await transient(() =>
+      this.docClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: this.keyOf(shopName, inventoryItemId),
+          UpdateExpression: "SET #deleted = if_not_exists(#deleted, :deleted)",
+          ExpressionAttributeNames: { "#deleted": "deleted_at" },
+          ExpressionAttributeValues: { ":deleted": deletedAt.toISOString() },
+        })
+      )
+    );
+  }
+
+  async getByInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<InventoryItem | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: this.keyOf(shopName, inventoryItemId),
+        })
+      )
+    );
+
+    if (!result.Item || result.Item.deleted_at !== undefined) {
+      return null;
+    }
+
+    return this.toEntity(shopName, inventoryItemId, result.Item);
+  }
+
+  private keyOf(shopName: string, inventoryItemId: number) {
+    return {
+      shop_inventory_item_id: `${shopName}#${inventoryItemId}`,
+      record_type: RECORD_TYPE,
+    };
+  }
+
+  private toEntity(
+    shopName: string,
+    inventoryItemId: number,
+    item: Record<string, unknown>
+  ): InventoryItem {
+    if (
+      typeof item.tracked !== "boolean" ||
+      typeof item.requires_shipping !== "boolean" ||
+      typeof item.updated_at !== "string"
+    ) {
+      throw new Error(
+        `Invalid inventory item for ${shopName}#${inventoryItemId}`
+      );
+    }
+
+    return new InventoryItem(
+      shopName,
+      inventoryItemId,
+      typeof item.sku === "string" ? item.sku : null,
+      item.tracked,
+      typeof item.unit_cost === "string" ? item.unit_cost : null,
+      typeof item.country_of_origin === "string"
+        ? item.country_of_origin
+        : null,
+      item.requires_shipping,
+      new Date(item.updated_at)
+    );
+  }
+}
@@ -1,6 +1,65 @@
-import { DynamoDBDocumentClient, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { randomUUID } from "crypto";
+import {
+  ConditionalCheckFailedException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { InventoryHistoryEntry } from "../../domain/entities/InventoryHistoryEntry";
 import { InventoryLevel } from "../../domain/entities/InventoryLevel";
-import { InventoryRepository } from "../../domain/ports/InventoryRepository";
+import { VariantInventoryTotal } from "../../domain/entities/VariantInventoryTotal";
+import {
+  ChangeSource,
+  InventoryRepository,
+  SaveResult,
+} from "../../domain/ports/InventoryRepository";
+import { Logger } from "../../domain/ports/Logger";
+import { TransientStorageError } from "../../domain/errors/TransientStorageError";
+import { toHistoryItem } from "./DynamoDBInventoryHistoryRepository";
+import { transient } from "./transient";
+
+/**
+ * Sort key of the per-variant total, stored beside the variant's levels
+ */
+const TOTAL_LOCATION = "total";
+
+const MAX_WRITE_ATTEMPTS = 5;
+
+/**
+ * Stock counted over a variant's connected levels
+ */
+interface CountedStock {
+  available: number;
+  locations: number;
+  /**
+   * Newest change to any of the variant's levels, null when it has none
+   */
+  updatedAt: string | null;
+}
+
+interface LevelUpdate {
+  UpdateExpression: string;
+  ExpressionAttributeNames: Record<string, string>;
+  ExpressionAttributeValues: Record<string, unknown>;
+}
+
+interface LevelWrite {
+  shopName: string;
+  variantId: number;
+  locationId: number;
+  updatedAt: Date;
+  /**
+   * Null for a disconnect
+   */
+  available: number | null;
+  inventoryItemId?: number;
+  update: LevelUpdate;
+}
 
 /**
  * DynamoDB adapter for inventory persistence
@@ -9,48 +68,375 @@ import { InventoryRepository } from "../../domain/ports/InventoryRepository";
 export class DynamoDBInventoryRepository implements InventoryRepository {
   constructor(
     private docClient: DynamoDBDocumentClient,
-    private tableName: string
+    private tableName: string,
+    private historyTableName: string,
+    private logger: Logger,
+    private newId: () => string = randomUUID
   ) {}
 
-  async save(inventory: InventoryLevel): Promise<void> {
-    const command = new UpdateCommand({
-      TableName: this.tableName,
-      Key: {
-        shop_variant_id: inventory.getCompositeKey(),
-        location: inventory.getLocationKey(),
-      },
-      UpdateExpression:
-        "SET #stock = :stock, #updated = :updated, #item_id = :item_id, #location_id = :location_id",
-      ExpressionAttributeNames: {
-        "#stock": "stock_count",
-        "#updated": "updated_at",
-        "#item_id": "inventory_item_id",
-        "#location_id": "location_id",
+  /**
+   * Conditional on updated_at so late or redelivered events never
+   * overwrite a newer stock count. A newer save revives a disconnected
+   * level
+   */
+  async save(
+    inventory: InventoryLevel,
+    source?: ChangeSource
+  ): Promise<SaveResult> {
+    return this.writeLevel(
+      {
+        shopName: inventory.shopName,
+        variantId: inventory.variantId,
+        locationId: inventory.locationId,
+        updatedAt: inventory.updatedAt,
+        available: inventory.available,
+        inventoryItemId: inventory.inventoryItemId,
+        update: {
+          UpdateExpression:
+            "SET #stock = :stock, #updated = :updated, #item_id = :item_id, #location_id = :location_id REMOVE #disconnected",
+          ExpressionAttributeNames: {
+            "#stock": "stock_count",
+            "#updated": "updated_at",
+            "#item_id": "inventory_item_id",
+            "#location_id": "location_id",
+            "#disconnected": "disconnected_at",
+          },
+          ExpressionAttributeValues: {
+            ":stock": inventory.available,
+            ":updated": inventory.updatedAt.toISOString(),
+            ":item_id": inventory.inventoryItemId,
+            ":location_id": inventory.locationId,
+          },
+        },
       },
-      ExpressionAttributeValues: {
-        ":stock": inventory.available,
-        ":updated": inventory.updatedAt.toISOString(),
-        ":item_id": inventory.inventoryItemId,
-        ":location_id": inventory.locationId,
-      },
-    });
-
-    await this.docClient.send(command);
+      source
+    );
   }
 
-  async saveMany(inventories: InventoryLevel[]): Promise<void> {
+  async saveMany(inventories: InventoryLevel[]): Promise<SaveResult[]> {
     const promises = inventories.map((inv) => this.save(inv));
-    await Promise.all(promises);
+    return Promise.all(promises);
+  }
+
+  /**
+   * Tombstones rather than deletes: updated_at moves to the disconnect
+   * time so the save condition rejects older updates
+   */
+  async delete(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    deletedAt: Date,
+    source?: ChangeSource
+  ): Promise<SaveResult> {
+    return this.writeLevel(
+      {
+        shopName,
+        variantId,
+        locationId,
+        updatedAt: deletedAt,
+        available: null,
+        update: {
+          UpdateExpression:
+            "SET #stock = :zero, #updated = :updated, #location_id = :location_id, #disconnected = :updated",
+          ExpressionAttributeNames: {
+            "#stock": "stock_count",
+            "#updated": "updated_at",
+            "#location_id": "location_id",
+            "#disconnected": "disconnected_at",
+          },
+          ExpressionAttributeValues: {
+            ":zero": 0,
+            ":updated": deletedAt.toISOString(),
+            ":location_id": locationId,
+          },
+        },
+      },
+      source
+    );
+  }
+
+  /**
+   * Conditional on the row existing so a level deleted concurrently is
+   * not recreated as an empty item
+   */
+  async markOrphaned(
+    shopName: string,
+    variantId: number,
+    orphanedAt: Date
+  ): Promise<number> {
+    const items = (await this.queryVariant(shopName, variantId)).filter(
+      isConnected
+    );
+
+    const marked = await Promise.all(
+      items.map(async (item) => {
+        try {
+          await transient(() =>
+            this.docClient.send(
+              new UpdateCommand({
+                TableName: this.tableName,
+                Key: {
+                  shop_variant_id: item.shop_variant_id,
+                  location: item.location,
+                },
+                UpdateExpression: "SET #orphaned = :orphaned",
+                ConditionExpression: "attribute_exists(#pk)",
+                ExpressionAttributeNames: {
+                  "#orphaned": "orphaned_at",
+                  "#pk": "shop_variant_id",
+                },
+                ExpressionAttributeValues: {
+                  ":orphaned": orphanedAt.toISOString(),
+                },
+              })
+            )
+          );
+          return true;
+        } catch (error) {
+          if (error instanceof ConditionalCheckFailedException) {
+            return false;
+          }
+          throw error;
+        }
+      })
+    );
+
+    return marked.filter(Boolean).length;
   }
 
   async getByShopAndVariant(
     shopName: string,
     variantId: number
   ): Promise<InventoryLevel[]> {
-    // Note: This would require a query operation
-    // For now, this is a placeholder implementation
-    // In production, you'd add a GSI for querying by shop_variant_id
-    throw new Error("Not implemented");
+    const items = await this.queryVariant(shopName, variantId);
+    return items.filter(isConnected).map((item) => this.toEntity(item));
+  }
+
+  /**
+   * Write a level, its variant's total and any history entry in one
+   * transaction
+   * The level and total are read first: the level to reject stale writes
+   * and find the stock being replaced, the total to apply the difference.
+   * The transaction is conditional on neither having changed since, and is
+   * retried from the read when a concurrent write got there first
+   */
+  private async writeLevel(
+    {
+      shopName,
+      variantId,
+      locationId,
+      updatedAt,
+      available,
+      inventoryItemId,
+      update,
+    }: LevelWrite,
+    source?: ChangeSource
+  ): Promise<SaveResult> {
+    const levelKey = {
+      shop_variant_id: `${shopName}#${variantId}`,
+      location: locationId.toString(),
+    };
+    const totalKey = { ...levelKey, location: TOTAL_LOCATION };
+    const updated = updatedAt.toISOString();
+
+    for (let attempt = 1; ; attempt++) {
+      const [level, total] = await Promise.all([
+        this.getItem(levelKey),
+        this.getItem(totalKey),
+      ]);
+
+      if (typeof level?.updated_at === "string" && level.updated_at >= updated) {
+        return { outcome: "stale", previousAvailable: null };
+      }
+
+      const previousAvailable =
+        level && isConnected(level) && typeof level.stock_count === "number"
+          ? level.stock_count
+          : null;
+      const version = typeof total?.version === "number" ? total.version : 0;
+      const counted = total
+        ? storedCount(total)
+        : await this.countVariant(shopName, variantId);
+      const lastUpdated =
+        counted.updatedAt !== null && counted.updatedAt > updated
+          ? counted.updatedAt
+          : updated;
+      const entry =
+        source &&
+        new InventoryHistoryEntry(
+          shopName,
+          variantId,
+          locationId,
+          previousAvailable,
+          available ?? 0,
+          updatedAt,
+          source.recordedAt,
+          inventoryItemId ?? optionalNumber(level?.inventory_item_id),
+          source.eventId,
+          source.topic,
+          available === null
+        );
+
+      try {
+        await transient(() =>
+          this.docClient.send(
+            new TransactWriteCommand({
+              TransactItems: [
+                {
+                  Update: {
+                    TableName: this.tableName,
+                    Key: levelKey,
+                    ...update,
+                    ConditionExpression:
+                      typeof level?.updated_at === "string"
+                        ? "#updated = :expected_updated"
+                        : "attribute_not_exists(#updated)",
+                    ExpressionAttributeValues: {
+                      ...update.ExpressionAttributeValues,
+                      ...(typeof level?.updated_at === "string"
+                        ? { ":expected_updated": level.updated_at }
+                        : {}),
+                    },
+                  },
+                },
+                {
+                  Put: {
+                    TableName: this.tableName,
+                    Item: {
+                      ...totalKey,
+                      connected_available:
+                        counted.available -
+                        (previousAvailable ?? 0) +
+                        (available ?? 0),
+                      stocked_locations:
+                        counted.locations -
+                        (previousAvailable === null ? 0 : 1) +
+                        (available === null ? 0 : 1),
+                      updated_at: lastUpdated,
+                      version: version + 1,
+                    },
+                    ConditionExpression: total
+                      ? "#version = :version"
+                      : "attribute_not_exists(#version)",
+                    ExpressionAttributeNames: { "#version": "version" },
+                    ExpressionAttributeValues: total
+                      ? { ":version": version }
+                      : undefined,
+                  },
+                },
+                ...(entry
+                  ? [
+                      {
+                        Put: {
+                          TableName: this.historyTableName,
+                          Item: toHistoryItem(entry, this.newId),
+                        },
+                      },
+                    ]
+                  : []),
+              ],
+            })
+          )
+        );
+        return { outcome: "saved", previousAvailable };
+      } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+          throw error;
+        }
+        if (attempt < MAX_WRITE_ATTEMPTS) {
+          this.logger.debug("Inventory write contended; retrying", {
+            shopName,
+            variantId,
+            locationId,
+            attempt,
+          });
+          continue;
+        }
+        this.logger.warn("Inventory write still contended; giving up", {
+          shopName,
+          variantId,
+          locationId,
+          attempts: attempt,
+        });
+        throw new TransientStorageError(
+          `Inventory write contended after ${attempt} attempts`,
+          error
+        );
+      }
+    }
+  }
+
+  private async getItem(
+    key: Record<string, string>
+  ): Promise<Record<string, unknown> | undefined> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: key,
+          ConsistentRead: true,
+        })
+      )
+    );
+    return result.Item;
+  }
+
+  /**
+   * Count a variant's stock from its levels, for a total that was never
+   * written
+   */
+  private async countVariant(
+    shopName: string,
+    variantId: number
+  ): Promise<CountedStock> {
+    const items = await this.queryVariant(shopName, variantId, true);
+    const connected = items.filter(isConnected);
+    const updatedAt = items
+      .map((item) => item.updated_at)
+      .filter((value): value is string => typeof value === "string")
+      .sort()
+      .pop();
+
+    return {
+      available: connected.reduce(
+        (sum, item) => sum + numberOr(item.stock_count, 0),
+        0
+      ),
+      locations: connected.length,
+      updatedAt: updatedAt ?? null,
+    };
+  }
+
+  private async queryVariant(
+    shopName: string,
+    variantId: number,
+    consistent = false
+  ): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await transient(() =>
+        this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: "#pk = :pk",
+            ExpressionAttributeNames: { "#pk": "shop_variant_id" },
+            ExpressionAttributeValues: {
+              ":pk": `${shopName}#${variantId}`,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+            ConsistentRead: consistent,
+          })
+        )
+      );
+
+      items.push(...(result.Items ?? []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items.filter((item) => item.location !== TOTAL_LOCATION);
   }
 
   async getByShopVariantAndLocation(
@@ -58,8 +444,138 @@ export class DynamoDBInventoryRepository implements InventoryRepository {
     variantId: number,
     locationId: number
   ): Promise<InventoryLevel | null> {
-    // Note: This would require a get operation
-    // Placeholder for now
-    throw new Error("Not implemented");
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: {
+            shop_variant_id: `${shopName}#${variantId}`,
+            location: locationId.toString(),
+          },
+        })
+      )
+    );
+
+    return result.Item && isConnected(result.Item)
+      ? this.toEntity(result.Item)
+      : null;
+  }
+
+  async getVariantTotal(
+    shopName: string,
+    variantId: number
+  ): Promise<VariantInventoryTotal | null> {
+    const item = await this.getItem({
+      shop_variant_id: `${shopName}#${variantId}`,
+      location: TOTAL_LOCATION,
+    });
+
+    if (!item) {
+      const counted = await this.countVariant(shopName, variantId);
+      return counted.updatedAt === null
+        ? null
+        : new VariantInventoryTotal(
+            shopName,
+            variantId,
+            counted.available,
+            counted.locations,
+            new Date(counted.updatedAt)
+          );
+    }
+
+    const counted = storedCount(item);
+    return new VariantInventoryTotal(
+      shopName,
+      variantId,
+      counted.available,
+      counted.locations,
+      new Date(counted.updatedAt)
+    );
   }
+
+  /**
+   * Map a stored item back into a validated domain entity
+   */
+  private toEntity(item: Record<string, unknown>): InventoryLevel {
+    if (
+      typeof item.shop_variant_id !== "string" ||
+      typeof item.location !== "string"
+    ) {
+      throw new Error("Invalid inventory item: missing key attributes");
+    }
+    if (typeof item.stock_count !== "number") {
+      throw new Error(
+        `Invalid stock_count for ${item.shop_variant_id}: must be a number`
+      );
+    }
+    if (typeof item.updated_at !== "string") {
+      throw new Error(
+        `Invalid updated_at for ${item.shop_variant_id}: must be a string`
+      );
+    }
+
+    const updatedAt = new Date(item.updated_at);
+    if (isNaN(updatedAt.getTime())) {
+      throw new Error(
+        `Invalid date format for updated_at: ${item.updated_at}`
+      );
+    }
+
+    const { shopName, variantId } = InventoryLevel.parseCompositeKey(
+      item.shop_variant_id
+    );
+    const locationId =
+      typeof item.location_id === "number"
+        ? item.location_id
+        : InventoryLevel.parseLocationKey(item.location);
+
+    return new InventoryLevel(
+      shopName,
+      variantId,
+      locationId,
+      item.stock_count,
+      updatedAt,
+      typeof item.inventory_item_id === "number"
+        ? item.inventory_item_id
+        : undefined,
+      typeof item.orphaned_at === "string"
+        ? new Date(item.orphaned_at)
+        : undefined
+    );
+  }
+}
+
+/**
+ * Disconnect tombstones are kept for ordering but are not inventory
+ */
+function isConnected(item: Record<string, unknown>): boolean {
+  return item.disconnected_at === undefined;
+}
+
+/**
+ * The stock a total row holds
+ */
+function storedCount(
+  total: Record<string, unknown>
+): CountedStock & { updatedAt: string } {
+  if (
+    typeof total.connected_available !== "number" ||
+    typeof total.stocked_locations !== "number" ||
+    typeof total.updated_at !== "string"
+  ) {
+    throw new Error(`Invalid variant total for ${total.shop_variant_id}`);
+  }
+  return {
+    available: total.connected_available,
+    locations: total.stocked_locations,
+    updatedAt: total.updated_at,
+  };
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === "number" ? value : fallback;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
 }
@@ -0,0 +1,170 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { Location, LocationAddress } from "../../domain/entities/Location";
+import { LocationRepository } from "../../domain/ports/LocationRepository";
+import { SaveOutcome } from "../../domain/ports/InventoryRepository";
+import { transient } from "./transient";
+
+/**
+ * DynamoDB adapter for the location catalog
+ * Keyed by shop name with the location ID as the sort key, so a shop's
+ * locations can be read in one query
+ */
+export class DynamoDBLocationRepository implements LocationRepository {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  /**
+   * Conditional on updated_at and the absence of a tombstone so late
+   * webhooks neither overwrite newer data nor restore a deleted location
+   */
+  async save(location: Location): Promise<SaveOutcome> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: this.keyOf(location.shopName, location.locationId),
+            UpdateExpression:
+              "SET #location_id = :location_id, #name = :name, #address = :address, #active = :active, #online = :online, #updated = :updated",
+            ConditionExpression:
+              "attribute_not_exists(#deleted) AND (attribute_not_exists(#updated) OR #updated < :updated)",
+            ExpressionAttributeNames: {
+              "#location_id": "location_id",
+              "#name": "name",
+              "#address": "address",
+              "#active": "active",
+              "#online": "fulfills_online_orders",
+              "#updated": "updated_at",
+              "#deleted": "deleted_at",
+            },
+            ExpressionAttributeValues: {
+              ":location_id": location.locationId,
+              ":name": location.name,
+              ":address": location.address,
+              ":active": location.active,
+              ":online": location.fulfillsOnlineOrders,
+              ":updated": location.updatedAt.toISOString(),
+            },
+          })
+        )
+      );
+      return "saved";
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return "stale";
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Only tombstones known locations; a delete for a location we never
+   * saw leaves nothing to describe
+   */
+  async markDeleted(
+    shopName: string,
+    locationId: number,
+    deletedAt: Date
+  ): Promise<void> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: this.keyOf(shopName, locationId),
+            UpdateExpression: "SET #deleted = if_not_exists(#deleted, :deleted)",
+            ConditionExpression: "attribute_exists(#updated)",
+            ExpressionAttributeNames: {
+              "#deleted": "deleted_at",
+              "#updated": "updated_at",
+            },
+            ExpressionAttributeValues: { ":deleted": deletedAt.toISOString() },
+          })
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  async getByShop(shopName: string): Promise<Location[]> {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await transient(() =>
+        this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: "#pk = :pk",
+            ExpressionAttributeNames: { "#pk": "shop_name" },
+            ExpressionAttributeValues: { ":pk": shopName },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        )
+      );
+
+      items.push(...(result.Items ?? []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items.map((item) => this.toEntity(shopName, item));
+  }
+
+  async getByShopAndLocation(
+    shopName: string,
+    locationId: number
+  ): Promise<Location | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: this.keyOf(shopName, locationId),
+        })
+      )
+    );
+
+    return result.Item ? this.toEntity(shopName, result.Item) : null;
+  }
+
+  private keyOf(shopName: string, locationId: number) {
+    return { shop_name: shopName, location: locationId.toString() };
+  }
+
+  private toEntity(shopName: string, item: Record<string, unknown>): Location {
+    if (
+      typeof item.location_id !== "number" ||
+      typeof item.name !== "string" ||
+      typeof item.active !== "boolean" ||
+      typeof item.fulfills_online_orders !== "boolean" ||
+      typeof item.updated_at !== "string" ||
+      typeof item.address !== "object" ||
+      item.address === null
+    ) {
+      throw new Error(`Invalid location for ${shopName}#${item.location}`);
+    }
+
+    return new Location(
+      shopName,
+      item.location_id,
+      item.name,
+      item.address as LocationAddress,
+      item.active,
+      item.fulfills_online_orders,
+      new Date(item.updated_at),
+      typeof item.deleted_at === "string"
+        ? new Date(item.deleted_at)
+        : undefined
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  QueryCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { PendingInventoryUpdateRepository } from "../../domain/ports/PendingInventoryUpdateRepository";
+import { WebhookInventoryLevelDTO } from "../../domain/usecases/ProcessInventoryWebhookUseCase";
+import { transient } from "./transient";
+
+const RECORD_PREFIX = "pending#";
+
+/**
+ * DynamoDB adapter for inventory updates waiting on a variant mapping
+ * Shares the inventory items table with the variant mappings, one
+ * `pending#<location_id>` record per location
+ */
+export class DynamoDBPendingInventoryUpdateRepository
+  implements PendingInventoryUpdateRepository
+{
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  /**
+   * Conditional on updated_at so only the newest update per location is kept
+   * Shopify's timestamps carry the shop's offset, so they are stored in UTC
+   * to compare as strings
+   */
+  async defer(
+    shopName: string,
+    update: WebhookInventoryLevelDTO
+  ): Promise<void> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: {
+              shop_inventory_item_id: `${shopName}#${update.inventory_item_id}`,
+              record_type: `${RECORD_PREFIX}${update.location_id}`,
+            },
+            UpdateExpression:
+              "SET #location_id = :location_id, #available = :available, #updated = :updated",
+            ConditionExpression:
+              "attribute_not_exists(#updated) OR #updated < :updated",
+            ExpressionAttributeNames: {
+              "#location_id": "location_id",
+              "#available": "available",
+              "#updated": "updated_at",
+            },
+            ExpressionAttributeValues: {
+              ":location_id": update.location_id,
+              ":available": update.available,
+              ":updated": toUtc(update.updated_at),
+            },
+          })
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  async discard(
+    shopName: string,
+    inventoryItemId: number,
+    locationId: number
+  ): Promise<void> {
+    await transient(() =>
+      this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: {
+            shop_inventory_item_id: `${shopName}#${inventoryItemId}`,
+            record_type: `${RECORD_PREFIX}${locationId}`,
+          },
+        })
+      )
+    );
+  }
+
+  /**
+   * Strongly consistent, so an update deferred just before is always seen
+   */
+  async findForInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<WebhookInventoryLevelDTO[]> {
+    const partitionKey = `${shopName}#${inventoryItemId}`;
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: Record<string, unknown> | undefined;
+
+    do {
+      const result = await transient(() =>
+        this.docClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            KeyConditionExpression: "#pk = :pk AND begins_with(#sk, :prefix)",
+            ExpressionAttributeNames: {
+              "#pk": "shop_inventory_item_id",
+              "#sk": "record_type",
+            },
+            ExpressionAttributeValues: {
+              ":pk": partitionKey,
+              ":prefix": RECORD_PREFIX,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+            ConsistentRead: true,
+          })
+        )
+      );
+
+      items.push(...(result.Items ?? []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items.map((item) => this.toDTO(inventoryItemId, item));
+  }
+
+  /**
+   * Delete only the version that was read, so an update deferred
+   * concurrently is kept rather than lost
+   */
+  async remove(
+    shopName: string,
+    update: WebhookInventoryLevelDTO
+  ): Promise<void> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: {
+              shop_inventory_item_id: `${shopName}#${update.inventory_item_id}`,
+              record_type: `${RECORD_PREFIX}${update.location_id}`,
+            },
+            ConditionExpression: "#updated = :updated",
+            ExpressionAttributeNames: { "#updated": "updated_at" },
+            ExpressionAttributeValues: {
+              ":updated": toUtc(update.updated_at),
+            },
+          })
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  private toDTO(
+    inventoryItemId: number,
+    item: Record<string, unknown>
+  ): WebhookInventoryLevelDTO {
+    if (
+      typeof item.location_id !== "number" ||
+      typeof item.available !== "number" ||
+      typeof item.updated_at !== "string"
+    ) {
+      throw new Error(
+        `Invalid pending update for inventory item ${inventoryItemId}`
+      );
+    }
+
+    return {
+      inventory_item_id: inventoryItemId,
+      location_id: item.location_id,
+      available: item.available,
+      updated_at: item.updated_at,
+    };
+  }
+}
+
+const toUtc = (timestamp: string): string => new Date(timestamp).toISOString();
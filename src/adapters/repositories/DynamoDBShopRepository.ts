@@ -0,0 +1,101 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import {
+  DEFAULT_SHOP_FEATURES,
+  Shop,
+  ShopStatus,
+} from "../../domain/entities/Shop";
+import { ShopRepository } from "../../domain/ports/ShopRepository";
+import { transient } from "./transient";
+
+const STATUSES: ShopStatus[] = ["active", "suspended", "uninstalled"];
+
+/**
+ * DynamoDB adapter for the shop registry
+ * Keyed by normalized shop domain, one item per shop
+ */
+export class DynamoDBShopRepository implements ShopRepository {
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async save(shop: Shop): Promise<void> {
+    await transient(() =>
+      this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            shop_name: shop.shopName,
+            status: shop.status,
+            webhook_secret_name: shop.webhookSecretName,
+            tracked_location_ids: shop.trackedLocationIds,
+            features: {
+              stock_alerts: shop.features.stockAlerts,
+              inventory_events: shop.features.inventoryEvents,
+            },
+            updated_at: shop.updatedAt.toISOString(),
+          },
+        })
+      )
+    );
+  }
+
+  async getByShopName(shopName: string): Promise<Shop | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { shop_name: shopName },
+        })
+      )
+    );
+
+    return result.Item ? this.toEntity(shopName, result.Item) : null;
+  }
+
+  /**
+   * Features missing from an item keep their defaults, so registry
+   * entries written before a feature existed stay valid
+   */
+  private toEntity(shopName: string, item: Record<string, unknown>): Shop {
+    const trackedLocationIds = item.tracked_location_ids;
+    const features = (item.features ?? {}) as Record<string, unknown>;
+
+    if (
+      !STATUSES.includes(item.status as ShopStatus) ||
+      typeof item.updated_at !== "string" ||
+      (trackedLocationIds !== undefined &&
+        !(
+          Array.isArray(trackedLocationIds) &&
+          trackedLocationIds.every((id) => typeof id === "number")
+        )) ||
+      typeof features !== "object"
+    ) {
+      throw new Error(`Invalid shop registry entry for ${shopName}`);
+    }
+
+    return new Shop(
+      shopName,
+      item.status as ShopStatus,
+      new Date(item.updated_at),
+      typeof item.webhook_secret_name === "string"
+        ? item.webhook_secret_name
+        : undefined,
+      trackedLocationIds as number[] | undefined,
+      {
+        stockAlerts:
+          typeof features.stock_alerts === "boolean"
+            ? features.stock_alerts
+            : DEFAULT_SHOP_FEATURES.stockAlerts,
+        inventoryEvents:
+          typeof features.inventory_events === "boolean"
+            ? features.inventory_events
+            : DEFAULT_SHOP_FEATURES.inventoryEvents,
+      }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { StockStatus } from "../../domain/entities/StockThreshold";
+import {
+  StatusTransition,
+  StockAlertState,
+  StockAlertStateRepository,
+} from "../../domain/ports/StockAlertStateRepository";
+import { transient } from "./transient";
+
+const STATUSES: readonly StockStatus[] = ["in_stock", "low_stock", "sold_out"];
+
+/**
+ * DynamoDB adapter for alerted stock statuses
+ * Shares the stock alerts table, with record_key "state#<variant>#<location>"
+ */
+export class DynamoDBStockAlertStateRepository
+  implements StockAlertStateRepository
+{
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async get(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<StockAlertState | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: {
+            shop_name: shopName,
+            record_key: `state#${variantId}#${locationId}`,
+          },
+          ConsistentRead: true,
+        })
+      )
+    );
+
+    const item = result.Item;
+    if (
+      !item ||
+      !STATUSES.includes(item.status) ||
+      typeof item.changed_at !== "string"
+    ) {
+      return null;
+    }
+    return { status: item.status, changedAt: new Date(item.changed_at) };
+  }
+
+  /**
+   * Conditional on changed_at, so an older change cannot replace a newer
+   * status
+   */
+  async transition(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    status: StockStatus,
+    changedAt: Date
+  ): Promise<StatusTransition> {
+    try {
+      const result = await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: {
+              shop_name: shopName,
+              record_key: `state#${variantId}#${locationId}`,
+            },
+            UpdateExpression:
+              "SET #status = :status, #changed = :changed, #variant_id = :variant_id, #location_id = :location_id",
+            ConditionExpression:
+              "attribute_not_exists(#changed) OR #changed < :changed",
+            ExpressionAttributeNames: {
+              "#status": "status",
+              "#changed": "changed_at",
+              "#variant_id": "variant_id",
+              "#location_id": "location_id",
+            },
+            ExpressionAttributeValues: {
+              ":status": status,
+              ":changed": changedAt.toISOString(),
+              ":variant_id": variantId,
+              ":location_id": locationId,
+            },
+            ReturnValues: "ALL_OLD",
+          })
+        )
+      );
+
+      const previous = result.Attributes?.status;
+      return {
+        outcome: "saved",
+        previousStatus: STATUSES.includes(previous) ? previous : null,
+      };
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        return { outcome: "stale", previousStatus: null };
+      }
+      throw error;
+    }
+  }
+}
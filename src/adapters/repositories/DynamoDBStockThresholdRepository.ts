@@ -0,0 +1,103 @@
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { StockThreshold } from "../../domain/entities/StockThreshold";
+import { StockThresholdRepository } from "../../domain/ports/StockThresholdRepository";
+import { transient } from "./transient";
+
+/**
+ * DynamoDB adapter for low-stock thresholds
+ * Shares the stock alerts table, keyed by shop name with a `record_key`
+ * naming the scope, e.g. "threshold#variant#123#location#456"
+ */
+export class DynamoDBStockThresholdRepository
+  implements StockThresholdRepository
+{
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async save(threshold: StockThreshold): Promise<void> {
+    await transient(() =>
+      this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            shop_name: threshold.shopName,
+            record_key: recordKey(threshold.variantId, threshold.locationId),
+            low_stock: threshold.lowStock,
+            variant_id: threshold.variantId,
+            location_id: threshold.locationId,
+          },
+        })
+      )
+    );
+  }
+
+  /**
+   * One read per scope; a shop can configure many variants, so querying
+   * the partition would read far more than needed
+   */
+  async getApplicable(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<StockThreshold[]> {
+    const keys = [
+      recordKey(),
+      recordKey(variantId),
+      recordKey(undefined, locationId),
+      recordKey(variantId, locationId),
+    ];
+
+    const results = await Promise.all(
+      keys.map((key) =>
+        transient(() =>
+          this.docClient.send(
+            new GetCommand({
+              TableName: this.tableName,
+              Key: { shop_name: shopName, record_key: key },
+            })
+          )
+        )
+      )
+    );
+
+    return results.flatMap((result) =>
+      result.Item ? [this.toEntity(shopName, result.Item)] : []
+    );
+  }
+
+  private toEntity(
+    shopName: string,
+    item: Record<string, unknown>
+  ): StockThreshold {
+    if (typeof item.low_stock !== "number") {
+      throw new Error(`Invalid stock threshold for ${shopName}: ${item.record_key}`);
+    }
+
+    return new StockThreshold(
+      shopName,
+      item.low_stock,
+      typeof item.variant_id === "number" ? item.variant_id : undefined,
+      typeof item.location_id === "number" ? item.location_id : undefined
+    );
+  }
+}
+
+function recordKey(variantId?: number, locationId?: number): string {
+  const parts = ["threshold"];
+  if (variantId !== undefined) {
+    parts.push("variant", variantId.toString());
+  }
+  if (locationId !== undefined) {
+    parts.push("location", locationId.toString());
+  }
+  if (parts.length === 1) {
+    parts.push("shop");
+  }
+  return parts.join("#");
+}
@@ -0,0 +1,116 @@
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { VariantMapping } from "../../domain/entities/VariantMapping";
+import { VariantMappingRepository } from "../../domain/ports/VariantMappingRepository";
+import { transient } from "./transient";
+
+const RECORD_TYPE = "variant";
+
+/**
+ * DynamoDB adapter for inventory item → variant mappings
+ * Shares the inventory items table, keyed by shop and inventory item ID,
+ * with record_type "variant" as the sort key
+ */
+export class DynamoDBVariantMappingRepository
+  implements VariantMappingRepository
+{
+  constructor(
+    private docClient: DynamoDBDocumentClient,
+    private tableName: string
+  ) {}
+
+  async saveMany(mappings: VariantMapping[]): Promise<void> {
+    await Promise.all(mappings.map((mapping) => this.save(mapping)));
+  }
+
+  /**
+   * Strongly consistent, so a mapping saved just before is always seen
+   */
+  async getByInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<VariantMapping | null> {
+    const result = await transient(() =>
+      this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: {
+            shop_inventory_item_id: `${shopName}#${inventoryItemId}`,
+            record_type: RECORD_TYPE,
+          },
+          ConsistentRead: true,
+        })
+      )
+    );
+
+    return result.Item
+      ? this.toEntity(shopName, inventoryItemId, result.Item)
+      : null;
+  }
+
+  /**
+   * Conditional on updated_at so a late product webhook never replaces
+   * a newer mapping
+   */
+  private async save(mapping: VariantMapping): Promise<void> {
+    try {
+      await transient(() =>
+        this.docClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: {
+              shop_inventory_item_id: `${mapping.shopName}#${mapping.inventoryItemId}`,
+              record_type: RECORD_TYPE,
+            },
+            UpdateExpression:
+              "SET #variant = :variant, #product = :product, #updated = :updated",
+            ConditionExpression:
+              "attribute_not_exists(#updated) OR #updated < :updated",
+            ExpressionAttributeNames: {
+              "#variant": "variant_id",
+              "#product": "product_id",
+              "#updated": "updated_at",
+            },
+            ExpressionAttributeValues: {
+              ":variant": mapping.variantId,
+              ":product": mapping.productId,
+              ":updated": mapping.updatedAt.toISOString(),
+            },
+          })
+        )
+      );
+    } catch (error) {
+      if (!(error instanceof ConditionalCheckFailedException)) {
+        throw error;
+      }
+    }
+  }
+
+  private toEntity(
+    shopName: string,
+    inventoryItemId: number,
+    item: Record<string, unknown>
+  ): VariantMapping {
+    if (
+      typeof item.variant_id !== "number" ||
+      typeof item.product_id !== "number" ||
+      typeof item.updated_at !== "string"
+    ) {
+      throw new Error(
+        `Invalid variant mapping for ${shopName}#${inventoryItemId}`
+      );
+    }
+
+    return new VariantMapping(
+      shopName,
+      inventoryItemId,
+      item.variant_id,
+      item.product_id,
+      new Date(item.updated_at)
+    );
+  }
+}
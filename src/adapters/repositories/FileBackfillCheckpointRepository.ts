@@ -0,0 +1,73 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join } from "path";
+import {
+  BackfillCheckpoint,
+  BackfillCheckpointRepository,
+} from "../../domain/ports/BackfillCheckpointRepository";
+
+/**
+ * Local filesystem adapter for backfill checkpoints, for the backfill
+ * command run from a workstation or container
+ * One JSON file per job, named after a hash of the job ID since job IDs
+ * contain paths and URLs
+ */
+export class FileBackfillCheckpointRepository
+  implements BackfillCheckpointRepository
+{
+  constructor(private directory: string) {}
+
+  async get(jobId: string): Promise<BackfillCheckpoint | null> {
+    let json: string;
+    try {
+      json = await fs.readFile(this.pathFor(jobId), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+
+    const stored = JSON.parse(json) as Record<string, unknown>;
+    if (
+      stored.jobId !== jobId ||
+      typeof stored.shopName !== "string" ||
+      typeof stored.line !== "number" ||
+      typeof stored.completed !== "boolean" ||
+      typeof stored.updatedAt !== "string"
+    ) {
+      throw new Error(`Invalid backfill checkpoint for job: ${jobId}`);
+    }
+
+    return {
+      jobId,
+      shopName: stored.shopName,
+      line: stored.line,
+      completed: stored.completed,
+      updatedAt: new Date(stored.updatedAt),
+    };
+  }
+
+  /**
+   * Written to a temporary file and renamed into place, so an interrupted
+   * write never leaves a truncated checkpoint
+   */
+  async save(checkpoint: BackfillCheckpoint): Promise<void> {
+    const path = this.pathFor(checkpoint.jobId);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      `${path}.tmp`,
+      JSON.stringify({
+        ...checkpoint,
+        updatedAt: checkpoint.updatedAt.toISOString(),
+      })
+    );
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  private pathFor(jobId: string): string {
+    const name = createHash("sha256").update(jobId).digest("hex").slice(0, 32);
+    return join(this.directory, `${name}.json`);
+  }
+}
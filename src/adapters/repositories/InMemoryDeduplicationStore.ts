@@ -0,0 +1,50 @@
+import {
+  ClaimOutcome,
+  DeduplicationStore,
+} from "../../domain/ports/DeduplicationStore";
+
+interface Claim {
+  completed: boolean;
+  expiresAt: number;
+}
+
+/**
+ * In-memory deduplication store
+ * Suitable for tests and local runs; state only lives as long as the process
+ */
+export class InMemoryDeduplicationStore implements DeduplicationStore {
+  private claims = new Map<string, Claim>();
+
+  constructor(
+    private ttlSeconds: number,
+    private leaseSeconds: number,
+    private now: () => number = Date.now
+  ) {}
+
+  async claim(keys: string[]): Promise<ClaimOutcome> {
+    const now = this.now();
+    const held = keys
+      .map((key) => this.claims.get(key))
+      .filter((claim): claim is Claim => !!claim && claim.expiresAt > now);
+
+    if (held.some((claim) => claim.completed)) {
+      return "completed";
+    }
+    if (held.length > 0) {
+      return "in_progress";
+    }
+
+    const expiresAt = now + this.leaseSeconds * 1000;
+    keys.forEach((key) => this.claims.set(key, { completed: false, expiresAt }));
+    return "claimed";
+  }
+
+  async complete(keys: string[]): Promise<void> {
+    const expiresAt = this.now() + this.ttlSeconds * 1000;
+    keys.forEach((key) => this.claims.set(key, { completed: true, expiresAt }));
+  }
+
+  async release(keys: string[]): Promise<void> {
+    keys.forEach((key) => this.claims.delete(key));
+  }
+}
@@ -0,0 +1,104 @@
+import { InventoryLevel } from "../../domain/entities/InventoryLevel";
+import { VariantInventoryTotal } from "../../domain/entities/VariantInventoryTotal";
+import {
+  ChangeSource,
+  InventoryRepository,
+  SaveResult,
+} from "../../domain/ports/InventoryRepository";
+import { Metrics } from "../../domain/ports/Metrics";
+
+/**
+ * Inventory repository decorator recording how long each operation takes
+ * as RepositoryLatency, by shop and operation. Failed operations are
+ * recorded too
+ */
+export class TimedInventoryRepository implements InventoryRepository {
+  constructor(
+    private repository: InventoryRepository,
+    private metrics: Metrics,
+    private now: () => number = Date.now
+  ) {}
+
+  save(inventory: InventoryLevel, source?: ChangeSource): Promise<SaveResult> {
+    return this.timed("save", inventory.shopName, () =>
+      this.repository.save(inventory, source)
+    );
+  }
+
+  /**
+   * Saves one at a time so each is timed under its own shop
+   */
+  saveMany(inventories: InventoryLevel[]): Promise<SaveResult[]> {
+    return Promise.all(inventories.map((inventory) => this.save(inventory)));
+  }
+
+  delete(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    deletedAt: Date,
+    source?: ChangeSource
+  ): Promise<SaveResult> {
+    return this.timed("delete", shopName, () =>
+      this.repository.delete(shopName, variantId, locationId, deletedAt, source)
+    );
+  }
+
+  markOrphaned(
+    shopName: string,
+    variantId: number,
+    orphanedAt: Date
+  ): Promise<number> {
+    return this.timed("markOrphaned", shopName, () =>
+      this.repository.markOrphaned(shopName, variantId, orphanedAt)
+    );
+  }
+
+  getByShopAndVariant(
+    shopName: string,
+    variantId: number
+  ): Promise<InventoryLevel[]> {
+    return this.timed("getByShopAndVariant", shopName, () =>
+      this.repository.getByShopAndVariant(shopName, variantId)
+    );
+  }
+
+  getByShopVariantAndLocation(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<InventoryLevel | null> {
+    return this.timed("getByShopVariantAndLocation", shopName, () =>
+      this.repository.getByShopVariantAndLocation(
+        shopName,
+        variantId,
+        locationId
+      )
+    );
+  }
+
+  getVariantTotal(
+    shopName: string,
+    variantId: number
+  ): Promise<VariantInventoryTotal | null> {
+    return this.timed("getVariantTotal", shopName, () =>
+      this.repository.getVariantTotal(shopName, variantId)
+    );
+  }
+
+  private async timed<T>(
+    operation: string,
+    shopName: string,
+    work: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = this.now();
+    try {
+      return await work();
+    } finally {
+      this.metrics.duration("RepositoryLatency", this.now() - startedAt, {
+        shop: shopName,
+        operation,
+      });
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { DynamoDBDeadLetterRepository } from "../DynamoDBDeadLetterRepository";
+import { WebhookFailure } from "../../../domain/ports/DeadLetterRepository";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-webhook-dead-letters-test";
+const SHOP = "myshop.myshopify.com";
+
+describe("DynamoDBDeadLetterRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBDeadLetterRepository;
+
+  const failure = (overrides: Partial<WebhookFailure> = {}): WebhookFailure => ({
+    id: "event-1",
+    event: '{"id":"event-1"}',
+    reason: "Internal server error: DynamoDB unavailable",
+    statusCode: 500,
+    attempts: 1,
+    failedAt: new Date("2024-01-15T10:30:00Z"),
+    shopName: SHOP,
+    topic: "inventory_levels/update",
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({ [TABLE]: { hashKey: "dead_letter_id" } });
+    repository = new DynamoDBDeadLetterRepository(db.asDocumentClient(), TABLE);
+  });
+
+  it("should record a first failure", async () => {
+    const entry = await repository.record(failure());
+
+    expect(entry).toMatchObject({
+      id: "event-1",
+      event: '{"id":"event-1"}',
+      reason: "Internal server error: DynamoDB unavailable",
+      statusCode: 500,
+      attemptCount: 1,
+      firstFailedAt: new Date("2024-01-15T10:30:00Z"),
+      lastFailedAt: new Date("2024-01-15T10:30:00Z"),
+      shopName: SHOP,
+      topic: "inventory_levels/update",
+      replayedAt: undefined,
+    });
+    expect(await repository.get("event-1")).toEqual(entry);
+  });
+
+  it("should add attempts and keep the latest reason on repeated failures", async () => {
+    await repository.record(failure({ attempts: 5 }));
+
+    const entry = await repository.record(
+      failure({
+        reason: "Partial success: some updates failed: Throttled",
+        statusCode: 207,
+        failedAt: new Date("2024-01-16T08:00:00Z"),
+      })
+    );
+
+    expect(entry).toMatchObject({
+      reason: "Partial success: some updates failed: Throttled",
+      statusCode: 207,
+      attemptCount: 6,
+      firstFailedAt: new Date("2024-01-15T10:30:00Z"),
+      lastFailedAt: new Date("2024-01-16T08:00:00Z"),
+    });
+  });
+
+  it("should record events whose shop and topic are unknown", async () => {
+    const entry = await repository.record(
+      failure({ shopName: undefined, topic: undefined })
+    );
+
+    expect(entry.shopName).toBeUndefined();
+    expect(entry.topic).toBeUndefined();
+  });
+
+  it("should return null for an unknown entry", async () => {
+    expect(await repository.get("event-1")).toBeNull();
+  });
+
+  it("should mark an entry replayed until it fails again", async () => {
+    await repository.record(failure());
+    await repository.markReplayed("event-1", new Date("2024-01-17T00:00:00Z"));
+
+    expect((await repository.get("event-1"))?.replayedAt).toEqual(
+      new Date("2024-01-17T00:00:00Z")
+    );
+
+    const entry = await repository.record(failure());
+    expect(entry.replayedAt).toBeUndefined();
+  });
+
+  it("should refuse to mark an unknown entry replayed", async () => {
+    await expect(repository.markReplayed("event-1", new Date())).rejects.toThrow(
+      "Unknown dead letter: event-1"
+    );
+    expect(db.items(TABLE)).toEqual([]);
+  });
+
+  describe("list", () => {
+    beforeEach(async () => {
+      await repository.record(
+        failure({ id: "event-3", failedAt: new Date("2024-01-17T00:00:00Z") })
+      );
+      await repository.record(
+        failure({
+          id: "event-1",
+          failedAt: new Date("2024-01-15T00:00:00Z"),
+          topic: "products/update",
+        })
+      );
+      await repository.record(
+        failure({
+          id: "event-2",
+          failedAt: new Date("2024-01-16T00:00:00Z"),
+          shopName: "other.myshopify.com",
+        })
+      );
+      await repository.markReplayed("event-3", new Date("2024-01-18T00:00:00Z"));
+    });
+
+    const ids = async (filter: Parameters<typeof repository.list>[0]) =>
+      (await repository.list(filter)).map((entry) => entry.id);
+
+    it("should list unreplayed entries oldest first", async () => {
+      expect(await ids({})).toEqual(["event-1", "event-2"]);
+      expect(await ids({ includeReplayed: true })).toEqual([
+        "event-1",
+        "event-2",
+        "event-3",
+      ]);
+    });
+
+    it("should filter by shop and topic", async () => {
+      expect(await ids({ shopName: SHOP })).toEqual(["event-1"]);
+      expect(await ids({ topic: "products/update" })).toEqual(["event-1"]);
+    });
+
+    it("should filter by when the event last failed", async () => {
+      expect(
+        await ids({
+          failedFrom: new Date("2024-01-16T00:00:00Z"),
+          failedTo: new Date("2024-01-17T00:00:00Z"),
+          includeReplayed: true,
+        })
+      ).toEqual(["event-2", "event-3"]);
+    });
+  });
+});
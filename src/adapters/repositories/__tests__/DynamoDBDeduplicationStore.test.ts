@@ -0,0 +1,133 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { TransactWriteCommand } from "@aws-sdk/lib-dynamodb";
+import { DynamoDBDeduplicationStore } from "../DynamoDBDeduplicationStore";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-webhook-dedup-test";
+const TTL_SECONDS = 60;
+const LEASE_SECONDS = 10;
+
+describe("DynamoDBDeduplicationStore", () => {
+  let db: LocalDynamoDB;
+  let now: number;
+  let store: DynamoDBDeduplicationStore;
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({ [TABLE]: { hashKey: "dedup_key" } });
+    now = Date.parse("2024-01-15T10:30:00Z");
+    store = new DynamoDBDeduplicationStore(
+      db.asDocumentClient(),
+      TABLE,
+      TTL_SECONDS,
+      LEASE_SECONDS,
+      () => now
+    );
+  });
+
+  it("should lease unseen keys in one transaction", async () => {
+    const outcome = await store.claim(["eventbridge:abc", "webhook:123"]);
+
+    expect(outcome).toBe("claimed");
+    expect(db.sent).toEqual([expect.any(TransactWriteCommand)]);
+    expect(db.peek(TABLE, { dedup_key: "webhook:123" })).toEqual({
+      dedup_key: "webhook:123",
+      status: "in_progress",
+      claimed_at: "2024-01-15T10:30:00.000Z",
+      expires_at: now / 1000 + LEASE_SECONDS,
+    });
+  });
+
+  it("should claim a delivery with no keys without writing", async () => {
+    const outcome = await store.claim([]);
+
+    expect(outcome).toBe("claimed");
+    expect(db.sent).toEqual([]);
+  });
+
+  it("should remember completed keys for the full window", async () => {
+    await store.claim(["webhook:123"]);
+
+    await store.complete(["webhook:123"]);
+
+    expect(db.peek(TABLE, { dedup_key: "webhook:123" })).toEqual({
+      dedup_key: "webhook:123",
+      status: "completed",
+      completed_at: "2024-01-15T10:30:00.000Z",
+      expires_at: now / 1000 + TTL_SECONDS,
+    });
+  });
+
+  it("should report a key another attempt is processing", async () => {
+    await store.claim(["eventbridge:abc", "webhook:123"]);
+
+    const outcome = await store.claim(["eventbridge:def", "webhook:123"]);
+
+    expect(outcome).toBe("in_progress");
+  });
+
+  it("should report a completed delivery as completed", async () => {
+    await store.claim(["eventbridge:abc", "webhook:123"]);
+    await store.complete(["eventbridge:abc", "webhook:123"]);
+
+    const outcome = await store.claim(["eventbridge:def", "webhook:123"]);
+
+    expect(outcome).toBe("completed");
+  });
+
+  it("should not keep partial claims from a rejected delivery", async () => {
+    await store.claim(["webhook:123"]);
+
+    await store.claim(["eventbridge:def", "webhook:123"]);
+
+    expect(db.peek(TABLE, { dedup_key: "eventbridge:def" })).toBeUndefined();
+  });
+
+  it("should let a claim be taken over once its lease expires", async () => {
+    await store.claim(["webhook:123"]);
+    now += LEASE_SECONDS * 1000;
+
+    const outcome = await store.claim(["webhook:123"]);
+
+    expect(outcome).toBe("claimed");
+  });
+
+  it("should allow a claim once the window has passed", async () => {
+    await store.claim(["webhook:123"]);
+    await store.complete(["webhook:123"]);
+    now += TTL_SECONDS * 1000;
+
+    const outcome = await store.claim(["webhook:123"]);
+
+    expect(outcome).toBe("claimed");
+  });
+
+  it("should allow a claim again after release", async () => {
+    await store.claim(["eventbridge:abc", "webhook:123"]);
+
+    await store.release(["eventbridge:abc", "webhook:123"]);
+
+    expect(await store.claim(["eventbridge:abc", "webhook:123"])).toBe(
+      "claimed"
+    );
+  });
+
+  it("should rethrow storage errors", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(new Error("Throttled"));
+
+    await expect(store.claim(["webhook:123"])).rejects.toThrow("Throttled");
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(store.claim(["webhook:123"])).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
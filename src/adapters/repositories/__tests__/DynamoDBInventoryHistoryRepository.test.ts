@@ -0,0 +1,157 @@
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import {
+  DynamoDBInventoryHistoryRepository,
+  fromHistoryItem,
+  toHistoryItem,
+} from "../DynamoDBInventoryHistoryRepository";
+import { InventoryHistoryEntry } from "../../../domain/entities/InventoryHistoryEntry";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-inventory-history-test";
+
+describe("DynamoDBInventoryHistoryRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBInventoryHistoryRepository;
+
+  const entryAt = (
+    iso: string,
+    locationId: number,
+    newAvailable: number,
+    eventId?: string
+  ) =>
+    new InventoryHistoryEntry(
+      "myshop",
+      55555,
+      locationId,
+      newAvailable + 1,
+      newAvailable,
+      new Date(iso),
+      new Date("2024-02-01T00:00:00Z"),
+      12345,
+      eventId,
+      eventId ? "inventory_levels/update" : undefined
+    );
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_variant_id", rangeKey: "change_key" },
+    });
+    repository = new DynamoDBInventoryHistoryRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  describe("toHistoryItem", () => {
+    it("should store the change under a time-sortable key", () => {
+      expect(
+        toHistoryItem(entryAt("2024-01-15T10:30:00Z", 789, 3, "evt-1"))
+      ).toEqual({
+        shop_variant_id: "myshop#55555",
+        change_key: "2024-01-15T10:30:00.000Z#789#evt-1",
+        location_id: 789,
+        inventory_item_id: 12345,
+        previous_available: 4,
+        new_available: 3,
+        delta: -1,
+        changed_at: "2024-01-15T10:30:00.000Z",
+        recorded_at: "2024-02-01T00:00:00.000Z",
+        event_id: "evt-1",
+        topic: "inventory_levels/update",
+        removed: false,
+      });
+    });
+
+    it("should key changes without an event ID by a new ID", () => {
+      expect(
+        toHistoryItem(entryAt("2024-01-15T10:30:00Z", 789, 3), () => "id-1")
+          .change_key
+      ).toBe("2024-01-15T10:30:00.000Z#789#id-1");
+    });
+  });
+
+  describe("fromHistoryItem", () => {
+    it("should rebuild the entry it was stored from", () => {
+      const entry = entryAt("2024-01-15T10:30:00Z", 789, 3, "evt-1");
+
+      expect(fromHistoryItem(toHistoryItem(entry))).toEqual(entry);
+    });
+
+    it("should reject an item missing stock values", () => {
+      const item = {
+        ...toHistoryItem(entryAt("2024-01-15T10:30:00Z", 789, 3, "evt-1")),
+        new_available: undefined,
+      };
+
+      expect(() => fromHistoryItem(item)).toThrow(
+        "Invalid history entry for myshop#55555"
+      );
+    });
+  });
+
+  describe("query", () => {
+    beforeEach(() => {
+      [
+        entryAt("2024-01-15T12:00:00Z", 1, 0, "evt-3"),
+        entryAt("2024-01-15T10:00:00Z", 1, 5, "evt-1"),
+        entryAt("2024-01-15T11:00:00Z", 2, 7, "evt-2"),
+      ].forEach((entry) => db.seed(TABLE, toHistoryItem(entry)));
+    });
+
+    it("should return a variant's history oldest first", async () => {
+      const entries = await repository.query({
+        shopName: "myshop",
+        variantId: 55555,
+      });
+
+      expect(entries.map((e) => e.eventId)).toEqual(["evt-1", "evt-2", "evt-3"]);
+      expect(entries[0]).toEqual(entryAt("2024-01-15T10:00:00Z", 1, 5, "evt-1"));
+    });
+
+    it("should filter by location", async () => {
+      const entries = await repository.query({
+        shopName: "myshop",
+        variantId: 55555,
+        locationId: 1,
+      });
+
+      expect(entries.map((e) => e.eventId)).toEqual(["evt-1", "evt-3"]);
+    });
+
+    it("should filter by an inclusive time range", async () => {
+      const entries = await repository.query({
+        shopName: "myshop",
+        variantId: 55555,
+        from: new Date("2024-01-15T11:00:00Z"),
+        to: new Date("2024-01-15T12:00:00Z"),
+      });
+
+      expect(entries.map((e) => e.eventId)).toEqual(["evt-2", "evt-3"]);
+    });
+
+    it("should stop once the limit is reached", async () => {
+      const send = db.send.bind(db);
+      jest.spyOn(db, "send").mockImplementation((command) => {
+        if (command instanceof QueryCommand) {
+          command.input.Limit = 1;
+        }
+        return send(command);
+      });
+
+      const entries = await repository.query({
+        shopName: "myshop",
+        variantId: 55555,
+        limit: 2,
+      });
+
+      expect(entries.map((e) => e.eventId)).toEqual(["evt-1", "evt-2"]);
+      expect(db.sent.filter((c) => c instanceof QueryCommand)).toHaveLength(2);
+    });
+
+    it("should return nothing for another variant", async () => {
+      expect(
+        await repository.query({ shopName: "myshop", variantId: 1 })
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBInventoryItemRepository } from "../DynamoDBInventoryItemRepository";
+import { InventoryItem } from "../../../domain/entities/InventoryItem";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-inventory-items-test";
+
+describe("DynamoDBInventoryItemRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBInventoryItemRepository;
+
+  const itemAt = (sku: string | null, iso: string) =>
+    new InventoryItem("myshop", 12345, sku, true, "12.50", "PT", false, new Date(iso));
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_inventory_item_id", rangeKey: "record_type" },
+    });
+    repository = new DynamoDBInventoryItemRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  describe("save", () => {
+    it("should store the catalog attributes", async () => {
+      const outcome = await repository.save(
+        itemAt("TSHIRT-RED-M", "2024-01-15T10:30:00Z")
+      );
+
+      expect(outcome).toBe("saved");
+      expect(
+        db.peek(TABLE, {
+          shop_inventory_item_id: "myshop#12345",
+          record_type: "item",
+        })
+      ).toEqual({
+        shop_inventory_item_id: "myshop#12345",
+        record_type: "item",
+        sku: "TSHIRT-RED-M",
+        tracked: true,
+        unit_cost: "12.50",
+        country_of_origin: "PT",
+        requires_shipping: false,
+        updated_at: "2024-01-15T10:30:00.000Z",
+      });
+    });
+
+    it("should skip an update older than the stored one", async () => {
+      await repository.save(itemAt("NEW", "2024-01-15T10:31:00Z"));
+
+      const outcome = await repository.save(itemAt("OLD", "2024-01-15T10:30:00Z"));
+
+      expect(outcome).toBe("stale");
+      expect((await repository.getByInventoryItem("myshop", 12345))?.sku).toBe(
+        "NEW"
+      );
+    });
+
+    it("should not restore a deleted item", async () => {
+      await repository.markDeleted(
+        "myshop",
+        12345,
+        new Date("2024-01-15T10:30:00Z")
+      );
+
+      const outcome = await repository.save(itemAt("LATE", "2024-01-15T10:31:00Z"));
+
+      expect(outcome).toBe("stale");
+      expect(await repository.getByInventoryItem("myshop", 12345)).toBeNull();
+    });
+
+    it("should rethrow errors other than a failed condition", async () => {
+      jest.spyOn(db, "send").mockRejectedValueOnce(new Error("Throttled"));
+
+      await expect(
+        repository.save(itemAt("A", "2024-01-15T10:30:00Z"))
+      ).rejects.toThrow("Throttled");
+    });
+  });
+
+  describe("markDeleted", () => {
+    it("should keep the first deletion time", async () => {
+      await repository.markDeleted("myshop", 12345, new Date("2024-01-15T10:30:00Z"));
+      await repository.markDeleted("myshop", 12345, new Date("2024-01-16T10:30:00Z"));
+
+      expect(
+        db.peek(TABLE, {
+          shop_inventory_item_id: "myshop#12345",
+          record_type: "item",
+        })?.deleted_at
+      ).toBe("2024-01-15T10:30:00.000Z");
+    });
+  });
+
+  describe("getByInventoryItem", () => {
+    it("should read back a saved item", async () => {
+      const item = itemAt(null, "2024-01-15T10:30:00Z");
+      await repository.save(item);
+
+      expect(await repository.getByInventoryItem("myshop", 12345)).toEqual(item);
+    });
+
+    it("should return null for an unknown item", async () => {
+      expect(await repository.getByInventoryItem("myshop", 12345)).toBeNull();
+    });
+
+    it("should throw when a stored item is corrupt", async () => {
+      db.seed(TABLE, {
+        shop_inventory_item_id: "myshop#12345",
+        record_type: "item",
+        updated_at: "2024-01-15T10:30:00Z",
+      });
+
+      await expect(
+        repository.getByInventoryItem("myshop", 12345)
+      ).rejects.toThrow("Invalid inventory item for myshop#12345");
+    });
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(repository.getByInventoryItem("myshop", 12345)).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
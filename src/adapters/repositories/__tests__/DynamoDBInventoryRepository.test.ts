@@ -0,0 +1,784 @@
+import {
+  ProvisionedThroughputExceededException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DeleteCommand,
+  QueryCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { DynamoDBInventoryRepository } from "../DynamoDBInventoryRepository";
+import { InventoryLevel } from "../../../domain/entities/InventoryLevel";
+import { VariantInventoryTotal } from "../../../domain/entities/VariantInventoryTotal";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+
+const TABLE = "shopify-inventory-test";
+const HISTORY_TABLE = "shopify-inventory-history-test";
+
+describe("DynamoDBInventoryRepository", () => {
+  let db: LocalDynamoDB;
+  let logger: InMemoryLogger;
+  let repository: DynamoDBInventoryRepository;
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_variant_id", rangeKey: "location" },
+      [HISTORY_TABLE]: { hashKey: "shop_variant_id", rangeKey: "change_key" },
+    });
+    logger = new InMemoryLogger();
+    repository = new DynamoDBInventoryRepository(
+      db.asDocumentClient(),
+      TABLE,
+      HISTORY_TABLE,
+      logger,
+      () => "id-1"
+    );
+  });
+
+  describe("save", () => {
+    it("should store stock under the composite and location keys", async () => {
+      const level = new InventoryLevel(
+        "myshop.myshopify.com",
+        12345,
+        789,
+        50,
+        new Date("2024-01-15T10:30:00Z"),
+        12345
+      );
+
+      const { outcome } = await repository.save(level);
+
+      expect(outcome).toBe("saved");
+      expect(
+        db.peek(TABLE, {
+          shop_variant_id: "myshop.myshopify.com#12345",
+          location: "789",
+        })
+      ).toEqual({
+        shop_variant_id: "myshop.myshopify.com#12345",
+        location: "789",
+        stock_count: 50,
+        updated_at: "2024-01-15T10:30:00.000Z",
+        inventory_item_id: 12345,
+        location_id: 789,
+      });
+    });
+  });
+
+  describe("previous stock", () => {
+    const levelAt = (available: number, iso: string) =>
+      new InventoryLevel("myshop", 12345, 789, available, new Date(iso), 12345);
+
+    it("should return the stock a save replaced", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      const result = await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      expect(result).toEqual({ outcome: "saved", previousAvailable: 50 });
+    });
+
+    it("should return null for a new level", async () => {
+      const result = await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      expect(result.previousAvailable).toBeNull();
+    });
+
+    it("should return null when reviving a disconnected level", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+      await repository.delete("myshop", 12345, 789, new Date("2024-01-15T10:31:00Z"));
+
+      const result = await repository.save(levelAt(5, "2024-01-15T10:32:00Z"));
+
+      expect(result.previousAvailable).toBeNull();
+    });
+
+    it("should return the stock a disconnect removed", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      const result = await repository.delete(
+        "myshop",
+        12345,
+        789,
+        new Date("2024-01-15T10:31:00Z")
+      );
+
+      expect(result).toEqual({ outcome: "saved", previousAvailable: 50 });
+    });
+  });
+
+  describe("save ordering", () => {
+    const levelAt = (available: number, iso: string) =>
+      new InventoryLevel("myshop", 12345, 789, available, new Date(iso), 12345);
+
+    it("should apply an update newer than the stored one", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      const { outcome } = await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      expect(outcome).toBe("saved");
+      expect(
+        db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "789" })
+          ?.stock_count
+      ).toBe(40);
+    });
+
+    it("should skip an update older than the stored one", async () => {
+      await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      const { outcome } = await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      expect(outcome).toBe("stale");
+      expect(
+        db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "789" })
+      ).toEqual(
+        expect.objectContaining({
+          stock_count: 40,
+          updated_at: "2024-01-15T10:31:00.000Z",
+        })
+      );
+    });
+
+    it("should skip a redelivery with the same timestamp", async () => {
+      await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      const { outcome } = await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      expect(outcome).toBe("stale");
+    });
+
+    it("should rethrow errors other than a failed condition", async () => {
+      jest.spyOn(db, "send").mockRejectedValueOnce(new Error("Throttled"));
+
+      await expect(
+        repository.save(levelAt(40, "2024-01-15T10:31:00Z"))
+      ).rejects.toThrow("Throttled");
+    });
+
+    it("should report throttling as a transient storage error", async () => {
+      const throttled = new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      });
+      jest.spyOn(db, "send").mockRejectedValueOnce(throttled);
+
+      const saving = repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      await expect(saving).rejects.toBeInstanceOf(TransientStorageError);
+      await expect(saving).rejects.toHaveProperty("cause", throttled);
+    });
+
+    it("should report a result per level from saveMany", async () => {
+      await repository.save(levelAt(40, "2024-01-15T10:31:00Z"));
+
+      const results = await repository.saveMany([
+        levelAt(50, "2024-01-15T10:30:00Z"),
+        new InventoryLevel(
+          "myshop",
+          12345,
+          790,
+          5,
+          new Date("2024-01-15T10:30:00Z"),
+          12345
+        ),
+      ]);
+
+      expect(results).toEqual([
+        { outcome: "stale", previousAvailable: null },
+        { outcome: "saved", previousAvailable: null },
+      ]);
+    });
+  });
+
+  describe("getByShopVariantAndLocation", () => {
+    it("should read back a saved inventory level", async () => {
+      const level = new InventoryLevel(
+        "myshop.myshopify.com",
+        12345,
+        789,
+        50,
+        new Date("2024-01-15T10:30:00Z"),
+        555
+      );
+      await repository.save(level);
+
+      const result = await repository.getByShopVariantAndLocation(
+        "myshop.myshopify.com",
+        12345,
+        789
+      );
+
+      expect(result).toBeInstanceOf(InventoryLevel);
+      expect(result).toEqual(level);
+    });
+
+    it("should return null when no item exists", async () => {
+      const result = await repository.getByShopVariantAndLocation(
+        "myshop.myshopify.com",
+        12345,
+        789
+      );
+
+      expect(result).toBeNull();
+    });
+
+    it("should fall back to the sort key when location_id is absent", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "myshop#12345",
+        location: "789",
+        stock_count: 3,
+        updated_at: "2024-01-15T10:30:00Z",
+      });
+
+      const result = await repository.getByShopVariantAndLocation(
+        "myshop",
+        12345,
+        789
+      );
+
+      expect(result?.locationId).toBe(789);
+      expect(result?.inventoryItemId).toBeUndefined();
+    });
+
+    it("should throw when a stored item has no stock_count", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "myshop#12345",
+        location: "789",
+        updated_at: "2024-01-15T10:30:00Z",
+      });
+
+      await expect(
+        repository.getByShopVariantAndLocation("myshop", 12345, 789)
+      ).rejects.toThrow("Invalid stock_count for myshop#12345");
+    });
+
+    it("should throw when a stored item has an unparseable date", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "myshop#12345",
+        location: "789",
+        stock_count: 3,
+        updated_at: "yesterday",
+      });
+
+      await expect(
+        repository.getByShopVariantAndLocation("myshop", 12345, 789)
+      ).rejects.toThrow("Invalid date format for updated_at: yesterday");
+    });
+
+    it("should surface domain validation for corrupt stock values", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "myshop#12345",
+        location: "789",
+        stock_count: -4,
+        updated_at: "2024-01-15T10:30:00Z",
+      });
+
+      await expect(
+        repository.getByShopVariantAndLocation("myshop", 12345, 789)
+      ).rejects.toThrow("Available stock cannot be negative");
+    });
+  });
+
+  describe("getByShopAndVariant", () => {
+    it("should return every location for the variant", async () => {
+      const updatedAt = new Date("2024-01-15T10:30:00Z");
+      await repository.saveMany([
+        new InventoryLevel("myshop", 12345, 1, 10, updatedAt, 12345),
+        new InventoryLevel("myshop", 12345, 2, 20, updatedAt, 12345),
+        new InventoryLevel("myshop", 99999, 1, 30, updatedAt, 99999),
+        new InventoryLevel("othershop", 12345, 1, 40, updatedAt, 12345),
+      ]);
+
+      const result = await repository.getByShopAndVariant("myshop", 12345);
+
+      expect(result.map((l) => [l.locationId, l.available])).toEqual([
+        [1, 10],
+        [2, 20],
+      ]);
+      result.forEach((level) => {
+        expect(level.shopName).toBe("myshop");
+        expect(level.variantId).toBe(12345);
+      });
+    });
+
+    it("should return an empty array when nothing is stored", async () => {
+      const result = await repository.getByShopAndVariant("myshop", 12345);
+
+      expect(result).toEqual([]);
+    });
+
+    it("should follow pagination until the last page", async () => {
+      for (let location = 1; location <= 3; location++) {
+        db.seed(TABLE, {
+          shop_variant_id: "myshop#12345",
+          location: location.toString(),
+          stock_count: location,
+          updated_at: "2024-01-15T10:30:00Z",
+        });
+      }
+      const send = db.send.bind(db);
+      jest.spyOn(db, "send").mockImplementation((command) => {
+        if (command instanceof QueryCommand) {
+          command.input.Limit = 1;
+        }
+        return send(command);
+      });
+
+      const result = await repository.getByShopAndVariant("myshop", 12345);
+
+      expect(result.map((l) => l.locationId)).toEqual([1, 2, 3]);
+      expect(db.sent.filter((c) => c instanceof QueryCommand)).toHaveLength(3);
+    });
+
+    it("should keep '#' inside shop names when parsing keys", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "odd#shop#12345",
+        location: "1",
+        stock_count: 5,
+        updated_at: "2024-01-15T10:30:00Z",
+      });
+
+      const [level] = await repository.getByShopAndVariant("odd#shop", 12345);
+
+      expect(level.shopName).toBe("odd#shop");
+      expect(level.variantId).toBe(12345);
+    });
+  });
+
+  describe("markOrphaned", () => {
+    const updatedAt = new Date("2024-01-15T10:30:00Z");
+    const orphanedAt = new Date("2024-02-01T00:00:00Z");
+
+    it("should flag every location of the variant", async () => {
+      await repository.saveMany([
+        new InventoryLevel("myshop", 12345, 1, 10, updatedAt, 12345),
+        new InventoryLevel("myshop", 12345, 2, 20, updatedAt, 12345),
+        new InventoryLevel("myshop", 99999, 1, 30, updatedAt, 99999),
+      ]);
+
+      const marked = await repository.markOrphaned("myshop", 12345, orphanedAt);
+
+      expect(marked).toBe(2);
+      const levels = await repository.getByShopAndVariant("myshop", 12345);
+      levels.forEach((level) => {
+        expect(level.orphanedAt).toEqual(orphanedAt);
+        expect(level.available).toBeGreaterThan(0);
+      });
+      const [other] = await repository.getByShopAndVariant("myshop", 99999);
+      expect(other.isOrphaned()).toBe(false);
+    });
+
+    it("should not recreate a level deleted in the meantime", async () => {
+      await repository.save(
+        new InventoryLevel("myshop", 12345, 1, 10, updatedAt, 12345)
+      );
+      const send = db.send.bind(db);
+      jest.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command instanceof QueryCommand) {
+          const result = await send(command);
+          await send(
+            new DeleteCommand({
+              TableName: TABLE,
+              Key: { shop_variant_id: "myshop#12345", location: "1" },
+            })
+          );
+          return result;
+        }
+        return send(command);
+      });
+
+      const marked = await repository.markOrphaned("myshop", 12345, orphanedAt);
+
+      expect(marked).toBe(0);
+      expect(
+        db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "1" })
+      ).toBeUndefined();
+    });
+  });
+
+  describe("delete", () => {
+    const levelAt = (available: number, iso: string) =>
+      new InventoryLevel("myshop", 12345, 789, available, new Date(iso), 12345);
+    const disconnectedAt = new Date("2024-01-15T10:31:00Z");
+
+    it("should hide a disconnected level from reads", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      const { outcome } = await repository.delete("myshop", 12345, 789, disconnectedAt);
+
+      expect(outcome).toBe("saved");
+      expect(
+        await repository.getByShopVariantAndLocation("myshop", 12345, 789)
+      ).toBeNull();
+      expect(await repository.getByShopAndVariant("myshop", 12345)).toEqual([]);
+      expect(
+        db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "789" })
+      ).toEqual(
+        expect.objectContaining({
+          stock_count: 0,
+          updated_at: "2024-01-15T10:31:00.000Z",
+          disconnected_at: "2024-01-15T10:31:00.000Z",
+        })
+      );
+    });
+
+    it("should reject updates older than the disconnect", async () => {
+      await repository.delete("myshop", 12345, 789, disconnectedAt);
+
+      const { outcome } = await repository.save(levelAt(50, "2024-01-15T10:30:00Z"));
+
+      expect(outcome).toBe("stale");
+      expect(
+        await repository.getByShopVariantAndLocation("myshop", 12345, 789)
+      ).toBeNull();
+    });
+
+    it("should revive the level on a newer save", async () => {
+      await repository.delete("myshop", 12345, 789, disconnectedAt);
+
+      await repository.save(levelAt(0, "2024-01-15T10:32:00Z"));
+
+      const level = await repository.getByShopVariantAndLocation(
+        "myshop",
+        12345,
+        789
+      );
+      expect(level?.available).toBe(0);
+      expect(
+        db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "789" })
+      ).not.toHaveProperty("disconnected_at");
+    });
+
+    it("should skip a disconnect older than the stored level", async () => {
+      await repository.save(levelAt(50, "2024-01-15T10:32:00Z"));
+
+      const { outcome } = await repository.delete("myshop", 12345, 789, disconnectedAt);
+
+      expect(outcome).toBe("stale");
+      expect(
+        (await repository.getByShopVariantAndLocation("myshop", 12345, 789))
+          ?.available
+      ).toBe(50);
+    });
+
+    it("should not orphan disconnected levels", async () => {
+      await repository.delete("myshop", 12345, 789, disconnectedAt);
+
+      expect(
+        await repository.markOrphaned("myshop", 12345, new Date())
+      ).toBe(0);
+    });
+  });
+
+  describe("history", () => {
+    const levelAt = (available: number, iso: string) =>
+      new InventoryLevel("myshop", 12345, 789, available, new Date(iso), 12345);
+    const source = {
+      recordedAt: new Date("2024-02-01T00:00:00Z"),
+      eventId: "evt-2",
+      topic: "inventory_levels/update",
+    };
+
+    it("should record a saved change in the same transaction", async () => {
+      await repository.save(levelAt(10, "2024-01-15T10:30:00Z"));
+
+      await repository.save(levelAt(3, "2024-01-15T10:31:00Z"), source);
+
+      const [transaction] = db.sent
+        .filter((command) => command instanceof TransactWriteCommand)
+        .slice(-1) as TransactWriteCommand[];
+      expect(
+        transaction.input.TransactItems?.map((item) => item.Put?.TableName)
+      ).toContain(HISTORY_TABLE);
+      expect(db.items(HISTORY_TABLE)).toEqual([
+        expect.objectContaining({
+          shop_variant_id: "myshop#12345",
+          change_key: "2024-01-15T10:31:00.000Z#789#evt-2",
+          inventory_item_id: 12345,
+          previous_available: 10,
+          new_available: 3,
+          delta: -7,
+          recorded_at: "2024-02-01T00:00:00.000Z",
+          topic: "inventory_levels/update",
+          removed: false,
+        }),
+      ]);
+    });
+
+    it("should record a disconnect as a removal down to zero", async () => {
+      await repository.save(levelAt(40, "2024-01-15T10:30:00Z"));
+
+      await repository.delete(
+        "myshop",
+        12345,
+        789,
+        new Date("2024-01-15T10:31:00Z"),
+        { ...source, topic: "inventory_levels/disconnect" }
+      );
+
+      expect(db.items(HISTORY_TABLE)).toEqual([
+        expect.objectContaining({
+          inventory_item_id: 12345,
+          previous_available: 40,
+          new_available: 0,
+          changed_at: "2024-01-15T10:31:00.000Z",
+          topic: "inventory_levels/disconnect",
+          removed: true,
+        }),
+      ]);
+    });
+
+    it("should not record stale writes", async () => {
+      await repository.save(levelAt(10, "2024-01-15T10:32:00Z"));
+
+      await repository.save(levelAt(3, "2024-01-15T10:31:00Z"), source);
+
+      expect(db.items(HISTORY_TABLE)).toEqual([]);
+    });
+
+    it("should not record a change whose level write was cancelled", async () => {
+      const send = db.send.bind(db);
+      let raced = false;
+      jest.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command instanceof TransactWriteCommand && !raced) {
+          raced = true;
+          await repository.save(levelAt(8, "2024-01-15T10:40:00Z"));
+        }
+        return send(command);
+      });
+
+      const { outcome } = await repository.save(
+        levelAt(3, "2024-01-15T10:31:00Z"),
+        source
+      );
+
+      expect(outcome).toBe("stale");
+      expect(db.items(HISTORY_TABLE)).toEqual([]);
+    });
+  });
+
+  describe("variant total", () => {
+    const levelAt = (locationId: number, available: number, iso: string) =>
+      new InventoryLevel("myshop", 12345, locationId, available, new Date(iso), 12345);
+    const total = () => repository.getVariantTotal("myshop", 12345);
+
+    it("should total stock over every location", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+      await repository.save(levelAt(2, 5, "2024-01-15T10:31:00Z"));
+      await repository.save(levelAt(3, 0, "2024-01-15T10:29:00Z"));
+
+      expect(await total()).toEqual(
+        new VariantInventoryTotal(
+          "myshop",
+          12345,
+          15,
+          3,
+          new Date("2024-01-15T10:31:00Z")
+        )
+      );
+    });
+
+    it("should apply the difference when a level changes", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+      await repository.save(levelAt(2, 5, "2024-01-15T10:30:00Z"));
+
+      await repository.save(levelAt(1, 4, "2024-01-15T10:35:00Z"));
+
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 9, stockedLocationCount: 2 })
+      );
+    });
+
+    it("should ignore stale and redelivered updates", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:35:00Z"));
+
+      await repository.save(levelAt(1, 99, "2024-01-15T10:30:00Z"));
+      await repository.save(levelAt(1, 10, "2024-01-15T10:35:00Z"));
+
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 10, stockedLocationCount: 1 })
+      );
+    });
+
+    it("should not move last updated back for an older change elsewhere", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:35:00Z"));
+      await repository.save(levelAt(2, 5, "2024-01-15T10:30:00Z"));
+
+      expect(await total()).toEqual(
+        expect.objectContaining({
+          connectedAvailable: 15,
+          updatedAt: new Date("2024-01-15T10:35:00Z"),
+        })
+      );
+    });
+
+    it("should remove a disconnected location and restore it on reconnect", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+      await repository.save(levelAt(2, 5, "2024-01-15T10:30:00Z"));
+
+      await repository.delete("myshop", 12345, 2, new Date("2024-01-15T10:40:00Z"));
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 10, stockedLocationCount: 1 })
+      );
+
+      await repository.delete("myshop", 12345, 2, new Date("2024-01-15T10:41:00Z"));
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 10, stockedLocationCount: 1 })
+      );
+
+      await repository.save(levelAt(2, 3, "2024-01-15T10:45:00Z"));
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 13, stockedLocationCount: 2 })
+      );
+    });
+
+    it("should not count a disconnect for a location never stocked", async () => {
+      await repository.delete("myshop", 12345, 2, new Date("2024-01-15T10:40:00Z"));
+
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 0, stockedLocationCount: 0 })
+      );
+    });
+
+    describe("for variants stored before the total row", () => {
+      const legacyLevel = (location: string, stock: number, extra = {}) =>
+        db.seed(TABLE, {
+          shop_variant_id: "myshop#12345",
+          location,
+          location_id: Number(location),
+          stock_count: stock,
+          updated_at: "2024-01-15T10:00:00Z",
+          ...extra,
+        });
+
+      beforeEach(() => {
+        legacyLevel("1", 10);
+        legacyLevel("2", 5);
+        legacyLevel("3", 7, { disconnected_at: "2024-01-15T10:00:00Z" });
+      });
+
+      it("should count the stored levels on read", async () => {
+        expect(await total()).toEqual(
+          new VariantInventoryTotal(
+            "myshop",
+            12345,
+            15,
+            2,
+            new Date("2024-01-15T10:00:00Z")
+          )
+        );
+      });
+
+      it("should seed the total from the stored levels on the next change", async () => {
+        await repository.save(levelAt(1, 4, "2024-01-15T10:30:00Z"));
+
+        expect(await total()).toEqual(
+          expect.objectContaining({ connectedAvailable: 9, stockedLocationCount: 2 })
+        );
+        expect(
+          db.peek(TABLE, { shop_variant_id: "myshop#12345", location: "total" })
+        ).toEqual(expect.objectContaining({ connected_available: 9, version: 1 }));
+      });
+    });
+
+    it("should write the level and total in one transaction", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+
+      const writes = db.sent.filter(
+        (command) =>
+          command instanceof TransactWriteCommand ||
+          command instanceof UpdateCommand
+      );
+      expect(writes).toHaveLength(1);
+      expect(writes[0]).toBeInstanceOf(TransactWriteCommand);
+    });
+
+    it("should retry when another write lands between read and write", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+      const send = db.send.bind(db);
+      let raced = false;
+      jest.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command instanceof TransactWriteCommand && !raced) {
+          raced = true;
+          await repository.save(levelAt(2, 7, "2024-01-15T10:31:00Z"));
+        }
+        return send(command);
+      });
+
+      const { outcome } = await repository.save(levelAt(1, 4, "2024-01-15T10:32:00Z"));
+
+      expect(outcome).toBe("saved");
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 11, stockedLocationCount: 2 })
+      );
+    });
+
+    it("should report stale when a newer level lands between read and write", async () => {
+      const send = db.send.bind(db);
+      let raced = false;
+      jest.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command instanceof TransactWriteCommand && !raced) {
+          raced = true;
+          await repository.save(levelAt(1, 8, "2024-01-15T10:40:00Z"));
+        }
+        return send(command);
+      });
+
+      const result = await repository.save(levelAt(1, 4, "2024-01-15T10:32:00Z"));
+
+      expect(result).toEqual({ outcome: "stale", previousAvailable: null });
+      expect(await total()).toEqual(
+        expect.objectContaining({ connectedAvailable: 8, stockedLocationCount: 1 })
+      );
+    });
+
+    it("should give up after repeated conflicts", async () => {
+      jest.spyOn(db, "send").mockImplementation(async (command) => {
+        if (command instanceof TransactWriteCommand) {
+          throw new TransactionCanceledException({
+            message: "Transaction cancelled",
+            $metadata: {},
+          });
+        }
+        return { Item: undefined };
+      });
+
+      await expect(
+        repository.save(levelAt(1, 4, "2024-01-15T10:32:00Z"))
+      ).rejects.toBeInstanceOf(TransientStorageError);
+      expect(
+        (db.send as jest.Mock).mock.calls.filter(
+          ([command]) => command instanceof TransactWriteCommand
+        )
+      ).toHaveLength(5);
+      expect(
+        logger.linesFor("Inventory write still contended; giving up")
+      ).toEqual([expect.objectContaining({ level: "warn", attempts: 5 })]);
+    });
+
+    it("should keep the total out of level reads", async () => {
+      await repository.save(levelAt(1, 10, "2024-01-15T10:30:00Z"));
+
+      expect(await repository.getByShopAndVariant("myshop", 12345)).toHaveLength(1);
+      expect(await repository.markOrphaned("myshop", 12345, new Date())).toBe(1);
+    });
+
+    it("should return null for a variant never saved", async () => {
+      expect(await total()).toBeNull();
+    });
+
+    it("should throw on a corrupt total", async () => {
+      db.seed(TABLE, {
+        shop_variant_id: "myshop#12345",
+        location: "total",
+        connected_available: "many",
+      });
+
+      await expect(total()).rejects.toThrow(
+        "Invalid variant total for myshop#12345"
+      );
+    });
+  });
+});
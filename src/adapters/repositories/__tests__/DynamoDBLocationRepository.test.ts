@@ -0,0 +1,151 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { DynamoDBLocationRepository } from "../DynamoDBLocationRepository";
+import { Location, LocationAddress } from "../../../domain/entities/Location";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-locations-test";
+
+describe("DynamoDBLocationRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBLocationRepository;
+
+  const address: LocationAddress = {
+    address1: "1 Harbour Rd",
+    address2: null,
+    city: "Lisbon",
+    province: null,
+    provinceCode: null,
+    zip: "1000-001",
+    country: "Portugal",
+    countryCode: "PT",
+  };
+  const locationAt = (
+    locationId: number,
+    active: boolean,
+    iso: string,
+    shopName = "myshop"
+  ) =>
+    new Location(shopName, locationId, "Main", address, active, true, new Date(iso));
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_name", rangeKey: "location" },
+    });
+    repository = new DynamoDBLocationRepository(db.asDocumentClient(), TABLE);
+  });
+
+  describe("save", () => {
+    it("should store the location under the shop", async () => {
+      const outcome = await repository.save(
+        locationAt(789, true, "2024-01-15T10:30:00Z")
+      );
+
+      expect(outcome).toBe("saved");
+      expect(db.peek(TABLE, { shop_name: "myshop", location: "789" })).toEqual({
+        shop_name: "myshop",
+        location: "789",
+        location_id: 789,
+        name: "Main",
+        address,
+        active: true,
+        fulfills_online_orders: true,
+        updated_at: "2024-01-15T10:30:00.000Z",
+      });
+    });
+
+    it("should skip an update older than the stored one", async () => {
+      await repository.save(locationAt(789, false, "2024-01-15T10:31:00Z"));
+
+      const outcome = await repository.save(
+        locationAt(789, true, "2024-01-15T10:30:00Z")
+      );
+
+      expect(outcome).toBe("stale");
+      expect(
+        (await repository.getByShopAndLocation("myshop", 789))?.active
+      ).toBe(false);
+    });
+
+    it("should not restore a deleted location", async () => {
+      await repository.save(locationAt(789, true, "2024-01-15T10:30:00Z"));
+      await repository.markDeleted("myshop", 789, new Date("2024-01-16T00:00:00Z"));
+
+      const outcome = await repository.save(
+        locationAt(789, true, "2024-01-15T10:31:00Z")
+      );
+
+      expect(outcome).toBe("stale");
+    });
+  });
+
+  describe("markDeleted", () => {
+    it("should tombstone a known location", async () => {
+      await repository.save(locationAt(789, true, "2024-01-15T10:30:00Z"));
+
+      await repository.markDeleted("myshop", 789, new Date("2024-01-16T00:00:00Z"));
+
+      const location = await repository.getByShopAndLocation("myshop", 789);
+      expect(location?.deletedAt).toEqual(new Date("2024-01-16T00:00:00Z"));
+      expect(location?.isSellable()).toBe(false);
+    });
+
+    it("should ignore an unknown location", async () => {
+      await repository.markDeleted("myshop", 789, new Date("2024-01-16T00:00:00Z"));
+
+      expect(db.items(TABLE)).toEqual([]);
+    });
+  });
+
+  describe("getByShop", () => {
+    it("should return only the shop's locations across pages", async () => {
+      await repository.save(locationAt(1, true, "2024-01-15T10:30:00Z"));
+      await repository.save(locationAt(2, false, "2024-01-15T10:30:00Z"));
+      await repository.save(
+        locationAt(3, true, "2024-01-15T10:30:00Z", "othershop")
+      );
+      const send = db.send.bind(db);
+      jest.spyOn(db, "send").mockImplementation((command) => {
+        if (command instanceof QueryCommand) {
+          command.input.Limit = 1;
+        }
+        return send(command);
+      });
+
+      const result = await repository.getByShop("myshop");
+
+      expect(result.map((l) => [l.locationId, l.active])).toEqual([
+        [1, true],
+        [2, false],
+      ]);
+    });
+
+    it("should throw when a stored location is corrupt", async () => {
+      db.seed(TABLE, { shop_name: "myshop", location: "789", name: "Main" });
+
+      await expect(repository.getByShop("myshop")).rejects.toThrow(
+        "Invalid location for myshop#789"
+      );
+    });
+  });
+
+  describe("getByShopAndLocation", () => {
+    it("should return null for an unknown location", async () => {
+      expect(await repository.getByShopAndLocation("myshop", 789)).toBeNull();
+    });
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(repository.getByShopAndLocation("myshop", 789)).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBPendingInventoryUpdateRepository } from "../DynamoDBPendingInventoryUpdateRepository";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-inventory-items-test";
+
+describe("DynamoDBPendingInventoryUpdateRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBPendingInventoryUpdateRepository;
+
+  const update = (locationId: number, available: number, iso: string) => ({
+    inventory_item_id: 12345,
+    location_id: locationId,
+    available,
+    updated_at: iso,
+  });
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_inventory_item_id", rangeKey: "record_type" },
+    });
+    repository = new DynamoDBPendingInventoryUpdateRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  it("should store one pending record per location", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+    await repository.defer("myshop", update(2, 7, "2024-01-15T10:30:00Z"));
+
+    expect(db.items(TABLE).map((i) => i.record_type).sort()).toEqual([
+      "pending#1",
+      "pending#2",
+    ]);
+  });
+
+  it("should discard the update for one location", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+    await repository.defer("myshop", update(2, 7, "2024-01-15T10:30:00Z"));
+
+    await repository.discard("myshop", 12345, 1);
+
+    expect(await repository.findForInventoryItem("myshop", 12345)).toEqual([
+      update(2, 7, "2024-01-15T10:30:00.000Z"),
+    ]);
+  });
+
+  it("should keep only the newest update for a location", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:31:00Z"));
+    await repository.defer("myshop", update(1, 9, "2024-01-15T10:30:00Z"));
+
+    const pending = await repository.findForInventoryItem("myshop", 12345);
+
+    expect(pending).toEqual([update(1, 5, "2024-01-15T10:31:00.000Z")]);
+  });
+
+  it("should compare updates in UTC whatever their offset", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-03-10T03:30:00-07:00"));
+    await repository.defer("myshop", update(1, 9, "2024-03-10T02:45:00-08:00"));
+
+    const pending = await repository.findForInventoryItem("myshop", 12345);
+
+    expect(pending).toEqual([update(1, 9, "2024-03-10T10:45:00.000Z")]);
+  });
+
+  it("should remove an applied update given in another offset", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+
+    await repository.remove("myshop", update(1, 5, "2024-01-15T05:30:00-05:00"));
+
+    expect(await repository.findForInventoryItem("myshop", 12345)).toEqual([]);
+  });
+
+  it("should leave the updates it returns in place", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+    await repository.defer("myshop", update(2, 7, "2024-01-15T10:30:00Z"));
+
+    const pending = await repository.findForInventoryItem("myshop", 12345);
+
+    expect(pending).toHaveLength(2);
+    expect(await repository.findForInventoryItem("myshop", 12345)).toEqual(
+      pending
+    );
+  });
+
+  it("should read pending updates consistently", async () => {
+    await repository.findForInventoryItem("myshop", 12345);
+
+    expect(db.sent).toEqual([
+      expect.objectContaining({
+        input: expect.objectContaining({ ConsistentRead: true }),
+      }),
+    ]);
+  });
+
+  it("should remove an applied update", async () => {
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+    await repository.defer("myshop", update(2, 7, "2024-01-15T10:30:00Z"));
+
+    await repository.remove("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+
+    expect(await repository.findForInventoryItem("myshop", 12345)).toEqual([
+      update(2, 7, "2024-01-15T10:30:00.000Z"),
+    ]);
+  });
+
+  it("should leave the variant mapping record in place", async () => {
+    db.seed(TABLE, {
+      shop_inventory_item_id: "myshop#12345",
+      record_type: "variant",
+      variant_id: 55555,
+    });
+    await repository.defer("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+
+    await repository.remove("myshop", update(1, 5, "2024-01-15T10:30:00Z"));
+
+    expect(db.items(TABLE).map((i) => i.record_type)).toEqual(["variant"]);
+  });
+
+  it("should keep an update deferred after the applied one was read", async () => {
+    await repository.defer("myshop", update(1, 3, "2024-01-15T10:32:00Z"));
+    const [applied] = await repository.findForInventoryItem("myshop", 12345);
+    await repository.defer("myshop", update(1, 1, "2024-01-15T10:33:00Z"));
+
+    await repository.remove("myshop", applied);
+
+    expect(db.items(TABLE)).toEqual([
+      expect.objectContaining({ available: 1 }),
+    ]);
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(repository.findForInventoryItem("myshop", 12345)).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBShopRepository } from "../DynamoDBShopRepository";
+import { Shop } from "../../../domain/entities/Shop";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-shops-test";
+const SHOP = "myshop.myshopify.com";
+
+describe("DynamoDBShopRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBShopRepository;
+  const updatedAt = new Date("2024-01-15T10:30:00Z");
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({ [TABLE]: { hashKey: "shop_name" } });
+    repository = new DynamoDBShopRepository(db.asDocumentClient(), TABLE);
+  });
+
+  it("should round-trip a shop with its configuration", async () => {
+    const shop = new Shop(SHOP, "active", updatedAt, "SHOPIFY_SECRET_MYSHOP", [1, 2], {
+      stockAlerts: false,
+      inventoryEvents: true,
+    });
+
+    await repository.save(shop);
+
+    expect(await repository.getByShopName(SHOP)).toEqual(shop);
+    expect(db.peek(TABLE, { shop_name: SHOP })).toEqual(
+      expect.objectContaining({
+        status: "active",
+        webhook_secret_name: "SHOPIFY_SECRET_MYSHOP",
+        tracked_location_ids: [1, 2],
+        features: { stock_alerts: false, inventory_events: true },
+        updated_at: "2024-01-15T10:30:00.000Z",
+      })
+    );
+  });
+
+  it("should replace the stored configuration", async () => {
+    await repository.save(new Shop(SHOP, "active", updatedAt));
+    await repository.save(new Shop(SHOP, "suspended", updatedAt));
+
+    expect((await repository.getByShopName(SHOP))?.status).toBe("suspended");
+  });
+
+  it("should return null for an unknown shop", async () => {
+    expect(await repository.getByShopName(SHOP)).toBeNull();
+  });
+
+  it("should default features and locations missing from the item", async () => {
+    db.seed(TABLE, {
+      shop_name: SHOP,
+      status: "active",
+      updated_at: "2024-01-15T10:30:00Z",
+    });
+
+    const shop = await repository.getByShopName(SHOP);
+
+    expect(shop?.trackedLocationIds).toBeUndefined();
+    expect(shop?.features).toEqual({ stockAlerts: true, inventoryEvents: true });
+  });
+
+  it("should throw on an unknown status", async () => {
+    db.seed(TABLE, {
+      shop_name: SHOP,
+      status: "paused",
+      updated_at: "2024-01-15T10:30:00Z",
+    });
+
+    await expect(repository.getByShopName(SHOP)).rejects.toThrow(
+      `Invalid shop registry entry for ${SHOP}`
+    );
+  });
+
+  it("should throw on malformed tracked locations", async () => {
+    db.seed(TABLE, {
+      shop_name: SHOP,
+      status: "active",
+      tracked_location_ids: ["1"],
+      updated_at: "2024-01-15T10:30:00Z",
+    });
+
+    await expect(repository.getByShopName(SHOP)).rejects.toThrow(
+      `Invalid shop registry entry for ${SHOP}`
+    );
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(repository.getByShopName(SHOP)).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
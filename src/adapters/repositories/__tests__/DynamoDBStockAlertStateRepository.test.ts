@@ -0,0 +1,123 @@
+import { DynamoDBStockAlertStateRepository } from "../DynamoDBStockAlertStateRepository";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-stock-alerts-test";
+
+describe("DynamoDBStockAlertStateRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBStockAlertStateRepository;
+
+  const at = (iso: string) => new Date(iso);
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_name", rangeKey: "record_key" },
+    });
+    repository = new DynamoDBStockAlertStateRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  it("should record the first status of a level", async () => {
+    const result = await repository.transition(
+      "myshop",
+      55555,
+      789,
+      "low_stock",
+      at("2024-01-15T10:30:00Z")
+    );
+
+    expect(result).toEqual({ outcome: "saved", previousStatus: null });
+    expect(
+      db.peek(TABLE, { shop_name: "myshop", record_key: "state#55555#789" })
+    ).toEqual({
+      shop_name: "myshop",
+      record_key: "state#55555#789",
+      status: "low_stock",
+      changed_at: "2024-01-15T10:30:00.000Z",
+      variant_id: 55555,
+      location_id: 789,
+    });
+  });
+
+  it("should return the status being replaced", async () => {
+    await repository.transition("myshop", 55555, 789, "low_stock", at("2024-01-15T10:30:00Z"));
+
+    const result = await repository.transition(
+      "myshop",
+      55555,
+      789,
+      "sold_out",
+      at("2024-01-15T11:00:00Z")
+    );
+
+    expect(result).toEqual({ outcome: "saved", previousStatus: "low_stock" });
+  });
+
+  it("should report a redelivered change as stale", async () => {
+    await repository.transition("myshop", 55555, 789, "sold_out", at("2024-01-15T10:30:00Z"));
+
+    const result = await repository.transition(
+      "myshop",
+      55555,
+      789,
+      "sold_out",
+      at("2024-01-15T10:30:00Z")
+    );
+
+    expect(result).toEqual({ outcome: "stale", previousStatus: null });
+  });
+
+  it("should not let an older change replace a newer status", async () => {
+    await repository.transition("myshop", 55555, 789, "sold_out", at("2024-01-15T11:00:00Z"));
+
+    const result = await repository.transition(
+      "myshop",
+      55555,
+      789,
+      "in_stock",
+      at("2024-01-15T10:30:00Z")
+    );
+
+    expect(result.outcome).toBe("stale");
+    expect(
+      db.peek(TABLE, { shop_name: "myshop", record_key: "state#55555#789" })
+    ).toEqual(expect.objectContaining({ status: "sold_out" }));
+  });
+
+  it("should keep levels at different locations apart", async () => {
+    await repository.transition("myshop", 55555, 789, "sold_out", at("2024-01-15T10:30:00Z"));
+
+    const result = await repository.transition(
+      "myshop",
+      55555,
+      790,
+      "in_stock",
+      at("2024-01-15T10:30:00Z")
+    );
+
+    expect(result).toEqual({ outcome: "saved", previousStatus: null });
+  });
+
+  it("should rethrow errors other than a failed condition", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(new Error("Throttled"));
+
+    await expect(
+      repository.transition("myshop", 55555, 789, "sold_out", at("2024-01-15T10:30:00Z"))
+    ).rejects.toThrow("Throttled");
+  });
+
+  it("should read back the recorded status", async () => {
+    await repository.transition("myshop", 55555, 789, "sold_out", at("2024-01-15T10:30:00Z"));
+
+    expect(await repository.get("myshop", 55555, 789)).toEqual({
+      status: "sold_out",
+      changedAt: at("2024-01-15T10:30:00Z"),
+    });
+  });
+
+  it("should return null for a level with no recorded status", async () => {
+    expect(await repository.get("myshop", 55555, 789)).toBeNull();
+  });
+});
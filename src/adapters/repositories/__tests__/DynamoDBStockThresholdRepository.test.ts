@@ -0,0 +1,88 @@
+import { DynamoDBStockThresholdRepository } from "../DynamoDBStockThresholdRepository";
+import { StockThreshold } from "../../../domain/entities/StockThreshold";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-stock-alerts-test";
+
+describe("DynamoDBStockThresholdRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBStockThresholdRepository;
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_name", rangeKey: "record_key" },
+    });
+    repository = new DynamoDBStockThresholdRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  describe("save", () => {
+    it("should key each threshold by its scope", async () => {
+      await repository.save(new StockThreshold("myshop", 5));
+      await repository.save(new StockThreshold("myshop", 10, 55555));
+      await repository.save(new StockThreshold("myshop", 2, undefined, 789));
+      await repository.save(new StockThreshold("myshop", 20, 55555, 789));
+
+      expect(db.items(TABLE).map((item) => item.record_key)).toEqual([
+        "threshold#shop",
+        "threshold#variant#55555",
+        "threshold#location#789",
+        "threshold#variant#55555#location#789",
+      ]);
+    });
+
+    it("should replace the threshold for the same scope", async () => {
+      await repository.save(new StockThreshold("myshop", 5, 55555));
+      await repository.save(new StockThreshold("myshop", 8, 55555));
+
+      expect(
+        db.peek(TABLE, {
+          shop_name: "myshop",
+          record_key: "threshold#variant#55555",
+        })
+      ).toEqual(
+        expect.objectContaining({ low_stock: 8, variant_id: 55555 })
+      );
+    });
+  });
+
+  describe("getApplicable", () => {
+    it("should return thresholds from every covering scope", async () => {
+      const thresholds = [
+        new StockThreshold("myshop", 5),
+        new StockThreshold("myshop", 10, 55555),
+        new StockThreshold("myshop", 2, undefined, 789),
+        new StockThreshold("myshop", 20, 55555, 789),
+      ];
+      for (const threshold of thresholds) {
+        await repository.save(threshold);
+      }
+
+      expect(await repository.getApplicable("myshop", 55555, 789)).toEqual(
+        thresholds
+      );
+    });
+
+    it("should ignore thresholds for other variants, locations and shops", async () => {
+      await repository.save(new StockThreshold("myshop", 10, 66666));
+      await repository.save(new StockThreshold("myshop", 2, undefined, 111));
+      await repository.save(new StockThreshold("othershop", 5));
+
+      expect(await repository.getApplicable("myshop", 55555, 789)).toEqual([]);
+    });
+
+    it("should throw on a corrupt threshold", async () => {
+      db.seed(TABLE, {
+        shop_name: "myshop",
+        record_key: "threshold#shop",
+        low_stock: "five",
+      });
+
+      await expect(
+        repository.getApplicable("myshop", 55555, 789)
+      ).rejects.toThrow("Invalid stock threshold for myshop: threshold#shop");
+    });
+  });
+});
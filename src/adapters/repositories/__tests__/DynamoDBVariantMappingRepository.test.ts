@@ -0,0 +1,107 @@
+import { ProvisionedThroughputExceededException } from "@aws-sdk/client-dynamodb";
+import { DynamoDBVariantMappingRepository } from "../DynamoDBVariantMappingRepository";
+import { VariantMapping } from "../../../domain/entities/VariantMapping";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+import { LocalDynamoDB } from "./support/LocalDynamoDB";
+
+const TABLE = "shopify-inventory-items-test";
+
+describe("DynamoDBVariantMappingRepository", () => {
+  let db: LocalDynamoDB;
+  let repository: DynamoDBVariantMappingRepository;
+
+  const mappingAt = (variantId: number, iso: string) =>
+    new VariantMapping("myshop", 12345, variantId, 777, new Date(iso));
+
+  beforeEach(() => {
+    db = new LocalDynamoDB({
+      [TABLE]: { hashKey: "shop_inventory_item_id", rangeKey: "record_type" },
+    });
+    repository = new DynamoDBVariantMappingRepository(
+      db.asDocumentClient(),
+      TABLE
+    );
+  });
+
+  it("should store mappings under the shop and inventory item", async () => {
+    await repository.saveMany([mappingAt(55555, "2024-01-15T10:30:00Z")]);
+
+    expect(
+      db.peek(TABLE, {
+        shop_inventory_item_id: "myshop#12345",
+        record_type: "variant",
+      })
+    ).toEqual({
+      shop_inventory_item_id: "myshop#12345",
+      record_type: "variant",
+      variant_id: 55555,
+      product_id: 777,
+      updated_at: "2024-01-15T10:30:00.000Z",
+    });
+  });
+
+  it("should read back a saved mapping", async () => {
+    const mapping = mappingAt(55555, "2024-01-15T10:30:00Z");
+    await repository.saveMany([mapping]);
+
+    const result = await repository.getByInventoryItem("myshop", 12345);
+
+    expect(result).toEqual(mapping);
+  });
+
+  it("should read mappings consistently", async () => {
+    await repository.getByInventoryItem("myshop", 12345);
+
+    expect(db.sent).toEqual([
+      expect.objectContaining({
+        input: expect.objectContaining({ ConsistentRead: true }),
+      }),
+    ]);
+  });
+
+  it("should return null for an unknown inventory item", async () => {
+    expect(await repository.getByInventoryItem("myshop", 12345)).toBeNull();
+  });
+
+  it("should keep a newer stored mapping", async () => {
+    await repository.saveMany([mappingAt(55555, "2024-01-15T10:31:00Z")]);
+
+    await repository.saveMany([mappingAt(66666, "2024-01-15T10:30:00Z")]);
+
+    const result = await repository.getByInventoryItem("myshop", 12345);
+    expect(result?.variantId).toBe(55555);
+  });
+
+  it("should rethrow errors other than a failed condition", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(new Error("Throttled"));
+
+    await expect(
+      repository.saveMany([mappingAt(55555, "2024-01-15T10:30:00Z")])
+    ).rejects.toThrow("Throttled");
+  });
+
+  it("should throw when a stored mapping is corrupt", async () => {
+    db.seed(TABLE, {
+      shop_inventory_item_id: "myshop#12345",
+      record_type: "variant",
+      updated_at: "2024-01-15T10:30:00Z",
+    });
+
+    await expect(
+      repository.getByInventoryItem("myshop", 12345)
+    ).rejects.toThrow("Invalid variant mapping for myshop#12345");
+  });
+
+  it("should report throttling as a transient storage error", async () => {
+    jest.spyOn(db, "send").mockRejectedValueOnce(
+      new ProvisionedThroughputExceededException({
+        message: "Rate exceeded",
+        $metadata: {},
+      })
+    );
+
+    await expect(repository.getByInventoryItem("myshop", 12345)).rejects.toBeInstanceOf(
+      TransientStorageError
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileBackfillCheckpointRepository } from "../FileBackfillCheckpointRepository";
+import { BackfillCheckpoint } from "../../../domain/ports/BackfillCheckpointRepository";
+
+describe("FileBackfillCheckpointRepository", () => {
+  const checkpoint: BackfillCheckpoint = {
+    jobId: "myshop.myshopify.com s3://exports/bulk.jsonl",
+    shopName: "myshop.myshopify.com",
+    line: 1200,
+    completed: false,
+    updatedAt: new Date("2024-02-01T00:00:00Z"),
+  };
+
+  let directory: string;
+  let repository: FileBackfillCheckpointRepository;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "backfill-"));
+    repository = new FileBackfillCheckpointRepository(join(directory, "checkpoints"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("should return null for a job without a checkpoint", async () => {
+    await expect(repository.get(checkpoint.jobId)).resolves.toBeNull();
+  });
+
+  it("should round-trip a checkpoint, creating the directory", async () => {
+    await repository.save(checkpoint);
+
+    await expect(repository.get(checkpoint.jobId)).resolves.toEqual(checkpoint);
+  });
+
+  it("should replace the checkpoint as the job moves on", async () => {
+    await repository.save(checkpoint);
+    await repository.save({ ...checkpoint, line: 2400, completed: true });
+
+    await expect(repository.get(checkpoint.jobId)).resolves.toMatchObject({
+      line: 2400,
+      completed: true,
+    });
+    expect(await fs.readdir(join(directory, "checkpoints"))).toHaveLength(1);
+  });
+
+  it("should keep jobs apart", async () => {
+    await repository.save(checkpoint);
+
+    await expect(
+      repository.get("myshop.myshopify.com s3://exports/other.jsonl")
+    ).resolves.toBeNull();
+  });
+
+  it("should reject a corrupt checkpoint", async () => {
+    await repository.save(checkpoint);
+    const [file] = await fs.readdir(join(directory, "checkpoints"));
+    await fs.writeFile(join(directory, "checkpoints", file), JSON.stringify({ jobId: checkpoint.jobId }));
+
+    await expect(repository.get(checkpoint.jobId)).rejects.toThrow(
+      `Invalid backfill checkpoint for job: ${checkpoint.jobId}`
+    );
+  });
+});
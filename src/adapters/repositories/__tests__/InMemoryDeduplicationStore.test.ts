@@ -0,0 +1,56 @@
+import { InMemoryDeduplicationStore } from "../InMemoryDeduplicationStore";
+
+describe("InMemoryDeduplicationStore", () => {
+  let now: number;
+  let store: InMemoryDeduplicationStore;
+
+  beforeEach(() => {
+    now = 0;
+    store = new InMemoryDeduplicationStore(60, 10, () => now);
+  });
+
+  it("should claim unseen keys", async () => {
+    expect(await store.claim(["eventbridge:abc", "webhook:123"])).toBe(
+      "claimed"
+    );
+  });
+
+  it("should report a key another attempt is processing", async () => {
+    await store.claim(["webhook:123"]);
+
+    expect(await store.claim(["eventbridge:def", "webhook:123"])).toBe(
+      "in_progress"
+    );
+    expect(await store.claim(["eventbridge:def"])).toBe("claimed");
+  });
+
+  it("should report a completed key as completed", async () => {
+    await store.claim(["webhook:123"]);
+    await store.complete(["webhook:123"]);
+
+    expect(await store.claim(["eventbridge:def", "webhook:123"])).toBe(
+      "completed"
+    );
+  });
+
+  it("should let a claim be taken over once its lease expires", async () => {
+    await store.claim(["webhook:123"]);
+    now = 10_000;
+
+    expect(await store.claim(["webhook:123"])).toBe("claimed");
+  });
+
+  it("should forget completed keys after the window", async () => {
+    await store.complete(["webhook:123"]);
+    now = 60_000;
+
+    expect(await store.claim(["webhook:123"])).toBe("claimed");
+  });
+
+  it("should forget released keys", async () => {
+    await store.claim(["webhook:123"]);
+    await store.release(["webhook:123"]);
+
+    expect(await store.claim(["webhook:123"])).toBe("claimed");
+  });
+});
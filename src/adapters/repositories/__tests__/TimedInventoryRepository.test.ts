@@ -0,0 +1,96 @@
+import { TimedInventoryRepository } from "../TimedInventoryRepository";
+import { InventoryLevel } from "../../../domain/entities/InventoryLevel";
+import {
+  InventoryRepository,
+  SaveResult,
+} from "../../../domain/ports/InventoryRepository";
+import { InMemoryMetrics } from "../../metrics/InMemoryMetrics";
+
+describe("TimedInventoryRepository", () => {
+  const SHOP = "myshop.myshopify.com";
+  const level = new InventoryLevel(
+    SHOP,
+    55555,
+    789,
+    12,
+    new Date("2024-01-15T10:30:00Z"),
+    12345
+  );
+
+  let repository: jest.Mocked<InventoryRepository>;
+  let metrics: InMemoryMetrics;
+  let clock: number;
+  let timed: TimedInventoryRepository;
+
+  beforeEach(() => {
+    repository = {
+      save: jest.fn(
+        async (_inventory: InventoryLevel): Promise<SaveResult> => {
+          clock += 25;
+          return { outcome: "saved", previousAvailable: 10 };
+        }
+      ),
+      saveMany: jest.fn(),
+      delete: jest.fn(),
+      markOrphaned: jest.fn(),
+      getByShopAndVariant: jest.fn(
+        async (_shopName: string, _variantId: number) => {
+          clock += 5;
+          return [level];
+        }
+      ),
+      getByShopVariantAndLocation: jest.fn(),
+      getVariantTotal: jest.fn(),
+    };
+    metrics = new InMemoryMetrics();
+    clock = 0;
+    timed = new TimedInventoryRepository(repository, metrics, () => clock);
+  });
+
+  it("should pass operations through and record their latency", async () => {
+    expect(await timed.save(level)).toEqual({
+      outcome: "saved",
+      previousAvailable: 10,
+    });
+    expect(await timed.getByShopAndVariant(SHOP, 55555)).toEqual([level]);
+
+    expect(metrics.metricsFor("RepositoryLatency")).toEqual([
+      {
+        name: "RepositoryLatency",
+        value: 25,
+        unit: "Milliseconds",
+        dimensions: { shop: SHOP, operation: "save" },
+      },
+      {
+        name: "RepositoryLatency",
+        value: 5,
+        unit: "Milliseconds",
+        dimensions: { shop: SHOP, operation: "getByShopAndVariant" },
+      },
+    ]);
+  });
+
+  it("should time each level of a batch save", async () => {
+    await timed.saveMany([level, level]);
+
+    expect(repository.save).toHaveBeenCalledTimes(2);
+    expect(metrics.metricsFor("RepositoryLatency")).toHaveLength(2);
+  });
+
+  it("should record the latency of failed operations", async () => {
+    repository.delete.mockImplementation(async () => {
+      clock += 100;
+      throw new Error("DynamoDB unavailable");
+    });
+
+    await expect(
+      timed.delete(SHOP, 55555, 789, new Date("2024-01-16T00:00:00Z"))
+    ).rejects.toThrow("DynamoDB unavailable");
+    expect(metrics.metricsFor("RepositoryLatency")).toEqual([
+      expect.objectContaining({
+        value: 100,
+        dimensions: { shop: SHOP, operation: "delete" },
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,615 @@
+import {
+  ConditionalCheckFailedException,
+  TransactionCanceledException,
+} from "@aws-sdk/client-dynamodb";
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+
+type Item = Record<string, unknown>;
+type Names = Record<string, string> | undefined;
+type Values = Record<string, unknown> | undefined;
+
+export interface LocalTableSchema {
+  hashKey: string;
+  rangeKey?: string;
+}
+
+/**
+ * In-process stand-in for DynamoDB used by adapter tests
+ * Understands the subset of the document client API and expression
+ * language that our repositories rely on
+ */
+export class LocalDynamoDB {
+  private tables = new Map<string, Map<string, Item>>();
+  readonly sent: unknown[] = [];
+
+  constructor(private schemas: Record<string, LocalTableSchema>) {
+    Object.keys(schemas).forEach((name) => this.tables.set(name, new Map()));
+  }
+
+  asDocumentClient(): DynamoDBDocumentClient {
+    return {
+      send: (command: unknown) => this.send(command),
+    } as unknown as DynamoDBDocumentClient;
+  }
+
+  /**
+   * Read a raw stored item, bypassing the command API
+   */
+  peek(tableName: string, key: Item): Item | undefined {
+    const item = this.table(tableName).get(this.keyOf(tableName, key));
+    return item ? { ...item } : undefined;
+  }
+
+  /**
+   * Seed a raw item, bypassing the command API
+   */
+  seed(tableName: string, item: Item): void {
+    this.table(tableName).set(this.keyOf(tableName, item), { ...item });
+  }
+
+  items(tableName: string): Item[] {
+    return Array.from(this.table(tableName).values()).map((i) => ({ ...i }));
+  }
+
+  async send(command: unknown): Promise<unknown> {
+    this.sent.push(command);
+    return this.execute(command);
+  }
+
+  private execute(command: unknown): unknown {
+    if (command instanceof GetCommand) {
+      const { TableName, Key } = command.input;
+      const item = this.peek(TableName!, Key!);
+      return { Item: item };
+    }
+
+    if (command instanceof PutCommand) {
+      const input = command.input;
+      const table = this.table(input.TableName!);
+      const key = this.keyOf(input.TableName!, input.Item!);
+      this.checkCondition(
+        table.get(key),
+        input.ConditionExpression,
+        input.ExpressionAttributeNames,
+        input.ExpressionAttributeValues
+      );
+      table.set(key, { ...input.Item });
+      return {};
+    }
+
+    if (command instanceof UpdateCommand) {
+      const input = command.input;
+      const table = this.table(input.TableName!);
+      const key = this.keyOf(input.TableName!, input.Key!);
+      const existing = table.get(key);
+      this.checkCondition(
+        existing,
+        input.ConditionExpression,
+        input.ExpressionAttributeNames,
+        input.ExpressionAttributeValues
+      );
+      const updated = applyUpdate(
+        { ...(existing ?? {}), ...input.Key },
+        input.UpdateExpression ?? "",
+        input.ExpressionAttributeNames,
+        input.ExpressionAttributeValues
+      );
+      table.set(key, updated);
+      return {
+        Attributes:
+          input.ReturnValues === "ALL_OLD" ? existing : { ...updated },
+      };
+    }
+
+    if (command instanceof DeleteCommand) {
+      const input = command.input;
+      const table = this.table(input.TableName!);
+      const key = this.keyOf(input.TableName!, input.Key!);
+      const existing = table.get(key);
+      this.checkCondition(
+        existing,
+        input.ConditionExpression,
+        input.ExpressionAttributeNames,
+        input.ExpressionAttributeValues
+      );
+      table.delete(key);
+      return { Attributes: input.ReturnValues === "ALL_OLD" ? existing : undefined };
+    }
+
+    if (command instanceof QueryCommand) {
+      return this.query(command);
+    }
+
+    if (command instanceof ScanCommand) {
+      return this.scan(command);
+    }
+
+    if (command instanceof TransactWriteCommand) {
+      return this.transactWrite(command);
+    }
+
+    throw new Error(
+      `LocalDynamoDB does not support ${(command as object).constructor.name}`
+    );
+  }
+
+  /**
+   * Checks every condition before applying any write, and cancels the
+   * whole transaction with per-item reasons like DynamoDB does
+   */
+  private transactWrite(command: TransactWriteCommand): unknown {
+    const items = command.input.TransactItems ?? [];
+    if (items.length === 0) {
+      throw new Error("Transaction request must include at least one item");
+    }
+
+    const operations = items.map((entry) => {
+      if (entry.Put) {
+        const { Item, ...rest } = entry.Put;
+        return { input: { ...rest, Key: Item! }, write: new PutCommand(entry.Put) };
+      }
+      if (entry.Update) {
+        return { input: entry.Update, write: new UpdateCommand(entry.Update) };
+      }
+      if (entry.Delete) {
+        return { input: entry.Delete, write: new DeleteCommand(entry.Delete) };
+      }
+      if (entry.ConditionCheck) {
+        return { input: entry.ConditionCheck, write: undefined };
+      }
+      throw new Error("Unsupported transaction item");
+    });
+
+    const keys = operations.map(({ input }) =>
+      `${input.TableName}:${this.keyOf(input.TableName!, input.Key!)}`
+    );
+    if (new Set(keys).size !== keys.length) {
+      throw new Error(
+        "Transaction request cannot include multiple operations on one item"
+      );
+    }
+
+    const reasons = operations.map(({ input }) => {
+      const existing = this.table(input.TableName!).get(
+        this.keyOf(input.TableName!, input.Key!)
+      );
+      const passes =
+        !input.ConditionExpression ||
+        evaluateCondition(
+          existing ?? {},
+          input.ConditionExpression,
+          input.ExpressionAttributeNames,
+          input.ExpressionAttributeValues
+        );
+      return passes
+        ? { Code: "None" }
+        : { Code: "ConditionalCheckFailed", Message: "The conditional request failed" };
+    });
+
+    if (reasons.some((reason) => reason.Code !== "None")) {
+      throw new TransactionCanceledException({
+        message: `Transaction cancelled, please refer cancellation reasons for specific reasons [${reasons
+          .map((reason) => reason.Code)
+          .join(", ")}]`,
+        $metadata: {},
+        CancellationReasons: reasons,
+      });
+    }
+
+    operations.forEach(({ write }) => write && this.execute(write));
+    return {};
+  }
+
+  private query(command: QueryCommand): unknown {
+    const input = command.input;
+    const schema = this.schema(input.TableName!);
+    const names = input.ExpressionAttributeNames;
+    const values = input.ExpressionAttributeValues;
+
+    let matches = Array.from(this.table(input.TableName!).values())
+      .filter((item) =>
+        evaluateCondition(item, input.KeyConditionExpression!, names, values)
+      )
+      .filter(
+        (item) =>
+          !input.FilterExpression ||
+          evaluateCondition(item, input.FilterExpression, names, values)
+      );
+
+    if (schema.rangeKey) {
+      const rangeKey = schema.rangeKey;
+      matches.sort((a, b) => compare(a[rangeKey], b[rangeKey]));
+    }
+    if (input.ScanIndexForward === false) {
+      matches.reverse();
+    }
+
+    if (input.ExclusiveStartKey) {
+      const startKey = this.keyOf(input.TableName!, input.ExclusiveStartKey);
+      const index = matches.findIndex(
+        (item) => this.keyOf(input.TableName!, item) === startKey
+      );
+      matches = matches.slice(index + 1);
+    }
+
+    let lastEvaluatedKey: Item | undefined;
+    if (input.Limit !== undefined && matches.length > input.Limit) {
+      matches = matches.slice(0, input.Limit);
+      const last = matches[matches.length - 1];
+      lastEvaluatedKey = { [schema.hashKey]: last[schema.hashKey] };
+      if (schema.rangeKey) {
+        lastEvaluatedKey[schema.rangeKey] = last[schema.rangeKey];
+      }
+    }
+
+    return {
+      Items: matches.map((i) => ({ ...i })),
+      Count: matches.length,
+      LastEvaluatedKey: lastEvaluatedKey,
+    };
+  }
+
+  /**
+   * Like DynamoDB, Limit caps the items read before the filter applies,
+   * so a page may hold fewer matches than the limit
+   */
+  private scan(command: ScanCommand): unknown {
+    const input = command.input;
+    const schema = this.schema(input.TableName!);
+
+    let items = Array.from(this.table(input.TableName!).values());
+    if (input.ExclusiveStartKey) {
+      const startKey = this.keyOf(input.TableName!, input.ExclusiveStartKey);
+      const index = items.findIndex(
+        (item) => this.keyOf(input.TableName!, item) === startKey
+      );
+      items = items.slice(index + 1);
+    }
+
+    let lastEvaluatedKey: Item | undefined;
+    if (input.Limit !== undefined && items.length > input.Limit) {
+      items = items.slice(0, input.Limit);
+      const last = items[items.length - 1];
+      lastEvaluatedKey = { [schema.hashKey]: last[schema.hashKey] };
+      if (schema.rangeKey) {
+        lastEvaluatedKey[schema.rangeKey] = last[schema.rangeKey];
+      }
+    }
+
+    const matches = items.filter(
+      (item) =>
+        !input.FilterExpression ||
+        evaluateCondition(
+          item,
+          input.FilterExpression,
+          input.ExpressionAttributeNames,
+          input.ExpressionAttributeValues
+        )
+    );
+
+    return {
+      Items: matches.map((i) => ({ ...i })),
+      Count: matches.length,
+      LastEvaluatedKey: lastEvaluatedKey,
+    };
+  }
+
+  private checkCondition(
+    existing: Item | undefined,
+    expression: string | undefined,
+    names: Names,
+    values: Values
+  ): void {
+    if (!expression) {
+      return;
+    }
+    if (!evaluateCondition(existing ?? {}, expression, names, values)) {
+      throw new ConditionalCheckFailedException({
+        message: "The conditional request failed",
+        $metadata: {},
+      });
+    }
+  }
+
+  private table(name: string): Map<string, Item> {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`Requested resource not found: ${name}`);
+    }
+    return table;
+  }
+
+  private schema(name: string): LocalTableSchema {
+    this.table(name);
+    return this.schemas[name];
+  }
+
+  private keyOf(tableName: string, item: Item): string {
+    const schema = this.schema(tableName);
+    const hash = item[schema.hashKey];
+    if (hash === undefined) {
+      throw new Error(`Missing hash key ${schema.hashKey}`);
+    }
+    const range = schema.rangeKey ? item[schema.rangeKey] : "";
+    if (schema.rangeKey && range === undefined) {
+      throw new Error(`Missing range key ${schema.rangeKey}`);
+    }
+    return JSON.stringify([hash, range]);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Expression evaluation
+// ---------------------------------------------------------------------------
+
+const KEYWORDS = new Set(["AND", "OR", "NOT", "BETWEEN", "SET", "REMOVE", "ADD"]);
+
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /\s*(<>|<=|>=|[=<>(),+\-]|[#:]?[A-Za-z0-9_.]+)/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < expression.length) {
+    match = pattern.exec(expression);
+    if (!match) {
+      if (expression.slice(pattern.lastIndex).trim() === "") {
+        break;
+      }
+      throw new Error(`Cannot tokenize expression: ${expression}`);
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+class Cursor {
+  private position = 0;
+
+  constructor(
+    private tokens: string[],
+    private names: Names,
+    private values: Values
+  ) {}
+
+  peek(): string | undefined {
+    return this.tokens[this.position];
+  }
+
+  peekKeyword(): string | undefined {
+    const token = this.peek();
+    return token && KEYWORDS.has(token.toUpperCase())
+      ? token.toUpperCase()
+      : undefined;
+  }
+
+  next(): string {
+    const token = this.tokens[this.position++];
+    if (token === undefined) {
+      throw new Error("Unexpected end of expression");
+    }
+    return token;
+  }
+
+  expect(token: string): void {
+    const actual = this.next();
+    if (actual.toUpperCase() !== token) {
+      throw new Error(`Expected ${token} but found ${actual}`);
+    }
+  }
+
+  done(): boolean {
+    return this.position >= this.tokens.length;
+  }
+
+  attributeName(token: string): string {
+    if (token.startsWith("#")) {
+      const name = this.names?.[token];
+      if (name === undefined) {
+        throw new Error(`Unresolved attribute name ${token}`);
+      }
+      return name;
+    }
+    return token;
+  }
+
+  value(token: string): unknown {
+    if (!this.values || !(token in this.values)) {
+      throw new Error(`Unresolved attribute value ${token}`);
+    }
+    return this.values[token];
+  }
+}
+
+function evaluateCondition(
+  item: Item,
+  expression: string,
+  names: Names,
+  values: Values
+): boolean {
+  const cursor = new Cursor(tokenize(expression), names, values);
+  const result = parseOr(cursor, item);
+  if (!cursor.done()) {
+    throw new Error(`Unexpected token ${cursor.peek()} in ${expression}`);
+  }
+  return result;
+}
+
+function parseOr(cursor: Cursor, item: Item): boolean {
+  let result = parseAnd(cursor, item);
+  while (cursor.peekKeyword() === "OR") {
+    cursor.next();
+    const right = parseAnd(cursor, item);
+    result = result || right;
+  }
+  return result;
+}
+
+function parseAnd(cursor: Cursor, item: Item): boolean {
+  let result = parseNot(cursor, item);
+  while (cursor.peekKeyword() === "AND") {
+    cursor.next();
+    const right = parseNot(cursor, item);
+    result = result && right;
+  }
+  return result;
+}
+
+function parseNot(cursor: Cursor, item: Item): boolean {
+  if (cursor.peekKeyword() === "NOT") {
+    cursor.next();
+    return !parseNot(cursor, item);
+  }
+  return parsePrimary(cursor, item);
+}
+
+function parsePrimary(cursor: Cursor, item: Item): boolean {
+  const token = cursor.peek();
+
+  if (token === "(") {
+    cursor.next();
+    const result = parseOr(cursor, item);
+    cursor.expect(")");
+    return result;
+  }
+
+  if (token === "attribute_exists" || token === "attribute_not_exists") {
+    cursor.next();
+    cursor.expect("(");
+    const name = cursor.attributeName(cursor.next());
+    cursor.expect(")");
+    const exists = item[name] !== undefined;
+    return token === "attribute_exists" ? exists : !exists;
+  }
+
+  if (token === "begins_with") {
+    cursor.next();
+    cursor.expect("(");
+    const subject = parseOperand(cursor, item);
+    cursor.expect(",");
+    const prefix = parseOperand(cursor, item);
+    cursor.expect(")");
+    return (
+      typeof subject === "string" &&
+      typeof prefix === "string" &&
+      subject.startsWith(prefix)
+    );
+  }
+
+  const left = parseOperand(cursor, item);
+
+  if (cursor.peekKeyword() === "BETWEEN") {
+    cursor.next();
+    const low = parseOperand(cursor, item);
+    cursor.expect("AND");
+    const high = parseOperand(cursor, item);
+    return (
+      left !== undefined && compare(left, low) >= 0 && compare(left, high) <= 0
+    );
+  }
+
+  const operator = cursor.next();
+  const right = parseOperand(cursor, item);
+  if (left === undefined || right === undefined) {
+    return operator === "<>" && left !== right;
+  }
+
+  switch (operator) {
+    case "=":
+      return compare(left, right) === 0;
+    case "<>":
+      return compare(left, right) !== 0;
+    case "<":
+      return compare(left, right) < 0;
+    case "<=":
+      return compare(left, right) <= 0;
+    case ">":
+      return compare(left, right) > 0;
+    case ">=":
+      return compare(left, right) >= 0;
+    default:
+      throw new Error(`Unsupported operator ${operator}`);
+  }
+}
+
+function parseOperand(cursor: Cursor, item: Item): unknown {
+  const token = cursor.next();
+  if (token.startsWith(":")) {
+    return cursor.value(token);
+  }
+  return item[cursor.attributeName(token)];
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === "number" && typeof b === "number") {
+    return a - b;
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? 0 : 1;
+}
+
+function applyUpdate(
+  item: Item,
+  expression: string,
+  names: Names,
+  values: Values
+): Item {
+  const cursor = new Cursor(tokenize(expression), names, values);
+  const result = { ...item };
+
+  while (!cursor.done()) {
+    const clause = cursor.next().toUpperCase();
+    do {
+      if (clause === "SET") {
+        const name = cursor.attributeName(cursor.next());
+        cursor.expect("=");
+        result[name] = parseUpdateValue(cursor, item);
+      } else if (clause === "REMOVE") {
+        delete result[cursor.attributeName(cursor.next())];
+      } else if (clause === "ADD") {
+        const name = cursor.attributeName(cursor.next());
+        const delta = cursor.value(cursor.next()) as number;
+        result[name] = ((result[name] as number | undefined) ?? 0) + delta;
+      } else {
+        throw new Error(`Unsupported update clause ${clause}`);
+      }
+    } while (cursor.peek() === "," && cursor.next());
+  }
+
+  return result;
+}
+
+function parseUpdateValue(cursor: Cursor, item: Item): unknown {
+  const left = parseUpdateOperand(cursor, item);
+  const operator = cursor.peek();
+  if (operator === "+" || operator === "-") {
+    cursor.next();
+    const right = parseUpdateOperand(cursor, item) as number;
+    return operator === "+"
+      ? (left as number) + right
+      : (left as number) - right;
+  }
+  return left;
+}
+
+function parseUpdateOperand(cursor: Cursor, item: Item): unknown {
+  if (cursor.peek() === "if_not_exists") {
+    cursor.next();
+    cursor.expect("(");
+    const current = item[cursor.attributeName(cursor.next())];
+    cursor.expect(",");
+    const fallback = parseUpdateOperand(cursor, item);
+    cursor.expect(")");
+    return current !== undefined ? current : fallback;
+  }
+  return parseOperand(cursor, item);
+}
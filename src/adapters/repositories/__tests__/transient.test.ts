@@ -0,0 +1,36 @@
+import {
+  ConditionalCheckFailedException,
+  InternalServerError,
+  ProvisionedThroughputExceededException,
+} from "@aws-sdk/client-dynamodb";
+import { transient } from "../transient";
+import { TransientStorageError } from "../../../domain/errors/TransientStorageError";
+
+describe("transient", () => {
+  it("should return the operation's result", async () => {
+    expect(await transient(async () => "done")).toBe("done");
+  });
+
+  it.each([
+    new ProvisionedThroughputExceededException({
+      message: "Rate exceeded",
+      $metadata: {},
+    }),
+    new InternalServerError({ message: "Internal error", $metadata: {} }),
+    Object.assign(new Error("Socket hang up"), { $retryable: {} }),
+  ])("should report $name as a transient storage error", async (error) => {
+    const running = transient(() => Promise.reject(error));
+
+    await expect(running).rejects.toBeInstanceOf(TransientStorageError);
+    await expect(running).rejects.toHaveProperty("cause", error);
+  });
+
+  it("should pass client faults through unchanged", async () => {
+    const failed = new ConditionalCheckFailedException({
+      message: "The conditional request failed",
+      $metadata: {},
+    });
+
+    await expect(transient(() => Promise.reject(failed))).rejects.toBe(failed);
+  });
+});
@@ -0,0 +1,44 @@
+import { TransientStorageError } from "../../domain/errors/TransientStorageError";
+
+/**
+ * Errors DynamoDB reports when it is briefly unable to serve a request
+ */
+const TRANSIENT_ERRORS = new Set([
+  "ProvisionedThroughputExceededException",
+  "RequestLimitExceeded",
+  "ThrottlingException",
+  "InternalServerError",
+  "ServiceUnavailable",
+]);
+
+/**
+ * Reports throttling and server faults as TransientStorageError so callers
+ * can retry them; conditional check failures are client faults and pass
+ * through unchanged
+ */
+export async function transient<T>(operation: () => Promise<T>): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    if (isTransient(error)) {
+      throw new TransientStorageError(
+        `DynamoDB temporarily unavailable: ${(error as Error).message}`,
+        error
+      );
+    }
+    throw error;
+  }
+}
+
+function isTransient(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const { $fault, $retryable } = error as {
+    $fault?: string;
+    $retryable?: unknown;
+  };
+  return (
+    TRANSIENT_ERRORS.has(error.name) || $fault === "server" || !!$retryable
+  );
+}
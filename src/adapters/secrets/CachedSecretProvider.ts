@@ -0,0 +1,69 @@
+import { SecretProvider } from "../../domain/ports/SecretProvider";
+
+export interface SecretCacheOptions {
+  /**
+   * How long a fetched value is served from cache
+   */
+  ttlMs: number;
+  /**
+   * Minimum age before a forced refresh goes back to the source,
+   * so a flood of bad signatures cannot hammer the secret store
+   */
+  minRefreshIntervalMs: number;
+}
+
+const DEFAULT_CACHE_OPTIONS: SecretCacheOptions = {
+  ttlMs: 5 * 60 * 1000,
+  minRefreshIntervalMs: 30 * 1000,
+};
+
+interface CacheEntry {
+  value: Promise<string>;
+  fetchedAt: number;
+}
+
+/**
+ * Base class for secret providers that cache values with a TTL
+ * Subclasses only implement the uncached fetch
+ */
+export abstract class CachedSecretProvider implements SecretProvider {
+  private cache = new Map<string, CacheEntry>();
+  private options: SecretCacheOptions;
+
+  constructor(
+    options: Partial<SecretCacheOptions> = {},
+    private now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  async getSecret(
+    name: string,
+    options: { forceRefresh?: boolean } = {}
+  ): Promise<string> {
+    const entry = this.cache.get(name);
+    const age = entry ? this.now() - entry.fetchedAt : Infinity;
+    const maxAge = options.forceRefresh
+      ? this.options.minRefreshIntervalMs
+      : this.options.ttlMs;
+
+    if (entry && age < maxAge) {
+      return entry.value;
+    }
+
+    const value = this.fetchSecret(name);
+    this.cache.set(name, { value, fetchedAt: this.now() });
+
+    try {
+      return await value;
+    } catch (error) {
+      // Do not cache failures
+      if (this.cache.get(name)?.value === value) {
+        this.cache.delete(name);
+      }
+      throw error;
+    }
+  }
+
+  protected abstract fetchSecret(name: string): Promise<string>;
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from "fs";
+import { CachedSecretProvider, SecretCacheOptions } from "./CachedSecretProvider";
+
+/**
+ * Local secret provider for development and tests
+ * Reads the environment variable with the secret's name, or the file
+ * named by `<name>_FILE` (the Docker secrets convention)
+ */
+export class EnvironmentSecretProvider extends CachedSecretProvider {
+  constructor(
+    private env: Record<string, string | undefined> = process.env,
+    options: Partial<SecretCacheOptions> = {},
+    now?: () => number
+  ) {
+    super(options, now);
+  }
+
+  protected async fetchSecret(name: string): Promise<string> {
+    const value = this.env[name];
+    if (value !== undefined) {
+      return value;
+    }
+
+    const file = this.env[`${name}_FILE`];
+    if (file) {
+      return (await fs.readFile(file, "utf8")).trim();
+    }
+
+    throw new Error(`Secret ${name} is not set`);
+  }
+}
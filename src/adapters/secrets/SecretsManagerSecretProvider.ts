@@ -0,0 +1,31 @@
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import { CachedSecretProvider, SecretCacheOptions } from "./CachedSecretProvider";
+
+/**
+ * AWS Secrets Manager adapter for secret retrieval
+ * Secret names may be names or ARNs; only string secrets are supported
+ */
+export class SecretsManagerSecretProvider extends CachedSecretProvider {
+  constructor(
+    private client: SecretsManagerClient,
+    options: Partial<SecretCacheOptions> = {},
+    now?: () => number
+  ) {
+    super(options, now);
+  }
+
+  protected async fetchSecret(name: string): Promise<string> {
+    const result = await this.client.send(
+      new GetSecretValueCommand({ SecretId: name })
+    );
+
+    if (result.SecretString === undefined) {
+      throw new Error(`Secret ${name} has no string value`);
+    }
+
+    return result.SecretString;
+  }
+}
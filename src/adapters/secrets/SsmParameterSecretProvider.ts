@@ -0,0 +1,28 @@
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import { CachedSecretProvider, SecretCacheOptions } from "./CachedSecretProvider";
+
+/**
+ * SSM Parameter Store adapter for secret retrieval
+ * SecureString parameters are decrypted on read
+ */
+export class SsmParameterSecretProvider extends CachedSecretProvider {
+  constructor(
+    private client: SSMClient,
+    options: Partial<SecretCacheOptions> = {},
+    now?: () => number
+  ) {
+    super(options, now);
+  }
+
+  protected async fetchSecret(name: string): Promise<string> {
+    const result = await this.client.send(
+      new GetParameterCommand({ Name: name, WithDecryption: true })
+    );
+
+    if (result.Parameter?.Value === undefined) {
+      throw new Error(`Parameter ${name} has no value`);
+    }
+
+    return result.Parameter.Value;
+  }
+}
@@ -0,0 +1,85 @@
+import { CachedSecretProvider } from "../CachedSecretProvider";
+
+class CountingSecretProvider extends CachedSecretProvider {
+  fetchMock = jest.fn<Promise<string>, [string]>();
+
+  protected fetchSecret(name: string): Promise<string> {
+    return this.fetchMock(name);
+  }
+}
+
+describe("CachedSecretProvider", () => {
+  let now: number;
+  let provider: CountingSecretProvider;
+
+  beforeEach(() => {
+    now = 0;
+    provider = new CountingSecretProvider(
+      { ttlMs: 60_000, minRefreshIntervalMs: 10_000 },
+      () => now
+    );
+    provider.fetchMock.mockResolvedValue("secret-1");
+  });
+
+  it("should serve repeated reads from cache", async () => {
+    await provider.getSecret("webhook");
+    now = 59_999;
+    const value = await provider.getSecret("webhook");
+
+    expect(value).toBe("secret-1");
+    expect(provider.fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refetch after the TTL", async () => {
+    await provider.getSecret("webhook");
+    provider.fetchMock.mockResolvedValue("secret-2");
+    now = 60_000;
+
+    expect(await provider.getSecret("webhook")).toBe("secret-2");
+  });
+
+  it("should cache each name separately", async () => {
+    await provider.getSecret("a");
+    await provider.getSecret("b");
+
+    expect(provider.fetchMock).toHaveBeenCalledWith("a");
+    expect(provider.fetchMock).toHaveBeenCalledWith("b");
+  });
+
+  it("should honour a forced refresh once the minimum interval has passed", async () => {
+    await provider.getSecret("webhook");
+    provider.fetchMock.mockResolvedValue("secret-2");
+    now = 10_000;
+
+    expect(await provider.getSecret("webhook", { forceRefresh: true })).toBe(
+      "secret-2"
+    );
+  });
+
+  it("should throttle forced refreshes", async () => {
+    await provider.getSecret("webhook");
+    provider.fetchMock.mockResolvedValue("secret-2");
+    now = 9_999;
+
+    expect(await provider.getSecret("webhook", { forceRefresh: true })).toBe(
+      "secret-1"
+    );
+    expect(provider.fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one in-flight fetch between concurrent reads", async () => {
+    await Promise.all([
+      provider.getSecret("webhook"),
+      provider.getSecret("webhook"),
+    ]);
+
+    expect(provider.fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not cache failures", async () => {
+    provider.fetchMock.mockRejectedValueOnce(new Error("AccessDenied"));
+
+    await expect(provider.getSecret("webhook")).rejects.toThrow("AccessDenied");
+    expect(await provider.getSecret("webhook")).toBe("secret-1");
+  });
+});
@@ -0,0 +1,46 @@
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EnvironmentSecretProvider } from "../EnvironmentSecretProvider";
+
+describe("EnvironmentSecretProvider", () => {
+  it("should read the variable named after the secret", async () => {
+    const provider = new EnvironmentSecretProvider({
+      SHOPIFY_WEBHOOK_SECRET: "from-env",
+    });
+
+    expect(await provider.getSecret("SHOPIFY_WEBHOOK_SECRET")).toBe("from-env");
+  });
+
+  it("should allow an empty value", async () => {
+    const provider = new EnvironmentSecretProvider({ SHOPIFY_WEBHOOK_SECRET: "" });
+
+    expect(await provider.getSecret("SHOPIFY_WEBHOOK_SECRET")).toBe("");
+  });
+
+  it("should read the file named by <name>_FILE", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "secrets-"));
+    const file = path.join(dir, "webhook-secret");
+    await fs.writeFile(file, "from-file\n");
+
+    try {
+      const provider = new EnvironmentSecretProvider({
+        SHOPIFY_WEBHOOK_SECRET_FILE: file,
+      });
+
+      expect(await provider.getSecret("SHOPIFY_WEBHOOK_SECRET")).toBe(
+        "from-file"
+      );
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should throw when the secret is not configured", async () => {
+    const provider = new EnvironmentSecretProvider({});
+
+    await expect(provider.getSecret("SHOPIFY_WEBHOOK_SECRET")).rejects.toThrow(
+      "Secret SHOPIFY_WEBHOOK_SECRET is not set"
+    );
+  });
+});
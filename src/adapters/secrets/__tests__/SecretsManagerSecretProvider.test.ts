@@ -0,0 +1,41 @@
+import {
+  GetSecretValueCommand,
+  SecretsManagerClient,
+} from "@aws-sdk/client-secrets-manager";
+import { SecretsManagerSecretProvider } from "../SecretsManagerSecretProvider";
+
+describe("SecretsManagerSecretProvider", () => {
+  let send: jest.Mock;
+  let provider: SecretsManagerSecretProvider;
+
+  beforeEach(() => {
+    send = jest.fn().mockResolvedValue({ SecretString: "webhook-secret" });
+    provider = new SecretsManagerSecretProvider({
+      send,
+    } as unknown as SecretsManagerClient);
+  });
+
+  it("should fetch the secret string by ID", async () => {
+    const value = await provider.getSecret("shopify/webhook-secret");
+
+    expect(value).toBe("webhook-secret");
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetSecretValueCommand);
+    expect(command.input).toEqual({ SecretId: "shopify/webhook-secret" });
+  });
+
+  it("should cache fetched secrets", async () => {
+    await provider.getSecret("shopify/webhook-secret");
+    await provider.getSecret("shopify/webhook-secret");
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject binary secrets", async () => {
+    send.mockResolvedValue({ SecretBinary: new Uint8Array([1]) });
+
+    await expect(provider.getSecret("shopify/webhook-secret")).rejects.toThrow(
+      "Secret shopify/webhook-secret has no string value"
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import { SsmParameterSecretProvider } from "../SsmParameterSecretProvider";
+
+describe("SsmParameterSecretProvider", () => {
+  let send: jest.Mock;
+  let provider: SsmParameterSecretProvider;
+
+  beforeEach(() => {
+    send = jest
+      .fn()
+      .mockResolvedValue({ Parameter: { Value: "webhook-secret" } });
+    provider = new SsmParameterSecretProvider({ send } as unknown as SSMClient);
+  });
+
+  it("should fetch and decrypt the parameter", async () => {
+    const value = await provider.getSecret("/shopify/webhook-secret");
+
+    expect(value).toBe("webhook-secret");
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetParameterCommand);
+    expect(command.input).toEqual({
+      Name: "/shopify/webhook-secret",
+      WithDecryption: true,
+    });
+  });
+
+  it("should cache fetched parameters", async () => {
+    await provider.getSecret("/shopify/webhook-secret");
+    await provider.getSecret("/shopify/webhook-secret");
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it("should throw when the parameter has no value", async () => {
+    send.mockResolvedValue({ Parameter: {} });
+
+    await expect(provider.getSecret("/shopify/webhook-secret")).rejects.toThrow(
+      "Parameter /shopify/webhook-secret has no value"
+    );
+  });
+});
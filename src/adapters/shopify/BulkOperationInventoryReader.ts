@@ -0,0 +1,148 @@
+import { InventoryLevel } from "../../domain/entities/InventoryLevel";
+import { VariantMapping } from "../../domain/entities/VariantMapping";
+import {
+  InventoryExportReader,
+  InventoryExportRecord,
+} from "../../domain/ports/InventoryExportReader";
+import { LineSource } from "../sources/LineSource";
+
+/**
+ * Bulk operation query whose JSONL result this reader understands
+ * Run it with bulkOperationRunQuery and download the result URL
+ */
+export const INVENTORY_BULK_QUERY = `
+{
+  inventoryItems {
+    edges {
+      node {
+        id
+        updatedAt
+        variant { id product { id } }
+        inventoryLevels {
+          edges {
+            node {
+              updatedAt
+              location { id }
+              quantities(names: ["available"]) { name quantity }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+interface ItemLine {
+  id: string;
+  updatedAt?: string;
+  variant?: { id?: string; product?: { id?: string } } | null;
+}
+
+interface LevelLine {
+  __parentId: string;
+  updatedAt?: string;
+  location?: { id?: string };
+  quantities?: Array<{ name?: string; quantity?: number }>;
+}
+
+/**
+ * Reads the JSONL result of INVENTORY_BULK_QUERY
+ * Bulk results are flat: each inventory level is its own line pointing at
+ * its item through `__parentId`, and always comes after that item. Items
+ * are remembered as they are read so levels can be keyed by variant
+ */
+export class BulkOperationInventoryReader implements InventoryExportReader {
+  constructor(private source: LineSource) {}
+
+  async *read(shopName: string): AsyncIterable<InventoryExportRecord> {
+    const items = new Map<string, { inventoryItemId: number; variantId: number }>();
+    let line = 0;
+
+    for await (const text of this.source.lines()) {
+      line++;
+      if (text.trim().length === 0) {
+        continue;
+      }
+
+      try {
+        const record = JSON.parse(text) as ItemLine | LevelLine;
+
+        if ("__parentId" in record) {
+          const item = items.get(record.__parentId);
+          if (!item) {
+            throw new Error(`Inventory level of unknown item: ${record.__parentId}`);
+          }
+          yield { line, kind: "level", level: toLevel(shopName, item, record) };
+        } else {
+          const mapping = toMapping(shopName, record);
+          items.set(record.id, {
+            inventoryItemId: mapping.inventoryItemId,
+            variantId: mapping.variantId,
+          });
+          yield { line, kind: "item", mapping };
+        }
+      } catch (error) {
+        yield {
+          line,
+          kind: "invalid",
+          reason: error instanceof Error ? error.message : "Unknown error",
+        };
+      }
+    }
+  }
+}
+
+function toMapping(shopName: string, record: ItemLine): VariantMapping {
+  if (!record.variant?.id || !record.variant.product?.id) {
+    throw new Error(`Inventory item has no variant: ${record.id}`);
+  }
+
+  return new VariantMapping(
+    shopName,
+    legacyId(record.id, "InventoryItem"),
+    legacyId(record.variant.id, "ProductVariant"),
+    legacyId(record.variant.product.id, "Product"),
+    parseDate(record.updatedAt)
+  );
+}
+
+function toLevel(
+  shopName: string,
+  item: { inventoryItemId: number; variantId: number },
+  record: LevelLine
+): InventoryLevel {
+  const available = record.quantities?.find(
+    (quantity) => quantity.name === "available"
+  )?.quantity;
+  if (typeof available !== "number") {
+    throw new Error("Inventory level has no available quantity");
+  }
+
+  return new InventoryLevel(
+    shopName,
+    item.variantId,
+    legacyId(record.location?.id ?? "", "Location"),
+    available,
+    parseDate(record.updatedAt),
+    item.inventoryItemId
+  );
+}
+
+function parseDate(value: string | undefined): Date {
+  const date = new Date(value ?? "");
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid updatedAt: ${value}`);
+  }
+  return date;
+}
+
+/**
+ * Numeric ID of a GraphQL global ID such as gid://shopify/Location/123
+ */
+function legacyId(gid: string, type: string): number {
+  const match = new RegExp(`^gid://shopify/${type}/(\\d+)$`).exec(gid);
+  if (!match) {
+    throw new Error(`Invalid ${type} ID: ${gid}`);
+  }
+  return Number(match[1]);
+}
@@ -0,0 +1,317 @@
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { SecretProvider } from "../../domain/ports/SecretProvider";
+import {
+  ShopifyAdminClient,
+  ShopifyInventoryLevel,
+  ShopifyInventoryLevelPage,
+  ShopifyVariantInventory,
+} from "../../domain/ports/ShopifyAdminClient";
+
+/**
+ * Variants per page, each with up to LEVELS_PER_ITEM levels; together
+ * they keep a page inside Shopify's per-query cost limit. Items stocked at
+ * more locations have their remaining levels read a page at a time
+ */
+const VARIANTS_PER_PAGE = 25;
+const LEVELS_PER_ITEM = 25;
+const LEVELS_PER_PAGE = 250;
+const MAX_ATTEMPTS = 5;
+
+export const INVENTORY_LEVELS_QUERY = `
+query InventoryLevels($first: Int!, $after: String, $levels: Int!) {
+  productVariants(first: $first, after: $after) {
+    pageInfo { hasNextPage endCursor }
+    nodes {
+      legacyResourceId
+      inventoryItem {
+        id
+        legacyResourceId
+        inventoryLevels(first: $levels) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            updatedAt
+            location { legacyResourceId }
+            quantities(names: ["available"]) { name quantity }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+export const INVENTORY_ITEM_LEVELS_QUERY = `
+query InventoryItemLevels($id: ID!, $first: Int!, $after: String) {
+  inventoryItem(id: $id) {
+    inventoryLevels(first: $first, after: $after) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        updatedAt
+        location { legacyResourceId }
+        quantities(names: ["available"]) { name quantity }
+      }
+    }
+  }
+}`;
+
+export interface ShopifyGraphQLAdminClientOptions {
+  /**
+   * Admin API version, e.g. "2024-10"
+   */
+  apiVersion: string;
+  /**
+   * Builds the GraphQL endpoint for a shop; overridden to point at a
+   * local server in tests
+   */
+  endpointFor?: (shopName: string, apiVersion: string) => string;
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Shopify Admin GraphQL API adapter
+ * Access tokens per shop are read from a JSON secret, see
+ * parseAdminTokens. Throttled requests are retried with backoff
+ */
+export class ShopifyGraphQLAdminClient implements ShopifyAdminClient {
+  private endpointFor: (shopName: string, apiVersion: string) => string;
+  private fetch: typeof fetch;
+  private sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private secretProvider: SecretProvider,
+    private tokensSecretName: string,
+    private options: ShopifyGraphQLAdminClientOptions
+  ) {
+    this.endpointFor =
+      options.endpointFor ??
+      ((shopName, apiVersion) =>
+        `https://${shopName}/admin/api/${apiVersion}/graphql.json`);
+    this.fetch = options.fetch ?? fetch;
+    this.sleep =
+      options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  async listInventoryLevels(
+    shopName: string,
+    cursor?: string
+  ): Promise<ShopifyInventoryLevelPage> {
+    const data = await this.query(shopName, INVENTORY_LEVELS_QUERY, {
+      first: VARIANTS_PER_PAGE,
+      after: cursor ?? null,
+      levels: LEVELS_PER_ITEM,
+    });
+
+    const connection = (data as { productVariants?: unknown }).productVariants;
+    if (!isVariantConnection(connection)) {
+      throw new Error(
+        `Invalid Shopify Admin API response for ${shopName}: productVariants`
+      );
+    }
+
+    const variants: ShopifyVariantInventory[] = [];
+    for (const node of connection.nodes) {
+      // Variants without an inventory item have no stock to compare
+      if (!node.inventoryItem) {
+        continue;
+      }
+      variants.push({
+        variantId: Number(node.legacyResourceId),
+        inventoryItemId: Number(node.inventoryItem.legacyResourceId),
+        levels: await this.allLevels(
+          shopName,
+          node.inventoryItem.id,
+          node.inventoryItem.inventoryLevels
+        ),
+      });
+    }
+
+    return {
+      variants,
+      nextCursor: connection.pageInfo.hasNextPage
+        ? connection.pageInfo.endCursor
+        : null,
+    };
+  }
+
+  /**
+   * The levels read with the variant, followed by any further pages
+   */
+  private async allLevels(
+    shopName: string,
+    inventoryItemGid: string,
+    first: LevelConnection
+  ): Promise<ShopifyInventoryLevel[]> {
+    const levels = first.nodes.map(toInventoryLevel);
+
+    let page = first;
+    while (page.pageInfo.hasNextPage) {
+      const data = await this.query(shopName, INVENTORY_ITEM_LEVELS_QUERY, {
+        id: inventoryItemGid,
+        first: LEVELS_PER_PAGE,
+        after: page.pageInfo.endCursor,
+      });
+
+      const connection = (
+        data as { inventoryItem?: { inventoryLevels?: unknown } | null }
+      ).inventoryItem?.inventoryLevels;
+      if (!isLevelConnection(connection)) {
+        throw new Error(
+          `Invalid Shopify Admin API response for ${shopName}: inventoryItem`
+        );
+      }
+
+      levels.push(...connection.nodes.map(toInventoryLevel));
+      page = connection;
+    }
+
+    return levels;
+  }
+
+  private async query(
+    shopName: string,
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<unknown> {
+    const token = await this.accessToken(shopName);
+    const endpoint = this.endpointFor(shopName, this.options.apiVersion);
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Shopify-Access-Token": token,
+        },
+        body: JSON.stringify({ query, variables }),
+      });
+
+      if (response.status === 429 && attempt < MAX_ATTEMPTS) {
+        await this.backOff(attempt);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(
+          `Shopify Admin API request failed for ${shopName}: ${response.status}`
+        );
+      }
+
+      const body = (await response.json()) as {
+        data?: unknown;
+        errors?: Array<{ message?: string; extensions?: { code?: string } }>;
+      };
+
+      const throttled = body.errors?.some(
+        (error) => error.extensions?.code === "THROTTLED"
+      );
+      if (throttled && attempt < MAX_ATTEMPTS) {
+        await this.backOff(attempt);
+        continue;
+      }
+
+      if (body.errors?.length) {
+        throw new Error(
+          `Shopify Admin API error for ${shopName}: ${body.errors
+            .map((error) => error.message)
+            .join("; ")}`
+        );
+      }
+      if (typeof body.data !== "object" || body.data === null) {
+        throw new Error(`Invalid Shopify Admin API response for ${shopName}`);
+      }
+
+      return body.data;
+    }
+  }
+
+  private backOff(attempt: number): Promise<void> {
+    return this.sleep(1000 * 2 ** (attempt - 1));
+  }
+
+  private async accessToken(shopName: string): Promise<string> {
+    const tokens = parseAdminTokens(
+      await this.secretProvider.getSecret(this.tokensSecretName)
+    );
+
+    const token = tokens[normalizeShopDomain(shopName)];
+    if (!token) {
+      throw new Error(`No Shopify Admin API token for shop: ${shopName}`);
+    }
+    return token;
+  }
+}
+
+/**
+ * Parse token JSON such as {"shops":{"myshop.myshopify.com":"shpat_..."}},
+ * normalizing shop domains
+ */
+export function parseAdminTokens(json: string): Record<string, string> {
+  const raw = JSON.parse(json) as { shops?: Record<string, unknown> };
+
+  const tokens: Record<string, string> = {};
+  Object.entries(raw.shops ?? {}).forEach(([shop, token]) => {
+    if (typeof token !== "string" || token.length === 0) {
+      throw new Error(
+        `Invalid Admin API tokens: token for ${shop} must be a non-empty string`
+      );
+    }
+    tokens[normalizeShopDomain(shop)] = token;
+  });
+
+  return tokens;
+}
+
+interface LevelNode {
+  updatedAt: string;
+  location: { legacyResourceId: string };
+  quantities: Array<{ name: string; quantity: number }>;
+}
+
+interface LevelConnection {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: LevelNode[];
+}
+
+interface VariantNode {
+  legacyResourceId: string;
+  inventoryItem: {
+    id: string;
+    legacyResourceId: string;
+    inventoryLevels: LevelConnection;
+  } | null;
+}
+
+interface VariantConnection {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: VariantNode[];
+}
+
+function isVariantConnection(value: unknown): value is VariantConnection {
+  const connection = value as VariantConnection | undefined;
+  return (
+    typeof connection === "object" &&
+    connection !== null &&
+    typeof connection.pageInfo?.hasNextPage === "boolean" &&
+    Array.isArray(connection.nodes)
+  );
+}
+
+function isLevelConnection(value: unknown): value is LevelConnection {
+  const connection = value as LevelConnection | undefined;
+  return (
+    typeof connection === "object" &&
+    connection !== null &&
+    typeof connection.pageInfo?.hasNextPage === "boolean" &&
+    Array.isArray(connection.nodes)
+  );
+}
+
+function toInventoryLevel(level: LevelNode): ShopifyInventoryLevel {
+  return {
+    locationId: Number(level.location.legacyResourceId),
+    available:
+      level.quantities.find((quantity) => quantity.name === "available")
+        ?.quantity ?? 0,
+    updatedAt: new Date(level.updatedAt),
+  };
+}
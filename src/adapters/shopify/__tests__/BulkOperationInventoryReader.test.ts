@@ -0,0 +1,165 @@
+import { BulkOperationInventoryReader } from "../BulkOperationInventoryReader";
+import { InventoryExportRecord } from "../../../domain/ports/InventoryExportReader";
+import { InventoryLevel } from "../../../domain/entities/InventoryLevel";
+import { VariantMapping } from "../../../domain/entities/VariantMapping";
+
+const SHOP = "myshop.myshopify.com";
+const ITEM = "gid://shopify/InventoryItem/12345";
+
+const itemLine = (id = ITEM, variantId = 55555) =>
+  JSON.stringify({
+    id,
+    updatedAt: "2024-01-10T00:00:00Z",
+    variant: {
+      id: `gid://shopify/ProductVariant/${variantId}`,
+      product: { id: "gid://shopify/Product/777" },
+    },
+  });
+const levelLine = (locationId: number, available: number, parentId = ITEM) =>
+  JSON.stringify({
+    updatedAt: "2024-01-15T10:30:00Z",
+    location: { id: `gid://shopify/Location/${locationId}` },
+    quantities: [{ name: "available", quantity: available }],
+    __parentId: parentId,
+  });
+
+async function readAll(lines: string[]): Promise<InventoryExportRecord[]> {
+  const reader = new BulkOperationInventoryReader({
+    location: "export.jsonl",
+    async *lines() {
+      yield* lines;
+    },
+  });
+
+  const records: InventoryExportRecord[] = [];
+  for await (const record of reader.read(SHOP)) {
+    records.push(record);
+  }
+  return records;
+}
+
+describe("BulkOperationInventoryReader", () => {
+  it("should key each level by the variant of its parent item", async () => {
+    const records = await readAll([itemLine(), levelLine(1, 5), levelLine(2, 0)]);
+
+    expect(records).toEqual([
+      {
+        line: 1,
+        kind: "item",
+        mapping: new VariantMapping(
+          SHOP,
+          12345,
+          55555,
+          777,
+          new Date("2024-01-10T00:00:00Z")
+        ),
+      },
+      {
+        line: 2,
+        kind: "level",
+        level: new InventoryLevel(
+          SHOP,
+          55555,
+          1,
+          5,
+          new Date("2024-01-15T10:30:00Z"),
+          12345
+        ),
+      },
+      {
+        line: 3,
+        kind: "level",
+        level: new InventoryLevel(
+          SHOP,
+          55555,
+          2,
+          0,
+          new Date("2024-01-15T10:30:00Z"),
+          12345
+        ),
+      },
+    ]);
+  });
+
+  it("should link levels to items that are not directly above them", async () => {
+    const other = "gid://shopify/InventoryItem/67890";
+
+    const records = await readAll([
+      itemLine(),
+      itemLine(other, 66666),
+      levelLine(1, 5, ITEM),
+      levelLine(1, 7, other),
+    ]);
+
+    expect(
+      records
+        .filter((r): r is Extract<InventoryExportRecord, { kind: "level" }> => r.kind === "level")
+        .map((r) => [r.level.variantId, r.level.available])
+    ).toEqual([
+      [55555, 5],
+      [66666, 7],
+    ]);
+  });
+
+  it("should count blank lines without yielding them", async () => {
+    const records = await readAll([itemLine(), "", levelLine(1, 5)]);
+
+    expect(records.map((r) => [r.line, r.kind])).toEqual([
+      [1, "item"],
+      [3, "level"],
+    ]);
+  });
+
+  const level = (fields: Record<string, unknown>) =>
+    JSON.stringify({
+      __parentId: ITEM,
+      updatedAt: "2024-01-15T10:30:00Z",
+      location: { id: "gid://shopify/Location/1" },
+      quantities: [{ name: "available", quantity: 1 }],
+      ...fields,
+    });
+
+  it.each([
+    ["malformed JSON", "not json", /JSON/],
+    [
+      "a level of an unknown item",
+      levelLine(1, 5, "gid://shopify/InventoryItem/999"),
+      "Inventory level of unknown item: gid://shopify/InventoryItem/999",
+    ],
+    ["negative stock", levelLine(1, -3), "Available stock cannot be negative"],
+    [
+      "a level without available stock",
+      level({ quantities: [] }),
+      "Inventory level has no available quantity",
+    ],
+    [
+      "an unparseable date",
+      level({ updatedAt: "yesterday" }),
+      "Invalid updatedAt: yesterday",
+    ],
+    [
+      "a malformed location ID",
+      level({ location: { id: "gid://shopify/Warehouse/1" } }),
+      "Invalid Location ID: gid://shopify/Warehouse/1",
+    ],
+    [
+      "an item without a variant",
+      JSON.stringify({ id: "gid://shopify/InventoryItem/5", variant: null }),
+      "Inventory item has no variant: gid://shopify/InventoryItem/5",
+    ],
+  ])("should report %s as invalid", async (_case, line, reason) => {
+    const records = await readAll([itemLine(), line]);
+
+    expect(records[1]).toEqual({ line: 2, kind: "invalid", reason: expect.anything() });
+    expect((records[1] as { reason: string }).reason).toMatch(reason);
+  });
+
+  it("should report the levels of an invalid item as invalid", async () => {
+    const records = await readAll([
+      JSON.stringify({ id: ITEM, updatedAt: "2024-01-10T00:00:00Z" }),
+      levelLine(1, 5),
+    ]);
+
+    expect(records.map((r) => r.kind)).toEqual(["invalid", "invalid"]);
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  parseAdminTokens,
+  ShopifyGraphQLAdminClient,
+} from "../ShopifyGraphQLAdminClient";
+import { MockShopifyAdminServer, MockVariant } from "./support/MockShopifyAdminServer";
+
+const SHOP = "myshop.myshopify.com";
+const TOKEN = "shpat_test_token";
+const TOKENS_SECRET = "SHOPIFY_ADMIN_TOKENS";
+
+const variants = (count: number): MockVariant[] =>
+  Array.from({ length: count }, (_, index) => ({
+    variantId: 1000 + index,
+    inventoryItemId: 2000 + index,
+    levels: [
+      { locationId: 1, available: index, updatedAt: "2024-01-15T10:30:00Z" },
+    ],
+  }));
+
+describe("ShopifyGraphQLAdminClient", () => {
+  let server: MockShopifyAdminServer;
+  let getSecret: jest.Mock;
+  let sleep: jest.Mock;
+  let client: ShopifyGraphQLAdminClient;
+
+  beforeEach(async () => {
+    server = new MockShopifyAdminServer();
+    await server.start();
+    getSecret = jest
+      .fn()
+      .mockResolvedValue(JSON.stringify({ shops: { [SHOP]: TOKEN } }));
+    sleep = jest.fn().mockResolvedValue(undefined);
+    client = new ShopifyGraphQLAdminClient({ getSecret }, TOKENS_SECRET, {
+      apiVersion: "2024-10",
+      endpointFor: server.endpointFor,
+      sleep,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("should read a page of inventory levels with the shop's token", async () => {
+    server.addShop(SHOP, TOKEN, [
+      {
+        variantId: 55555,
+        inventoryItemId: 12345,
+        levels: [
+          { locationId: 1, available: 5, updatedAt: "2024-01-15T10:30:00Z" },
+          { locationId: 2, available: 0, updatedAt: "2024-01-16T08:00:00Z" },
+        ],
+      },
+    ]);
+
+    const page = await client.listInventoryLevels(SHOP);
+
+    expect(getSecret).toHaveBeenCalledWith(TOKENS_SECRET);
+    expect(server.requests[0]).toMatchObject({
+      path: `/${SHOP}/admin/api/2024-10/graphql.json`,
+      accessToken: TOKEN,
+      variables: { first: 25, after: null, levels: 25 },
+    });
+    expect(page).toEqual({
+      variants: [
+        {
+          variantId: 55555,
+          inventoryItemId: 12345,
+          levels: [
+            {
+              locationId: 1,
+              available: 5,
+              updatedAt: new Date("2024-01-15T10:30:00Z"),
+            },
+            {
+              locationId: 2,
+              available: 0,
+              updatedAt: new Date("2024-01-16T08:00:00Z"),
+            },
+          ],
+        },
+      ],
+      nextCursor: null,
+    });
+  });
+
+  it("should page through variants with cursors", async () => {
+    server.addShop(SHOP, TOKEN, variants(30));
+
+    const first = await client.listInventoryLevels(SHOP);
+    const second = await client.listInventoryLevels(SHOP, first.nextCursor!);
+
+    expect(first.variants).toHaveLength(25);
+    expect(first.nextCursor).toBe("25");
+    expect(server.requests[1].variables.after).toBe("25");
+    expect(second.variants.map((v) => v.variantId)).toEqual([
+      1025, 1026, 1027, 1028, 1029,
+    ]);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should page through the levels of items stocked at many locations", async () => {
+    server.addShop(SHOP, TOKEN, [
+      {
+        variantId: 55555,
+        inventoryItemId: 12345,
+        levels: Array.from({ length: 300 }, (_, index) => ({
+          locationId: index + 1,
+          available: 1,
+          updatedAt: "2024-01-15T10:30:00Z",
+        })),
+      },
+    ]);
+
+    const page = await client.listInventoryLevels(SHOP);
+
+    expect(page.variants[0].levels.map((level) => level.locationId)).toEqual(
+      Array.from({ length: 300 }, (_, index) => index + 1)
+    );
+    expect(server.requests.map((request) => request.variables)).toEqual([
+      { first: 25, after: null, levels: 25 },
+      { id: "gid://shopify/InventoryItem/12345", first: 250, after: "25" },
+      { id: "gid://shopify/InventoryItem/12345", first: 250, after: "275" },
+    ]);
+  });
+
+  it("should skip variants without an inventory item", async () => {
+    server.addShop(SHOP, TOKEN, [
+      { variantId: 55555, inventoryItemId: null, levels: [] },
+      ...variants(1),
+    ]);
+
+    const page = await client.listInventoryLevels(SHOP);
+
+    expect(page.variants.map((v) => v.variantId)).toEqual([1000]);
+  });
+
+  it("should retry throttled queries with backoff", async () => {
+    server.addShop(SHOP, TOKEN, variants(1));
+    server.enqueue(200, {
+      errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+    });
+    server.enqueue(429, { errors: "Exceeded 2 calls per second" });
+
+    const page = await client.listInventoryLevels(SHOP);
+
+    expect(page.variants).toHaveLength(1);
+    expect(server.requests).toHaveLength(3);
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+  });
+
+  it("should give up after repeated throttling", async () => {
+    server.addShop(SHOP, TOKEN, variants(1));
+    for (let i = 0; i < 5; i++) {
+      server.enqueue(429, { errors: "Exceeded 2 calls per second" });
+    }
+
+    await expect(client.listInventoryLevels(SHOP)).rejects.toThrow(
+      `Shopify Admin API request failed for ${SHOP}: 429`
+    );
+    expect(server.requests).toHaveLength(5);
+  });
+
+  it("should reject a token Shopify does not accept", async () => {
+    server.addShop(SHOP, "shpat_other_token", variants(1));
+
+    await expect(client.listInventoryLevels(SHOP)).rejects.toThrow(
+      `Shopify Admin API request failed for ${SHOP}: 401`
+    );
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it("should surface GraphQL errors", async () => {
+    server.enqueue(200, {
+      errors: [{ message: "Field 'foo' doesn't exist" }, { message: "Bad" }],
+    });
+
+    await expect(client.listInventoryLevels(SHOP)).rejects.toThrow(
+      `Shopify Admin API error for ${SHOP}: Field 'foo' doesn't exist; Bad`
+    );
+  });
+
+  it("should reject a response without product variants", async () => {
+    server.enqueue(200, { data: { shop: {} } });
+
+    await expect(client.listInventoryLevels(SHOP)).rejects.toThrow(
+      `Invalid Shopify Admin API response for ${SHOP}: productVariants`
+    );
+  });
+
+  it("should refuse shops without a token", async () => {
+    await expect(
+      client.listInventoryLevels("othershop.myshopify.com")
+    ).rejects.toThrow(
+      "No Shopify Admin API token for shop: othershop.myshopify.com"
+    );
+    expect(server.requests).toHaveLength(0);
+  });
+});
+
+describe("parseAdminTokens", () => {
+  it("should key tokens by normalized shop domain", () => {
+    expect(
+      parseAdminTokens(
+        JSON.stringify({ shops: { "https://MyShop.myshopify.com/": TOKEN } })
+      )
+    ).toEqual({ [SHOP]: TOKEN });
+  });
+
+  it("should accept a secret without shops", () => {
+    expect(parseAdminTokens("{}")).toEqual({});
+  });
+
+  it("should reject empty tokens", () => {
+    expect(() =>
+      parseAdminTokens(JSON.stringify({ shops: { [SHOP]: "" } }))
+    ).toThrow(
+      `Invalid Admin API tokens: token for ${SHOP} must be a non-empty string`
+    );
+  });
+});
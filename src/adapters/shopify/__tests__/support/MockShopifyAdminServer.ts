@@ -0,0 +1,184 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+
+export interface MockInventoryLevel {
+  locationId: number;
+  available: number;
+  updatedAt: string;
+}
+
+export interface MockVariant {
+  variantId: number;
+  inventoryItemId: number | null;
+  levels: MockInventoryLevel[];
+}
+
+export interface ReceivedRequest {
+  path: string;
+  accessToken: string | undefined;
+  query: string;
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Local stand-in for the Shopify Admin GraphQL API used by adapter tests
+ * Answers the productVariants and inventoryItem level queries from
+ * fixtures, paging with opaque cursors, and can be told to throttle or
+ * fail upcoming requests
+ */
+export class MockShopifyAdminServer {
+  readonly requests: ReceivedRequest[] = [];
+  private server: Server;
+  private variants = new Map<string, MockVariant[]>();
+  private tokens = new Map<string, string>();
+  private queued: Array<{ status: number; body: unknown }> = [];
+
+  constructor() {
+    this.server = createServer((request, response) => {
+      void this.respond(request, response);
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  /**
+   * Endpoint builder for ShopifyGraphQLAdminClient, keeping the shop and
+   * API version in the path so tests can assert on them
+   */
+  endpointFor = (shopName: string, apiVersion: string): string => {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/${shopName}/admin/api/${apiVersion}/graphql.json`;
+  };
+
+  addShop(shopName: string, accessToken: string, variants: MockVariant[]): void {
+    this.tokens.set(shopName, accessToken);
+    this.variants.set(shopName, variants);
+  }
+
+  /**
+   * Answer the next request with this response instead of the fixtures
+   */
+  enqueue(status: number, body: unknown): void {
+    this.queued.push({ status, body });
+  }
+
+  private async respond(
+    request: IncomingMessage,
+    response: ServerResponse
+  ): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+    const { query, variables } = JSON.parse(Buffer.concat(chunks).toString());
+    const accessToken = request.headers["x-shopify-access-token"] as
+      | string
+      | undefined;
+    this.requests.push({ path: request.url ?? "", accessToken, query, variables });
+
+    const queued = this.queued.shift();
+    if (queued) {
+      return this.send(response, queued.status, queued.body);
+    }
+
+    const shopName = (request.url ?? "").split("/")[1];
+    if (!accessToken || this.tokens.get(shopName) !== accessToken) {
+      return this.send(response, 401, {
+        errors: "[API] Invalid API key or access token",
+      });
+    }
+
+    const variants = this.variants.get(shopName) ?? [];
+
+    if (String(query).includes("inventoryItem(id:")) {
+      const item = variants.find(
+        (variant) =>
+          variables.id === `gid://shopify/InventoryItem/${variant.inventoryItemId}`
+      );
+      return this.send(response, 200, {
+        data: {
+          inventoryItem: item
+            ? levelConnection(
+                item.levels,
+                variables.after ? Number(variables.after) : 0,
+                Number(variables.first)
+              )
+            : null,
+        },
+      });
+    }
+
+    if (!String(query).includes("productVariants")) {
+      return this.send(response, 200, {
+        errors: [{ message: "Unsupported query" }],
+      });
+    }
+
+    const start = variables.after ? Number(variables.after) : 0;
+    const page = variants.slice(start, start + Number(variables.first));
+    const end = start + page.length;
+
+    this.send(response, 200, {
+      data: {
+        productVariants: {
+          pageInfo: {
+            hasNextPage: end < variants.length,
+            endCursor: page.length > 0 ? String(end) : null,
+          },
+          nodes: page.map((variant) => toNode(variant, Number(variables.levels))),
+        },
+      },
+    });
+  }
+
+  private send(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
+
+function toNode(variant: MockVariant, levels: number) {
+  return {
+    legacyResourceId: String(variant.variantId),
+    inventoryItem:
+      variant.inventoryItemId === null
+        ? null
+        : {
+            id: `gid://shopify/InventoryItem/${variant.inventoryItemId}`,
+            legacyResourceId: String(variant.inventoryItemId),
+            ...levelConnection(variant.levels, 0, levels),
+          },
+  };
+}
+
+function levelConnection(
+  levels: MockInventoryLevel[],
+  start: number,
+  first: number
+) {
+  const page = levels.slice(start, start + first);
+  const end = start + page.length;
+  return {
+    inventoryLevels: {
+      pageInfo: {
+        hasNextPage: end < levels.length,
+        endCursor: page.length > 0 ? String(end) : null,
+      },
+      nodes: page.map((level) => ({
+        updatedAt: level.updatedAt,
+        location: { legacyResourceId: String(level.locationId) },
+        quantities: [{ name: "available", quantity: level.available }],
+      })),
+    },
+  };
+}
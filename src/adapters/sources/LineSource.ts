@@ -0,0 +1,12 @@
+/**
+ * A text file read line by line, wherever it is stored
+ * Each call to lines() reads the file again from the start
+ */
+export interface LineSource {
+  /**
+   * Where the file is, for logs and checkpoints
+   */
+  readonly location: string;
+
+  lines(): AsyncIterable<string>;
+}
@@ -0,0 +1,24 @@
+import { createReadStream } from "fs";
+import { createInterface } from "readline";
+import { LineSource } from "./LineSource";
+
+/**
+ * Reads a file from the local filesystem as a stream, so large exports
+ * are never held in memory
+ */
+export class LocalFileLineSource implements LineSource {
+  constructor(readonly location: string) {}
+
+  async *lines(): AsyncIterable<string> {
+    const reader = createInterface({
+      input: createReadStream(this.location, { encoding: "utf8" }),
+      crlfDelay: Infinity,
+    });
+
+    try {
+      yield* reader;
+    } finally {
+      reader.close();
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Readable } from "stream";
+import { createInterface } from "readline";
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { LineSource } from "./LineSource";
+
+/**
+ * Reads an S3 object as a stream, addressed as s3://bucket/key
+ */
+export class S3LineSource implements LineSource {
+  private bucket: string;
+  private key: string;
+
+  constructor(private client: S3Client, readonly location: string) {
+    const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(location);
+    if (!match) {
+      throw new Error(`Invalid S3 location: ${location}`);
+    }
+    [, this.bucket, this.key] = match;
+  }
+
+  async *lines(): AsyncIterable<string> {
+    const result = await this.client.send(
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.key })
+    );
+
+    if (!(result.Body instanceof Readable)) {
+      throw new Error(`S3 object has no readable body: ${this.location}`);
+    }
+
+    const reader = createInterface({ input: result.Body, crlfDelay: Infinity });
+
+    try {
+      yield* reader;
+    } finally {
+      reader.close();
+      result.Body.destroy();
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { LocalFileLineSource } from "../LocalFileLineSource";
+
+describe("LocalFileLineSource", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "line-source-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const collect = async (source: LocalFileLineSource) => {
+    const lines: string[] = [];
+    for await (const line of source.lines()) {
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  it("should read the file line by line", async () => {
+    const path = join(directory, "export.jsonl");
+    await fs.writeFile(path, '{"a":1}\r\n{"b":2}\n\n{"c":3}');
+
+    const source = new LocalFileLineSource(path);
+
+    expect(source.location).toBe(path);
+    expect(await collect(source)).toEqual(['{"a":1}', '{"b":2}', "", '{"c":3}']);
+  });
+
+  it("should read from the start on every call", async () => {
+    const path = join(directory, "export.jsonl");
+    await fs.writeFile(path, "one\ntwo\n");
+    const source = new LocalFileLineSource(path);
+
+    await collect(source);
+
+    expect(await collect(source)).toEqual(["one", "two"]);
+  });
+
+  it("should fail for a missing file", async () => {
+    await expect(
+      collect(new LocalFileLineSource(join(directory, "missing.jsonl")))
+    ).rejects.toThrow("ENOENT");
+  });
+});
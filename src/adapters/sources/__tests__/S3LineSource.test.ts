@@ -0,0 +1,48 @@
+import { Readable } from "stream";
+import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { S3LineSource } from "../S3LineSource";
+
+describe("S3LineSource", () => {
+  let send: jest.Mock;
+  let client: S3Client;
+
+  beforeEach(() => {
+    send = jest.fn(async () => ({ Body: Readable.from(['{"a":1}\n{"b"', ':2}\n']) }));
+    client = { send } as unknown as S3Client;
+  });
+
+  const collect = async (source: S3LineSource) => {
+    const lines: string[] = [];
+    for await (const line of source.lines()) {
+      lines.push(line);
+    }
+    return lines;
+  };
+
+  it("should stream the object line by line", async () => {
+    const source = new S3LineSource(client, "s3://exports/shops/myshop/bulk.jsonl");
+
+    expect(await collect(source)).toEqual(['{"a":1}', '{"b":2}']);
+
+    const command = send.mock.calls[0][0];
+    expect(command).toBeInstanceOf(GetObjectCommand);
+    expect(command.input).toEqual({
+      Bucket: "exports",
+      Key: "shops/myshop/bulk.jsonl",
+    });
+  });
+
+  it("should reject locations that are not S3 URLs", () => {
+    expect(() => new S3LineSource(client, "s3://exports")).toThrow(
+      "Invalid S3 location: s3://exports"
+    );
+  });
+
+  it("should fail when the object has no body", async () => {
+    send.mockResolvedValue({});
+
+    await expect(
+      collect(new S3LineSource(client, "s3://exports/bulk.jsonl"))
+    ).rejects.toThrow("S3 object has no readable body: s3://exports/bulk.jsonl");
+  });
+});
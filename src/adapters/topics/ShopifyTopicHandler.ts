@@ -0,0 +1,51 @@
+import { Shop } from "../../domain/entities/Shop";
+import { AuthenticatedWebhookRequest } from "../../domain/services/WebhookAuthenticator";
+import { WebhookDelivery } from "../../domain/usecases/WebhookDelivery";
+import { WebhookProcessingResult } from "../../domain/usecases/WebhookProcessingResult";
+import {
+  TopicHandler,
+  toAuthenticatedRequest,
+  toWebhookDelivery,
+  WebhookContext,
+} from "./TopicHandler";
+
+/**
+ * Delivery details every use case request is built from
+ */
+export type TopicRequest = AuthenticatedWebhookRequest &
+  WebhookDelivery & { shop: Shop };
+
+/**
+ * What differs between topics: the payload shape and the use case call
+ */
+export interface TopicDefinition<TPayload> {
+  topic: string;
+  parse(payload: unknown): TPayload;
+  handle(payload: TPayload, request: TopicRequest): Promise<WebhookProcessingResult>;
+}
+
+/**
+ * Handles one Shopify webhook topic as described by its definition
+ */
+export class ShopifyTopicHandler<TPayload> implements TopicHandler<TPayload> {
+  readonly topic: string;
+
+  constructor(private definition: TopicDefinition<TPayload>) {
+    this.topic = definition.topic;
+  }
+
+  parse(payload: unknown): TPayload {
+    return this.definition.parse(payload);
+  }
+
+  handle(
+    payload: TPayload,
+    context: WebhookContext
+  ): Promise<WebhookProcessingResult> {
+    return this.definition.handle(payload, {
+      ...toAuthenticatedRequest(context),
+      ...toWebhookDelivery(context),
+      shop: context.shop,
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { ProcessInventoryItemWebhookUseCase } from "../../domain/usecases/ProcessInventoryItemWebhookUseCase";
+import { ProcessInventoryWebhookUseCase } from "../../domain/usecases/ProcessInventoryWebhookUseCase";
+import { ProcessLocationWebhookUseCase } from "../../domain/usecases/ProcessLocationWebhookUseCase";
+import { ProcessProductWebhookUseCase } from "../../domain/usecases/ProcessProductWebhookUseCase";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import { ShopifyTopicHandler, TopicDefinition } from "./ShopifyTopicHandler";
+import { TopicHandler } from "./TopicHandler";
+
+export interface ShopifyTopicUseCases {
+  inventory: ProcessInventoryWebhookUseCase;
+  product: ProcessProductWebhookUseCase;
+  inventoryItem: ProcessInventoryItemWebhookUseCase;
+  location: ProcessLocationWebhookUseCase;
+}
+
+const define = <TPayload>(
+  definition: TopicDefinition<TPayload>
+): TopicHandler<TPayload> => new ShopifyTopicHandler(definition);
+
+/**
+ * Handlers for every supported Shopify webhook topic
+ * Add an entry here to support a new topic
+ */
+export function shopifyTopicHandlers({
+  inventory,
+  product,
+  inventoryItem,
+  location,
+}: ShopifyTopicUseCases): TopicHandler[] {
+  return [
+    define({
+      topic: "inventory_levels/update",
+      parse: WebhookPayloadParser.parseInventoryLevelPayload,
+      handle: (inventoryLevel, request) =>
+        inventory.execute({ ...request, inventoryLevel }),
+    }),
+    define({
+      topic: "inventory_levels/connect",
+      parse: WebhookPayloadParser.parseInventoryLevelConnectPayload,
+      handle: (inventoryLevel, request) =>
+        inventory.connect({ ...request, inventoryLevel }),
+    }),
+    define({
+      topic: "inventory_levels/disconnect",
+      parse: WebhookPayloadParser.parseInventoryLevelDisconnectPayload,
+      handle: (inventoryLevel, request) =>
+        inventory.disconnect({ ...request, inventoryLevel }),
+    }),
+    ...(["products/create", "products/update"] as const).map((topic) =>
+      define({
+        topic,
+        parse: WebhookPayloadParser.parseProductPayload,
+        handle: (payload, request) =>
+          product.execute({ ...request, product: payload }),
+      })
+    ),
+    ...(["inventory_items/create", "inventory_items/update"] as const).map(
+      (topic) =>
+        define({
+          topic,
+          parse: WebhookPayloadParser.parseInventoryItemPayload,
+          handle: (payload, request) =>
+            inventoryItem.execute({ ...request, inventoryItem: payload }),
+        })
+    ),
+    define({
+      topic: "inventory_items/delete",
+      parse: WebhookPayloadParser.parseInventoryItemDeletePayload,
+      handle: (payload, request) =>
+        inventoryItem.delete({ ...request, inventoryItem: payload }),
+    }),
+    ...(["locations/create", "locations/update"] as const).map((topic) =>
+      define({
+        topic,
+        parse: WebhookPayloadParser.parseLocationPayload,
+        handle: (payload, request) =>
+          location.execute({ ...request, location: payload }),
+      })
+    ),
+    define({
+      topic: "locations/delete",
+      parse: WebhookPayloadParser.parseLocationDeletePayload,
+      handle: (payload, request) =>
+        location.delete({ ...request, location: payload }),
+    }),
+  ];
+}
@@ -0,0 +1,75 @@
+import { Shop } from "../../domain/entities/Shop";
+import { WebhookChannel } from "../../domain/ports/WebhookValidator";
+import { AuthenticatedWebhookRequest } from "../../domain/services/WebhookAuthenticator";
+import { WebhookDelivery } from "../../domain/usecases/WebhookDelivery";
+import { WebhookPayloadParser } from "../parsers/WebhookPayloadParser";
+import { WebhookProcessingResult } from "../../domain/usecases/WebhookProcessingResult";
+import { ShopifyWebhookMetadata } from "../types/EventBridgeTypes";
+
+/**
+ * Delivery details shared by every topic, independent of the payload
+ */
+export interface WebhookContext {
+  channel: WebhookChannel;
+  topic: string;
+  shopName: string;
+  /**
+   * Registry entry of the sending shop, already checked to be active
+   */
+  shop: Shop;
+  headers: ShopifyWebhookMetadata;
+  rawBody: string;
+  signature: string | undefined;
+  deliveryId?: string;
+  eventTime?: string;
+  eventSource?: string;
+  account?: string;
+}
+
+/**
+ * Adapts one Shopify webhook topic to the use case that processes it
+ */
+export interface TopicHandler<TPayload = unknown> {
+  readonly topic: string;
+
+  /**
+   * Validate the raw payload, throwing a PayloadValidationError if it does
+   * not match the topic's shape
+   */
+  parse(payload: unknown): TPayload;
+
+  handle(payload: TPayload, context: WebhookContext): Promise<WebhookProcessingResult>;
+}
+
+/**
+ * Delivery details a use case needs to authenticate the webhook
+ */
+export function toAuthenticatedRequest(
+  context: WebhookContext
+): AuthenticatedWebhookRequest {
+  return {
+    shopName: context.shopName,
+    rawBody: context.rawBody,
+    signature: context.signature,
+    webhookSecretName: context.shop.webhookSecretName,
+    channel: context.channel,
+    eventSource: context.eventSource,
+    account: context.account,
+  };
+}
+
+/**
+ * Identify the webhook for audit records, preferring Shopify's event ID
+ */
+export function toWebhookDelivery(context: WebhookContext): WebhookDelivery {
+  return {
+    eventId:
+      WebhookPayloadParser.extractEventId(context.headers) ??
+      context.deliveryId,
+    topic: context.topic,
+    triggeredAt: WebhookPayloadParser.extractTriggeredAt(
+      context.headers,
+      context.eventTime
+    ),
+  };
+}
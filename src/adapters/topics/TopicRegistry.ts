@@ -0,0 +1,37 @@
+import { UnsupportedTopicError } from "../../domain/errors/UnsupportedTopicError";
+import { TopicHandler } from "./TopicHandler";
+
+/**
+ * Maps Shopify webhook topics to their handlers
+ * New topics are registered at composition time, not in the entry points
+ */
+export class TopicRegistry {
+  private handlers = new Map<string, TopicHandler>();
+
+  register<TPayload>(handler: TopicHandler<TPayload>): this {
+    if (this.handlers.has(handler.topic)) {
+      throw new Error(`Topic already registered: ${handler.topic}`);
+    }
+    this.handlers.set(handler.topic, handler as TopicHandler);
+    return this;
+  }
+
+  resolve(topic: string): TopicHandler | undefined {
+    return this.handlers.get(topic);
+  }
+
+  /**
+   * Like resolve, but throws UnsupportedTopicError for unknown topics
+   */
+  require(topic: string): TopicHandler {
+    const handler = this.resolve(topic);
+    if (!handler) {
+      throw new UnsupportedTopicError(topic);
+    }
+    return handler;
+  }
+
+  topics(): string[] {
+    return Array.from(this.handlers.keys());
+  }
+}
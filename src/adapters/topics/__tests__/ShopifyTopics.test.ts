@@ -0,0 +1,198 @@
+import { shopifyTopicHandlers, ShopifyTopicUseCases } from "../ShopifyTopics";
+import { TopicHandler, WebhookContext } from "../TopicHandler";
+import { Shop } from "../../../domain/entities/Shop";
+
+const inventoryLevel = {
+  inventory_item_id: 12345,
+  location_id: 789,
+  available: 50,
+  updated_at: "2024-01-15T10:30:00Z",
+};
+const product = {
+  id: 777,
+  updated_at: "2024-01-15T10:30:00Z",
+  variants: [{ id: 55555, product_id: 777, inventory_item_id: 12345 }],
+};
+const inventoryItem = {
+  id: 12345,
+  sku: "TSHIRT-RED-M",
+  tracked: true,
+  cost: "12.50",
+  country_code_of_origin: "PT",
+  requires_shipping: true,
+  updated_at: "2024-01-15T10:30:00Z",
+};
+const location = {
+  id: 789,
+  name: "Main warehouse",
+  active: true,
+  updated_at: "2024-01-15T10:30:00Z",
+};
+
+describe("shopifyTopicHandlers", () => {
+  const shop = new Shop(
+    "myshop.myshopify.com",
+    "active",
+    new Date("2024-01-01T00:00:00Z")
+  );
+
+  let useCases: Record<keyof ShopifyTopicUseCases, Record<string, jest.Mock>>;
+  let handlers: Map<string, TopicHandler>;
+
+  beforeEach(() => {
+    const method = () => jest.fn().mockResolvedValue({ success: true });
+    useCases = {
+      inventory: { execute: method(), connect: method(), disconnect: method() },
+      product: { execute: method() },
+      inventoryItem: { execute: method(), delete: method() },
+      location: { execute: method(), delete: method() },
+    };
+    handlers = new Map(
+      shopifyTopicHandlers(
+        useCases as unknown as ShopifyTopicUseCases
+      ).map((handler) => [handler.topic, handler])
+    );
+  });
+
+  const contextFor = (topic: string): WebhookContext => ({
+    channel: "eventbridge",
+    topic,
+    shopName: "myshop.myshopify.com",
+    shop,
+    headers: {
+      "x-shopify-event-id": "evt-1",
+      "x-shopify-triggered-at": "2024-01-15T10:30:00.123Z",
+    },
+    rawBody: "{}",
+    signature: undefined,
+    eventSource: "aws.partner/shopify.com/1/store",
+    account: "123456789012",
+  });
+
+  it("should register each topic once", () => {
+    expect(Array.from(handlers.keys()).sort()).toEqual([
+      "inventory_items/create",
+      "inventory_items/delete",
+      "inventory_items/update",
+      "inventory_levels/connect",
+      "inventory_levels/disconnect",
+      "inventory_levels/update",
+      "locations/create",
+      "locations/delete",
+      "locations/update",
+      "products/create",
+      "products/update",
+    ]);
+  });
+
+  describe.each([
+    {
+      topic: "inventory_levels/update",
+      payload: inventoryLevel,
+      invalid: { id: 1 },
+      error: "Invalid inventory level payload",
+      call: ["inventory", "execute", "inventoryLevel"],
+    },
+    {
+      topic: "inventory_levels/connect",
+      payload: { ...inventoryLevel, available: null },
+      invalid: { id: 1 },
+      error: "Invalid inventory level payload",
+      call: ["inventory", "connect", "inventoryLevel"],
+    },
+    {
+      topic: "inventory_levels/disconnect",
+      payload: { inventory_item_id: 12345, location_id: 789 },
+      invalid: { id: 1 },
+      error: "Invalid inventory level payload",
+      call: ["inventory", "disconnect", "inventoryLevel"],
+    },
+    {
+      topic: "products/create",
+      payload: product,
+      invalid: { inventory_item_id: 1 },
+      error: "Invalid product payload",
+      call: ["product", "execute", "product"],
+    },
+    {
+      topic: "products/update",
+      payload: product,
+      invalid: { inventory_item_id: 1 },
+      error: "Invalid product payload",
+      call: ["product", "execute", "product"],
+    },
+    {
+      topic: "inventory_items/create",
+      payload: inventoryItem,
+      invalid: { id: 12345 },
+      error: "Invalid inventory item payload",
+      call: ["inventoryItem", "execute", "inventoryItem"],
+    },
+    {
+      topic: "inventory_items/update",
+      payload: inventoryItem,
+      invalid: { id: 12345 },
+      error: "Invalid inventory item payload",
+      call: ["inventoryItem", "execute", "inventoryItem"],
+    },
+    {
+      topic: "inventory_items/delete",
+      payload: { id: 12345 },
+      invalid: {},
+      error: "Invalid inventory item payload",
+      call: ["inventoryItem", "delete", "inventoryItem"],
+    },
+    {
+      topic: "locations/create",
+      payload: location,
+      invalid: { id: 789 },
+      error: "Invalid location payload",
+      call: ["location", "execute", "location"],
+    },
+    {
+      topic: "locations/update",
+      payload: location,
+      invalid: { id: 789 },
+      error: "Invalid location payload",
+      call: ["location", "execute", "location"],
+    },
+    {
+      topic: "locations/delete",
+      payload: { id: 789 },
+      invalid: {},
+      error: "Invalid location payload",
+      call: ["location", "delete", "location"],
+    },
+  ] as const)("$topic", ({ topic, payload, invalid, error, call }) => {
+    const [useCase, method, field] = call;
+
+    it("should accept its payload", () => {
+      expect(handlers.get(topic)!.parse(payload)).toEqual(payload);
+    });
+
+    it("should reject other payloads", () => {
+      expect(() => handlers.get(topic)!.parse(invalid)).toThrow(error);
+    });
+
+    it("should pass the payload and delivery details to the use case", async () => {
+      const handler = handlers.get(topic)!;
+
+      await handler.handle(handler.parse(payload), contextFor(topic));
+
+      expect(useCases[useCase][method]).toHaveBeenCalledWith({
+        shopName: "myshop.myshopify.com",
+        rawBody: "{}",
+        signature: undefined,
+        webhookSecretName: undefined,
+        channel: "eventbridge",
+        eventSource: "aws.partner/shopify.com/1/store",
+        account: "123456789012",
+        eventId: "evt-1",
+        topic,
+        triggeredAt: new Date("2024-01-15T10:30:00.123Z"),
+        shop,
+        [field]: payload,
+      });
+    });
+  });
+});
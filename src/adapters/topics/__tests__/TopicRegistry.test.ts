@@ -0,0 +1,57 @@
+import { TopicRegistry } from "../TopicRegistry";
+import { TopicHandler } from "../TopicHandler";
+import { UnsupportedTopicError } from "../../../domain/errors/UnsupportedTopicError";
+
+const handlerFor = (topic: string): TopicHandler => ({
+  topic,
+  parse: (payload) => payload,
+  handle: jest.fn(),
+});
+
+describe("TopicRegistry", () => {
+  it("should resolve registered topics", () => {
+    const handler = handlerFor("inventory_levels/update");
+    const registry = new TopicRegistry().register(handler);
+
+    expect(registry.resolve("inventory_levels/update")).toBe(handler);
+  });
+
+  it("should return undefined for unknown topics", () => {
+    const registry = new TopicRegistry().register(
+      handlerFor("inventory_levels/update")
+    );
+
+    expect(registry.resolve("orders/create")).toBeUndefined();
+  });
+
+  it("should throw an UnsupportedTopicError when requiring an unknown topic", () => {
+    const registry = new TopicRegistry().register(
+      handlerFor("inventory_levels/update")
+    );
+
+    expect(() => registry.require("orders/create")).toThrow(
+      new UnsupportedTopicError("orders/create")
+    );
+  });
+
+  it("should list registered topics", () => {
+    const registry = new TopicRegistry()
+      .register(handlerFor("inventory_levels/update"))
+      .register(handlerFor("locations/create"));
+
+    expect(registry.topics()).toEqual([
+      "inventory_levels/update",
+      "locations/create",
+    ]);
+  });
+
+  it("should reject registering a topic twice", () => {
+    const registry = new TopicRegistry().register(
+      handlerFor("inventory_levels/update")
+    );
+
+    expect(() =>
+      registry.register(handlerFor("inventory_levels/update"))
+    ).toThrow("Topic already registered: inventory_levels/update");
+  });
+});
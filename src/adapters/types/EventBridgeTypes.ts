@@ -9,6 +9,12 @@ export interface ShopifyWebhookMetadata {
   'X-Shopify-Topic'?: string;
   'x-shopify-hmac-sha256'?: string;
   'X-Shopify-Hmac-SHA256'?: string;
+  'x-shopify-webhook-id'?: string;
+  'X-Shopify-Webhook-Id'?: string;
+  'x-shopify-event-id'?: string;
+  'X-Shopify-Event-Id'?: string;
+  'x-shopify-triggered-at'?: string;
+  'X-Shopify-Triggered-At'?: string;
   [key: string]: string | undefined;
 }
 
@@ -20,6 +26,76 @@ export interface InventoryLevelPayload {
   admin_graphql_api_id?: string;
 }
 
+export interface InventoryLevelConnectPayload {
+  inventory_item_id: number;
+  location_id: number;
+  available?: number | null;
+  updated_at: string;
+  admin_graphql_api_id?: string;
+}
+
+export interface InventoryLevelDisconnectPayload {
+  inventory_item_id: number;
+  location_id: number;
+}
+
+export interface ProductVariantPayload {
+  id: number;
+  product_id: number;
+  inventory_item_id: number;
+  sku?: string | null;
+  updated_at?: string;
+}
+
+export interface ProductPayload {
+  id: number;
+  updated_at: string;
+  variants: ProductVariantPayload[];
+  admin_graphql_api_id?: string;
+}
+
+export interface InventoryItemPayload {
+  id: number;
+  sku: string | null;
+  tracked: boolean;
+  cost?: string | null;
+  country_code_of_origin?: string | null;
+  province_code_of_origin?: string | null;
+  harmonized_system_code?: string | null;
+  requires_shipping: boolean;
+  created_at?: string;
+  updated_at: string;
+  admin_graphql_api_id?: string;
+}
+
+export interface InventoryItemDeletePayload {
+  id: number;
+}
+
+export interface LocationPayload {
+  id: number;
+  name: string;
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  province?: string | null;
+  province_code?: string | null;
+  zip?: string | null;
+  country?: string | null;
+  country_code?: string | null;
+  phone?: string | null;
+  active: boolean;
+  legacy?: boolean;
+  fulfills_online_orders?: boolean;
+  created_at?: string;
+  updated_at: string;
+  admin_graphql_api_id?: string;
+}
+
+export interface LocationDeletePayload {
+  id: number;
+}
+
 export interface ShopifyEventBridgeDetail {
   payload: unknown;
   metadata: unknown;
@@ -64,7 +140,8 @@ export function isShopifyEventBridgeDetail(detail: unknown): detail is ShopifyEv
 
   const d = detail as Record<string, unknown>;
   return (
-    isInventoryLevelPayload(d.payload) &&
+    typeof d.payload === 'object' &&
+    d.payload !== null &&
     typeof d.metadata === 'object' &&
     d.metadata !== null
   );
@@ -92,6 +169,121 @@ export function isInventoryLevelPayload(item: unknown): item is InventoryLevelPa
   );
 }
 
+export function isInventoryLevelConnectPayload(item: unknown): item is InventoryLevelConnectPayload {
+  if (!isInventoryLevelDisconnectPayload(item)) {
+    return false;
+  }
+
+  const i = item as unknown as Record<string, unknown>;
+  return (
+    (i.available === undefined || i.available === null || typeof i.available === 'number') &&
+    typeof i.updated_at === 'string'
+  );
+}
+
+export function isInventoryLevelDisconnectPayload(item: unknown): item is InventoryLevelDisconnectPayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const i = item as Record<string, unknown>;
+  return (
+    typeof i.inventory_item_id === 'number' &&
+    typeof i.location_id === 'number'
+  );
+}
+
+export function isProductPayload(item: unknown): item is ProductPayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const p = item as Record<string, unknown>;
+  return (
+    typeof p.id === 'number' &&
+    typeof p.updated_at === 'string' &&
+    Array.isArray(p.variants) &&
+    p.variants.every(v => isProductVariantPayload(v))
+  );
+}
+
+export function isProductVariantPayload(item: unknown): item is ProductVariantPayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const v = item as Record<string, unknown>;
+  return (
+    typeof v.id === 'number' &&
+    typeof v.product_id === 'number' &&
+    typeof v.inventory_item_id === 'number'
+  );
+}
+
+export function isInventoryItemPayload(item: unknown): item is InventoryItemPayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const i = item as Record<string, unknown>;
+  return (
+    typeof i.id === 'number' &&
+    (typeof i.sku === 'string' || i.sku === null) &&
+    typeof i.tracked === 'boolean' &&
+    (i.cost === undefined || i.cost === null || typeof i.cost === 'string') &&
+    (i.country_code_of_origin === undefined ||
+      i.country_code_of_origin === null ||
+      typeof i.country_code_of_origin === 'string') &&
+    typeof i.requires_shipping === 'boolean' &&
+    typeof i.updated_at === 'string'
+  );
+}
+
+export function isInventoryItemDeletePayload(item: unknown): item is InventoryItemDeletePayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  return typeof (item as Record<string, unknown>).id === 'number';
+}
+
+export function isLocationPayload(item: unknown): item is LocationPayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  const l = item as Record<string, unknown>;
+  const optionalStrings = [
+    'address1',
+    'address2',
+    'city',
+    'province',
+    'province_code',
+    'zip',
+    'country',
+    'country_code',
+  ];
+  return (
+    typeof l.id === 'number' &&
+    typeof l.name === 'string' &&
+    typeof l.active === 'boolean' &&
+    (l.fulfills_online_orders === undefined ||
+      typeof l.fulfills_online_orders === 'boolean') &&
+    typeof l.updated_at === 'string' &&
+    optionalStrings.every(
+      key => l[key] === undefined || l[key] === null || typeof l[key] === 'string'
+    )
+  );
+}
+
+export function isLocationDeletePayload(item: unknown): item is LocationDeletePayload {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+
+  return typeof (item as Record<string, unknown>).id === 'number';
+}
+
 export function isShopifyWebhookMetadata(metadata: unknown): metadata is ShopifyWebhookMetadata {
   if (typeof metadata !== 'object' || metadata === null) {
     return false;
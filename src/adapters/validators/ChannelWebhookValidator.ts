@@ -0,0 +1,30 @@
+import {
+  WebhookAuthenticationRequest,
+  WebhookChannel,
+  WebhookValidator,
+} from "../../domain/ports/WebhookValidator";
+import { Logger } from "../../domain/ports/Logger";
+
+/**
+ * Delegates to the authentication strategy registered for the
+ * delivery channel; channels without a strategy are rejected
+ */
+export class ChannelWebhookValidator implements WebhookValidator {
+  constructor(
+    private strategies: Partial<Record<WebhookChannel, WebhookValidator>>,
+    private logger: Logger
+  ) {}
+
+  async validate(request: WebhookAuthenticationRequest): Promise<boolean> {
+    const strategy = this.strategies[request.channel];
+
+    if (!strategy) {
+      this.logger.warn("No authentication strategy for channel", {
+        channel: request.channel,
+      });
+      return false;
+    }
+
+    return strategy.validate(request);
+  }
+}
@@ -0,0 +1,46 @@
+import {
+  WebhookAuthenticationRequest,
+  WebhookValidator,
+} from "../../domain/ports/WebhookValidator";
+import { Logger } from "../../domain/ports/Logger";
+
+/**
+ * EventBridge webhook validator
+ * Shopify does not sign events delivered through the partner integration;
+ * only the partner event source can put events on a partner bus, so
+ * authenticity rests on the event source and receiving account.
+ * See: https://shopify.dev/docs/apps/build/webhooks/subscribe/get-started?deliveryMethod=eventBridge
+ */
+export class EventBridgeSourceValidator implements WebhookValidator {
+  /**
+   * @param trustedSourcePrefix e.g. "aws.partner/shopify.com/285340631041/"
+   * @param trustedAccount AWS account ID the partner bus lives in
+   */
+  constructor(
+    private trustedSourcePrefix: string,
+    private trustedAccount: string,
+    private logger: Logger
+  ) {}
+
+  async validate({
+    eventSource,
+    account,
+  }: WebhookAuthenticationRequest): Promise<boolean> {
+    if (!this.trustedSourcePrefix || !this.trustedAccount) {
+      this.logger.warn("EventBridge trust settings are not configured");
+      return false;
+    }
+
+    if (!eventSource || !eventSource.startsWith(this.trustedSourcePrefix)) {
+      this.logger.warn("Untrusted EventBridge source", { eventSource });
+      return false;
+    }
+
+    if (account !== this.trustedAccount) {
+      this.logger.warn("Untrusted EventBridge account", { account });
+      return false;
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,95 @@
+import * as crypto from "crypto";
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { ApiKeyValidator } from "../../domain/ports/ApiKeyValidator";
+import { SecretProvider } from "../../domain/ports/SecretProvider";
+
+/**
+ * API keys per shop domain, e.g. {"shops":{"a.myshopify.com":["key-1"]}}
+ * Listing two keys for a shop lets a key be rotated without downtime
+ */
+export interface ApiKeyring {
+  shops: Record<string, string[]>;
+}
+
+/**
+ * Query API key validator backed by a keyring stored as a JSON secret
+ */
+export class KeyringApiKeyValidator implements ApiKeyValidator {
+  private parsed?: { json: string; keyring: ApiKeyring };
+
+  constructor(
+    private secretProvider: SecretProvider,
+    private keyringSecretName: string
+  ) {}
+
+  async validate(
+    shopName: string,
+    apiKey: string | undefined
+  ): Promise<boolean> {
+    if (!apiKey) {
+      return false;
+    }
+
+    const keyring = await this.loadKeyring(false);
+    if (matchesAny(keyring, shopName, apiKey)) {
+      return true;
+    }
+
+    // A key may have been issued since the keyring was cached
+    const refreshed = await this.loadKeyring(true);
+    return refreshed !== keyring && matchesAny(refreshed, shopName, apiKey);
+  }
+
+  private async loadKeyring(forceRefresh: boolean): Promise<ApiKeyring> {
+    const json = await this.secretProvider.getSecret(this.keyringSecretName, {
+      forceRefresh,
+    });
+
+    if (this.parsed?.json !== json) {
+      this.parsed = { json, keyring: parseApiKeyring(json) };
+    }
+
+    return this.parsed.keyring;
+  }
+}
+
+/**
+ * Parse keyring JSON, normalizing shop domains
+ */
+export function parseApiKeyring(json: string): ApiKeyring {
+  const raw = JSON.parse(json) as { shops?: Record<string, unknown> };
+
+  const shops: Record<string, string[]> = {};
+  Object.entries(raw.shops ?? {}).forEach(([shop, keys]) => {
+    if (
+      !Array.isArray(keys) ||
+      keys.some((key) => typeof key !== "string" || key.length === 0)
+    ) {
+      throw new Error(
+        `Invalid API keyring: keys for ${shop} must be non-empty strings`
+      );
+    }
+    shops[normalizeShopDomain(shop)] = keys;
+  });
+
+  return { shops };
+}
+
+function matchesAny(
+  keyring: ApiKeyring,
+  shopName: string,
+  apiKey: string
+): boolean {
+  return (keyring.shops[shopName.toLowerCase()] ?? []).some((key) =>
+    safeEqual(key, apiKey)
+  );
+}
+
+/**
+ * Compare digests so neither content nor length leaks through timing
+ */
+function safeEqual(expected: string, actual: string): boolean {
+  const digest = (value: string) =>
+    crypto.createHash("sha256").update(value, "utf8").digest();
+  return crypto.timingSafeEqual(digest(expected), digest(actual));
+}
@@ -0,0 +1,200 @@
+import {
+  WebhookAuthenticationRequest,
+  WebhookValidator,
+} from "../../domain/ports/WebhookValidator";
+import { SecretProvider } from "../../domain/ports/SecretProvider";
+import { normalizeShopDomain } from "../../domain/entities/Shop";
+import { verifyShopifyHmac } from "./hmac";
+import { Logger } from "../../domain/ports/Logger";
+
+/**
+ * A webhook signing secret and the window in which it is accepted
+ * Overlapping windows let an old and a new secret both verify during rotation
+ */
+export interface WebhookSecret {
+  secret: string;
+  notBefore?: Date;
+  notAfter?: Date;
+}
+
+export interface WebhookSecretKeyring {
+  /**
+   * Secrets per normalized shop domain, e.g. "myshop.myshopify.com"
+   */
+  shops: Record<string, WebhookSecret[]>;
+  /**
+   * Secrets for shops without their own entry, e.g. the app's client secret
+   */
+  default: WebhookSecret[];
+}
+
+/**
+ * Shopify webhook validator supporting per-shop secrets and rotation
+ * A webhook is valid if its HMAC matches any secret active for the shop.
+ * The keyring itself is stored as a JSON secret, see parseWebhookSecretKeyring.
+ * A secret named in the shop registry takes the keyring's place for that shop.
+ */
+export class KeyringWebhookValidator implements WebhookValidator {
+  private parsed?: { json: string; keyring: WebhookSecretKeyring };
+
+  constructor(
+    private secretProvider: SecretProvider,
+    private keyringSecretName: string,
+    private logger: Logger,
+    private now: () => Date = () => new Date()
+  ) {}
+
+  async validate({
+    rawBody: body,
+    signature,
+    shopDomain,
+    webhookSecretName,
+  }: WebhookAuthenticationRequest): Promise<boolean> {
+    if (!signature) {
+      this.logger.warn("Missing X-Shopify-Hmac-SHA256 signature");
+      return false;
+    }
+
+    if (!body) {
+      this.logger.warn("Empty webhook body");
+      return false;
+    }
+
+    if (webhookSecretName) {
+      return this.matchesRegisteredSecret(
+        body,
+        signature,
+        shopDomain,
+        webhookSecretName
+      );
+    }
+
+    const keyring = await this.loadKeyring(false);
+    let isValid = this.matchesAny(keyring, body, signature, shopDomain);
+
+    // A secret may have been added or rotated since the keyring was cached
+    if (!isValid) {
+      const refreshed = await this.loadKeyring(true);
+      if (refreshed !== keyring) {
+        isValid = this.matchesAny(refreshed, body, signature, shopDomain);
+      }
+    }
+
+    if (!isValid) {
+      this.logger.warn("Invalid webhook signature for shop", { shopDomain });
+    }
+
+    return isValid;
+  }
+
+  private async matchesRegisteredSecret(
+    body: string,
+    signature: string,
+    shopDomain: string | undefined,
+    secretName: string
+  ): Promise<boolean> {
+    const secret = await this.secretProvider.getSecret(secretName);
+    let isValid = verifyShopifyHmac(body, signature, secret);
+
+    if (!isValid) {
+      const refreshed = await this.secretProvider.getSecret(secretName, {
+        forceRefresh: true,
+      });
+      if (refreshed !== secret) {
+        isValid = verifyShopifyHmac(body, signature, refreshed);
+      }
+    }
+
+    if (!isValid) {
+      this.logger.warn("Invalid webhook signature for shop", { shopDomain });
+    }
+
+    return isValid;
+  }
+
+  private matchesAny(
+    keyring: WebhookSecretKeyring,
+    body: string,
+    signature: string,
+    shopDomain: string | undefined
+  ): boolean {
+    return this.activeSecrets(keyring, shopDomain).some(({ secret }) =>
+      verifyShopifyHmac(body, signature, secret)
+    );
+  }
+
+  private async loadKeyring(forceRefresh: boolean): Promise<WebhookSecretKeyring> {
+    const json = await this.secretProvider.getSecret(this.keyringSecretName, {
+      forceRefresh,
+    });
+
+    if (this.parsed?.json !== json) {
+      this.parsed = { json, keyring: parseWebhookSecretKeyring(json) };
+    }
+
+    return this.parsed.keyring;
+  }
+
+  private activeSecrets(
+    keyring: WebhookSecretKeyring,
+    shopDomain: string | undefined
+  ): WebhookSecret[] {
+    const shopSecrets = shopDomain
+      ? keyring.shops[shopDomain.toLowerCase()]
+      : undefined;
+    const now = this.now().getTime();
+
+    return (shopSecrets ?? keyring.default).filter(
+      ({ notBefore, notAfter }) =>
+        (!notBefore || notBefore.getTime() <= now) &&
+        (!notAfter || now < notAfter.getTime())
+    );
+  }
+}
+
+/**
+ * Parse keyring JSON such as
+ * {"shops":{"a.myshopify.com":[{"secret":"s","notAfter":"2024-02-01T00:00:00Z"}]},"default":[{"secret":"d"}]}
+ */
+export function parseWebhookSecretKeyring(json: string): WebhookSecretKeyring {
+  const raw = JSON.parse(json) as {
+    shops?: Record<string, RawWebhookSecret[]>;
+    default?: RawWebhookSecret[];
+  };
+
+  const shops: Record<string, WebhookSecret[]> = {};
+  Object.entries(raw.shops ?? {}).forEach(([shop, secrets]) => {
+    shops[normalizeShopDomain(shop)] = secrets.map(toWebhookSecret);
+  });
+
+  return {
+    shops,
+    default: (raw.default ?? []).map(toWebhookSecret),
+  };
+}
+
+interface RawWebhookSecret {
+  secret: string;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+function toWebhookSecret(raw: RawWebhookSecret): WebhookSecret {
+  if (typeof raw.secret !== "string" || raw.secret.length === 0) {
+    throw new Error("Invalid webhook keyring: secret must be a non-empty string");
+  }
+
+  return {
+    secret: raw.secret,
+    notBefore: raw.notBefore ? parseKeyringDate(raw.notBefore) : undefined,
+    notAfter: raw.notAfter ? parseKeyringDate(raw.notAfter) : undefined,
+  };
+}
+
+function parseKeyringDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid webhook keyring date: ${value}`);
+  }
+  return date;
+}
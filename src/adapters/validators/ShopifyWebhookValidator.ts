@@ -1,34 +1,59 @@
-import * as crypto from "crypto";
-import { WebhookValidator } from "../../domain/ports/WebhookValidator";
+import {
+  WebhookAuthenticationRequest,
+  WebhookValidator,
+} from "../../domain/ports/WebhookValidator";
+import { SecretProvider } from "../../domain/ports/SecretProvider";
+import { verifyShopifyHmac } from "./hmac";
+import { Logger } from "../../domain/ports/Logger";
 
 /**
  * Shopify webhook validator
- * Implements HMAC-SHA256 signature verification
+ * Implements HMAC-SHA256 signature verification, using the shop's own
+ * secret when the registry names one
  * See: https://shopify.dev/docs/apps/build/webhooks/manage-webhooks#verify-webhook-authenticity
  */
 export class ShopifyWebhookValidator implements WebhookValidator {
-  constructor(private sharedSecret: string) {}
+  /**
+   * @param secretProvider Source of the shared secret
+   * @param secretName Name of the shared secret in the provider
+   */
+  constructor(
+    private secretProvider: SecretProvider,
+    private secretName: string,
+    private logger: Logger
+  ) {}
 
-  validate(body: string, signature: string | undefined): boolean {
+  async validate({
+    rawBody: body,
+    signature,
+    webhookSecretName,
+  }: WebhookAuthenticationRequest): Promise<boolean> {
     if (!signature) {
-      console.warn("Missing X-Shopify-Hmac-SHA256 signature");
+      this.logger.warn("Missing X-Shopify-Hmac-SHA256 signature");
       return false;
     }
 
     if (!body) {
-      console.warn("Empty webhook body");
+      this.logger.warn("Empty webhook body");
       return false;
     }
 
-    const hash = crypto
-      .createHmac("sha256", this.sharedSecret)
-      .update(body, "utf8")
-      .digest("base64");
+    const secretName = webhookSecretName ?? this.secretName;
+    const secret = await this.secretProvider.getSecret(secretName);
+    let isValid = verifyShopifyHmac(body, signature, secret);
 
-    const isValid = hash === signature;
+    // The secret may have been rotated since it was cached
+    if (!isValid) {
+      const refreshed = await this.secretProvider.getSecret(secretName, {
+        forceRefresh: true,
+      });
+      if (refreshed !== secret) {
+        isValid = verifyShopifyHmac(body, signature, refreshed);
+      }
+    }
 
     if (!isValid) {
-      console.warn(`Invalid webhook signature. Expected: ${hash}, Got: ${signature}`);
+      this.logger.warn("Invalid webhook signature");
     }
 
     return isValid;
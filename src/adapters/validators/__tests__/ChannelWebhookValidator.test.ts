@@ -0,0 +1,51 @@
+import { ChannelWebhookValidator } from "../ChannelWebhookValidator";
+import { WebhookValidator } from "../../../domain/ports/WebhookValidator";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+describe("ChannelWebhookValidator", () => {
+  const accepting: WebhookValidator = { validate: jest.fn(async () => true) };
+  const rejecting: WebhookValidator = { validate: jest.fn(async () => false) };
+
+  it("should delegate to the strategy registered for the channel", async () => {
+    const validator = new ChannelWebhookValidator(
+      {
+        eventbridge: accepting,
+        http: rejecting,
+      },
+      new InMemoryLogger()
+    );
+    const request = {
+      channel: "eventbridge" as const,
+      rawBody: "{}",
+      signature: undefined,
+    };
+
+    expect(await validator.validate(request)).toBe(true);
+    expect(accepting.validate).toHaveBeenCalledWith(request);
+  });
+
+  it("should use the HTTP strategy for HTTP deliveries", async () => {
+    const validator = new ChannelWebhookValidator(
+      {
+        eventbridge: accepting,
+        http: rejecting,
+      },
+      new InMemoryLogger()
+    );
+
+    expect(
+      await validator.validate({ channel: "http", rawBody: "{}", signature: "sig" })
+    ).toBe(false);
+  });
+
+  it("should reject channels without a strategy", async () => {
+    const validator = new ChannelWebhookValidator(
+      { eventbridge: accepting },
+      new InMemoryLogger()
+    );
+
+    expect(
+      await validator.validate({ channel: "http", rawBody: "{}", signature: "sig" })
+    ).toBe(false);
+  });
+});
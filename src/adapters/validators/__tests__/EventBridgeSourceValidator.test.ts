@@ -0,0 +1,79 @@
+import { EventBridgeSourceValidator } from "../EventBridgeSourceValidator";
+import { WebhookAuthenticationRequest } from "../../../domain/ports/WebhookValidator";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const PREFIX = "aws.partner/shopify.com/285340631041/";
+const ACCOUNT = "123456789012";
+
+const eventBridgeRequest = (
+  eventSource: string | undefined,
+  account: string | undefined
+): WebhookAuthenticationRequest => ({
+  channel: "eventbridge",
+  rawBody: "{}",
+  signature: undefined,
+  eventSource,
+  account,
+});
+
+describe("EventBridgeSourceValidator", () => {
+  let logger: InMemoryLogger;
+  let validator: EventBridgeSourceValidator;
+
+  beforeEach(() => {
+    logger = new InMemoryLogger();
+    validator = new EventBridgeSourceValidator(PREFIX, ACCOUNT, logger);
+  });
+
+  it("should accept the trusted partner source in the trusted account", async () => {
+    const result = await validator.validate(
+      eventBridgeRequest(`${PREFIX}shopify-events-dev`, ACCOUNT)
+    );
+
+    expect(result).toBe(true);
+  });
+
+  it("should reject a source from another partner", async () => {
+    const result = await validator.validate(
+      eventBridgeRequest("aws.partner/other.com/1/events", ACCOUNT)
+    );
+
+    expect(result).toBe(false);
+    expect(logger.linesFor("Untrusted EventBridge source")).toEqual([
+      expect.objectContaining({
+        level: "warn",
+        eventSource: "aws.partner/other.com/1/events",
+      }),
+    ]);
+  });
+
+  it("should reject a source that only shares the app ID as a substring", async () => {
+    const result = await validator.validate(
+      eventBridgeRequest("aws.partner/shopify.com/2853406310410/events", ACCOUNT)
+    );
+
+    expect(result).toBe(false);
+  });
+
+  it("should reject events delivered to a different account", async () => {
+    const result = await validator.validate(
+      eventBridgeRequest(`${PREFIX}shopify-events-dev`, "999999999999")
+    );
+
+    expect(result).toBe(false);
+  });
+
+  it("should reject events without a source", async () => {
+    expect(await validator.validate(eventBridgeRequest(undefined, ACCOUNT))).toBe(
+      false
+    );
+  });
+
+  it("should fail closed when trust settings are missing", async () => {
+    const unconfigured = new EventBridgeSourceValidator("", "", logger);
+
+    expect(
+      await unconfigured.validate(eventBridgeRequest(`${PREFIX}events`, ""))
+    ).toBe(false);
+  });
+});
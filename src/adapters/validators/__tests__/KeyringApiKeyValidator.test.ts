@@ -0,0 +1,88 @@
+import {
+  KeyringApiKeyValidator,
+  parseApiKeyring,
+} from "../KeyringApiKeyValidator";
+import { SecretProvider } from "../../../domain/ports/SecretProvider";
+import { EnvironmentSecretProvider } from "../../secrets/EnvironmentSecretProvider";
+
+const KEYRING_NAME = "QUERY_API_KEYS";
+
+const keyringValidator = (keyring: object) =>
+  new KeyringApiKeyValidator(
+    new EnvironmentSecretProvider({ [KEYRING_NAME]: JSON.stringify(keyring) }),
+    KEYRING_NAME
+  );
+
+describe("KeyringApiKeyValidator", () => {
+  const keyring = {
+    shops: {
+      "myshop.myshopify.com": ["key-old", "key-new"],
+      "othershop.myshopify.com": ["other-key"],
+    },
+  };
+
+  it("should accept any key issued for the shop", async () => {
+    const validator = keyringValidator(keyring);
+
+    expect(await validator.validate("myshop.myshopify.com", "key-old")).toBe(true);
+    expect(await validator.validate("myshop.myshopify.com", "key-new")).toBe(true);
+  });
+
+  it("should match shop domains case-insensitively", async () => {
+    expect(
+      await keyringValidator(keyring).validate("MyShop.myshopify.com", "key-new")
+    ).toBe(true);
+  });
+
+  it("should reject a key issued for another shop", async () => {
+    expect(
+      await keyringValidator(keyring).validate("myshop.myshopify.com", "other-key")
+    ).toBe(false);
+  });
+
+  it("should reject unknown keys and shops", async () => {
+    const validator = keyringValidator(keyring);
+
+    expect(await validator.validate("myshop.myshopify.com", "key")).toBe(false);
+    expect(await validator.validate("unknown.myshopify.com", "key-new")).toBe(false);
+  });
+
+  it("should reject a missing key without reading the keyring", async () => {
+    const getSecret = jest.fn();
+    const validator = new KeyringApiKeyValidator({ getSecret }, KEYRING_NAME);
+
+    expect(await validator.validate("myshop.myshopify.com", undefined)).toBe(false);
+    expect(getSecret).not.toHaveBeenCalled();
+  });
+
+  it("should re-read the keyring once for a newly issued key", async () => {
+    const getSecret = jest
+      .fn()
+      .mockResolvedValueOnce(JSON.stringify({ shops: {} }))
+      .mockResolvedValueOnce(JSON.stringify(keyring));
+    const provider: SecretProvider = { getSecret };
+    const validator = new KeyringApiKeyValidator(provider, KEYRING_NAME);
+
+    expect(await validator.validate("myshop.myshopify.com", "key-new")).toBe(true);
+    expect(getSecret).toHaveBeenNthCalledWith(2, KEYRING_NAME, {
+      forceRefresh: true,
+    });
+  });
+
+  describe("parseApiKeyring", () => {
+    it("should lower-case shop domains", () => {
+      expect(
+        parseApiKeyring(JSON.stringify({ shops: { "MyShop.myshopify.com": ["k"] } }))
+      ).toEqual({ shops: { "myshop.myshopify.com": ["k"] } });
+    });
+
+    it("should reject empty or non-string keys", () => {
+      expect(() =>
+        parseApiKeyring(JSON.stringify({ shops: { "a.myshopify.com": [""] } }))
+      ).toThrow("Invalid API keyring: keys for a.myshopify.com must be non-empty strings");
+      expect(() =>
+        parseApiKeyring(JSON.stringify({ shops: { "a.myshopify.com": "k" } }))
+      ).toThrow("Invalid API keyring");
+    });
+  });
+});
@@ -0,0 +1,280 @@
+import {
+  KeyringWebhookValidator,
+  parseWebhookSecretKeyring,
+} from "../KeyringWebhookValidator";
+import { WebhookAuthenticationRequest } from "../../../domain/ports/WebhookValidator";
+import { SecretProvider } from "../../../domain/ports/SecretProvider";
+import { EnvironmentSecretProvider } from "../../secrets/EnvironmentSecretProvider";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+import * as crypto from "crypto";
+
+const KEYRING_NAME = "SHOPIFY_WEBHOOK_KEYRING";
+
+const keyringValidator = (
+  keyring: object,
+  now?: () => Date,
+  logger = new InMemoryLogger()
+) =>
+  new KeyringWebhookValidator(
+    new EnvironmentSecretProvider({ [KEYRING_NAME]: JSON.stringify(keyring) }),
+    KEYRING_NAME,
+    logger,
+    now
+  );
+
+const sign = (body: string, secret: string) =>
+  crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+
+const httpRequest = (
+  rawBody: string,
+  signature: string | undefined,
+  shopDomain?: string
+): WebhookAuthenticationRequest => ({
+  channel: "http",
+  rawBody,
+  signature,
+  shopDomain,
+});
+
+describe("KeyringWebhookValidator", () => {
+  const body = JSON.stringify({ inventory_item_id: 1 });
+  let now: Date;
+
+  beforeEach(() => {
+    now = new Date("2024-01-15T10:30:00Z");
+  });
+
+  describe("per-shop secrets", () => {
+    const validator = () =>
+      keyringValidator(
+        {
+          shops: {
+            "a.myshopify.com": [{ secret: "secret-a" }],
+            "b.myshopify.com": [{ secret: "secret-b" }],
+          },
+          default: [{ secret: "app-secret" }],
+        },
+        () => now
+      );
+
+    it("should accept a signature made with the shop's secret", async () => {
+      expect(await validator().validate(
+          httpRequest(body, sign(body, "secret-a"), "a.myshopify.com")
+        )
+      ).toBe(true);
+    });
+
+    it("should reject a signature made with another shop's secret", async () => {
+      expect(await validator().validate(
+          httpRequest(body, sign(body, "secret-b"), "a.myshopify.com")
+        )
+      ).toBe(false);
+    });
+
+    it("should match shop domains case-insensitively", async () => {
+      expect(await validator().validate(
+          httpRequest(body, sign(body, "secret-a"), "A.MyShopify.com")
+        )
+      ).toBe(true);
+    });
+
+    it("should fall back to the default secrets for unknown shops", async () => {
+      expect(await validator().validate(
+          httpRequest(body, sign(body, "app-secret"), "c.myshopify.com")
+        )
+      ).toBe(true);
+    });
+
+    it("should not accept the default secret for a shop with its own", async () => {
+      expect(await validator().validate(
+          httpRequest(body, sign(body, "app-secret"), "a.myshopify.com")
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe("rotation", () => {
+    const validator = () =>
+      keyringValidator(
+        {
+          shops: {},
+          default: [
+            { secret: "old", notAfter: new Date("2024-01-16T00:00:00Z") },
+            { secret: "new", notBefore: new Date("2024-01-15T00:00:00Z") },
+          ],
+        },
+        () => now
+      );
+
+    it("should accept both secrets while their windows overlap", async () => {
+      expect(await validator().validate(httpRequest(body, sign(body, "old")))).toBe(
+        true
+      );
+      expect(await validator().validate(httpRequest(body, sign(body, "new")))).toBe(
+        true
+      );
+    });
+
+    it("should reject a secret after it has expired", async () => {
+      now = new Date("2024-01-16T00:00:00Z");
+
+      expect(await validator().validate(httpRequest(body, sign(body, "old")))).toBe(
+        false
+      );
+      expect(await validator().validate(httpRequest(body, sign(body, "new")))).toBe(
+        true
+      );
+    });
+
+    it("should reject a secret before it becomes active", async () => {
+      now = new Date("2024-01-14T23:59:59Z");
+
+      expect(await validator().validate(httpRequest(body, sign(body, "new")))).toBe(
+        false
+      );
+    });
+
+    it("should reject everything when no secret is active", async () => {
+      const expired = keyringValidator(
+        {
+          shops: {},
+          default: [{ secret: "old", notAfter: new Date("2024-01-01") }],
+        },
+        () => now
+      );
+
+      expect(await expired.validate(httpRequest(body, sign(body, "old")))).toBe(false);
+    });
+  });
+
+  describe("invalid input", () => {
+    const validator = (logger?: InMemoryLogger) =>
+      keyringValidator({ shops: {}, default: [{ secret: "s" }] }, undefined, logger);
+
+    it("should reject a missing signature", async () => {
+      expect(await validator().validate(httpRequest(body, undefined))).toBe(false);
+    });
+
+    it("should reject an empty body", async () => {
+      expect(await validator().validate(httpRequest("", sign("", "s")))).toBe(false);
+    });
+
+    it("should reject a signature of a different length", async () => {
+      expect(await validator().validate(httpRequest(body, "short"))).toBe(false);
+    });
+
+    it("should never log the expected signature", async () => {
+      const logger = new InMemoryLogger();
+      await validator(logger).validate(httpRequest(body, sign(body, "wrong")));
+
+      const logged = JSON.stringify(logger.lines);
+      expect(logged).not.toContain(sign(body, "s"));
+    });
+  });
+
+  describe("refreshing the keyring", () => {
+    it("should reload the keyring when verification fails", async () => {
+      const keyrings = [
+        JSON.stringify({ default: [{ secret: "old" }] }),
+        JSON.stringify({ default: [{ secret: "old" }, { secret: "new" }] }),
+      ];
+      const provider: SecretProvider = {
+        getSecret: jest.fn(async (_name, options) =>
+          options?.forceRefresh ? keyrings[1] : keyrings[0]
+        ),
+      };
+      const validator = new KeyringWebhookValidator(
+        provider,
+        KEYRING_NAME,
+        new InMemoryLogger()
+      );
+
+      expect(
+        await validator.validate(httpRequest(body, sign(body, "new")))
+      ).toBe(true);
+      expect(provider.getSecret).toHaveBeenCalledWith(KEYRING_NAME, {
+        forceRefresh: true,
+      });
+    });
+  });
+
+  describe("registered shop secrets", () => {
+    const provider = (shopSecrets: string[]): SecretProvider => ({
+      getSecret: jest.fn(async (name, options) => {
+        if (name === KEYRING_NAME) {
+          return JSON.stringify({ default: [{ secret: "app-secret" }] });
+        }
+        return options?.forceRefresh ? shopSecrets[1] : shopSecrets[0];
+      }),
+    });
+    const request = (secret: string) => ({
+      ...httpRequest(body, sign(body, secret), "a.myshopify.com"),
+      webhookSecretName: "SHOP_A_SECRET",
+    });
+
+    it("should verify with the registered secret instead of the keyring", async () => {
+      const validator = new KeyringWebhookValidator(
+        provider(["shop-secret", "shop-secret"]),
+        KEYRING_NAME,
+        new InMemoryLogger()
+      );
+
+      expect(await validator.validate(request("shop-secret"))).toBe(true);
+      expect(await validator.validate(request("app-secret"))).toBe(false);
+    });
+
+    it("should refresh the registered secret once when verification fails", async () => {
+      const secrets = provider(["old-secret", "new-secret"]);
+      const validator = new KeyringWebhookValidator(
+        secrets,
+        KEYRING_NAME,
+        new InMemoryLogger()
+      );
+
+      expect(await validator.validate(request("new-secret"))).toBe(true);
+      expect(secrets.getSecret).toHaveBeenCalledWith("SHOP_A_SECRET", {
+        forceRefresh: true,
+      });
+    });
+  });
+
+  describe("parseWebhookSecretKeyring", () => {
+    it("should parse shops, defaults and windows", () => {
+      const keyring = parseWebhookSecretKeyring(
+        JSON.stringify({
+          shops: { "A.myshopify.com": [{ secret: "secret-a" }] },
+          default: [{ secret: "app", notAfter: "2999-01-01T00:00:00Z" }],
+        })
+      );
+
+      expect(keyring).toEqual({
+        shops: {
+          "a.myshopify.com": [
+            { secret: "secret-a", notBefore: undefined, notAfter: undefined },
+          ],
+        },
+        default: [
+          {
+            secret: "app",
+            notBefore: undefined,
+            notAfter: new Date("2999-01-01T00:00:00Z"),
+          },
+        ],
+      });
+    });
+
+    it("should reject entries without a secret", () => {
+      expect(() =>
+        parseWebhookSecretKeyring(JSON.stringify({ default: [{}] }))
+      ).toThrow("Invalid webhook keyring: secret must be a non-empty string");
+    });
+
+    it("should reject unparseable dates", () => {
+      expect(() =>
+        parseWebhookSecretKeyring(
+          JSON.stringify({ default: [{ secret: "s", notAfter: "soon" }] })
+        )
+      ).toThrow("Invalid webhook keyring date: soon");
+    });
+  });
+});
@@ -1,28 +1,46 @@
 import { ShopifyWebhookValidator } from "../ShopifyWebhookValidator";
 import * as crypto from "crypto";
+import { WebhookAuthenticationRequest } from "../../../domain/ports/WebhookValidator";
+import { SecretProvider } from "../../../domain/ports/SecretProvider";
+import { EnvironmentSecretProvider } from "../../secrets/EnvironmentSecretProvider";
+import { InMemoryLogger } from "../../logging/InMemoryLogger";
+
+const SECRET_NAME = "SHOPIFY_WEBHOOK_SECRET";
+
+const validatorFor = (secret: string, logger = new InMemoryLogger()) =>
+  new ShopifyWebhookValidator(
+    new EnvironmentSecretProvider({ [SECRET_NAME]: secret }),
+    SECRET_NAME,
+    logger
+  );
+
+const httpRequest = (
+  rawBody: string,
+  signature: string | undefined
+): WebhookAuthenticationRequest => ({ channel: "http", rawBody, signature });
 
 describe("ShopifyWebhookValidator", () => {
   let validator: ShopifyWebhookValidator;
   const testSecret = "test-webhook-secret";
 
   beforeEach(() => {
-    validator = new ShopifyWebhookValidator(testSecret);
+    validator = validatorFor(testSecret);
   });
 
   describe("valid signatures", () => {
-    it("should validate correct HMAC-SHA256 signature", () => {
+    it("should validate correct HMAC-SHA256 signature", async () => {
       const body = JSON.stringify({ inventory_levels: [] });
       const expectedSignature = crypto
         .createHmac("sha256", testSecret)
         .update(body, "utf8")
         .digest("base64");
 
-      const result = validator.validate(body, expectedSignature);
+      const result = await validator.validate(httpRequest(body, expectedSignature));
 
       expect(result).toBe(true);
     });
 
-    it("should validate signature for complex JSON payload", () => {
+    it("should validate signature for complex JSON payload", async () => {
       const body = JSON.stringify({
         inventory_levels: [
           {
@@ -39,14 +57,14 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = validator.validate(body, expectedSignature);
+      const result = await validator.validate(httpRequest(body, expectedSignature));
 
       expect(result).toBe(true);
     });
 
-    it("should validate signature with different secrets", () => {
+    it("should validate signature with different secrets", async () => {
       const differentSecret = "different-secret";
-      const differentValidator = new ShopifyWebhookValidator(differentSecret);
+      const differentValidator = validatorFor(differentSecret);
       const body = "test body";
 
       const expectedSignature = crypto
@@ -54,23 +72,23 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = differentValidator.validate(body, expectedSignature);
+      const result = await differentValidator.validate(httpRequest(body, expectedSignature));
 
       expect(result).toBe(true);
     });
   });
 
   describe("invalid signatures", () => {
-    it("should reject incorrect signature", () => {
+    it("should reject incorrect signature", async () => {
       const body = JSON.stringify({ inventory_levels: [] });
       const incorrectSignature = "incorrect-signature-value";
 
-      const result = validator.validate(body, incorrectSignature);
+      const result = await validator.validate(httpRequest(body, incorrectSignature));
 
       expect(result).toBe(false);
     });
 
-    it("should reject signature from different secret", () => {
+    it("should reject signature from different secret", async () => {
       const body = JSON.stringify({ inventory_levels: [] });
       const wrongSecret = "wrong-secret";
 
@@ -79,12 +97,12 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = validator.validate(body, wrongSignature);
+      const result = await validator.validate(httpRequest(body, wrongSignature));
 
       expect(result).toBe(false);
     });
 
-    it("should reject if body was tampered with", () => {
+    it("should reject if body was tampered with", async () => {
       const originalBody = JSON.stringify({ inventory_levels: [] });
       const tamperedBody = JSON.stringify({
         inventory_levels: [
@@ -97,12 +115,12 @@ describe("ShopifyWebhookValidator", () => {
         .update(originalBody, "utf8")
         .digest("base64");
 
-      const result = validator.validate(tamperedBody, signature);
+      const result = await validator.validate(httpRequest(tamperedBody, signature));
 
       expect(result).toBe(false);
     });
 
-    it("should reject signature with extra whitespace", () => {
+    it("should reject signature with extra whitespace", async () => {
       const body = JSON.stringify({ inventory_levels: [] });
       const correctSignature = crypto
         .createHmac("sha256", testSecret)
@@ -111,40 +129,58 @@ describe("ShopifyWebhookValidator", () => {
 
       const signatureWithSpace = ` ${correctSignature} `;
 
-      const result = validator.validate(body, signatureWithSpace);
+      const result = await validator.validate(httpRequest(body, signatureWithSpace));
 
       expect(result).toBe(false);
     });
   });
 
+  describe("logging", () => {
+    it("should not log the expected signature on mismatch", async () => {
+      const body = JSON.stringify({ inventory_levels: [] });
+      const expectedSignature = crypto
+        .createHmac("sha256", testSecret)
+        .update(body, "utf8")
+        .digest("base64");
+
+      const logger = new InMemoryLogger();
+      await validatorFor(testSecret, logger).validate(
+        httpRequest(body, "incorrect-signature-value")
+      );
+
+      const logged = JSON.stringify(logger.lines);
+      expect(logged).not.toContain(expectedSignature);
+    });
+  });
+
   describe("missing signature", () => {
-    it("should return false when signature is undefined", () => {
+    it("should return false when signature is undefined", async () => {
       const body = "test body";
 
-      const result = validator.validate(body, undefined);
+      const result = await validator.validate(httpRequest(body, undefined));
 
       expect(result).toBe(false);
     });
 
-    it("should handle undefined gracefully", () => {
+    it("should handle undefined gracefully", async () => {
       const body = JSON.stringify({ inventory_levels: [] });
 
-      expect(() => {
-        validator.validate(body, undefined);
-      }).not.toThrow();
+      await expect(
+        validator.validate(httpRequest(body, undefined))
+      ).resolves.toBe(false);
     });
   });
 
   describe("empty body", () => {
-    it("should return false for empty body", () => {
-      const result = validator.validate("", "some-signature");
+    it("should return false for empty body", async () => {
+      const result = await validator.validate(httpRequest("", "some-signature"));
 
       expect(result).toBe(false);
     });
   });
 
   describe("edge cases", () => {
-    it("should handle very long body", () => {
+    it("should handle very long body", async () => {
       const longBody = JSON.stringify({
         inventory_levels: Array.from({ length: 1000 }, (_, i) => ({
           inventory_item_id: i,
@@ -159,12 +195,12 @@ describe("ShopifyWebhookValidator", () => {
         .update(longBody, "utf8")
         .digest("base64");
 
-      const result = validator.validate(longBody, signature);
+      const result = await validator.validate(httpRequest(longBody, signature));
 
       expect(result).toBe(true);
     });
 
-    it("should handle body with special characters", () => {
+    it("should handle body with special characters", async () => {
       const bodyWithSpecialChars = JSON.stringify({
         inventory_levels: [],
         special: "!@#$%^&*()_+-=[]{}|;:',.<>?/",
@@ -175,12 +211,12 @@ describe("ShopifyWebhookValidator", () => {
         .update(bodyWithSpecialChars, "utf8")
         .digest("base64");
 
-      const result = validator.validate(bodyWithSpecialChars, signature);
+      const result = await validator.validate(httpRequest(bodyWithSpecialChars, signature));
 
       expect(result).toBe(true);
     });
 
-    it("should handle UTF-8 encoded characters", () => {
+    it("should handle UTF-8 encoded characters", async () => {
       const bodyWithUtf8 = JSON.stringify({
         inventory_levels: [],
         message: "Hello 世界 🌍",
@@ -191,28 +227,28 @@ describe("ShopifyWebhookValidator", () => {
         .update(bodyWithUtf8, "utf8")
         .digest("base64");
 
-      const result = validator.validate(bodyWithUtf8, signature);
+      const result = await validator.validate(httpRequest(bodyWithUtf8, signature));
 
       expect(result).toBe(true);
     });
 
-    it("should use base64 encoding for signature comparison", () => {
+    it("should use base64 encoding for signature comparison", async () => {
       const body = "test";
       const hexSignature = crypto
         .createHmac("sha256", testSecret)
         .update(body, "utf8")
         .digest("hex"); // Wrong encoding
 
-      const result = validator.validate(body, hexSignature);
+      const result = await validator.validate(httpRequest(body, hexSignature));
 
       expect(result).toBe(false);
     });
   });
 
   describe("secret variations", () => {
-    it("should handle secrets with special characters", () => {
+    it("should handle secrets with special characters", async () => {
       const specialSecret = "secret!@#$%^&*()";
-      const specialValidator = new ShopifyWebhookValidator(specialSecret);
+      const specialValidator = validatorFor(specialSecret);
       const body = "test";
 
       const signature = crypto
@@ -220,13 +256,13 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = specialValidator.validate(body, signature);
+      const result = await specialValidator.validate(httpRequest(body, signature));
 
       expect(result).toBe(true);
     });
 
-    it("should handle empty secret", () => {
-      const emptyValidator = new ShopifyWebhookValidator("");
+    it("should handle empty secret", async () => {
+      const emptyValidator = validatorFor("");
       const body = "test";
 
       const signature = crypto
@@ -234,14 +270,14 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = emptyValidator.validate(body, signature);
+      const result = await emptyValidator.validate(httpRequest(body, signature));
 
       expect(result).toBe(true);
     });
 
-    it("should handle very long secret", () => {
+    it("should handle very long secret", async () => {
       const longSecret = "x".repeat(10000);
-      const longValidator = new ShopifyWebhookValidator(longSecret);
+      const longValidator = validatorFor(longSecret);
       const body = "test";
 
       const signature = crypto
@@ -249,9 +285,101 @@ describe("ShopifyWebhookValidator", () => {
         .update(body, "utf8")
         .digest("base64");
 
-      const result = longValidator.validate(body, signature);
+      const result = await longValidator.validate(httpRequest(body, signature));
 
       expect(result).toBe(true);
     });
   });
+
+  describe("secret rotation", () => {
+    it("should refresh the secret once when verification fails", async () => {
+      const secrets = ["old-secret", "new-secret"];
+      const provider: SecretProvider = {
+        getSecret: jest.fn(async (_name, options) =>
+          options?.forceRefresh ? secrets[1] : secrets[0]
+        ),
+      };
+      const rotatingValidator = new ShopifyWebhookValidator(
+        provider,
+        SECRET_NAME,
+        new InMemoryLogger()
+      );
+      const body = "test";
+      const signature = crypto
+        .createHmac("sha256", "new-secret")
+        .update(body, "utf8")
+        .digest("base64");
+
+      const result = await rotatingValidator.validate(httpRequest(body, signature));
+
+      expect(result).toBe(true);
+      expect(provider.getSecret).toHaveBeenCalledWith(SECRET_NAME, {
+        forceRefresh: true,
+      });
+    });
+
+    it("should not refresh when the cached secret verifies", async () => {
+      const provider: SecretProvider = {
+        getSecret: jest.fn(async () => testSecret),
+      };
+      const cachedValidator = new ShopifyWebhookValidator(
+        provider,
+        SECRET_NAME,
+        new InMemoryLogger()
+      );
+      const body = "test";
+      const signature = crypto
+        .createHmac("sha256", testSecret)
+        .update(body, "utf8")
+        .digest("base64");
+
+      await cachedValidator.validate(httpRequest(body, signature));
+
+      expect(provider.getSecret).toHaveBeenCalledTimes(1);
+    });
+
+    it("should propagate secret lookup failures", async () => {
+      const provider: SecretProvider = {
+        getSecret: jest.fn().mockRejectedValue(new Error("AccessDenied")),
+      };
+      const failingValidator = new ShopifyWebhookValidator(
+        provider,
+        SECRET_NAME,
+        new InMemoryLogger()
+      );
+
+      await expect(
+        failingValidator.validate(httpRequest("test", "sig"))
+      ).rejects.toThrow("AccessDenied");
+    });
+  });
+
+  describe("registered shop secrets", () => {
+    it("should verify with the secret the shop registry names", async () => {
+      const validator = new ShopifyWebhookValidator(
+        new EnvironmentSecretProvider({
+          [SECRET_NAME]: testSecret,
+          SHOP_SECRET: "shop-secret",
+        }),
+        SECRET_NAME,
+        new InMemoryLogger()
+      );
+      const body = "test";
+      const sign = (secret: string) =>
+        crypto.createHmac("sha256", secret).update(body, "utf8").digest("base64");
+
+      expect(
+        await validator.validate({
+          ...httpRequest(body, sign("shop-secret")),
+          webhookSecretName: "SHOP_SECRET",
+        })
+      ).toBe(true);
+      expect(
+        await validator.validate({
+          ...httpRequest(body, sign(testSecret)),
+          webhookSecretName: "SHOP_SECRET",
+        })
+      ).toBe(false);
+    });
+  });
 });
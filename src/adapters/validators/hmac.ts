@@ -0,0 +1,30 @@
+import * as crypto from "crypto";
+
+/**
+ * Compute the base64 HMAC-SHA256 Shopify sends in X-Shopify-Hmac-SHA256
+ */
+export function computeShopifyHmac(body: string, secret: string): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(body, "utf8")
+    .digest("base64");
+}
+
+/**
+ * Check a signature against a secret without leaking timing information
+ * The signature is compared as received; it is not base64-normalized first
+ */
+export function verifyShopifyHmac(
+  body: string,
+  signature: string,
+  secret: string
+): boolean {
+  const expected = Buffer.from(computeShopifyHmac(body, secret), "utf8");
+  const actual = Buffer.from(signature, "utf8");
+
+  if (expected.length !== actual.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,9 @@
+import { backfillCommandHandler } from "./bootstrap";
+
+/**
+ * Command-line entry point seeding a shop from a bulk operation export
+ *   npm run backfill -- <shop> <file | s3://bucket/key> [--restart]
+ */
+backfillCommandHandler.run(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
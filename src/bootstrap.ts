@@ -0,0 +1,336 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient } from "@aws-sdk/lib-dynamodb";
+import { SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { SSMClient } from "@aws-sdk/client-ssm";
+import { SNSClient } from "@aws-sdk/client-sns";
+import { EventBridgeClient } from "@aws-sdk/client-eventbridge";
+import { S3Client } from "@aws-sdk/client-s3";
+import { SecretProvider } from "./domain/ports/SecretProvider";
+import { StockAlertService } from "./domain/services/StockAlertService";
+import { ShopRegistry } from "./domain/services/ShopRegistry";
+import { WebhookAuthenticator } from "./domain/services/WebhookAuthenticator";
+import { ProcessInventoryWebhookUseCase } from "./domain/usecases/ProcessInventoryWebhookUseCase";
+import { ProcessProductWebhookUseCase } from "./domain/usecases/ProcessProductWebhookUseCase";
+import { ProcessInventoryItemWebhookUseCase } from "./domain/usecases/ProcessInventoryItemWebhookUseCase";
+import { ProcessLocationWebhookUseCase } from "./domain/usecases/ProcessLocationWebhookUseCase";
+import { GetVariantInventoryUseCase } from "./domain/usecases/GetVariantInventoryUseCase";
+import { ReconcileInventoryUseCase } from "./domain/usecases/ReconcileInventoryUseCase";
+import { BackfillInventoryUseCase } from "./domain/usecases/BackfillInventoryUseCase";
+import { ProcessInventoryChangeUseCase } from "./domain/usecases/ProcessInventoryChangeUseCase";
+import { DynamoDBInventoryRepository } from "./adapters/repositories/DynamoDBInventoryRepository";
+import { TimedInventoryRepository } from "./adapters/repositories/TimedInventoryRepository";
+import { DynamoDBDeduplicationStore } from "./adapters/repositories/DynamoDBDeduplicationStore";
+import { DynamoDBVariantMappingRepository } from "./adapters/repositories/DynamoDBVariantMappingRepository";
+import { DynamoDBPendingInventoryUpdateRepository } from "./adapters/repositories/DynamoDBPendingInventoryUpdateRepository";
+import { DynamoDBInventoryItemRepository } from "./adapters/repositories/DynamoDBInventoryItemRepository";
+import { DynamoDBLocationRepository } from "./adapters/repositories/DynamoDBLocationRepository";
+import { DynamoDBStockThresholdRepository } from "./adapters/repositories/DynamoDBStockThresholdRepository";
+import { DynamoDBStockAlertStateRepository } from "./adapters/repositories/DynamoDBStockAlertStateRepository";
+import { DynamoDBShopRepository } from "./adapters/repositories/DynamoDBShopRepository";
+import { DynamoDBDeadLetterRepository } from "./adapters/repositories/DynamoDBDeadLetterRepository";
+import { FileBackfillCheckpointRepository } from "./adapters/repositories/FileBackfillCheckpointRepository";
+import { SnsAlertNotifier } from "./adapters/notifiers/SnsAlertNotifier";
+import { InMemoryAlertNotifier } from "./adapters/notifiers/InMemoryAlertNotifier";
+import { EventBridgeEventPublisher } from "./adapters/events/EventBridgeEventPublisher";
+import { InMemoryEventPublisher } from "./adapters/events/InMemoryEventPublisher";
+import { ShopifyWebhookValidator } from "./adapters/validators/ShopifyWebhookValidator";
+import { KeyringWebhookValidator } from "./adapters/validators/KeyringWebhookValidator";
+import { EventBridgeSourceValidator } from "./adapters/validators/EventBridgeSourceValidator";
+import { ChannelWebhookValidator } from "./adapters/validators/ChannelWebhookValidator";
+import { KeyringApiKeyValidator } from "./adapters/validators/KeyringApiKeyValidator";
+import { SecretsManagerSecretProvider } from "./adapters/secrets/SecretsManagerSecretProvider";
+import { SsmParameterSecretProvider } from "./adapters/secrets/SsmParameterSecretProvider";
+import { EnvironmentSecretProvider } from "./adapters/secrets/EnvironmentSecretProvider";
+import { WebhookRequestHandler } from "./adapters/handlers/WebhookRequestHandler";
+import { SqsWebhookBatchHandler } from "./adapters/handlers/SqsWebhookBatchHandler";
+import { EventBridgeWebhookHandler } from "./adapters/handlers/EventBridgeWebhookHandler";
+import { WebhookDeadLetterRecorder } from "./adapters/handlers/WebhookDeadLetterRecorder";
+import { DeadLetterReplayCommandHandler } from "./adapters/handlers/DeadLetterReplayCommandHandler";
+import { InventoryQueryHandler } from "./adapters/handlers/InventoryQueryHandler";
+import { ReconciliationJobHandler } from "./adapters/handlers/ReconciliationJobHandler";
+import { BackfillCommandHandler } from "./adapters/handlers/BackfillCommandHandler";
+import { InventoryHistoryStreamHandler } from "./adapters/handlers/InventoryHistoryStreamHandler";
+import { ShopifyGraphQLAdminClient } from "./adapters/shopify/ShopifyGraphQLAdminClient";
+import { LineSource } from "./adapters/sources/LineSource";
+import { LocalFileLineSource } from "./adapters/sources/LocalFileLineSource";
+import { S3LineSource } from "./adapters/sources/S3LineSource";
+import { WebhookPayloadParser } from "./adapters/parsers/WebhookPayloadParser";
+import { JsonLogger, parseLogLevel } from "./adapters/logging/JsonLogger";
+import { EmfMetrics } from "./adapters/metrics/EmfMetrics";
+import { TopicRegistry } from "./adapters/topics/TopicRegistry";
+import { shopifyTopicHandlers } from "./adapters/topics/ShopifyTopics";
+
+/**
+ * Composition root shared by the Lambda entry points
+ * Builds adapters from environment configuration once per container
+ */
+
+const dynamoDbClient = new DynamoDBClient({});
+// Optional attributes such as a threshold's scope are left off the item
+const docClient = DynamoDBDocumentClient.from(dynamoDbClient, {
+  marshallOptions: { removeUndefinedValues: true },
+});
+
+const LOG_LEVEL = parseLogLevel(process.env.LOG_LEVEL || "info");
+const ENVIRONMENT = process.env.ENVIRONMENT || "dev";
+const METRICS_NAMESPACE = process.env.METRICS_NAMESPACE || "ShopifyInventory";
+const DYNAMODB_TABLE = process.env.DYNAMODB_TABLE || "shopify-inventory-dev";
+const SECRET_PROVIDER = process.env.SECRET_PROVIDER || "env";
+const SECRET_CACHE_TTL_SECONDS = Number(
+  process.env.SECRET_CACHE_TTL_SECONDS || 300
+);
+const SHOPIFY_WEBHOOK_SECRET_NAME =
+  process.env.SHOPIFY_WEBHOOK_SECRET_NAME || "SHOPIFY_WEBHOOK_SECRET";
+const SHOPIFY_WEBHOOK_KEYRING_SECRET_NAME =
+  process.env.SHOPIFY_WEBHOOK_KEYRING_SECRET_NAME;
+const QUERY_API_KEYS_SECRET_NAME =
+  process.env.QUERY_API_KEYS_SECRET_NAME || "QUERY_API_KEYS";
+const SHOPIFY_ADMIN_TOKENS_SECRET_NAME =
+  process.env.SHOPIFY_ADMIN_TOKENS_SECRET_NAME || "SHOPIFY_ADMIN_TOKENS";
+const SHOPIFY_ADMIN_API_VERSION =
+  process.env.SHOPIFY_ADMIN_API_VERSION || "2024-10";
+const SHOPIFY_EVENT_SOURCE_PREFIX =
+  process.env.SHOPIFY_EVENT_SOURCE_PREFIX || "";
+const TRUSTED_AWS_ACCOUNT_ID = process.env.TRUSTED_AWS_ACCOUNT_ID || "";
+const INVENTORY_ITEMS_TABLE =
+  process.env.INVENTORY_ITEMS_TABLE || "shopify-inventory-items-dev";
+const LOCATIONS_TABLE =
+  process.env.LOCATIONS_TABLE || "shopify-locations-dev";
+const HISTORY_TABLE =
+  process.env.HISTORY_TABLE || "shopify-inventory-history-dev";
+const STOCK_ALERTS_TABLE =
+  process.env.STOCK_ALERTS_TABLE || "shopify-stock-alerts-dev";
+const ALERT_TOPIC_ARN = process.env.ALERT_TOPIC_ARN;
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME;
+const EVENT_SOURCE = process.env.EVENT_SOURCE || "shopify-inventory";
+const SHOPS_TABLE = process.env.SHOPS_TABLE || "shopify-shops-dev";
+const DEDUP_TABLE = process.env.DEDUP_TABLE || "shopify-webhook-dedup-dev";
+const DEDUP_TTL_SECONDS = Number(process.env.DEDUP_TTL_SECONDS || 86400);
+// Longer than the webhook Lambdas' timeout
+const DEDUP_LEASE_SECONDS = Number(process.env.DEDUP_LEASE_SECONDS || 60);
+const DEAD_LETTER_TABLE =
+  process.env.DEAD_LETTER_TABLE || "shopify-webhook-dead-letters-dev";
+// Must match the queue's redrive policy so failures are captured first
+const WEBHOOK_MAX_RECEIVE_COUNT = Number(
+  process.env.WEBHOOK_MAX_RECEIVE_COUNT || 5
+);
+const BACKFILL_CHECKPOINT_DIR =
+  process.env.BACKFILL_CHECKPOINT_DIR || ".backfill";
+
+// Initialize adapters and use case
+export const logger = new JsonLogger({ level: LOG_LEVEL });
+export const webhookPayloadParser = new WebhookPayloadParser(logger);
+const metrics = new EmfMetrics({
+  namespace: METRICS_NAMESPACE,
+  environment: ENVIRONMENT,
+});
+const secretProvider = createSecretProvider(SECRET_PROVIDER);
+const inventoryRepository = new TimedInventoryRepository(
+  new DynamoDBInventoryRepository(
+    docClient,
+    DYNAMODB_TABLE,
+    HISTORY_TABLE,
+    logger
+  ),
+  metrics
+);
+const variantMappingRepository = new DynamoDBVariantMappingRepository(
+  docClient,
+  INVENTORY_ITEMS_TABLE
+);
+const pendingUpdateRepository = new DynamoDBPendingInventoryUpdateRepository(
+  docClient,
+  INVENTORY_ITEMS_TABLE
+);
+const inventoryItemRepository = new DynamoDBInventoryItemRepository(
+  docClient,
+  INVENTORY_ITEMS_TABLE
+);
+const locationRepository = new DynamoDBLocationRepository(
+  docClient,
+  LOCATIONS_TABLE
+);
+const stockAlerts = new StockAlertService(
+  new DynamoDBStockThresholdRepository(docClient, STOCK_ALERTS_TABLE),
+  new DynamoDBStockAlertStateRepository(docClient, STOCK_ALERTS_TABLE),
+  // Without a topic, alerts are only kept in memory (local runs)
+  ALERT_TOPIC_ARN
+    ? new SnsAlertNotifier(new SNSClient({}), ALERT_TOPIC_ARN)
+    : new InMemoryAlertNotifier()
+);
+// Without a bus, events are only kept in memory (local runs)
+const eventPublisher = EVENT_BUS_NAME
+  ? new EventBridgeEventPublisher(
+      new EventBridgeClient({}),
+      EVENT_BUS_NAME,
+      EVENT_SOURCE
+    )
+  : new InMemoryEventPublisher();
+const deduplicationStore = new DynamoDBDeduplicationStore(
+  docClient,
+  DEDUP_TABLE,
+  DEDUP_TTL_SECONDS,
+  DEDUP_LEASE_SECONDS
+);
+const deadLetterRepository = new DynamoDBDeadLetterRepository(
+  docClient,
+  DEAD_LETTER_TABLE
+);
+const deadLetterRecorder = new WebhookDeadLetterRecorder(
+  deadLetterRepository,
+  logger
+);
+const shopRegistry = new ShopRegistry(
+  new DynamoDBShopRepository(docClient, SHOPS_TABLE)
+);
+const webhookValidator = new ChannelWebhookValidator(
+  {
+    eventbridge: new EventBridgeSourceValidator(
+      SHOPIFY_EVENT_SOURCE_PREFIX,
+      TRUSTED_AWS_ACCOUNT_ID,
+      logger
+    ),
+    http: SHOPIFY_WEBHOOK_KEYRING_SECRET_NAME
+      ? new KeyringWebhookValidator(
+          secretProvider,
+          SHOPIFY_WEBHOOK_KEYRING_SECRET_NAME,
+          logger
+        )
+      : new ShopifyWebhookValidator(
+          secretProvider,
+          SHOPIFY_WEBHOOK_SECRET_NAME,
+          logger
+        ),
+  },
+  logger
+);
+const useCase = new ProcessInventoryWebhookUseCase(
+  inventoryRepository,
+  webhookValidator,
+  variantMappingRepository,
+  pendingUpdateRepository,
+  logger,
+  metrics
+);
+const productUseCase = new ProcessProductWebhookUseCase(
+  webhookValidator,
+  variantMappingRepository,
+  useCase
+);
+const inventoryItemUseCase = new ProcessInventoryItemWebhookUseCase(
+  webhookValidator,
+  inventoryItemRepository,
+  variantMappingRepository,
+  inventoryRepository,
+  pendingUpdateRepository
+);
+const locationUseCase = new ProcessLocationWebhookUseCase(
+  webhookValidator,
+  locationRepository
+);
+
+// New webhook topics are added to the table in ShopifyTopics
+const topics = new TopicRegistry();
+shopifyTopicHandlers({
+  inventory: useCase,
+  product: productUseCase,
+  inventoryItem: inventoryItemUseCase,
+  location: locationUseCase,
+}).forEach((handler) => topics.register(handler));
+
+export const webhookRequestHandler = new WebhookRequestHandler(
+  topics,
+  deduplicationStore,
+  shopRegistry,
+  new WebhookAuthenticator(webhookValidator),
+  logger,
+  metrics
+);
+
+export const eventBridgeWebhookHandler = new EventBridgeWebhookHandler(
+  webhookRequestHandler,
+  webhookPayloadParser,
+  deadLetterRecorder
+);
+
+export const sqsWebhookBatchHandler = new SqsWebhookBatchHandler(
+  webhookRequestHandler,
+  webhookPayloadParser,
+  logger,
+  deadLetterRecorder,
+  WEBHOOK_MAX_RECEIVE_COUNT
+);
+
+export const deadLetterReplayCommandHandler = new DeadLetterReplayCommandHandler(
+  deadLetterRepository,
+  deadLetterRecorder,
+  webhookRequestHandler,
+  webhookPayloadParser,
+  logger
+);
+
+export const inventoryQueryHandler = new InventoryQueryHandler(
+  new GetVariantInventoryUseCase(inventoryRepository, locationRepository),
+  new KeyringApiKeyValidator(secretProvider, QUERY_API_KEYS_SECRET_NAME),
+  logger
+);
+
+export const reconciliationJobHandler = new ReconciliationJobHandler(
+  new ReconcileInventoryUseCase(
+    new ShopifyGraphQLAdminClient(
+      secretProvider,
+      SHOPIFY_ADMIN_TOKENS_SECRET_NAME,
+      { apiVersion: SHOPIFY_ADMIN_API_VERSION }
+    ),
+    inventoryRepository,
+    shopRegistry,
+    useCase
+  ),
+  logger
+);
+
+export const inventoryHistoryStreamHandler = new InventoryHistoryStreamHandler(
+  new ProcessInventoryChangeUseCase(
+    shopRegistry,
+    eventPublisher,
+    stockAlerts,
+    logger
+  ),
+  logger
+);
+
+export const backfillCommandHandler = new BackfillCommandHandler(
+  new BackfillInventoryUseCase(
+    inventoryRepository,
+    variantMappingRepository,
+    new FileBackfillCheckpointRepository(BACKFILL_CHECKPOINT_DIR),
+    shopRegistry,
+    useCase
+  ),
+  openLineSource,
+  logger
+);
+
+function openLineSource(location: string): LineSource {
+  return location.startsWith("s3://")
+    ? new S3LineSource(new S3Client({}), location)
+    : new LocalFileLineSource(location);
+}
+
+function createSecretProvider(kind: string): SecretProvider {
+  const cacheOptions = { ttlMs: SECRET_CACHE_TTL_SECONDS * 1000 };
+
+  switch (kind) {
+    case "secretsmanager":
+      return new SecretsManagerSecretProvider(
+        new SecretsManagerClient({}),
+        cacheOptions
+      );
+    case "ssm":
+      return new SsmParameterSecretProvider(new SSMClient({}), cacheOptions);
+    case "env":
+      return new EnvironmentSecretProvider(process.env, cacheOptions);
+    default:
+      throw new Error(`Unknown SECRET_PROVIDER: ${kind}`);
+  }
+}
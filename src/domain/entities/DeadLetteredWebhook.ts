@@ -0,0 +1,64 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Domain entity for a webhook event that could not be processed and was
+ * set aside to be replayed once the cause is fixed
+ */
+export class DeadLetteredWebhook {
+  constructor(
+    /**
+     * EventBridge event ID, so repeated failures of one event share an entry
+     */
+    readonly id: string,
+    /**
+     * The original event, serialized exactly as it was received
+     */
+    readonly event: string,
+    /**
+     * Why the most recent attempt failed
+     */
+    readonly reason: string,
+    readonly statusCode: number,
+    readonly attemptCount: number,
+    readonly firstFailedAt: Date,
+    readonly lastFailedAt: Date,
+    readonly shopName?: string,
+    readonly topic?: string,
+    /**
+     * Set once a replay succeeds; a later failure clears it again
+     */
+    readonly replayedAt?: Date
+  ) {
+    this.validate();
+  }
+
+  isReplayed(): boolean {
+    return this.replayedAt !== undefined;
+  }
+
+  private validate(): void {
+    if (!this.id || this.id.trim().length === 0) {
+      throw new DomainValidationError("Dead letter ID is required");
+    }
+    if (!this.event) {
+      throw new DomainValidationError("Dead-lettered event is required");
+    }
+    if (!Number.isInteger(this.attemptCount) || this.attemptCount <= 0) {
+      throw new DomainValidationError("Attempt count must be a positive integer");
+    }
+    for (const [label, date] of [
+      ["First failed", this.firstFailedAt],
+      ["Last failed", this.lastFailedAt],
+    ] as const) {
+      if (!(date instanceof Date) || isNaN(date.getTime())) {
+        throw new DomainValidationError(`${label} date must be a valid Date`);
+      }
+    }
+    if (
+      this.replayedAt !== undefined &&
+      (!(this.replayedAt instanceof Date) || isNaN(this.replayedAt.getTime()))
+    ) {
+      throw new DomainValidationError("Replayed date must be a valid Date");
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Domain entity recording one accepted change to an inventory level
+ * Entries are append-only; together they explain how stock reached its
+ * current value
+ */
+export class InventoryHistoryEntry {
+  constructor(
+    readonly shopName: string,
+    readonly variantId: number,
+    readonly locationId: number,
+    /**
+     * Null when the level did not exist before this change
+     */
+    readonly previousAvailable: number | null,
+    readonly newAvailable: number,
+    /**
+     * When the change happened in Shopify, which orders the ledger
+     */
+    readonly changedAt: Date,
+    /**
+     * When the change was written
+     */
+    readonly recordedAt: Date,
+    readonly inventoryItemId?: number,
+    readonly eventId?: string,
+    readonly topic?: string,
+    /**
+     * True when the change removed the level, as a disconnect does
+     */
+    readonly removed = false
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (this.variantId <= 0) {
+      throw new DomainValidationError("Variant ID must be positive");
+    }
+    if (this.locationId <= 0) {
+      throw new DomainValidationError("Location ID must be positive");
+    }
+    if (!(this.changedAt instanceof Date) || isNaN(this.changedAt.getTime())) {
+      throw new DomainValidationError("Changed date must be a valid Date");
+    }
+    if (!(this.recordedAt instanceof Date) || isNaN(this.recordedAt.getTime())) {
+      throw new DomainValidationError("Recorded date must be a valid Date");
+    }
+  }
+
+  /**
+   * Stock gained (positive) or lost (negative); a new level counts from 0
+   */
+  get delta(): number {
+    return this.newAvailable - (this.previousAvailable ?? 0);
+  }
+}
@@ -0,0 +1,49 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Domain entity describing a Shopify inventory item in the catalog
+ * Stock is tracked per variant and location; this holds the item-level
+ * attributes shared by every location
+ */
+export class InventoryItem {
+  constructor(
+    readonly shopName: string,
+    readonly inventoryItemId: number,
+    readonly sku: string | null,
+    readonly tracked: boolean,
+    /**
+     * Decimal string as sent by Shopify (e.g. "12.50"), kept as text to
+     * avoid floating point rounding
+     */
+    readonly unitCost: string | null,
+    /**
+     * ISO 3166-1 alpha-2 country code
+     */
+    readonly countryOfOrigin: string | null,
+    readonly requiresShipping: boolean,
+    readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (this.inventoryItemId <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+    if (this.unitCost !== null && !/^\d+(\.\d+)?$/.test(this.unitCost)) {
+      throw new DomainValidationError(`Invalid unit cost: ${this.unitCost}`);
+    }
+    if (
+      this.countryOfOrigin !== null &&
+      !/^[A-Z]{2}$/.test(this.countryOfOrigin)
+    ) {
+      throw new DomainValidationError(`Invalid country of origin: ${this.countryOfOrigin}`);
+    }
+    if (!(this.updatedAt instanceof Date) || isNaN(this.updatedAt.getTime())) {
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
 /**
  * Domain entity representing a single inventory level record
  * This is the core business object that tracks stock at a location
@@ -9,29 +11,44 @@ export class InventoryLevel {
     readonly locationId: number,
     readonly available: number,
     readonly updatedAt: Date,
-    readonly inventoryItemId?: number
+    readonly inventoryItemId?: number,
+    /**
+     * Set once the inventory item is deleted in Shopify; the stock count
+     * is kept for reference but no longer describes sellable stock
+     */
+    readonly orphanedAt?: Date
   ) {
     this.validate();
   }
 
   private validate(): void {
     if (!this.shopName || this.shopName.trim().length === 0) {
-      throw new Error("Shop name is required");
+      throw new DomainValidationError("Shop name is required");
     }
     if (this.variantId <= 0) {
-      throw new Error("Variant ID must be positive");
+      throw new DomainValidationError("Variant ID must be positive");
     }
     if (this.locationId <= 0) {
-      throw new Error("Location ID must be positive");
+      throw new DomainValidationError("Location ID must be positive");
     }
     if (this.available < 0) {
-      throw new Error("Available stock cannot be negative");
+      throw new DomainValidationError("Available stock cannot be negative");
     }
     if (!this.updatedAt || !(this.updatedAt instanceof Date)) {
-      throw new Error("Updated date must be a valid Date");
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+    if (this.inventoryItemId !== undefined && this.inventoryItemId <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+    if (this.orphanedAt !== undefined && !(this.orphanedAt instanceof Date)) {
+      throw new DomainValidationError("Orphaned date must be a valid Date");
     }
   }
 
+  isOrphaned(): boolean {
+    return this.orphanedAt !== undefined;
+  }
+
   /**
    * Generate composite key for storage
    */
@@ -45,4 +62,36 @@ export class InventoryLevel {
   getLocationKey(): string {
     return this.locationId.toString();
   }
+
+  /**
+   * Split a composite key back into shop name and variant ID
+   * Shop names may themselves contain '#', so split on the last one
+   */
+  static parseCompositeKey(key: string): {
+    shopName: string;
+    variantId: number;
+  } {
+    const separator = key.lastIndexOf("#");
+    if (separator <= 0 || separator === key.length - 1) {
+      throw new DomainValidationError(`Invalid composite key: ${key}`);
+    }
+
+    const variantId = Number(key.slice(separator + 1));
+    if (!Number.isSafeInteger(variantId)) {
+      throw new DomainValidationError(`Invalid variant ID in composite key: ${key}`);
+    }
+
+    return { shopName: key.slice(0, separator), variantId };
+  }
+
+  /**
+   * Parse a location sort key back into a location ID
+   */
+  static parseLocationKey(key: string): number {
+    const locationId = Number(key);
+    if (key.trim().length === 0 || !Number.isSafeInteger(locationId)) {
+      throw new DomainValidationError(`Invalid location key: ${key}`);
+    }
+    return locationId;
+  }
 }
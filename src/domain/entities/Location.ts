@@ -0,0 +1,60 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Postal address of a location, as reported by Shopify
+ */
+export interface LocationAddress {
+  address1: string | null;
+  address2: string | null;
+  city: string | null;
+  province: string | null;
+  provinceCode: string | null;
+  zip: string | null;
+  country: string | null;
+  countryCode: string | null;
+}
+
+/**
+ * Domain entity describing a Shopify location in the catalog
+ * Inventory levels reference locations by ID only; this gives them a
+ * name and decides whether their stock can be sold
+ */
+export class Location {
+  constructor(
+    readonly shopName: string,
+    readonly locationId: number,
+    readonly name: string,
+    readonly address: LocationAddress,
+    readonly active: boolean,
+    readonly fulfillsOnlineOrders: boolean,
+    readonly updatedAt: Date,
+    readonly deletedAt?: Date
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (this.locationId <= 0) {
+      throw new DomainValidationError("Location ID must be positive");
+    }
+    if (!this.name || this.name.trim().length === 0) {
+      throw new DomainValidationError("Location name is required");
+    }
+    if (!(this.updatedAt instanceof Date) || isNaN(this.updatedAt.getTime())) {
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+    if (this.deletedAt !== undefined && !(this.deletedAt instanceof Date)) {
+      throw new DomainValidationError("Deleted date must be a valid Date");
+    }
+  }
+
+  /**
+   * Stock at inactive or deleted locations is kept but cannot be sold
+   */
+  isSellable(): boolean {
+    return this.active && this.deletedAt === undefined;
+  }
+}
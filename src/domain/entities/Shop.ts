@@ -0,0 +1,102 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Lifecycle of a shop's installation of the app
+ */
+export type ShopStatus = "active" | "suspended" | "uninstalled";
+
+/**
+ * Optional processing switched on or off per shop
+ */
+export interface ShopFeatures {
+  stockAlerts: boolean;
+  inventoryEvents: boolean;
+}
+
+export const DEFAULT_SHOP_FEATURES: ShopFeatures = {
+  stockAlerts: true,
+  inventoryEvents: true,
+};
+
+const SHOPIFY_DOMAIN_SUFFIX = ".myshopify.com";
+const SHOP_HANDLE = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Domain entity for an installed shop in the registry
+ * Webhooks are only processed for active shops
+ */
+export class Shop {
+  constructor(
+    readonly shopName: string,
+    readonly status: ShopStatus,
+    readonly updatedAt: Date,
+    /**
+     * Secret holding the shop's own webhook signing key, in place of the
+     * shared one
+     */
+    readonly webhookSecretName?: string,
+    /**
+     * Locations whose stock is stored; every location when absent
+     */
+    readonly trackedLocationIds?: number[],
+    readonly features: ShopFeatures = DEFAULT_SHOP_FEATURES
+  ) {
+    this.validate();
+  }
+
+  isActive(): boolean {
+    return this.status === "active";
+  }
+
+  tracksLocation(locationId: number): boolean {
+    return (
+      this.trackedLocationIds === undefined ||
+      this.trackedLocationIds.includes(locationId)
+    );
+  }
+
+  private validate(): void {
+    if (normalizeShopDomain(this.shopName) !== this.shopName) {
+      throw new DomainValidationError(
+        `Shop name must be a normalized myshopify.com domain: ${this.shopName}`
+      );
+    }
+    if (!["active", "suspended", "uninstalled"].includes(this.status)) {
+      throw new DomainValidationError(`Invalid shop status: ${this.status}`);
+    }
+    if (!(this.updatedAt instanceof Date) || isNaN(this.updatedAt.getTime())) {
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+    if (
+      this.webhookSecretName !== undefined &&
+      this.webhookSecretName.trim().length === 0
+    ) {
+      throw new DomainValidationError("Webhook secret name cannot be empty");
+    }
+    if (this.trackedLocationIds?.some((id) => !Number.isInteger(id) || id <= 0)) {
+      throw new DomainValidationError("Tracked location IDs must be positive integers");
+    }
+  }
+}
+
+/**
+ * Reduce a shop identifier to its myshopify.com domain, so "MyShop",
+ * "myshop" and "https://myshop.myshopify.com/" share one key
+ */
+export function normalizeShopDomain(input: string): string {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/+$/, "");
+
+  const handle = domain.endsWith(SHOPIFY_DOMAIN_SUFFIX)
+    ? domain.slice(0, -SHOPIFY_DOMAIN_SUFFIX.length)
+    : domain;
+
+  if (!SHOP_HANDLE.test(handle)) {
+    throw new DomainValidationError(`Invalid shop domain: ${input}`);
+  }
+
+  return `${handle}${SHOPIFY_DOMAIN_SUFFIX}`;
+}
@@ -0,0 +1,33 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+import { StockStatus } from "./StockThreshold";
+
+const SEVERITY: Record<StockStatus, number> = {
+  in_stock: 0,
+  low_stock: 1,
+  sold_out: 2,
+};
+
+/**
+ * Domain entity describing a stock level crossing a threshold
+ * Downward crossings are alerts; upward crossings are recovery notices
+ */
+export class StockAlert {
+  constructor(
+    readonly shopName: string,
+    readonly variantId: number,
+    readonly locationId: number,
+    readonly status: StockStatus,
+    readonly previousStatus: StockStatus,
+    readonly available: number,
+    readonly lowStockThreshold: number,
+    readonly changedAt: Date
+  ) {
+    if (status === previousStatus) {
+      throw new DomainValidationError(`Stock status did not change: ${status}`);
+    }
+  }
+
+  isRecovery(): boolean {
+    return SEVERITY[this.status] < SEVERITY[this.previousStatus];
+  }
+}
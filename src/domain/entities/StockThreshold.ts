@@ -0,0 +1,57 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Stock level of a variant at a location relative to its threshold
+ */
+export type StockStatus = "in_stock" | "low_stock" | "sold_out";
+
+/**
+ * Domain entity configuring when stock counts as low
+ * Applies to a whole shop, a variant, a location, or one variant at one
+ * location; the most specific threshold wins
+ */
+export class StockThreshold {
+  constructor(
+    readonly shopName: string,
+    readonly lowStock: number,
+    readonly variantId?: number,
+    readonly locationId?: number
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Higher is more specific: variant and location, variant, location, shop
+   */
+  get specificity(): number {
+    return (
+      (this.variantId !== undefined ? 2 : 0) +
+      (this.locationId !== undefined ? 1 : 0)
+    );
+  }
+
+  /**
+   * Stock at or below the threshold is low; nothing left is sold out
+   */
+  statusFor(available: number): StockStatus {
+    if (available <= 0) {
+      return "sold_out";
+    }
+    return available <= this.lowStock ? "low_stock" : "in_stock";
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (!Number.isInteger(this.lowStock) || this.lowStock < 0) {
+      throw new DomainValidationError("Low stock threshold must be a non-negative integer");
+    }
+    if (this.variantId !== undefined && this.variantId <= 0) {
+      throw new DomainValidationError("Variant ID must be positive");
+    }
+    if (this.locationId !== undefined && this.locationId <= 0) {
+      throw new DomainValidationError("Location ID must be positive");
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Domain entity summarizing a variant's stock across every connected
+ * location. Maintained alongside level writes rather than summed on read
+ * This is not the sellable total: it still counts orphaned stock and stock
+ * at inactive or deleted locations, which GetVariantInventoryUseCase
+ * leaves out
+ */
+export class VariantInventoryTotal {
+  constructor(
+    readonly shopName: string,
+    readonly variantId: number,
+    /**
+     * Stock summed over every connected level
+     */
+    readonly connectedAvailable: number,
+    readonly stockedLocationCount: number,
+    /**
+     * Newest change applied to any of the variant's levels
+     */
+    readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (this.variantId <= 0) {
+      throw new DomainValidationError("Variant ID must be positive");
+    }
+    if (this.connectedAvailable < 0) {
+      throw new DomainValidationError("Connected available stock cannot be negative");
+    }
+    if (!Number.isInteger(this.stockedLocationCount) || this.stockedLocationCount < 0) {
+      throw new DomainValidationError("Stocked location count must be a non-negative integer");
+    }
+    if (!(this.updatedAt instanceof Date) || isNaN(this.updatedAt.getTime())) {
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { DomainValidationError } from "../errors/DomainValidationError";
+
+/**
+ * Domain entity linking a Shopify inventory item to its product variant
+ * Inventory webhooks only carry the inventory item ID, so this mapping is
+ * needed to key stock by variant
+ */
+export class VariantMapping {
+  constructor(
+    readonly shopName: string,
+    readonly inventoryItemId: number,
+    readonly variantId: number,
+    readonly productId: number,
+    readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!this.shopName || this.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (this.inventoryItemId <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+    if (this.variantId <= 0) {
+      throw new DomainValidationError("Variant ID must be positive");
+    }
+    if (this.productId <= 0) {
+      throw new DomainValidationError("Product ID must be positive");
+    }
+    if (!(this.updatedAt instanceof Date) || isNaN(this.updatedAt.getTime())) {
+      throw new DomainValidationError("Updated date must be a valid Date");
+    }
+  }
+}
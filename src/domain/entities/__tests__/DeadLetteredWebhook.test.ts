@@ -0,0 +1,41 @@
+import { DeadLetteredWebhook } from "../DeadLetteredWebhook";
+
+describe("DeadLetteredWebhook", () => {
+  const failedAt = new Date("2024-01-15T10:30:00Z");
+  const create = (
+    overrides: Partial<{ id: string; attemptCount: number; replayedAt: Date }> = {}
+  ) =>
+    new DeadLetteredWebhook(
+      overrides.id ?? "event-1",
+      "{}",
+      "Internal server error: DynamoDB unavailable",
+      500,
+      overrides.attemptCount ?? 1,
+      failedAt,
+      failedAt,
+      "myshop.myshopify.com",
+      "inventory_levels/update",
+      overrides.replayedAt
+    );
+
+  it("should be replayed once a replay date is set", () => {
+    expect(create().isReplayed()).toBe(false);
+    expect(create({ replayedAt: failedAt }).isReplayed()).toBe(true);
+  });
+
+  it("should throw when the ID is empty", () => {
+    expect(() => create({ id: " " })).toThrow("Dead letter ID is required");
+  });
+
+  it.each([0, 1.5])("should throw on an attempt count of %s", (attemptCount) => {
+    expect(() => create({ attemptCount })).toThrow(
+      "Attempt count must be a positive integer"
+    );
+  });
+
+  it("should throw on an invalid replay date", () => {
+    expect(() => create({ replayedAt: new Date("invalid") })).toThrow(
+      "Replayed date must be a valid Date"
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { InventoryHistoryEntry } from "../InventoryHistoryEntry";
+
+describe("InventoryHistoryEntry", () => {
+  const changedAt = new Date("2024-01-15T10:30:00Z");
+  const recordedAt = new Date("2024-01-15T10:30:01Z");
+
+  it("should compute the delta from the previous value", () => {
+    const entry = new InventoryHistoryEntry("myshop", 55555, 789, 10, 3, changedAt, recordedAt);
+
+    expect(entry.delta).toBe(-7);
+  });
+
+  it("should count a new level from zero", () => {
+    const entry = new InventoryHistoryEntry("myshop", 55555, 789, null, 5, changedAt, recordedAt);
+
+    expect(entry.delta).toBe(5);
+  });
+
+  it("should keep the event ID and topic", () => {
+    const entry = new InventoryHistoryEntry(
+      "myshop",
+      55555,
+      789,
+      null,
+      5,
+      changedAt,
+      recordedAt,
+      12345,
+      "evt-1",
+      "inventory_levels/update"
+    );
+
+    expect(entry.eventId).toBe("evt-1");
+    expect(entry.topic).toBe("inventory_levels/update");
+  });
+
+  it("should throw when variant ID is not positive", () => {
+    expect(
+      () => new InventoryHistoryEntry("myshop", 0, 789, null, 5, changedAt, recordedAt)
+    ).toThrow("Variant ID must be positive");
+  });
+
+  it("should throw when location ID is not positive", () => {
+    expect(
+      () => new InventoryHistoryEntry("myshop", 55555, 0, null, 5, changedAt, recordedAt)
+    ).toThrow("Location ID must be positive");
+  });
+
+  it("should throw when the change date is invalid", () => {
+    expect(
+      () =>
+        new InventoryHistoryEntry("myshop", 55555, 789, null, 5, new Date("x"), recordedAt)
+    ).toThrow("Changed date must be a valid Date");
+  });
+});
@@ -0,0 +1,69 @@
+import { InventoryItem } from "../InventoryItem";
+
+describe("InventoryItem", () => {
+  const date = new Date("2024-01-15T10:30:00Z");
+  const create = (
+    overrides: Partial<{
+      shopName: string;
+      inventoryItemId: number;
+      unitCost: string | null;
+      countryOfOrigin: string | null;
+      updatedAt: Date;
+    }> = {}
+  ) =>
+    new InventoryItem(
+      overrides.shopName ?? "myshop",
+      overrides.inventoryItemId ?? 12345,
+      "TSHIRT-RED-M",
+      true,
+      overrides.unitCost === undefined ? "12.50" : overrides.unitCost,
+      overrides.countryOfOrigin === undefined ? "PT" : overrides.countryOfOrigin,
+      true,
+      overrides.updatedAt ?? date
+    );
+
+  it("should create a valid inventory item", () => {
+    const item = create();
+
+    expect(item.sku).toBe("TSHIRT-RED-M");
+    expect(item.tracked).toBe(true);
+    expect(item.unitCost).toBe("12.50");
+    expect(item.countryOfOrigin).toBe("PT");
+    expect(item.requiresShipping).toBe(true);
+  });
+
+  it("should allow a missing cost and origin", () => {
+    const item = create({ unitCost: null, countryOfOrigin: null });
+
+    expect(item.unitCost).toBeNull();
+    expect(item.countryOfOrigin).toBeNull();
+  });
+
+  it("should throw when shop name is empty", () => {
+    expect(() => create({ shopName: "" })).toThrow("Shop name is required");
+  });
+
+  it("should throw when inventory item ID is not positive", () => {
+    expect(() => create({ inventoryItemId: 0 })).toThrow(
+      "Inventory item ID must be positive"
+    );
+  });
+
+  it("should throw when unit cost is not a non-negative decimal", () => {
+    expect(() => create({ unitCost: "-1.00" })).toThrow(
+      "Invalid unit cost: -1.00"
+    );
+  });
+
+  it("should throw when country of origin is not a two-letter code", () => {
+    expect(() => create({ countryOfOrigin: "Portugal" })).toThrow(
+      "Invalid country of origin: Portugal"
+    );
+  });
+
+  it("should throw when the date is invalid", () => {
+    expect(() => create({ updatedAt: new Date("x") })).toThrow(
+      "Updated date must be a valid Date"
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import { InventoryLevel } from "../InventoryLevel";
+import { DomainValidationError } from "../../errors/DomainValidationError";
 
 describe("InventoryLevel", () => {
   describe("constructor and validation", () => {
@@ -35,6 +36,23 @@ describe("InventoryLevel", () => {
       }).toThrow("Shop name is required");
     });
 
+    it("should throw when inventory item ID is not positive", () => {
+      expect(() => {
+        new InventoryLevel("myshop", 12345, 789, 50, new Date(), 0);
+      }).toThrow("Inventory item ID must be positive");
+    });
+
+    it("should not be orphaned unless an orphaned date is set", () => {
+      const date = new Date("2024-01-15T10:30:00Z");
+
+      expect(
+        new InventoryLevel("myshop", 12345, 789, 50, date).isOrphaned()
+      ).toBe(false);
+      expect(
+        new InventoryLevel("myshop", 12345, 789, 50, date, 1, date).isOrphaned()
+      ).toBe(true);
+    });
+
     it("should throw when variant ID is zero", () => {
       const date = new Date();
       expect(() => {
@@ -70,6 +88,12 @@ describe("InventoryLevel", () => {
       }).toThrow("Available stock cannot be negative");
     });
 
+    it("should report broken rules as domain validation errors", () => {
+      expect(() => {
+        new InventoryLevel("myshop", 12345, 789, -1, new Date());
+      }).toThrow(DomainValidationError);
+    });
+
     it("should allow zero available stock", () => {
       const date = new Date();
       const level = new InventoryLevel("myshop", 12345, 789, 0, date);
@@ -131,6 +155,72 @@ describe("InventoryLevel", () => {
     });
   });
 
+  describe("parseCompositeKey", () => {
+    it("should split shop name and variant ID", () => {
+      expect(InventoryLevel.parseCompositeKey("myshop#12345")).toEqual({
+        shopName: "myshop",
+        variantId: 12345,
+      });
+    });
+
+    it("should round-trip getCompositeKey", () => {
+      const level = new InventoryLevel(
+        "my-shop.myshopify.com",
+        12345,
+        789,
+        50,
+        new Date()
+      );
+      expect(InventoryLevel.parseCompositeKey(level.getCompositeKey())).toEqual(
+        { shopName: "my-shop.myshopify.com", variantId: 12345 }
+      );
+    });
+
+    it("should split on the last separator", () => {
+      expect(InventoryLevel.parseCompositeKey("odd#shop#1")).toEqual({
+        shopName: "odd#shop",
+        variantId: 1,
+      });
+    });
+
+    it("should throw when the separator is missing", () => {
+      expect(() => InventoryLevel.parseCompositeKey("myshop")).toThrow(
+        "Invalid composite key: myshop"
+      );
+    });
+
+    it("should throw when the shop name is empty", () => {
+      expect(() => InventoryLevel.parseCompositeKey("#12345")).toThrow(
+        "Invalid composite key: #12345"
+      );
+    });
+
+    it("should throw when the variant ID is not numeric", () => {
+      expect(() => InventoryLevel.parseCompositeKey("myshop#abc")).toThrow(
+        "Invalid variant ID in composite key: myshop#abc"
+      );
+    });
+  });
+
+  describe("parseLocationKey", () => {
+    it("should round-trip getLocationKey", () => {
+      const level = new InventoryLevel("myshop", 12345, 789, 50, new Date());
+      expect(InventoryLevel.parseLocationKey(level.getLocationKey())).toBe(789);
+    });
+
+    it("should throw on non-numeric keys", () => {
+      expect(() => InventoryLevel.parseLocationKey("warehouse-1")).toThrow(
+        "Invalid location key: warehouse-1"
+      );
+    });
+
+    it("should throw on empty keys", () => {
+      expect(() => InventoryLevel.parseLocationKey("")).toThrow(
+        "Invalid location key: "
+      );
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle maximum safe integer for IDs", () => {
       const maxInt = Number.MAX_SAFE_INTEGER;
@@ -0,0 +1,75 @@
+import { Location, LocationAddress } from "../Location";
+
+describe("Location", () => {
+  const address: LocationAddress = {
+    address1: "1 Harbour Rd",
+    address2: null,
+    city: "Lisbon",
+    province: null,
+    provinceCode: null,
+    zip: "1000-001",
+    country: "Portugal",
+    countryCode: "PT",
+  };
+  const date = new Date("2024-01-15T10:30:00Z");
+
+  it("should create a valid location", () => {
+    const location = new Location("myshop", 789, "Main", address, true, true, date);
+
+    expect(location.name).toBe("Main");
+    expect(location.address.city).toBe("Lisbon");
+    expect(location.fulfillsOnlineOrders).toBe(true);
+  });
+
+  it("should be sellable while active", () => {
+    expect(
+      new Location("myshop", 789, "Main", address, true, false, date).isSellable()
+    ).toBe(true);
+  });
+
+  it("should not be sellable once deactivated", () => {
+    expect(
+      new Location("myshop", 789, "Main", address, false, true, date).isSellable()
+    ).toBe(false);
+  });
+
+  it("should not be sellable once deleted", () => {
+    expect(
+      new Location(
+        "myshop",
+        789,
+        "Main",
+        address,
+        true,
+        true,
+        date,
+        date
+      ).isSellable()
+    ).toBe(false);
+  });
+
+  it("should throw when shop name is empty", () => {
+    expect(
+      () => new Location("", 789, "Main", address, true, true, date)
+    ).toThrow("Shop name is required");
+  });
+
+  it("should throw when location ID is not positive", () => {
+    expect(
+      () => new Location("myshop", 0, "Main", address, true, true, date)
+    ).toThrow("Location ID must be positive");
+  });
+
+  it("should throw when name is empty", () => {
+    expect(
+      () => new Location("myshop", 789, " ", address, true, true, date)
+    ).toThrow("Location name is required");
+  });
+
+  it("should throw when the date is invalid", () => {
+    expect(
+      () =>
+        new Location("myshop", 789, "Main", address, true, true, new Date("x"))
+    ).toThrow("Updated date must be a valid Date");
+  });
+});
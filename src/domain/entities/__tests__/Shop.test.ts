@@ -0,0 +1,72 @@
+import { normalizeShopDomain, Shop } from "../Shop";
+
+describe("Shop", () => {
+  const updatedAt = new Date("2024-01-15T10:30:00Z");
+
+  it("should default to every location and feature", () => {
+    const shop = new Shop("myshop.myshopify.com", "active", updatedAt);
+
+    expect(shop.isActive()).toBe(true);
+    expect(shop.tracksLocation(12345)).toBe(true);
+    expect(shop.features).toEqual({ stockAlerts: true, inventoryEvents: true });
+  });
+
+  it("should only track listed locations", () => {
+    const shop = new Shop("myshop.myshopify.com", "active", updatedAt, undefined, [1, 2]);
+
+    expect(shop.tracksLocation(2)).toBe(true);
+    expect(shop.tracksLocation(3)).toBe(false);
+  });
+
+  it.each(["suspended", "uninstalled"] as const)(
+    "should not be active when %s",
+    (status) => {
+      expect(new Shop("myshop.myshopify.com", status, updatedAt).isActive()).toBe(false);
+    }
+  );
+
+  it("should throw when the shop name is not normalized", () => {
+    expect(() => new Shop("myshop", "active", updatedAt)).toThrow(
+      "Shop name must be a normalized myshopify.com domain: myshop"
+    );
+  });
+
+  it("should throw on an unknown status", () => {
+    expect(
+      () => new Shop("myshop.myshopify.com", "paused" as never, updatedAt)
+    ).toThrow("Invalid shop status: paused");
+  });
+
+  it("should throw on an empty webhook secret name", () => {
+    expect(
+      () => new Shop("myshop.myshopify.com", "active", updatedAt, " ")
+    ).toThrow("Webhook secret name cannot be empty");
+  });
+
+  it("should throw on invalid tracked locations", () => {
+    expect(
+      () => new Shop("myshop.myshopify.com", "active", updatedAt, undefined, [0])
+    ).toThrow("Tracked location IDs must be positive integers");
+  });
+});
+
+describe("normalizeShopDomain", () => {
+  it.each([
+    "myshop",
+    "MyShop",
+    " myshop.myshopify.com ",
+    "MYSHOP.MYSHOPIFY.COM",
+    "https://myshop.myshopify.com/",
+  ])("should normalize %p", (input) => {
+    expect(normalizeShopDomain(input)).toBe("myshop.myshopify.com");
+  });
+
+  it.each(["", "my shop", "shop.example.com", "-myshop", "a/b.myshopify.com"])(
+    "should reject %p",
+    (input) => {
+      expect(() => normalizeShopDomain(input)).toThrow(
+        `Invalid shop domain: ${input}`
+      );
+    }
+  );
+});
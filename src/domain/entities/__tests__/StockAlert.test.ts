@@ -0,0 +1,32 @@
+import { StockAlert } from "../StockAlert";
+import { StockStatus } from "../StockThreshold";
+
+describe("StockAlert", () => {
+  const alert = (status: StockStatus, previousStatus: StockStatus) =>
+    new StockAlert(
+      "myshop",
+      55555,
+      789,
+      status,
+      previousStatus,
+      2,
+      5,
+      new Date("2024-01-15T10:30:00Z")
+    );
+
+  it("should treat downward crossings as alerts", () => {
+    expect(alert("low_stock", "in_stock").isRecovery()).toBe(false);
+    expect(alert("sold_out", "low_stock").isRecovery()).toBe(false);
+  });
+
+  it("should treat upward crossings as recoveries", () => {
+    expect(alert("in_stock", "low_stock").isRecovery()).toBe(true);
+    expect(alert("low_stock", "sold_out").isRecovery()).toBe(true);
+  });
+
+  it("should throw when the status did not change", () => {
+    expect(() => alert("low_stock", "low_stock")).toThrow(
+      "Stock status did not change: low_stock"
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { StockThreshold } from "../StockThreshold";
+
+describe("StockThreshold", () => {
+  it("should classify stock against the threshold", () => {
+    const threshold = new StockThreshold("myshop", 5);
+
+    expect(threshold.statusFor(6)).toBe("in_stock");
+    expect(threshold.statusFor(5)).toBe("low_stock");
+    expect(threshold.statusFor(1)).toBe("low_stock");
+    expect(threshold.statusFor(0)).toBe("sold_out");
+    expect(threshold.statusFor(-2)).toBe("sold_out");
+  });
+
+  it("should only alert on sold out with a zero threshold", () => {
+    const threshold = new StockThreshold("myshop", 0);
+
+    expect(threshold.statusFor(1)).toBe("in_stock");
+    expect(threshold.statusFor(0)).toBe("sold_out");
+  });
+
+  it("should rank scopes from shop to variant at location", () => {
+    expect(new StockThreshold("myshop", 5).specificity).toBe(0);
+    expect(new StockThreshold("myshop", 5, undefined, 789).specificity).toBe(1);
+    expect(new StockThreshold("myshop", 5, 55555).specificity).toBe(2);
+    expect(new StockThreshold("myshop", 5, 55555, 789).specificity).toBe(3);
+  });
+
+  it("should throw when shop name is empty", () => {
+    expect(() => new StockThreshold("", 5)).toThrow("Shop name is required");
+  });
+
+  it("should throw when the threshold is negative or fractional", () => {
+    expect(() => new StockThreshold("myshop", -1)).toThrow(
+      "Low stock threshold must be a non-negative integer"
+    );
+    expect(() => new StockThreshold("myshop", 1.5)).toThrow(
+      "Low stock threshold must be a non-negative integer"
+    );
+  });
+
+  it("should throw when variant or location ID is not positive", () => {
+    expect(() => new StockThreshold("myshop", 5, 0)).toThrow(
+      "Variant ID must be positive"
+    );
+    expect(() => new StockThreshold("myshop", 5, undefined, 0)).toThrow(
+      "Location ID must be positive"
+    );
+  });
+});
@@ -0,0 +1,36 @@
+import { VariantInventoryTotal } from "../VariantInventoryTotal";
+
+describe("VariantInventoryTotal", () => {
+  const updatedAt = new Date("2024-01-15T10:30:00Z");
+
+  it("should create a valid total", () => {
+    const total = new VariantInventoryTotal("myshop", 55555, 15, 2, updatedAt);
+
+    expect(total.connectedAvailable).toBe(15);
+    expect(total.stockedLocationCount).toBe(2);
+  });
+
+  it("should throw when the total is negative", () => {
+    expect(
+      () => new VariantInventoryTotal("myshop", 55555, -1, 2, updatedAt)
+    ).toThrow("Connected available stock cannot be negative");
+  });
+
+  it("should throw when the location count is not a whole number", () => {
+    expect(
+      () => new VariantInventoryTotal("myshop", 55555, 15, 1.5, updatedAt)
+    ).toThrow("Stocked location count must be a non-negative integer");
+  });
+
+  it("should throw when variant ID is not positive", () => {
+    expect(
+      () => new VariantInventoryTotal("myshop", 0, 15, 2, updatedAt)
+    ).toThrow("Variant ID must be positive");
+  });
+
+  it("should throw when the date is invalid", () => {
+    expect(
+      () => new VariantInventoryTotal("myshop", 55555, 15, 2, new Date("x"))
+    ).toThrow("Updated date must be a valid Date");
+  });
+});
@@ -0,0 +1,44 @@
+import { VariantMapping } from "../VariantMapping";
+
+describe("VariantMapping", () => {
+  const date = new Date("2024-01-15T10:30:00Z");
+
+  it("should create a valid mapping", () => {
+    const mapping = new VariantMapping("myshop", 12345, 55555, 777, date);
+
+    expect(mapping.inventoryItemId).toBe(12345);
+    expect(mapping.variantId).toBe(55555);
+    expect(mapping.productId).toBe(777);
+    expect(mapping.updatedAt).toEqual(date);
+  });
+
+  it("should throw when shop name is empty", () => {
+    expect(() => new VariantMapping(" ", 12345, 55555, 777, date)).toThrow(
+      "Shop name is required"
+    );
+  });
+
+  it("should throw when inventory item ID is not positive", () => {
+    expect(() => new VariantMapping("myshop", 0, 55555, 777, date)).toThrow(
+      "Inventory item ID must be positive"
+    );
+  });
+
+  it("should throw when variant ID is not positive", () => {
+    expect(() => new VariantMapping("myshop", 12345, -1, 777, date)).toThrow(
+      "Variant ID must be positive"
+    );
+  });
+
+  it("should throw when product ID is not positive", () => {
+    expect(() => new VariantMapping("myshop", 12345, 55555, 0, date)).toThrow(
+      "Product ID must be positive"
+    );
+  });
+
+  it("should throw when the date is invalid", () => {
+    expect(
+      () => new VariantMapping("myshop", 12345, 55555, 777, new Date("x"))
+    ).toThrow("Updated date must be a valid Date");
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Thrown when a webhook cannot be proven to come from Shopify
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
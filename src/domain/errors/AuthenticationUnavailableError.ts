@@ -0,0 +1,14 @@
+/**
+ * Thrown when a webhook cannot be verified because a dependency, such as
+ * the secret store, failed; the webhook is neither accepted nor rejected,
+ * so it can be retried
+ */
+export class AuthenticationUnavailableError extends Error {
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "AuthenticationUnavailableError";
+  }
+}
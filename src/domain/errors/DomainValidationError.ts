@@ -0,0 +1,9 @@
+/**
+ * Thrown when values break a domain rule, such as negative stock
+ */
+export class DomainValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DomainValidationError";
+  }
+}
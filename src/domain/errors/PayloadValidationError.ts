@@ -0,0 +1,10 @@
+/**
+ * Thrown when a webhook delivery is malformed: an unreadable envelope,
+ * missing headers or a payload not shaped like its topic's
+ */
+export class PayloadValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayloadValidationError";
+  }
+}
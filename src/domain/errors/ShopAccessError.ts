@@ -0,0 +1,12 @@
+/**
+ * Thrown when a webhook comes from a shop that is not allowed to send them
+ */
+export class ShopAccessError extends Error {
+  constructor(
+    message: string,
+    readonly shopName: string
+  ) {
+    super(message);
+    this.name = "ShopAccessError";
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Thrown when storage is briefly unable to serve a request, e.g. when
+ * throttled or contended; the same request is expected to succeed later
+ */
+export class TransientStorageError extends Error {
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = "TransientStorageError";
+  }
+}
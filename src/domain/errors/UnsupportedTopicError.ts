@@ -0,0 +1,9 @@
+/**
+ * Thrown when a webhook's topic has no registered handler
+ */
+export class UnsupportedTopicError extends Error {
+  constructor(readonly topic: string) {
+    super(`Unsupported webhook topic: ${topic}`);
+    this.name = "UnsupportedTopicError";
+  }
+}
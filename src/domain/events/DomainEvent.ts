@@ -0,0 +1,12 @@
+/**
+ * Event announcing something that happened in the domain
+ * `type` and `version` identify the schema of `toDetail()`; a breaking
+ * change to the detail needs a new version
+ */
+export interface DomainEvent {
+  readonly type: string;
+  readonly version: number;
+  readonly shopName: string;
+  readonly occurredAt: Date;
+  toDetail(): object;
+}
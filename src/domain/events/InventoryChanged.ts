@@ -0,0 +1,90 @@
+import { DomainEvent } from "./DomainEvent";
+
+/**
+ * Published detail of an InventoryChanged event, version 1
+ * Optional values are null rather than absent so consumers see every field
+ */
+export interface InventoryChangedDetailV1 {
+  version: 1;
+  /**
+   * Identifies the change, so consumers can drop redelivered events
+   */
+  changeId: string;
+  shopName: string;
+  variantId: number;
+  locationId: number;
+  inventoryItemId: number | null;
+  /**
+   * Null when the level was not stored before
+   */
+  previousAvailable: number | null;
+  newAvailable: number;
+  delta: number;
+  /**
+   * When the change happened in Shopify; for disconnects, when Shopify
+   * sent the webhook
+   */
+  changedAt: string;
+  /**
+   * ID of the webhook event that caused the change; several changes can
+   * share it, so it does not identify one
+   */
+  sourceEventId: string | null;
+  topic: string | null;
+}
+
+/**
+ * Domain event raised for each stock change recorded in the history ledger
+ * Delivered at least once
+ */
+export class InventoryChanged implements DomainEvent {
+  readonly type = "InventoryChanged";
+  readonly version = 1;
+
+  constructor(
+    readonly shopName: string,
+    readonly variantId: number,
+    readonly locationId: number,
+    readonly previousAvailable: number | null,
+    readonly newAvailable: number,
+    readonly changedAt: Date,
+    readonly occurredAt: Date,
+    readonly inventoryItemId?: number,
+    readonly sourceEventId?: string,
+    readonly topic?: string
+  ) {}
+
+  /**
+   * A level only changes to a strictly newer time, so its location and
+   * change time single out one change
+   */
+  get changeId(): string {
+    return [
+      this.shopName,
+      this.variantId,
+      this.locationId,
+      this.changedAt.toISOString(),
+    ].join("#");
+  }
+
+  get delta(): number {
+    return this.newAvailable - (this.previousAvailable ?? 0);
+  }
+
+  toDetail(): InventoryChangedDetailV1 {
+    return {
+      version: this.version,
+      changeId: this.changeId,
+      shopName: this.shopName,
+      variantId: this.variantId,
+      locationId: this.locationId,
+      inventoryItemId: this.inventoryItemId ?? null,
+      previousAvailable: this.previousAvailable,
+      newAvailable: this.newAvailable,
+      delta: this.delta,
+      changedAt: this.changedAt.toISOString(),
+      sourceEventId: this.sourceEventId ?? null,
+      topic: this.topic ?? null,
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { InventoryChanged } from "../InventoryChanged";
+
+describe("InventoryChanged", () => {
+  const changedAt = new Date("2024-01-15T10:30:00Z");
+  const occurredAt = new Date("2024-01-15T10:30:01Z");
+
+  it("should identify its schema", () => {
+    const event = new InventoryChanged("myshop", 55555, 789, 10, 3, changedAt, occurredAt);
+
+    expect(event.type).toBe("InventoryChanged");
+    expect(event.version).toBe(1);
+  });
+
+  it("should describe the change in its detail", () => {
+    const event = new InventoryChanged(
+      "myshop",
+      55555,
+      789,
+      10,
+      3,
+      changedAt,
+      occurredAt,
+      12345,
+      "evt-1",
+      "inventory_levels/update"
+    );
+
+    expect(event.toDetail()).toEqual({
+      version: 1,
+      changeId: "myshop#55555#789#2024-01-15T10:30:00.000Z",
+      shopName: "myshop",
+      variantId: 55555,
+      locationId: 789,
+      inventoryItemId: 12345,
+      previousAvailable: 10,
+      newAvailable: 3,
+      delta: -7,
+      changedAt: "2024-01-15T10:30:00.000Z",
+      sourceEventId: "evt-1",
+      topic: "inventory_levels/update",
+    });
+  });
+
+  it("should use null for unknown values", () => {
+    const event = new InventoryChanged("myshop", 55555, 789, null, 5, changedAt, occurredAt);
+
+    expect(event.toDetail()).toEqual(
+      expect.objectContaining({
+        inventoryItemId: null,
+        previousAvailable: null,
+        delta: 5,
+        sourceEventId: null,
+        topic: null,
+      })
+    );
+  });
+
+  it("should identify the change apart from the event that caused it", () => {
+    const at = (locationId: number, iso: string) =>
+      new InventoryChanged(
+        "myshop",
+        55555,
+        locationId,
+        10,
+        3,
+        new Date(iso),
+        occurredAt,
+        12345,
+        "reconciliation:2024-01-15T10:00:00.000Z"
+      ).changeId;
+
+    expect(at(789, "2024-01-15T10:30:00Z")).toBe(at(789, "2024-01-15T10:30:00Z"));
+    expect(at(789, "2024-01-15T10:30:00Z")).not.toBe(at(790, "2024-01-15T10:30:00Z"));
+    expect(at(789, "2024-01-15T10:30:00Z")).not.toBe(at(789, "2024-01-15T10:31:00Z"));
+  });
+});
@@ -0,0 +1,8 @@
+import { StockAlert } from "../entities/StockAlert";
+
+/**
+ * Outbound port for sending stock alerts and recovery notices
+ */
+export interface AlertNotifier {
+  notify(alert: StockAlert): Promise<void>;
+}
@@ -0,0 +1,10 @@
+/**
+ * Outbound port for query API key validation
+ * Keys are issued per shop and only grant access to that shop's data
+ */
+export interface ApiKeyValidator {
+  /**
+   * Resolves true if the key was issued for the shop, false otherwise
+   */
+  validate(shopName: string, apiKey: string | undefined): Promise<boolean>;
+}
@@ -0,0 +1,22 @@
+/**
+ * How far a backfill job got through its export
+ */
+export interface BackfillCheckpoint {
+  jobId: string;
+  shopName: string;
+  /**
+   * Last export line whose records are stored
+   */
+  line: number;
+  completed: boolean;
+  updatedAt: Date;
+}
+
+/**
+ * Outbound port for backfill progress, so an interrupted job can resume
+ */
+export interface BackfillCheckpointRepository {
+  get(jobId: string): Promise<BackfillCheckpoint | null>;
+
+  save(checkpoint: BackfillCheckpoint): Promise<void>;
+}
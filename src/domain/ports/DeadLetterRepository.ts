@@ -0,0 +1,52 @@
+import { DeadLetteredWebhook } from "../entities/DeadLetteredWebhook";
+
+/**
+ * One failed attempt (or several, for a redelivered message) to record
+ */
+export interface WebhookFailure {
+  id: string;
+  event: string;
+  reason: string;
+  statusCode: number;
+  attempts: number;
+  failedAt: Date;
+  shopName?: string;
+  topic?: string;
+}
+
+/**
+ * Narrows the dead letters to replay; every criterion given must match
+ */
+export interface DeadLetterFilter {
+  shopName?: string;
+  topic?: string;
+  /**
+   * Inclusive bounds on when the event last failed
+   */
+  failedFrom?: Date;
+  failedTo?: Date;
+  /**
+   * Replayed entries are left out unless asked for
+   */
+  includeReplayed?: boolean;
+}
+
+/**
+ * Outbound port for webhook events that failed processing
+ */
+export interface DeadLetterRepository {
+  /**
+   * Add a failure to the event's entry, creating it on the first failure
+   * Attempts accumulate and the latest reason wins
+   */
+  record(failure: WebhookFailure): Promise<DeadLetteredWebhook>;
+
+  get(id: string): Promise<DeadLetteredWebhook | null>;
+
+  /**
+   * Matching entries, oldest failure first
+   */
+  list(filter: DeadLetterFilter): Promise<DeadLetteredWebhook[]>;
+
+  markReplayed(id: string, replayedAt: Date): Promise<void>;
+}
@@ -0,0 +1,30 @@
+/**
+ * Result of claiming a delivery's keys
+ * `in_progress` means another attempt holds the claim and has neither
+ * completed nor let its lease expire
+ */
+export type ClaimOutcome = "claimed" | "in_progress" | "completed";
+
+/**
+ * Outbound port for recognising redelivered webhooks
+ * A claim is a short lease while the delivery is processed; only a
+ * completed delivery is remembered for the full window, so an attempt that
+ * dies mid-process does not make its redeliveries look like duplicates
+ */
+export interface DeduplicationStore {
+  /**
+   * Atomically lease all keys for processing
+   * Nothing is recorded unless every key was free or its lease had expired
+   */
+  claim(keys: string[]): Promise<ClaimOutcome>;
+
+  /**
+   * Remember claimed keys as processed for the full window
+   */
+  complete(keys: string[]): Promise<void>;
+
+  /**
+   * Forget keys claimed by a delivery that failed, so a retry is processed
+   */
+  release(keys: string[]): Promise<void>;
+}
@@ -0,0 +1,8 @@
+import { DomainEvent } from "../events/DomainEvent";
+
+/**
+ * Outbound port for announcing domain events to other services
+ */
+export interface EventPublisher {
+  publish(event: DomainEvent): Promise<void>;
+}
@@ -0,0 +1,21 @@
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { VariantMapping } from "../entities/VariantMapping";
+
+/**
+ * A record read from an inventory export, tagged with the export line it
+ * came from so a run can resume after the last line stored
+ * "item" links an inventory item to its variant, "level" is stock at one
+ * location, and "invalid" is a line that could not be read
+ */
+export type InventoryExportRecord =
+  | { line: number; kind: "item"; mapping: VariantMapping }
+  | { line: number; kind: "level"; level: InventoryLevel }
+  | { line: number; kind: "invalid"; reason: string };
+
+/**
+ * Outbound port for reading a shop's inventory from a full export
+ * Records are yielded in export order, each item before its levels
+ */
+export interface InventoryExportReader {
+  read(shopName: string): AsyncIterable<InventoryExportRecord>;
+}
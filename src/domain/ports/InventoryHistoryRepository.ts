@@ -0,0 +1,26 @@
+import { InventoryHistoryEntry } from "../entities/InventoryHistoryEntry";
+
+/**
+ * Filters for reading a variant's history
+ * `from` and `to` are inclusive bounds on the change time
+ */
+export interface InventoryHistoryQuery {
+  shopName: string;
+  variantId: number;
+  locationId?: number;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+/**
+ * Outbound port for reading the append-only inventory history ledger
+ * Entries are appended by InventoryRepository writes, atomically with the
+ * level they record
+ */
+export interface InventoryHistoryRepository {
+  /**
+   * Entries matching the query, oldest change first
+   */
+  query(query: InventoryHistoryQuery): Promise<InventoryHistoryEntry[]>;
+}
@@ -0,0 +1,31 @@
+import { InventoryItem } from "../entities/InventoryItem";
+import { SaveOutcome } from "./InventoryRepository";
+
+/**
+ * Outbound port for the inventory item catalog
+ */
+export interface InventoryItemRepository {
+  /**
+   * Save or update an item
+   * Only applies when the item is newer than what is stored and has not
+   * been deleted
+   */
+  save(item: InventoryItem): Promise<SaveOutcome>;
+
+  /**
+   * Tombstone an item so late create or update webhooks cannot restore it
+   */
+  markDeleted(
+    shopName: string,
+    inventoryItemId: number,
+    deletedAt: Date
+  ): Promise<void>;
+
+  /**
+   * Retrieve a catalog entry, or null if unknown or deleted
+   */
+  getByInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<InventoryItem | null>;
+}
@@ -1,4 +1,35 @@
 import { InventoryLevel } from "../entities/InventoryLevel";
+import { VariantInventoryTotal } from "../entities/VariantInventoryTotal";
+
+/**
+ * Result of a write: "stale" means a newer update was already stored
+ * and the incoming one was skipped
+ */
+export type SaveOutcome = "saved" | "stale";
+
+/**
+ * Outcome of an inventory level write, with the stock it replaced
+ */
+export interface SaveResult {
+  outcome: SaveOutcome;
+  /**
+   * Stock stored before the write; null when the level did not exist or
+   * was disconnected. Always null for stale writes
+   */
+  previousAvailable: number | null;
+}
+
+/**
+ * Where an accepted change came from, for its history ledger entry
+ */
+export interface ChangeSource {
+  /**
+   * When the change was written
+   */
+  recordedAt: Date;
+  eventId?: string;
+  topic?: string;
+}
 
 /**
  * Outbound port for inventory persistence
@@ -7,13 +38,42 @@ import { InventoryLevel } from "../entities/InventoryLevel";
 export interface InventoryRepository {
   /**
    * Save or update an inventory level
+   * Only applies when the level is newer than what is already stored.
+   * The variant's total is updated in the same atomic write, as is the
+   * history ledger when a source is given
    */
-  save(inventory: InventoryLevel): Promise<void>;
+  save(inventory: InventoryLevel, source?: ChangeSource): Promise<SaveResult>;
 
   /**
    * Save multiple inventory levels
+   * Results are returned in the same order as the input
    */
-  saveMany(inventories: InventoryLevel[]): Promise<void>;
+  saveMany(inventories: InventoryLevel[]): Promise<SaveResult[]>;
+
+  /**
+   * Remove a level when its item is disconnected from the location
+   * Leaves a tombstone dated `deletedAt` so updates older than the
+   * disconnect cannot recreate it; reads treat the level as absent.
+   * The level's stock leaves the variant's total, and the removal is
+   * recorded in the history ledger when a source is given
+   */
+  delete(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    deletedAt: Date,
+    source?: ChangeSource
+  ): Promise<SaveResult>;
+
+  /**
+   * Flag every stored level of a variant as orphaned
+   * Returns the number of levels marked
+   */
+  markOrphaned(
+    shopName: string,
+    variantId: number,
+    orphanedAt: Date
+  ): Promise<number>;
 
   /**
    * Retrieve inventory by shop and variant
@@ -31,4 +91,14 @@ export interface InventoryRepository {
     variantId: number,
     locationId: number
   ): Promise<InventoryLevel | null>;
+
+  /**
+   * Retrieve a variant's stock totalled over its connected locations, or
+   * null if no level was ever saved for it. Unlike the sellable total, it
+   * includes orphaned stock and stock at inactive or deleted locations
+   */
+  getVariantTotal(
+    shopName: string,
+    variantId: number
+  ): Promise<VariantInventoryTotal | null>;
 }
@@ -0,0 +1,37 @@
+import { Location } from "../entities/Location";
+import { SaveOutcome } from "./InventoryRepository";
+
+/**
+ * Outbound port for the location catalog
+ */
+export interface LocationRepository {
+  /**
+   * Save or update a location
+   * Only applies when the location is newer than what is stored and has
+   * not been deleted
+   */
+  save(location: Location): Promise<SaveOutcome>;
+
+  /**
+   * Tombstone a location so late create or update webhooks cannot
+   * restore it
+   */
+  markDeleted(
+    shopName: string,
+    locationId: number,
+    deletedAt: Date
+  ): Promise<void>;
+
+  /**
+   * Retrieve every known location of a shop, including deleted ones
+   */
+  getByShop(shopName: string): Promise<Location[]>;
+
+  /**
+   * Retrieve a location, including a deleted one, or null if unknown
+   */
+  getByShopAndLocation(
+    shopName: string,
+    locationId: number
+  ): Promise<Location | null>;
+}
@@ -0,0 +1,20 @@
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Outbound port for structured logging
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+
+  /**
+   * Run work with fields, such as a request or event ID, added to every
+   * line logged while it runs, by any component sharing this logger
+   * Nested contexts add to the enclosing one
+   */
+  withContext<T>(fields: LogFields, work: () => Promise<T>): Promise<T>;
+}
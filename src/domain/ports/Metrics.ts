@@ -0,0 +1,22 @@
+/**
+ * Dimensions a metric is broken down by, such as shop and topic
+ * Dimensions left undefined are omitted
+ */
+export type MetricDimensions = Record<string, string | undefined>;
+
+export type MetricUnit = "Count" | "Milliseconds";
+
+/**
+ * Outbound port for operational metrics
+ */
+export interface Metrics {
+  /**
+   * Count occurrences, once unless a count is given
+   */
+  count(name: string, dimensions: MetricDimensions, value?: number): void;
+
+  /**
+   * Record how long something took or how far behind it is
+   */
+  duration(name: string, milliseconds: number, dimensions: MetricDimensions): void;
+}
@@ -0,0 +1,33 @@
+import type { WebhookInventoryLevelDTO } from "../usecases/ProcessInventoryWebhookUseCase";
+
+/**
+ * Outbound port for inventory updates waiting on a variant mapping
+ * Only the newest pending update per inventory item and location is kept
+ */
+export interface PendingInventoryUpdateRepository {
+  defer(shopName: string, update: WebhookInventoryLevelDTO): Promise<void>;
+
+  /**
+   * Drop the pending update for one location, if any
+   */
+  discard(
+    shopName: string,
+    inventoryItemId: number,
+    locationId: number
+  ): Promise<void>;
+
+  /**
+   * Every pending update for an inventory item, left in place until each
+   * one is removed after it has been applied
+   * Must see every update already deferred
+   */
+  findForInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<WebhookInventoryLevelDTO[]>;
+
+  /**
+   * Drop a pending update once applied, unless a newer one replaced it
+   */
+  remove(shopName: string, update: WebhookInventoryLevelDTO): Promise<void>;
+}
@@ -0,0 +1,12 @@
+/**
+ * Outbound port for secret retrieval
+ * Keeps secrets out of configuration and lets adapters cache and rotate them
+ */
+export interface SecretProvider {
+  /**
+   * Resolve a secret by name
+   * forceRefresh bypasses the cache, e.g. after a verification failure
+   * that may be caused by a rotated secret
+   */
+  getSecret(name: string, options?: { forceRefresh?: boolean }): Promise<string>;
+}
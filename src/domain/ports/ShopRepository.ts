@@ -0,0 +1,16 @@
+import { Shop } from "../entities/Shop";
+
+/**
+ * Outbound port for the registry of installed shops
+ */
+export interface ShopRepository {
+  /**
+   * Register a shop or replace its configuration
+   */
+  save(shop: Shop): Promise<void>;
+
+  /**
+   * Retrieve a shop by its normalized domain, or null if never installed
+   */
+  getByShopName(shopName: string): Promise<Shop | null>;
+}
@@ -0,0 +1,39 @@
+/**
+ * Stock of an inventory item at one location, as Shopify holds it
+ */
+export interface ShopifyInventoryLevel {
+  locationId: number;
+  available: number;
+  updatedAt: Date;
+}
+
+/**
+ * A variant with every inventory level of its inventory item
+ */
+export interface ShopifyVariantInventory {
+  variantId: number;
+  inventoryItemId: number;
+  levels: ShopifyInventoryLevel[];
+}
+
+export interface ShopifyInventoryLevelPage {
+  variants: ShopifyVariantInventory[];
+  /**
+   * Pass to the next call to continue; null on the last page
+   */
+  nextCursor: string | null;
+}
+
+/**
+ * Outbound port for reading a shop's current state from the Shopify
+ * Admin API, the source of truth webhooks only report changes to
+ */
+export interface ShopifyAdminClient {
+  /**
+   * Read one page of a shop's inventory levels, grouped by variant
+   */
+  listInventoryLevels(
+    shopName: string,
+    cursor?: string
+  ): Promise<ShopifyInventoryLevelPage>;
+}
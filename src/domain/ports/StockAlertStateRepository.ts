@@ -0,0 +1,47 @@
+import { StockStatus } from "../entities/StockThreshold";
+import { SaveOutcome } from "./InventoryRepository";
+
+/**
+ * Result of recording a stock status
+ * `previousStatus` is null when no status was stored for the level
+ */
+export interface StatusTransition {
+  outcome: SaveOutcome;
+  previousStatus: StockStatus | null;
+}
+
+/**
+ * Last recorded stock status of a level, as of the change it was
+ * recorded for
+ */
+export interface StockAlertState {
+  status: StockStatus;
+  changedAt: Date;
+}
+
+/**
+ * Outbound port for the last alerted stock status of each level
+ */
+export interface StockAlertStateRepository {
+  /**
+   * The level's recorded status, or null when none was recorded
+   */
+  get(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<StockAlertState | null>;
+
+  /**
+   * Record a level's status as of a change
+   * Only applies when the change is newer than the stored one, so
+   * redelivered and out-of-order webhooks come back stale
+   */
+  transition(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    status: StockStatus,
+    changedAt: Date
+  ): Promise<StatusTransition>;
+}
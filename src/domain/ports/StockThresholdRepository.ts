@@ -0,0 +1,21 @@
+import { StockThreshold } from "../entities/StockThreshold";
+
+/**
+ * Outbound port for low-stock threshold configuration
+ */
+export interface StockThresholdRepository {
+  /**
+   * Create or replace the threshold for the threshold's scope
+   */
+  save(threshold: StockThreshold): Promise<void>;
+
+  /**
+   * Retrieve every threshold that covers a variant at a location, in any
+   * scope; empty when alerting is not configured for it
+   */
+  getApplicable(
+    shopName: string,
+    variantId: number,
+    locationId: number
+  ): Promise<StockThreshold[]>;
+}
@@ -0,0 +1,20 @@
+import { VariantMapping } from "../entities/VariantMapping";
+
+/**
+ * Outbound port for inventory item → variant mappings
+ */
+export interface VariantMappingRepository {
+  /**
+   * Save mappings, keeping any stored mapping with a newer updatedAt
+   */
+  saveMany(mappings: VariantMapping[]): Promise<void>;
+
+  /**
+   * Find the variant an inventory item belongs to
+   * Must see every mapping already saved
+   */
+  getByInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<VariantMapping | null>;
+}
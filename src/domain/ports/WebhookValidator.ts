@@ -1,3 +1,36 @@
+/**
+ * How a webhook reached us; each channel is authenticated differently
+ */
+export type WebhookChannel = "eventbridge" | "http";
+
+/**
+ * Everything an authentication strategy may need to verify a webhook
+ */
+export interface WebhookAuthenticationRequest {
+  channel: WebhookChannel;
+  /**
+   * Exact bytes received, decoded as UTF-8; HMACs are computed over these
+   */
+  rawBody: string;
+  signature: string | undefined;
+  /**
+   * Shop the webhook claims to come from, used to select per-shop secrets
+   */
+  shopDomain?: string;
+  /**
+   * Secret registered for the shop, replacing the configured ones
+   */
+  webhookSecretName?: string;
+  /**
+   * EventBridge `source` of the delivering event
+   */
+  eventSource?: string;
+  /**
+   * AWS account the EventBridge event was delivered to
+   */
+  account?: string;
+}
+
 /**
  * Outbound port for webhook validation
  * Abstracts signature verification from domain logic
@@ -5,7 +38,7 @@
 export interface WebhookValidator {
   /**
    * Verify the authenticity of a webhook
-   * Returns true if valid, false otherwise
+   * Resolves true if valid, false otherwise
    */
-  validate(body: string, signature: string | undefined): boolean;
+  validate(request: WebhookAuthenticationRequest): Promise<boolean>;
 }
@@ -0,0 +1,41 @@
+import { Shop } from "../entities/Shop";
+import { ShopAccessError } from "../errors/ShopAccessError";
+import { ShopRepository } from "../ports/ShopRepository";
+
+/**
+ * Domain service deciding which shops' webhooks are processed
+ */
+export class ShopRegistry {
+  constructor(private shopRepository: ShopRepository) {}
+
+  /**
+   * Look up an active shop, throwing ShopAccessError with the reason it
+   * cannot send webhooks otherwise
+   */
+  async requireActive(shopName: string): Promise<Shop> {
+    return this.ensureActive(shopName, await this.find(shopName));
+  }
+
+  /**
+   * Look up a shop whatever its status, so a webhook can be authenticated
+   * with the shop's own secret before its status is revealed
+   */
+  async find(shopName: string): Promise<Shop | null> {
+    return this.shopRepository.getByShopName(shopName);
+  }
+
+  /**
+   * The shop found for `shopName` if it may send webhooks, otherwise throws
+   * ShopAccessError with the reason
+   */
+  ensureActive(shopName: string, shop: Shop | null): Shop {
+    if (!shop) {
+      throw new ShopAccessError(`Shop is not registered: ${shopName}`, shopName);
+    }
+    if (!shop.isActive()) {
+      throw new ShopAccessError(`Shop is ${shop.status}: ${shopName}`, shopName);
+    }
+
+    return shop;
+  }
+}
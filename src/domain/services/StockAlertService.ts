@@ -0,0 +1,74 @@
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { StockAlert } from "../entities/StockAlert";
+import { AlertNotifier } from "../ports/AlertNotifier";
+import { StockAlertStateRepository } from "../ports/StockAlertStateRepository";
+import { StockThresholdRepository } from "../ports/StockThresholdRepository";
+
+/**
+ * Domain service raising alerts when saved stock crosses a threshold
+ * The status is recorded only once the alert is sent, so an alert that
+ * fails to send is sent again when the change is retried. A change already
+ * recorded does not alert again
+ */
+export class StockAlertService {
+  constructor(
+    private thresholdRepository: StockThresholdRepository,
+    private stateRepository: StockAlertStateRepository,
+    private notifier: AlertNotifier
+  ) {}
+
+  /**
+   * Returns the alert sent, or null when the status did not change
+   */
+  async evaluate(level: InventoryLevel): Promise<StockAlert | null> {
+    const thresholds = await this.thresholdRepository.getApplicable(
+      level.shopName,
+      level.variantId,
+      level.locationId
+    );
+    if (thresholds.length === 0) {
+      return null;
+    }
+
+    const threshold = thresholds.reduce((best, candidate) =>
+      candidate.specificity > best.specificity ? candidate : best
+    );
+    const status = threshold.statusFor(level.available);
+
+    const state = await this.stateRepository.get(
+      level.shopName,
+      level.variantId,
+      level.locationId
+    );
+    if (state && state.changedAt >= level.updatedAt) {
+      return null;
+    }
+
+    // Levels start out in stock, so only a first sighting below the
+    // threshold alerts
+    const previous = state?.status ?? "in_stock";
+    let alert: StockAlert | null = null;
+    if (previous !== status) {
+      alert = new StockAlert(
+        level.shopName,
+        level.variantId,
+        level.locationId,
+        status,
+        previous,
+        level.available,
+        threshold.lowStock,
+        level.updatedAt
+      );
+      await this.notifier.notify(alert);
+    }
+
+    await this.stateRepository.transition(
+      level.shopName,
+      level.variantId,
+      level.locationId,
+      status,
+      level.updatedAt
+    );
+    return alert;
+  }
+}
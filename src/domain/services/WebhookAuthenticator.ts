@@ -0,0 +1,64 @@
+import { AuthenticationError } from "../errors/AuthenticationError";
+import { AuthenticationUnavailableError } from "../errors/AuthenticationUnavailableError";
+import { WebhookChannel, WebhookValidator } from "../ports/WebhookValidator";
+
+/**
+ * Delivery details every webhook use case receives for authentication
+ */
+export interface AuthenticatedWebhookRequest {
+  shopName: string;
+  rawBody: string;
+  signature: string | undefined;
+  /**
+   * Secret the shop signs its webhooks with, when it has its own
+   */
+  webhookSecretName?: string;
+  /**
+   * Delivery channel, selects the authentication strategy (default "http")
+   */
+  channel?: WebhookChannel;
+  eventSource?: string;
+  account?: string;
+}
+
+/**
+ * Domain service shared by webhook use cases to verify authenticity
+ * Fails closed: a validator error, such as an unreachable secret store,
+ * is reported as AuthenticationUnavailableError so the webhook is retried
+ * rather than processed or dropped
+ */
+export class WebhookAuthenticator {
+  constructor(private webhookValidator: WebhookValidator) {}
+
+  async authenticate(request: AuthenticatedWebhookRequest): Promise<void> {
+    const channel = request.channel ?? "http";
+    let isValid: boolean;
+
+    try {
+      isValid = await this.webhookValidator.validate({
+        channel,
+        rawBody: request.rawBody,
+        signature: request.signature,
+        shopDomain: request.shopName,
+        webhookSecretName: request.webhookSecretName,
+        eventSource: request.eventSource,
+        account: request.account,
+      });
+    } catch (error) {
+      throw new AuthenticationUnavailableError(
+        `Unable to verify webhook: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        error
+      );
+    }
+
+    if (!isValid) {
+      throw new AuthenticationError(
+        channel === "eventbridge"
+          ? "Invalid webhook source"
+          : "Invalid webhook signature"
+      );
+    }
+  }
+}
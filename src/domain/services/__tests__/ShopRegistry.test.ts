@@ -0,0 +1,51 @@
+import { ShopRegistry } from "../ShopRegistry";
+import { Shop } from "../../entities/Shop";
+import { ShopAccessError } from "../../errors/ShopAccessError";
+
+describe("ShopRegistry", () => {
+  const SHOP = "myshop.myshopify.com";
+  const updatedAt = new Date("2024-01-15T10:30:00Z");
+
+  let getByShopName: jest.Mock;
+  let registry: ShopRegistry;
+
+  beforeEach(() => {
+    getByShopName = jest.fn();
+    registry = new ShopRegistry({ getByShopName, save: jest.fn() });
+  });
+
+  it("should return an active shop", async () => {
+    const shop = new Shop(SHOP, "active", updatedAt);
+    getByShopName.mockResolvedValue(shop);
+
+    await expect(registry.requireActive(SHOP)).resolves.toBe(shop);
+    expect(getByShopName).toHaveBeenCalledWith(SHOP);
+  });
+
+  it("should reject an unknown shop", async () => {
+    getByShopName.mockResolvedValue(null);
+
+    const rejection = registry.requireActive(SHOP);
+
+    await expect(rejection).rejects.toBeInstanceOf(ShopAccessError);
+    await expect(rejection).rejects.toThrow(`Shop is not registered: ${SHOP}`);
+  });
+
+  it.each(["suspended", "uninstalled"] as const)(
+    "should reject a %s shop",
+    async (status) => {
+      getByShopName.mockResolvedValue(new Shop(SHOP, status, updatedAt));
+
+      await expect(registry.requireActive(SHOP)).rejects.toThrow(
+        `Shop is ${status}: ${SHOP}`
+      );
+    }
+  );
+
+  it("should find a shop whatever its status", async () => {
+    const shop = new Shop(SHOP, "suspended", updatedAt);
+    getByShopName.mockResolvedValue(shop);
+
+    await expect(registry.find(SHOP)).resolves.toBe(shop);
+  });
+});
@@ -0,0 +1,152 @@
+import { StockAlertService } from "../StockAlertService";
+import { InventoryLevel } from "../../entities/InventoryLevel";
+import { StockAlert } from "../../entities/StockAlert";
+import { StockThreshold } from "../../entities/StockThreshold";
+
+describe("StockAlertService", () => {
+  const changedAt = new Date("2024-01-15T10:30:00Z");
+  const level = (available: number) =>
+    new InventoryLevel("myshop", 55555, 789, available, changedAt, 12345);
+
+  let getApplicable: jest.Mock;
+  let getState: jest.Mock;
+  let transition: jest.Mock;
+  let notify: jest.Mock;
+  let service: StockAlertService;
+
+  beforeEach(() => {
+    getApplicable = jest
+      .fn()
+      .mockResolvedValue([new StockThreshold("myshop", 5)]);
+    getState = jest.fn().mockResolvedValue({
+      status: "in_stock",
+      changedAt: new Date("2024-01-15T09:00:00Z"),
+    });
+    transition = jest
+      .fn()
+      .mockResolvedValue({ outcome: "saved", previousStatus: "in_stock" });
+    notify = jest.fn().mockResolvedValue(undefined);
+    service = new StockAlertService(
+      { getApplicable, save: jest.fn() },
+      { get: getState, transition },
+      { notify }
+    );
+  });
+
+  it("should alert when stock drops below the threshold", async () => {
+    const alert = await service.evaluate(level(3));
+
+    const expected = new StockAlert(
+      "myshop",
+      55555,
+      789,
+      "low_stock",
+      "in_stock",
+      3,
+      5,
+      changedAt
+    );
+    expect(alert).toEqual(expected);
+    expect(notify).toHaveBeenCalledWith(expected);
+    expect(transition).toHaveBeenCalledWith(
+      "myshop",
+      55555,
+      789,
+      "low_stock",
+      changedAt
+    );
+  });
+
+  it("should send a recovery notice when stock comes back", async () => {
+    getState.mockResolvedValue({
+      status: "sold_out",
+      changedAt: new Date("2024-01-15T09:00:00Z"),
+    });
+
+    const alert = await service.evaluate(level(20));
+
+    expect(alert?.status).toBe("in_stock");
+    expect(alert?.isRecovery()).toBe(true);
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not alert while the status is unchanged", async () => {
+    getState.mockResolvedValue({
+      status: "low_stock",
+      changedAt: new Date("2024-01-15T09:00:00Z"),
+    });
+
+    expect(await service.evaluate(level(2))).toBeNull();
+    expect(notify).not.toHaveBeenCalled();
+    expect(transition).toHaveBeenCalled();
+  });
+
+  it("should not alert for a change already recorded", async () => {
+    getState.mockResolvedValue({ status: "in_stock", changedAt });
+
+    expect(await service.evaluate(level(0))).toBeNull();
+    expect(notify).not.toHaveBeenCalled();
+    expect(transition).not.toHaveBeenCalled();
+  });
+
+  it("should not alert for a change older than the recorded one", async () => {
+    getState.mockResolvedValue({
+      status: "in_stock",
+      changedAt: new Date("2024-01-15T11:00:00Z"),
+    });
+
+    expect(await service.evaluate(level(0))).toBeNull();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("should treat a level seen for the first time as in stock", async () => {
+    getState.mockResolvedValue(null);
+
+    expect(await service.evaluate(level(50))).toBeNull();
+    expect((await service.evaluate(level(0)))?.status).toBe("sold_out");
+  });
+
+  it("should use the most specific threshold", async () => {
+    getApplicable.mockResolvedValue([
+      new StockThreshold("myshop", 5),
+      new StockThreshold("myshop", 20, 55555, 789),
+      new StockThreshold("myshop", 10, 55555),
+      new StockThreshold("myshop", 1, undefined, 789),
+    ]);
+
+    const alert = await service.evaluate(level(15));
+
+    expect(alert?.status).toBe("low_stock");
+    expect(alert?.lowStockThreshold).toBe(20);
+  });
+
+  it("should do nothing when no threshold is configured", async () => {
+    getApplicable.mockResolvedValue([]);
+
+    expect(await service.evaluate(level(0))).toBeNull();
+    expect(transition).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it("should record the status only after the alert is sent", async () => {
+    const order: string[] = [];
+    notify.mockImplementation(async () => {
+      order.push("notify");
+    });
+    transition.mockImplementation(async () => {
+      order.push("transition");
+      return { outcome: "saved", previousStatus: "in_stock" };
+    });
+
+    await service.evaluate(level(0));
+
+    expect(order).toEqual(["notify", "transition"]);
+  });
+
+  it("should leave the status unrecorded when the alert fails", async () => {
+    notify.mockRejectedValue(new Error("SNS unavailable"));
+
+    await expect(service.evaluate(level(0))).rejects.toThrow("SNS unavailable");
+    expect(transition).not.toHaveBeenCalled();
+  });
+});
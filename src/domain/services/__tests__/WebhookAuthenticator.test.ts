@@ -0,0 +1,72 @@
+import { WebhookAuthenticator } from "../WebhookAuthenticator";
+import { AuthenticationError } from "../../errors/AuthenticationError";
+import { AuthenticationUnavailableError } from "../../errors/AuthenticationUnavailableError";
+
+describe("WebhookAuthenticator", () => {
+  const request = {
+    shopName: "myshop.myshopify.com",
+    rawBody: "raw",
+    signature: "sig",
+  };
+
+  let validate: jest.Mock;
+  let authenticator: WebhookAuthenticator;
+
+  beforeEach(() => {
+    validate = jest.fn().mockResolvedValue(true);
+    authenticator = new WebhookAuthenticator({ validate });
+  });
+
+  it("should pass the delivery details to the validator", async () => {
+    await authenticator.authenticate(request);
+
+    expect(validate).toHaveBeenCalledWith({
+      channel: "http",
+      rawBody: "raw",
+      signature: "sig",
+      shopDomain: "myshop.myshopify.com",
+      eventSource: undefined,
+      account: undefined,
+    });
+  });
+
+  it("should pass the shop's registered secret to the validator", async () => {
+    await authenticator.authenticate({
+      ...request,
+      webhookSecretName: "SHOP_SECRET",
+    });
+
+    expect(validate).toHaveBeenCalledWith(
+      expect.objectContaining({ webhookSecretName: "SHOP_SECRET" })
+    );
+  });
+
+  it("should reject an invalid signature", async () => {
+    validate.mockResolvedValue(false);
+
+    await expect(authenticator.authenticate(request)).rejects.toThrow(
+      new AuthenticationError("Invalid webhook signature")
+    );
+  });
+
+  it("should reject an untrusted EventBridge source", async () => {
+    validate.mockResolvedValue(false);
+
+    await expect(
+      authenticator.authenticate({ ...request, channel: "eventbridge" })
+    ).rejects.toThrow("Invalid webhook source");
+  });
+
+  it("should fail closed with a retryable error when the validator throws", async () => {
+    validate.mockRejectedValue(new Error("secret unavailable"));
+
+    const rejection = authenticator.authenticate(request);
+
+    await expect(rejection).rejects.toBeInstanceOf(
+      AuthenticationUnavailableError
+    );
+    await expect(rejection).rejects.toThrow(
+      "Unable to verify webhook: secret unavailable"
+    );
+  });
+});
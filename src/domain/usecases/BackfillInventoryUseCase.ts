@@ -0,0 +1,250 @@
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { normalizeShopDomain, Shop } from "../entities/Shop";
+import { VariantMapping } from "../entities/VariantMapping";
+import { BackfillCheckpointRepository } from "../ports/BackfillCheckpointRepository";
+import { InventoryExportReader } from "../ports/InventoryExportReader";
+import { InventoryRepository } from "../ports/InventoryRepository";
+import { VariantMappingRepository } from "../ports/VariantMappingRepository";
+import { ShopRegistry } from "../services/ShopRegistry";
+import { ProcessInventoryWebhookUseCase } from "./ProcessInventoryWebhookUseCase";
+import { WebhookDelivery } from "./WebhookDelivery";
+
+export const BACKFILL_TOPIC = "backfill";
+
+/**
+ * Records written per batch; the checkpoint moves after each batch
+ */
+const BATCH_SIZE = 100;
+const MAX_REPORTED_INVALID = 100;
+
+export interface BackfillInventoryRequest {
+  shopName: string;
+  source: InventoryExportReader;
+  /**
+   * Identifies the export, so a rerun resumes where the last run stopped
+   */
+  jobId: string;
+  /**
+   * Ignore any checkpoint and start from the first line (default false)
+   */
+  restart?: boolean;
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillProgress {
+  /**
+   * Last export line stored
+   */
+  line: number;
+  itemsMapped: number;
+  levelsSaved: number;
+  /**
+   * Levels not written because a newer level was already stored
+   */
+  levelsStale: number;
+  /**
+   * Levels at locations the shop does not track
+   */
+  levelsSkipped: number;
+  /**
+   * Deferred webhook updates applied once their item was mapped
+   */
+  deferredReplayed: number;
+  invalidRecords: number;
+}
+
+export interface BackfillReport extends BackfillProgress {
+  shopName: string;
+  jobId: string;
+  /**
+   * Line the run resumed after; 0 when it started from the beginning
+   */
+  resumedAfterLine: number;
+  /**
+   * The first invalid records, with the reason each was not stored
+   */
+  invalid: Array<{ line: number; reason: string }>;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+interface Batch {
+  mappings: VariantMapping[];
+  levels: InventoryLevel[];
+  /**
+   * Last line read into the batch
+   */
+  line: number;
+}
+
+/**
+ * Use case seeding a shop's stored inventory from a full export, such as
+ * a Shopify bulk operation result
+ * Levels are written newer-only, so stock changed by webhooks since the
+ * export was taken is kept. Seeding is not a change: no history entries,
+ * events or alerts are recorded for backfilled levels
+ */
+export class BackfillInventoryUseCase {
+  constructor(
+    private inventoryRepository: InventoryRepository,
+    private mappingRepository: VariantMappingRepository,
+    private checkpointRepository: BackfillCheckpointRepository,
+    private shopRegistry: ShopRegistry,
+    private inventoryUseCase: ProcessInventoryWebhookUseCase,
+    private now: () => number = Date.now
+  ) {}
+
+  async execute(request: BackfillInventoryRequest): Promise<BackfillReport> {
+    const shopName = normalizeShopDomain(request.shopName);
+    const shop = await this.shopRegistry.requireActive(shopName);
+    const startedAt = new Date(this.now());
+
+    const checkpoint = request.restart
+      ? null
+      : await this.checkpointRepository.get(request.jobId);
+    const resumedAfterLine = checkpoint?.line ?? 0;
+
+    const report: BackfillReport = {
+      shopName,
+      jobId: request.jobId,
+      resumedAfterLine,
+      line: resumedAfterLine,
+      itemsMapped: 0,
+      levelsSaved: 0,
+      levelsStale: 0,
+      levelsSkipped: 0,
+      deferredReplayed: 0,
+      invalidRecords: 0,
+      invalid: [],
+      startedAt,
+      completedAt: startedAt,
+    };
+    const delivery: WebhookDelivery = {
+      eventId: `${BACKFILL_TOPIC}:${startedAt.toISOString()}`,
+      topic: BACKFILL_TOPIC,
+    };
+
+    let batch: Batch = { mappings: [], levels: [], line: resumedAfterLine };
+
+    // The whole export is read even when resuming: earlier lines hold the
+    // items later levels belong to
+    for await (const record of request.source.read(shopName)) {
+      if (record.line <= resumedAfterLine) {
+        continue;
+      }
+      batch.line = record.line;
+
+      switch (record.kind) {
+        case "item":
+          batch.mappings.push(record.mapping);
+          break;
+        case "level":
+          if (shop.tracksLocation(record.level.locationId)) {
+            batch.levels.push(record.level);
+          } else {
+            report.levelsSkipped++;
+          }
+          break;
+        case "invalid":
+          report.invalidRecords++;
+          if (report.invalid.length < MAX_REPORTED_INVALID) {
+            report.invalid.push({ line: record.line, reason: record.reason });
+          }
+          break;
+      }
+
+      if (batch.mappings.length + batch.levels.length >= BATCH_SIZE) {
+        await this.flush(batch, shop, delivery, report, request);
+        batch = { mappings: [], levels: [], line: batch.line };
+      }
+    }
+
+    await this.flush(batch, shop, delivery, report, request, true);
+
+    report.completedAt = new Date(this.now());
+    return report;
+  }
+
+  /**
+   * Mappings go first so webhooks arriving mid-run can already be keyed,
+   * then the checkpoint moves past everything the batch held
+   */
+  private async flush(
+    batch: Batch,
+    shop: Shop,
+    delivery: WebhookDelivery,
+    report: BackfillReport,
+    request: BackfillInventoryRequest,
+    completed = false
+  ): Promise<void> {
+    if (batch.mappings.length > 0) {
+      await this.mappingRepository.saveMany(batch.mappings);
+      report.itemsMapped += batch.mappings.length;
+
+      const replayed = await Promise.all(
+        batch.mappings.map((mapping) =>
+          this.inventoryUseCase.replayDeferred(
+            mapping.shopName,
+            mapping.inventoryItemId,
+            mapping.variantId,
+            delivery,
+            shop
+          )
+        )
+      );
+      replayed.forEach((result) => {
+        report.deferredReplayed += result.processedCount;
+      });
+    }
+
+    for (const round of byDistinctVariant(batch.levels)) {
+      const results = await this.inventoryRepository.saveMany(round);
+      results.forEach((result) => {
+        if (result.outcome === "saved") {
+          report.levelsSaved++;
+        } else {
+          report.levelsStale++;
+        }
+      });
+    }
+
+    report.line = batch.line;
+    await this.checkpointRepository.save({
+      jobId: request.jobId,
+      shopName: shop.shopName,
+      line: batch.line,
+      completed,
+      updatedAt: new Date(this.now()),
+    });
+
+    request.onProgress?.({
+      line: report.line,
+      itemsMapped: report.itemsMapped,
+      levelsSaved: report.levelsSaved,
+      levelsStale: report.levelsStale,
+      levelsSkipped: report.levelsSkipped,
+      deferredReplayed: report.deferredReplayed,
+      invalidRecords: report.invalidRecords,
+    });
+  }
+}
+
+/**
+ * Split levels into rounds holding at most one level per variant, since
+ * levels of the same variant contend for its total when written together
+ */
+function byDistinctVariant(levels: InventoryLevel[]): InventoryLevel[][] {
+  const rounds: InventoryLevel[][] = [];
+  const roundsPerVariant = new Map<number, number>();
+
+  levels.forEach((level) => {
+    const index = roundsPerVariant.get(level.variantId) ?? 0;
+    roundsPerVariant.set(level.variantId, index + 1);
+    if (!rounds[index]) {
+      rounds[index] = [];
+    }
+    rounds[index].push(level);
+  });
+
+  return rounds;
+}
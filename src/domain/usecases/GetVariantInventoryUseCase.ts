@@ -0,0 +1,104 @@
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { Location } from "../entities/Location";
+import { InventoryRepository } from "../ports/InventoryRepository";
+import { LocationRepository } from "../ports/LocationRepository";
+
+export interface GetVariantInventoryRequest {
+  shopName: string;
+  variantId: number;
+}
+
+export interface GetInventoryLevelRequest extends GetVariantInventoryRequest {
+  locationId: number;
+}
+
+/**
+ * An inventory level joined with its location's catalog entry
+ */
+export interface LocatedInventoryLevel {
+  level: InventoryLevel;
+  /**
+   * Null when no locations/* webhook has described the location yet
+   */
+  location: Location | null;
+  sellable: boolean;
+}
+
+export interface VariantInventory {
+  shopName: string;
+  variantId: number;
+  levels: LocatedInventoryLevel[];
+  /**
+   * Stock summed over sellable levels only
+   */
+  sellableTotal: number;
+}
+
+/**
+ * Use case reading a variant's stock with location metadata attached
+ * Stock at inactive or deleted locations, and stock of deleted inventory
+ * items, is listed but excluded from the sellable total
+ */
+export class GetVariantInventoryUseCase {
+  constructor(
+    private inventoryRepository: InventoryRepository,
+    private locationRepository: LocationRepository
+  ) {}
+
+  async execute(request: GetVariantInventoryRequest): Promise<VariantInventory> {
+    const { shopName, variantId } = request;
+    const [levels, locations] = await Promise.all([
+      this.inventoryRepository.getByShopAndVariant(shopName, variantId),
+      this.locationRepository.getByShop(shopName),
+    ]);
+
+    const locationsById = new Map(
+      locations.map((location) => [location.locationId, location])
+    );
+
+    const located = levels.map((level) => {
+      const location = locationsById.get(level.locationId) ?? null;
+      return { level, location, sellable: isSellable(level, location) };
+    });
+
+    return {
+      shopName,
+      variantId,
+      levels: located,
+      sellableTotal: located
+        .filter((entry) => entry.sellable)
+        .reduce((total, entry) => total + entry.level.available, 0),
+    };
+  }
+
+  /**
+   * Read one location's level, or null when the variant is not stocked there
+   */
+  async getLevel(
+    request: GetInventoryLevelRequest
+  ): Promise<LocatedInventoryLevel | null> {
+    const { shopName, variantId, locationId } = request;
+    const [level, location] = await Promise.all([
+      this.inventoryRepository.getByShopVariantAndLocation(
+        shopName,
+        variantId,
+        locationId
+      ),
+      this.locationRepository.getByShopAndLocation(shopName, locationId),
+    ]);
+
+    if (!level) {
+      return null;
+    }
+
+    return { level, location, sellable: isSellable(level, location) };
+  }
+}
+
+/**
+ * Unknown locations count as sellable: inventory webhooks can arrive
+ * before the location's own webhook
+ */
+function isSellable(level: InventoryLevel, location: Location | null): boolean {
+  return !level.isOrphaned() && (location?.isSellable() ?? true);
+}
@@ -0,0 +1,68 @@
+import { InventoryHistoryEntry } from "../entities/InventoryHistoryEntry";
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { DEFAULT_SHOP_FEATURES } from "../entities/Shop";
+import { InventoryChanged } from "../events/InventoryChanged";
+import { EventPublisher } from "../ports/EventPublisher";
+import { Logger } from "../ports/Logger";
+import { ShopRegistry } from "../services/ShopRegistry";
+import { StockAlertService } from "../services/StockAlertService";
+
+/**
+ * Use case acting on a change recorded in the inventory history ledger:
+ * it publishes the change and raises any stock alert, as far as the shop's
+ * features allow
+ * Runs from the ledger's change stream rather than the webhook, so a
+ * change that fails here is delivered again instead of being lost.
+ * Consumers may see the same event more than once and should dedupe on
+ * `changeId`
+ */
+export class ProcessInventoryChangeUseCase {
+  constructor(
+    private shopRegistry: ShopRegistry,
+    private eventPublisher: EventPublisher,
+    private stockAlerts: StockAlertService,
+    private logger: Logger
+  ) {}
+
+  async execute(entry: InventoryHistoryEntry): Promise<void> {
+    const shop = await this.shopRegistry.find(entry.shopName);
+    const features = shop?.features ?? DEFAULT_SHOP_FEATURES;
+
+    if (features.inventoryEvents) {
+      await this.eventPublisher.publish(
+        new InventoryChanged(
+          entry.shopName,
+          entry.variantId,
+          entry.locationId,
+          entry.previousAvailable,
+          entry.newAvailable,
+          entry.changedAt,
+          entry.recordedAt,
+          entry.inventoryItemId,
+          entry.eventId,
+          entry.topic
+        )
+      );
+    }
+
+    // Removals leave no stock to alert on
+    if (features.stockAlerts && !entry.removed) {
+      await this.stockAlerts.evaluate(
+        new InventoryLevel(
+          entry.shopName,
+          entry.variantId,
+          entry.locationId,
+          entry.newAvailable,
+          entry.changedAt,
+          entry.inventoryItemId
+        )
+      );
+    }
+
+    this.logger.debug("Processed inventory change", {
+      variantId: entry.variantId,
+      locationId: entry.locationId,
+      eventId: entry.eventId,
+    });
+  }
+}
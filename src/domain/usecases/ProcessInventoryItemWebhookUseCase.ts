@@ -0,0 +1,182 @@
+import { InventoryItem } from "../entities/InventoryItem";
+import { InventoryItemRepository } from "../ports/InventoryItemRepository";
+import { InventoryRepository } from "../ports/InventoryRepository";
+import { PendingInventoryUpdateRepository } from "../ports/PendingInventoryUpdateRepository";
+import { VariantMappingRepository } from "../ports/VariantMappingRepository";
+import { WebhookValidator } from "../ports/WebhookValidator";
+import { DomainValidationError } from "../errors/DomainValidationError";
+import {
+  AuthenticatedWebhookRequest,
+  WebhookAuthenticator,
+} from "../services/WebhookAuthenticator";
+import { WebhookProcessingResult } from "./WebhookProcessingResult";
+
+/**
+ * Input DTO for inventory_items/create and inventory_items/update data
+ */
+export interface InventoryItemWebhookDTO {
+  id: number;
+  sku: string | null;
+  tracked: boolean;
+  cost?: string | null;
+  country_code_of_origin?: string | null;
+  requires_shipping: boolean;
+  updated_at: string;
+}
+
+/**
+ * Input DTO for inventory_items/delete data, which only carries the ID
+ */
+export interface InventoryItemDeleteWebhookDTO {
+  id: number;
+}
+
+export interface ProcessInventoryItemWebhookRequest
+  extends AuthenticatedWebhookRequest {
+  inventoryItem: InventoryItemWebhookDTO;
+}
+
+export interface DeleteInventoryItemWebhookRequest
+  extends AuthenticatedWebhookRequest {
+  inventoryItem: InventoryItemDeleteWebhookDTO;
+}
+
+/**
+ * Use case maintaining the inventory item catalog from inventory_items/*
+ * webhooks
+ */
+export class ProcessInventoryItemWebhookUseCase {
+  private authenticator: WebhookAuthenticator;
+
+  constructor(
+    webhookValidator: WebhookValidator,
+    private inventoryItemRepository: InventoryItemRepository,
+    private variantMappingRepository: VariantMappingRepository,
+    private inventoryRepository: InventoryRepository,
+    private pendingUpdateRepository: PendingInventoryUpdateRepository,
+    private now: () => number = Date.now
+  ) {
+    this.authenticator = new WebhookAuthenticator(webhookValidator);
+  }
+
+  async execute(
+    request: ProcessInventoryItemWebhookRequest
+  ): Promise<WebhookProcessingResult> {
+    await this.authenticator.authenticate(request);
+    const item = this.transformToEntity(request);
+
+    const outcome = await this.inventoryItemRepository.save(item);
+
+    if (outcome === "stale") {
+      return {
+        success: true,
+        processedCount: 0,
+        skippedCount: 1,
+        skipped: [
+          {
+            index: 0,
+            reason: `Stale update: stored item is newer than ${item.updatedAt.toISOString()} or deleted`,
+          },
+        ],
+        errors: [],
+      };
+    }
+
+    return {
+      success: true,
+      processedCount: 1,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    };
+  }
+
+  /**
+   * Tombstone the item and mark its stock as orphaned rather than leaving
+   * stale counts behind
+   */
+  async delete(
+    request: DeleteInventoryItemWebhookRequest
+  ): Promise<WebhookProcessingResult> {
+    await this.authenticator.authenticate(request);
+    this.validateShopName(request.shopName);
+
+    const { shopName } = request;
+    const inventoryItemId = request.inventoryItem.id;
+    if (inventoryItemId <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+
+    const deletedAt = new Date(this.now());
+    await this.inventoryItemRepository.markDeleted(
+      shopName,
+      inventoryItemId,
+      deletedAt
+    );
+
+    // Updates still waiting on a variant would otherwise be applied to a
+    // deleted item if a product webhook arrives later
+    const pending = await this.pendingUpdateRepository.findForInventoryItem(
+      shopName,
+      inventoryItemId
+    );
+    await Promise.all(
+      pending.map((update) =>
+        this.pendingUpdateRepository.discard(
+          shopName,
+          inventoryItemId,
+          update.location_id
+        )
+      )
+    );
+
+    const mapping = await this.variantMappingRepository.getByInventoryItem(
+      shopName,
+      inventoryItemId
+    );
+    if (mapping) {
+      await this.inventoryRepository.markOrphaned(
+        shopName,
+        mapping.variantId,
+        deletedAt
+      );
+    }
+
+    return {
+      success: true,
+      processedCount: 1,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    };
+  }
+
+  private validateShopName(shopName: string): void {
+    if (!shopName || shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+  }
+
+  private transformToEntity(
+    request: ProcessInventoryItemWebhookRequest
+  ): InventoryItem {
+    this.validateShopName(request.shopName);
+
+    const dto = request.inventoryItem;
+    const updatedAt = new Date(dto.updated_at);
+    if (isNaN(updatedAt.getTime())) {
+      throw new DomainValidationError(`Invalid date format for updated_at: ${dto.updated_at}`);
+    }
+
+    return new InventoryItem(
+      request.shopName,
+      dto.id,
+      dto.sku,
+      dto.tracked,
+      dto.cost ?? null,
+      dto.country_code_of_origin ?? null,
+      dto.requires_shipping,
+      updatedAt
+    );
+  }
+}
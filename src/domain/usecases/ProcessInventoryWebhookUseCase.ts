@@ -1,6 +1,23 @@
 import { InventoryLevel } from "../entities/InventoryLevel";
-import { InventoryRepository } from "../ports/InventoryRepository";
+import { Shop } from "../entities/Shop";
+import {
+  ChangeSource,
+  InventoryRepository,
+  SaveResult,
+} from "../ports/InventoryRepository";
 import { WebhookValidator } from "../ports/WebhookValidator";
+import { DomainValidationError } from "../errors/DomainValidationError";
+import { TransientStorageError } from "../errors/TransientStorageError";
+import { VariantMappingRepository } from "../ports/VariantMappingRepository";
+import { PendingInventoryUpdateRepository } from "../ports/PendingInventoryUpdateRepository";
+import { Logger } from "../ports/Logger";
+import { Metrics } from "../ports/Metrics";
+import {
+  AuthenticatedWebhookRequest,
+  WebhookAuthenticator,
+} from "../services/WebhookAuthenticator";
+import { WebhookDelivery } from "./WebhookDelivery";
+import { WebhookProcessingResult } from "./WebhookProcessingResult";
 
 /**
  * Input DTO for webhook data
@@ -12,99 +29,502 @@ export interface WebhookInventoryLevelDTO {
   updated_at: string;
 }
 
-export interface ProcessInventoryWebhookRequest {
-  shopName: string;
-  rawBody: string;
-  signature: string | undefined;
+/**
+ * Input DTO for inventory_levels/connect data
+ * `available` is usually absent or null for a newly stocked location
+ */
+export interface WebhookInventoryLevelConnectDTO {
+  inventory_item_id: number;
+  location_id: number;
+  available?: number | null;
+  updated_at: string;
+}
+
+/**
+ * Input DTO for inventory_levels/disconnect data, which carries no
+ * timestamp
+ */
+export interface WebhookInventoryLevelDisconnectDTO {
+  inventory_item_id: number;
+  location_id: number;
+}
+
+/**
+ * Registry entry of the sending shop; without one every location is
+ * tracked and every feature is on
+ */
+export interface ShopScopedRequest {
+  shop?: Shop;
+}
+
+export interface ProcessInventoryWebhookRequest
+  extends AuthenticatedWebhookRequest,
+    WebhookDelivery,
+    ShopScopedRequest {
   inventoryLevel: WebhookInventoryLevelDTO;
 }
 
-export interface ProcessInventoryWebhookResponse {
-  success: boolean;
-  processedCount: number;
-  errors: Array<{
-    index: number;
-    reason: string;
-  }>;
+export interface ConnectInventoryLevelRequest
+  extends AuthenticatedWebhookRequest,
+    WebhookDelivery,
+    ShopScopedRequest {
+  inventoryLevel: WebhookInventoryLevelConnectDTO;
 }
 
+export interface DisconnectInventoryLevelRequest
+  extends AuthenticatedWebhookRequest,
+    WebhookDelivery,
+    ShopScopedRequest {
+  inventoryLevel: WebhookInventoryLevelDisconnectDTO;
+}
+
+export type ProcessInventoryWebhookResponse = WebhookProcessingResult;
+
 /**
  * Use case for processing inventory level updates from Shopify webhooks
  * Core business logic isolated from infrastructure concerns
  */
 export class ProcessInventoryWebhookUseCase {
+  private authenticator: WebhookAuthenticator;
+
   constructor(
     private inventoryRepository: InventoryRepository,
-    private webhookValidator: WebhookValidator
-  ) { }
+    webhookValidator: WebhookValidator,
+    private variantMappingRepository: VariantMappingRepository,
+    private pendingUpdateRepository: PendingInventoryUpdateRepository,
+    private logger: Logger,
+    private metrics: Metrics,
+    private now: () => number = Date.now
+  ) {
+    this.authenticator = new WebhookAuthenticator(webhookValidator);
+  }
 
   async execute(
     request: ProcessInventoryWebhookRequest
   ): Promise<ProcessInventoryWebhookResponse> {
+    await this.authenticator.authenticate(request);
     this.validateRequest(request);
 
+    const { shopName, inventoryLevel: dto } = request;
+    if (!tracks(request.shop, dto.location_id)) {
+      return untracked(dto.location_id);
+    }
+
+    const mapping = await this.variantMappingRepository.getByInventoryItem(
+      shopName,
+      dto.inventory_item_id
+    );
+
+    // Inventory webhooks can arrive before the product webhook that tells
+    // us the variant; hold the update until the mapping is known
+    if (!mapping) {
+      await this.pendingUpdateRepository.defer(shopName, dto);
+
+      // A product webhook may have saved the mapping and replayed pending
+      // updates between the lookup and the deferral; replay ours if so.
+      // This only closes the race because both this read and the replay's
+      // read of pending updates are strongly consistent: each side then
+      // sees the other's write
+      const latest = await this.variantMappingRepository.getByInventoryItem(
+        shopName,
+        dto.inventory_item_id
+      );
+      if (latest) {
+        return this.replayDeferred(
+          shopName,
+          dto.inventory_item_id,
+          latest.variantId,
+          request,
+          request.shop
+        );
+      }
+
+      this.logger.info("Deferred inventory update until its variant is known", {
+        inventoryItemId: dto.inventory_item_id,
+        locationId: dto.location_id,
+      });
+      return {
+        success: true,
+        processedCount: 0,
+        skippedCount: 1,
+        skipped: [
+          {
+            index: 0,
+            reason: `Deferred: no variant known for inventory item ${dto.inventory_item_id}`,
+          },
+        ],
+        errors: [],
+      };
+    }
+
     const inventoryLevel = this.transformToEntity(
-      request.shopName,
-      request.inventoryLevel
+      shopName,
+      dto,
+      mapping.variantId
     );
 
-    const result = await this.saveInventory(inventoryLevel);
+    const result = await this.saveInventory(inventoryLevel, request);
+
+    // How far behind Shopify the stored level was, delivery included
+    if (result.processedCount > 0) {
+      this.metrics.duration(
+        "WebhookLag",
+        this.now() - inventoryLevel.updatedAt.getTime(),
+        { shop: shopName, topic: request.topic }
+      );
+    }
 
     return result;
   }
 
+  /**
+   * Start tracking an item at a location with a zero-stock level
+   */
+  async connect(
+    request: ConnectInventoryLevelRequest
+  ): Promise<ProcessInventoryWebhookResponse> {
+    const { inventoryLevel, ...rest } = request;
+    return this.execute({
+      ...rest,
+      inventoryLevel: {
+        ...inventoryLevel,
+        available: inventoryLevel.available ?? 0,
+      },
+    });
+  }
+
+  /**
+   * Stop tracking an item at a location so its last stock count does not
+   * linger. The payload has no timestamp, so the removal is dated when
+   * Shopify triggered the webhook, or at receipt if the delivery does not say
+   */
+  async disconnect(
+    request: DisconnectInventoryLevelRequest
+  ): Promise<ProcessInventoryWebhookResponse> {
+    await this.authenticator.authenticate(request);
+
+    const { shopName, inventoryLevel: dto } = request;
+    if (!shopName || shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+    if (dto.inventory_item_id <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+    if (dto.location_id <= 0) {
+      throw new DomainValidationError("Location ID must be positive");
+    }
+    if (!tracks(request.shop, dto.location_id)) {
+      return untracked(dto.location_id);
+    }
+
+    const mapping = await this.variantMappingRepository.getByInventoryItem(
+      shopName,
+      dto.inventory_item_id
+    );
+
+    // Nothing stored yet; drop any update waiting on the mapping so it is
+    // not applied to a location the item has left
+    if (!mapping) {
+      await this.pendingUpdateRepository.discard(
+        shopName,
+        dto.inventory_item_id,
+        dto.location_id
+      );
+      return {
+        success: true,
+        processedCount: 0,
+        skippedCount: 1,
+        skipped: [
+          {
+            index: 0,
+            reason: `Discarded: no variant known for inventory item ${dto.inventory_item_id}`,
+          },
+        ],
+        errors: [],
+      };
+    }
+
+    const disconnected = new InventoryLevel(
+      shopName,
+      mapping.variantId,
+      dto.location_id,
+      0,
+      request.triggeredAt ?? new Date(this.now()),
+      dto.inventory_item_id
+    );
+
+    return this.saveInventory(disconnected, request, (source) =>
+      this.inventoryRepository.delete(
+        shopName,
+        disconnected.variantId,
+        disconnected.locationId,
+        disconnected.updatedAt,
+        source
+      )
+    );
+  }
+
+  /**
+   * Apply updates deferred for an inventory item once its variant is known
+   * Each update is removed only once applied, so one that fails to save is
+   * retried by the next replay.
+   * Callers are responsible for having authenticated the triggering webhook,
+   * which is recorded as the source of the replayed changes
+   */
+  async replayDeferred(
+    shopName: string,
+    inventoryItemId: number,
+    variantId: number,
+    delivery: WebhookDelivery = {},
+    shop?: Shop
+  ): Promise<ProcessInventoryWebhookResponse> {
+    const pending = await this.pendingUpdateRepository.findForInventoryItem(
+      shopName,
+      inventoryItemId
+    );
+
+    const results = await Promise.all(
+      pending.map(async (dto) => {
+        try {
+          // Tracking may have changed while the update was waiting
+          const result = tracks(shop, dto.location_id)
+            ? await this.saveInventory(
+                this.transformToEntity(shopName, dto, variantId),
+                delivery
+              )
+            : untracked(dto.location_id);
+          if (result.success) {
+            await this.pendingUpdateRepository.remove(shopName, dto);
+          }
+          return result;
+        } catch (error) {
+          if (error instanceof TransientStorageError) {
+            throw error;
+          }
+          // An invalid update would fail every later replay too
+          if (error instanceof DomainValidationError) {
+            await this.pendingUpdateRepository.remove(shopName, dto);
+          }
+          return failure(error);
+        }
+      })
+    );
+
+    return mergeResults(results);
+  }
+
+  /**
+   * Apply a level read from a trusted source other than a webhook, such as
+   * the Shopify Admin API, with the same newer-only write and side effects
+   */
+  async applyCorrection(
+    inventory: InventoryLevel,
+    delivery: WebhookDelivery
+  ): Promise<ProcessInventoryWebhookResponse> {
+    return this.saveInventory(inventory, delivery);
+  }
+
+  /**
+   * Remove a stored level a trusted source no longer stocks, as a
+   * disconnect received at `removedAt` would
+   */
+  async removeCorrection(
+    stored: InventoryLevel,
+    removedAt: Date,
+    delivery: WebhookDelivery
+  ): Promise<ProcessInventoryWebhookResponse> {
+    const removed = new InventoryLevel(
+      stored.shopName,
+      stored.variantId,
+      stored.locationId,
+      0,
+      removedAt,
+      stored.inventoryItemId
+    );
+
+    return this.saveInventory(removed, delivery, (source) =>
+      this.inventoryRepository.delete(
+        removed.shopName,
+        removed.variantId,
+        removed.locationId,
+        removedAt,
+        source
+      )
+    );
+  }
+
   private validateRequest(request: ProcessInventoryWebhookRequest): void {
     if (!request.shopName || request.shopName.trim().length === 0) {
-      throw new Error("Shop name is required");
+      throw new DomainValidationError("Shop name is required");
     }
 
     if (!request.inventoryLevel || typeof request.inventoryLevel !== 'object') {
-      throw new Error("Inventory level is required");
+      throw new DomainValidationError("Inventory level is required");
     }
+
+    if (request.inventoryLevel.inventory_item_id <= 0) {
+      throw new DomainValidationError("Inventory item ID must be positive");
+    }
+
+    this.parseUpdatedAt(request.inventoryLevel);
   }
 
-  private transformToEntity(
-    shopName: string,
-    dto: WebhookInventoryLevelDTO
-  ): InventoryLevel {
+  private parseUpdatedAt(dto: WebhookInventoryLevelDTO): Date {
     const updatedAt = new Date(dto.updated_at);
     if (isNaN(updatedAt.getTime())) {
-      throw new Error(
+      throw new DomainValidationError(
         `Invalid date format for updated_at: ${dto.updated_at}`
       );
     }
+    return updatedAt;
+  }
 
+  private transformToEntity(
+    shopName: string,
+    dto: WebhookInventoryLevelDTO,
+    variantId: number
+  ): InventoryLevel {
     return new InventoryLevel(
       shopName,
-      dto.inventory_item_id,
+      variantId,
       dto.location_id,
       dto.available,
-      updatedAt,
+      this.parseUpdatedAt(dto),
       dto.inventory_item_id
     );
   }
 
+  /**
+   * Write a level together with its history ledger entry; the ledger's
+   * stream publishes the change and raises any stock alert through
+   * ProcessInventoryChangeUseCase.
+   * `write` replaces the plain save for removals
+   */
   private async saveInventory(
-    inventory: InventoryLevel
+    inventory: InventoryLevel,
+    delivery: WebhookDelivery,
+    write?: (source: ChangeSource) => Promise<SaveResult>
   ): Promise<ProcessInventoryWebhookResponse> {
+    const source: ChangeSource = {
+      recordedAt: new Date(this.now()),
+      eventId: delivery.eventId,
+      topic: delivery.topic,
+    };
+
     try {
-      await this.inventoryRepository.save(inventory);
+      const { outcome, previousAvailable } = write
+        ? await write(source)
+        : await this.inventoryRepository.save(inventory, source);
+
+      if (outcome === "stale") {
+        this.logger.info("Skipped stale inventory update", {
+          variantId: inventory.variantId,
+          locationId: inventory.locationId,
+          updatedAt: inventory.updatedAt,
+        });
+        this.metrics.count("WebhooksSkipped", {
+          shop: inventory.shopName,
+          topic: delivery.topic,
+          reason: "stale",
+        });
+        return {
+          success: true,
+          processedCount: 0,
+          skippedCount: 1,
+          skipped: [
+            {
+              index: 0,
+              reason: `Stale update: stored level is newer than ${inventory.updatedAt.toISOString()}`,
+            },
+          ],
+          errors: [],
+        };
+      }
+
+      this.logger.debug("Saved inventory level", {
+        variantId: inventory.variantId,
+        locationId: inventory.locationId,
+        previousAvailable,
+        available: inventory.available,
+      });
+
       return {
         success: true,
         processedCount: 1,
+        skippedCount: 0,
+        skipped: [],
         errors: [],
       };
     } catch (error) {
-      return {
-        success: false,
-        processedCount: 0,
-        errors: [
-          {
-            index: 0,
-            reason: error instanceof Error ? error.message : "Unknown error",
-          },
-        ],
-      };
+      this.logger.warn("Failed to save inventory level", {
+        variantId: inventory.variantId,
+        locationId: inventory.locationId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      // Left to the caller, which maps it to a response asking for a retry
+      if (error instanceof TransientStorageError) {
+        throw error;
+      }
+      return failure(error);
     }
   }
 }
+
+function tracks(shop: Shop | undefined, locationId: number): boolean {
+  return shop?.tracksLocation(locationId) ?? true;
+}
+
+function untracked(locationId: number): ProcessInventoryWebhookResponse {
+  return {
+    success: true,
+    processedCount: 0,
+    skippedCount: 1,
+    skipped: [{ index: 0, reason: `Untracked location: ${locationId}` }],
+    errors: [],
+  };
+}
+
+function failure(error: unknown): ProcessInventoryWebhookResponse {
+  return {
+    success: false,
+    processedCount: 0,
+    skippedCount: 0,
+    skipped: [],
+    errors: [
+      {
+        index: 0,
+        reason: error instanceof Error ? error.message : "Unknown error",
+      },
+    ],
+  };
+}
+
+/**
+ * Combine per-record results, re-indexing entries by record position
+ */
+export function mergeResults(
+  results: WebhookProcessingResult[]
+): WebhookProcessingResult {
+  return results.reduce<WebhookProcessingResult>(
+    (merged, result, index) => ({
+      success: merged.success && result.success,
+      processedCount: merged.processedCount + result.processedCount,
+      skippedCount: merged.skippedCount + result.skippedCount,
+      skipped: [
+        ...merged.skipped,
+        ...result.skipped.map((s) => ({ ...s, index })),
+      ],
+      errors: [
+        ...merged.errors,
+        ...result.errors.map((e) => ({ ...e, index })),
+      ],
+    }),
+    {
+      success: true,
+      processedCount: 0,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    }
+  );
+}
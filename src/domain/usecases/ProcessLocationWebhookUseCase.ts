@@ -0,0 +1,156 @@
+import { Location } from "../entities/Location";
+import { LocationRepository } from "../ports/LocationRepository";
+import { WebhookValidator } from "../ports/WebhookValidator";
+import { DomainValidationError } from "../errors/DomainValidationError";
+import {
+  AuthenticatedWebhookRequest,
+  WebhookAuthenticator,
+} from "../services/WebhookAuthenticator";
+import { WebhookProcessingResult } from "./WebhookProcessingResult";
+
+/**
+ * Input DTO for locations/create and locations/update data
+ */
+export interface LocationWebhookDTO {
+  id: number;
+  name: string;
+  address1?: string | null;
+  address2?: string | null;
+  city?: string | null;
+  province?: string | null;
+  province_code?: string | null;
+  zip?: string | null;
+  country?: string | null;
+  country_code?: string | null;
+  active: boolean;
+  /**
+   * Not sent by every API version; locations are assumed to fulfill
+   * online orders when absent
+   */
+  fulfills_online_orders?: boolean;
+  updated_at: string;
+}
+
+/**
+ * Input DTO for locations/delete data, which only carries the ID
+ */
+export interface LocationDeleteWebhookDTO {
+  id: number;
+}
+
+export interface ProcessLocationWebhookRequest
+  extends AuthenticatedWebhookRequest {
+  location: LocationWebhookDTO;
+}
+
+export interface DeleteLocationWebhookRequest
+  extends AuthenticatedWebhookRequest {
+  location: LocationDeleteWebhookDTO;
+}
+
+/**
+ * Use case maintaining the location catalog from locations/* webhooks
+ */
+export class ProcessLocationWebhookUseCase {
+  private authenticator: WebhookAuthenticator;
+
+  constructor(
+    webhookValidator: WebhookValidator,
+    private locationRepository: LocationRepository,
+    private now: () => number = Date.now
+  ) {
+    this.authenticator = new WebhookAuthenticator(webhookValidator);
+  }
+
+  async execute(
+    request: ProcessLocationWebhookRequest
+  ): Promise<WebhookProcessingResult> {
+    await this.authenticator.authenticate(request);
+    const location = this.transformToEntity(request);
+
+    const outcome = await this.locationRepository.save(location);
+
+    if (outcome === "stale") {
+      return {
+        success: true,
+        processedCount: 0,
+        skippedCount: 1,
+        skipped: [
+          {
+            index: 0,
+            reason: `Stale update: stored location is newer than ${location.updatedAt.toISOString()} or deleted`,
+          },
+        ],
+        errors: [],
+      };
+    }
+
+    return {
+      success: true,
+      processedCount: 1,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    };
+  }
+
+  async delete(
+    request: DeleteLocationWebhookRequest
+  ): Promise<WebhookProcessingResult> {
+    await this.authenticator.authenticate(request);
+    this.validateShopName(request.shopName);
+
+    if (request.location.id <= 0) {
+      throw new DomainValidationError("Location ID must be positive");
+    }
+
+    await this.locationRepository.markDeleted(
+      request.shopName,
+      request.location.id,
+      new Date(this.now())
+    );
+
+    return {
+      success: true,
+      processedCount: 1,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    };
+  }
+
+  private validateShopName(shopName: string): void {
+    if (!shopName || shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+  }
+
+  private transformToEntity(request: ProcessLocationWebhookRequest): Location {
+    this.validateShopName(request.shopName);
+
+    const dto = request.location;
+    const updatedAt = new Date(dto.updated_at);
+    if (isNaN(updatedAt.getTime())) {
+      throw new DomainValidationError(`Invalid date format for updated_at: ${dto.updated_at}`);
+    }
+
+    return new Location(
+      request.shopName,
+      dto.id,
+      dto.name,
+      {
+        address1: dto.address1 ?? null,
+        address2: dto.address2 ?? null,
+        city: dto.city ?? null,
+        province: dto.province ?? null,
+        provinceCode: dto.province_code ?? null,
+        zip: dto.zip ?? null,
+        country: dto.country ?? null,
+        countryCode: dto.country_code ?? null,
+      },
+      dto.active,
+      dto.fulfills_online_orders ?? true,
+      updatedAt
+    );
+  }
+}
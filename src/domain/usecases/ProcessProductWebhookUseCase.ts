@@ -0,0 +1,106 @@
+import { VariantMapping } from "../entities/VariantMapping";
+import { VariantMappingRepository } from "../ports/VariantMappingRepository";
+import { WebhookValidator } from "../ports/WebhookValidator";
+import { DomainValidationError } from "../errors/DomainValidationError";
+import {
+  AuthenticatedWebhookRequest,
+  WebhookAuthenticator,
+} from "../services/WebhookAuthenticator";
+import {
+  mergeResults,
+  ProcessInventoryWebhookUseCase,
+  ShopScopedRequest,
+} from "./ProcessInventoryWebhookUseCase";
+import { WebhookDelivery } from "./WebhookDelivery";
+import { WebhookProcessingResult } from "./WebhookProcessingResult";
+
+/**
+ * Input DTO for products/create and products/update webhook data
+ * Only the fields needed to map inventory items to variants
+ */
+export interface ProductWebhookDTO {
+  id: number;
+  updated_at: string;
+  variants: Array<{
+    id: number;
+    inventory_item_id: number;
+    updated_at?: string;
+  }>;
+}
+
+export interface ProcessProductWebhookRequest
+  extends AuthenticatedWebhookRequest,
+    WebhookDelivery,
+    ShopScopedRequest {
+  product: ProductWebhookDTO;
+}
+
+/**
+ * Use case for recording inventory item → variant mappings from product
+ * webhooks, then applying inventory updates that were waiting on them
+ */
+export class ProcessProductWebhookUseCase {
+  private authenticator: WebhookAuthenticator;
+
+  constructor(
+    webhookValidator: WebhookValidator,
+    private variantMappingRepository: VariantMappingRepository,
+    private inventoryUseCase: ProcessInventoryWebhookUseCase
+  ) {
+    this.authenticator = new WebhookAuthenticator(webhookValidator);
+  }
+
+  async execute(
+    request: ProcessProductWebhookRequest
+  ): Promise<WebhookProcessingResult> {
+    await this.authenticator.authenticate(request);
+
+    const mappings = this.transformToEntities(request);
+    await this.variantMappingRepository.saveMany(mappings);
+
+    // One result per variant, so indexes line up with the payload
+    const replayed = mergeResults(
+      await Promise.all(
+        mappings.map((mapping) =>
+          this.inventoryUseCase.replayDeferred(
+            mapping.shopName,
+            mapping.inventoryItemId,
+            mapping.variantId,
+            { eventId: request.eventId, topic: request.topic },
+            request.shop
+          )
+        )
+      )
+    );
+
+    return {
+      ...replayed,
+      processedCount: mappings.length + replayed.processedCount,
+    };
+  }
+
+  private transformToEntities(
+    request: ProcessProductWebhookRequest
+  ): VariantMapping[] {
+    if (!request.shopName || request.shopName.trim().length === 0) {
+      throw new DomainValidationError("Shop name is required");
+    }
+
+    const { product } = request;
+    return product.variants.map((variant) => {
+      const timestamp = variant.updated_at ?? product.updated_at;
+      const updatedAt = new Date(timestamp);
+      if (isNaN(updatedAt.getTime())) {
+        throw new DomainValidationError(`Invalid date format for updated_at: ${timestamp}`);
+      }
+
+      return new VariantMapping(
+        request.shopName,
+        variant.inventory_item_id,
+        variant.id,
+        product.id,
+        updatedAt
+      );
+    });
+  }
+}
@@ -0,0 +1,243 @@
+import { InventoryLevel } from "../entities/InventoryLevel";
+import { normalizeShopDomain, Shop } from "../entities/Shop";
+import { InventoryRepository } from "../ports/InventoryRepository";
+import {
+  ShopifyAdminClient,
+  ShopifyInventoryLevel,
+  ShopifyVariantInventory,
+} from "../ports/ShopifyAdminClient";
+import { ShopRegistry } from "../services/ShopRegistry";
+import { ProcessInventoryWebhookUseCase } from "./ProcessInventoryWebhookUseCase";
+import { WebhookDelivery } from "./WebhookDelivery";
+import { WebhookProcessingResult } from "./WebhookProcessingResult";
+
+export const RECONCILIATION_TOPIC = "reconciliation";
+
+export interface ReconcileInventoryRequest {
+  shopName: string;
+  /**
+   * Write Shopify's values over the discrepancies found (default false)
+   */
+  repair?: boolean;
+}
+
+/**
+ * "missing": stocked in Shopify but not stored.
+ * "mismatch": stored with a different stock count.
+ * "unexpected": stored but no longer stocked in Shopify
+ */
+export type DiscrepancyKind = "missing" | "mismatch" | "unexpected";
+
+export interface InventoryDiscrepancy {
+  kind: DiscrepancyKind;
+  variantId: number;
+  inventoryItemId: number;
+  locationId: number;
+  shopifyAvailable: number | null;
+  storedAvailable: number | null;
+  /**
+   * Outcome of the repair; absent when repair was not requested
+   */
+  repair?: { repaired: boolean; reason?: string };
+}
+
+export interface ReconciliationReport {
+  shopName: string;
+  repair: boolean;
+  variantsChecked: number;
+  levelsChecked: number;
+  discrepancies: InventoryDiscrepancy[];
+  repairedCount: number;
+  startedAt: Date;
+  completedAt: Date;
+}
+
+/**
+ * A discrepancy with the records it was found between
+ */
+interface Finding {
+  discrepancy: InventoryDiscrepancy;
+  stored?: InventoryLevel;
+  shopify?: ShopifyInventoryLevel;
+}
+
+/**
+ * Use case comparing stored inventory with Shopify's, to catch changes
+ * whose webhooks were dropped
+ * Only variants Shopify lists are compared, at the shop's tracked
+ * locations. Repairs go through the inventory use case, so they are
+ * newer-only and recorded in history like any other change
+ */
+export class ReconcileInventoryUseCase {
+  constructor(
+    private adminClient: ShopifyAdminClient,
+    private inventoryRepository: InventoryRepository,
+    private shopRegistry: ShopRegistry,
+    private inventoryUseCase: ProcessInventoryWebhookUseCase,
+    private now: () => number = Date.now
+  ) {}
+
+  async execute(
+    request: ReconcileInventoryRequest
+  ): Promise<ReconciliationReport> {
+    const shopName = normalizeShopDomain(request.shopName);
+    const shop = await this.shopRegistry.requireActive(shopName);
+    const repair = request.repair ?? false;
+    const startedAt = new Date(this.now());
+    const delivery: WebhookDelivery = {
+      eventId: `${RECONCILIATION_TOPIC}:${startedAt.toISOString()}`,
+      topic: RECONCILIATION_TOPIC,
+    };
+
+    const report: ReconciliationReport = {
+      shopName,
+      repair,
+      variantsChecked: 0,
+      levelsChecked: 0,
+      discrepancies: [],
+      repairedCount: 0,
+      startedAt,
+      completedAt: startedAt,
+    };
+
+    let cursor: string | undefined;
+    do {
+      const page = await this.adminClient.listInventoryLevels(shopName, cursor);
+
+      const found = await Promise.all(
+        page.variants.map((variant) => this.compare(shop, variant, report))
+      );
+
+      for (const finding of found.flat()) {
+        const { discrepancy } = finding;
+        if (repair) {
+          discrepancy.repair = await this.repair(
+            shop,
+            finding,
+            startedAt,
+            delivery
+          );
+          if (discrepancy.repair.repaired) {
+            report.repairedCount++;
+          }
+        }
+        report.discrepancies.push(discrepancy);
+      }
+
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    report.completedAt = new Date(this.now());
+    return report;
+  }
+
+  private async compare(
+    shop: Shop,
+    variant: ShopifyVariantInventory,
+    report: ReconciliationReport
+  ): Promise<Finding[]> {
+    const storedLevels = await this.inventoryRepository.getByShopAndVariant(
+      shop.shopName,
+      variant.variantId
+    );
+    const storedByLocation = new Map(
+      storedLevels
+        .filter((level) => shop.tracksLocation(level.locationId))
+        .map((level) => [level.locationId, level])
+    );
+    const shopifyLevels = variant.levels.filter((level) =>
+      shop.tracksLocation(level.locationId)
+    );
+
+    report.variantsChecked++;
+    report.levelsChecked += shopifyLevels.length;
+
+    const found: Finding[] = [];
+
+    for (const level of shopifyLevels) {
+      const stored = storedByLocation.get(level.locationId);
+      storedByLocation.delete(level.locationId);
+
+      if (stored?.available === level.available) {
+        continue;
+      }
+
+      found.push({
+        discrepancy: {
+          kind: stored ? "mismatch" : "missing",
+          variantId: variant.variantId,
+          inventoryItemId: variant.inventoryItemId,
+          locationId: level.locationId,
+          shopifyAvailable: level.available,
+          storedAvailable: stored?.available ?? null,
+        },
+        stored,
+        shopify: level,
+      });
+    }
+
+    // Whatever is left is stored but no longer stocked in Shopify
+    for (const stored of storedByLocation.values()) {
+      found.push({
+        discrepancy: {
+          kind: "unexpected",
+          variantId: variant.variantId,
+          inventoryItemId: variant.inventoryItemId,
+          locationId: stored.locationId,
+          shopifyAvailable: null,
+          storedAvailable: stored.available,
+        },
+        stored,
+      });
+    }
+
+    return found;
+  }
+
+  /**
+   * Shopify's value wins unless the stored level is newer; levels Shopify
+   * no longer stocks are removed as of when the run started
+   */
+  private async repair(
+    shop: Shop,
+    { discrepancy, stored, shopify }: Finding,
+    observedAt: Date,
+    delivery: WebhookDelivery
+  ): Promise<{ repaired: boolean; reason?: string }> {
+    let result: WebhookProcessingResult;
+
+    try {
+      result = shopify
+        ? await this.inventoryUseCase.applyCorrection(
+            new InventoryLevel(
+              shop.shopName,
+              discrepancy.variantId,
+              discrepancy.locationId,
+              shopify.available,
+              shopify.updatedAt,
+              discrepancy.inventoryItemId
+            ),
+            delivery
+          )
+        : await this.inventoryUseCase.removeCorrection(
+            stored!,
+            observedAt,
+            delivery
+          );
+    } catch (error) {
+      return {
+        repaired: false,
+        reason: error instanceof Error ? error.message : "Unknown error",
+      };
+    }
+
+    if (result.processedCount > 0) {
+      return { repaired: true };
+    }
+
+    return {
+      repaired: false,
+      reason: [...result.skipped, ...result.errors][0]?.reason,
+    };
+  }
+}
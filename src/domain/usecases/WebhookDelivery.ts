@@ -0,0 +1,14 @@
+/**
+ * Identifies the webhook behind a change, for audit records
+ */
+export interface WebhookDelivery {
+  /**
+   * Shopify event ID, falling back to the EventBridge event ID
+   */
+  eventId?: string;
+  topic?: string;
+  /**
+   * When Shopify triggered the webhook, for payloads without a timestamp
+   */
+  triggeredAt?: Date;
+}
@@ -0,0 +1,21 @@
+/**
+ * Outcome shared by every webhook-processing use case
+ */
+export interface WebhookProcessingResult {
+  success: boolean;
+  processedCount: number;
+  /**
+   * Updates skipped because a newer value was already stored, or deferred
+   * until a product webhook maps their inventory item to a variant
+   * Skips are expected with late or out-of-order delivery and are not failures
+   */
+  skippedCount: number;
+  skipped: Array<{
+    index: number;
+    reason: string;
+  }>;
+  errors: Array<{
+    index: number;
+    reason: string;
+  }>;
+}
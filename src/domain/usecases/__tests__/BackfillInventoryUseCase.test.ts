@@ -0,0 +1,328 @@
+import { BackfillInventoryUseCase, BackfillProgress } from "../BackfillInventoryUseCase";
+import { ProcessInventoryWebhookUseCase } from "../ProcessInventoryWebhookUseCase";
+import { InventoryRepository, SaveResult } from "../../ports/InventoryRepository";
+import { VariantMappingRepository } from "../../ports/VariantMappingRepository";
+import {
+  BackfillCheckpoint,
+  BackfillCheckpointRepository,
+} from "../../ports/BackfillCheckpointRepository";
+import {
+  InventoryExportReader,
+  InventoryExportRecord,
+} from "../../ports/InventoryExportReader";
+import { ShopRegistry } from "../../services/ShopRegistry";
+import { InventoryLevel } from "../../entities/InventoryLevel";
+import { VariantMapping } from "../../entities/VariantMapping";
+import { Shop } from "../../entities/Shop";
+import { ShopAccessError } from "../../errors/ShopAccessError";
+
+describe("BackfillInventoryUseCase", () => {
+  const SHOP = "myshop.myshopify.com";
+  const JOB = "myshop.myshopify.com export.jsonl";
+  const date = new Date("2024-01-15T10:30:00Z");
+  const startedAt = new Date("2024-02-01T00:00:00Z");
+
+  const item = (line: number, inventoryItemId: number): InventoryExportRecord => ({
+    line,
+    kind: "item",
+    mapping: new VariantMapping(SHOP, inventoryItemId, inventoryItemId + 1000, 1, date),
+  });
+  const level = (
+    line: number,
+    inventoryItemId: number,
+    locationId: number,
+    available = 5
+  ): InventoryExportRecord => ({
+    line,
+    kind: "level",
+    level: new InventoryLevel(
+      SHOP,
+      inventoryItemId + 1000,
+      locationId,
+      available,
+      date,
+      inventoryItemId
+    ),
+  });
+  const exportOf = (records: InventoryExportRecord[]): InventoryExportReader => ({
+    async *read() {
+      yield* records;
+    },
+  });
+
+  let saveMany: jest.Mock;
+  let saveMappings: jest.Mock;
+  let checkpoints: Map<string, BackfillCheckpoint>;
+  let saveCheckpoint: jest.Mock;
+  let requireActive: jest.Mock;
+  let replayDeferred: jest.Mock;
+  let shop: Shop;
+  let useCase: BackfillInventoryUseCase;
+
+  beforeEach(() => {
+    shop = new Shop(SHOP, "active", date);
+    saveMany = jest.fn(async (levels: InventoryLevel[]) =>
+      levels.map((): SaveResult => ({ outcome: "saved", previousAvailable: null }))
+    );
+    saveMappings = jest.fn().mockResolvedValue(undefined);
+    checkpoints = new Map();
+    saveCheckpoint = jest.fn(async (checkpoint: BackfillCheckpoint) => {
+      checkpoints.set(checkpoint.jobId, checkpoint);
+    });
+    requireActive = jest.fn(async () => shop);
+    replayDeferred = jest.fn().mockResolvedValue({
+      success: true,
+      processedCount: 0,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    });
+
+    const checkpointRepository: BackfillCheckpointRepository = {
+      get: async (jobId) => checkpoints.get(jobId) ?? null,
+      save: saveCheckpoint,
+    };
+    useCase = new BackfillInventoryUseCase(
+      { saveMany } as unknown as InventoryRepository,
+      { saveMany: saveMappings } as unknown as VariantMappingRepository,
+      checkpointRepository,
+      { requireActive } as unknown as ShopRegistry,
+      { replayDeferred } as unknown as ProcessInventoryWebhookUseCase,
+      () => startedAt.getTime()
+    );
+  });
+
+  it("should save mappings and levels from the export", async () => {
+    const records = [item(1, 10), level(2, 10, 1), level(3, 10, 2), item(4, 20), level(5, 20, 1)];
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf(records),
+    });
+
+    expect(saveMappings).toHaveBeenCalledWith([
+      (records[0] as { mapping: VariantMapping }).mapping,
+      (records[3] as { mapping: VariantMapping }).mapping,
+    ]);
+    expect(saveMany.mock.calls.flat(2)).toHaveLength(3);
+    expect(report).toEqual({
+      shopName: SHOP,
+      jobId: JOB,
+      resumedAfterLine: 0,
+      line: 5,
+      itemsMapped: 2,
+      levelsSaved: 3,
+      levelsStale: 0,
+      levelsSkipped: 0,
+      deferredReplayed: 0,
+      invalidRecords: 0,
+      invalid: [],
+      startedAt,
+      completedAt: startedAt,
+    });
+    expect(checkpoints.get(JOB)).toEqual({
+      jobId: JOB,
+      shopName: SHOP,
+      line: 5,
+      completed: true,
+      updatedAt: startedAt,
+    });
+  });
+
+  it("should count levels a newer stored level kept as stale", async () => {
+    saveMany.mockImplementation(async (levels: InventoryLevel[]) =>
+      levels.map(
+        (l): SaveResult =>
+          l.locationId === 2
+            ? { outcome: "stale", previousAvailable: null }
+            : { outcome: "saved", previousAvailable: null }
+      )
+    );
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([item(1, 10), level(2, 10, 1), level(3, 10, 2)]),
+    });
+
+    expect(report.levelsSaved).toBe(1);
+    expect(report.levelsStale).toBe(1);
+  });
+
+  it("should never write two levels of a variant together", async () => {
+    await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([
+        item(1, 10),
+        item(2, 20),
+        level(3, 10, 1),
+        level(4, 10, 2),
+        level(5, 20, 1),
+        level(6, 10, 3),
+      ]),
+    });
+
+    expect(
+      saveMany.mock.calls.map(([levels]: [InventoryLevel[]]) =>
+        levels.map((l) => `${l.variantId}@${l.locationId}`)
+      )
+    ).toEqual([["1010@1", "1020@1"], ["1010@2"], ["1010@3"]]);
+  });
+
+  it("should skip levels at untracked locations", async () => {
+    shop = new Shop(SHOP, "active", date, undefined, [1]);
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([item(1, 10), level(2, 10, 1), level(3, 10, 2)]),
+    });
+
+    expect(report.levelsSaved).toBe(1);
+    expect(report.levelsSkipped).toBe(1);
+  });
+
+  it("should report invalid records by line", async () => {
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([
+        item(1, 10),
+        { line: 2, kind: "invalid", reason: "Available stock cannot be negative" },
+      ]),
+    });
+
+    expect(report.invalidRecords).toBe(1);
+    expect(report.invalid).toEqual([
+      { line: 2, reason: "Available stock cannot be negative" },
+    ]);
+  });
+
+  it("should apply updates deferred until the item was mapped", async () => {
+    replayDeferred.mockResolvedValue({
+      success: true,
+      processedCount: 1,
+      skippedCount: 0,
+      skipped: [],
+      errors: [],
+    });
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([item(1, 10)]),
+    });
+
+    expect(replayDeferred).toHaveBeenCalledWith(
+      SHOP,
+      10,
+      1010,
+      { eventId: "backfill:2024-02-01T00:00:00.000Z", topic: "backfill" },
+      shop
+    );
+    expect(report.deferredReplayed).toBe(1);
+  });
+
+  it("should checkpoint and report progress after each batch", async () => {
+    const records: InventoryExportRecord[] = [item(1, 10)];
+    for (let line = 2; line <= 250; line++) {
+      records.push(level(line, 10, line));
+    }
+    const progress: BackfillProgress[] = [];
+
+    await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf(records),
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(progress.map((p) => [p.line, p.levelsSaved])).toEqual([
+      [100, 99],
+      [200, 199],
+      [250, 249],
+    ]);
+    expect(saveCheckpoint.mock.calls.map(([c]) => [c.line, c.completed])).toEqual([
+      [100, false],
+      [200, false],
+      [250, true],
+    ]);
+  });
+
+  it("should resume after the last checkpointed line", async () => {
+    checkpoints.set(JOB, {
+      jobId: JOB,
+      shopName: SHOP,
+      line: 2,
+      completed: false,
+      updatedAt: date,
+    });
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      source: exportOf([item(1, 10), level(2, 10, 1), level(3, 10, 2)]),
+    });
+
+    expect(saveMappings).not.toHaveBeenCalled();
+    expect(saveMany).toHaveBeenCalledTimes(1);
+    expect(saveMany.mock.calls[0][0].map((l: InventoryLevel) => l.locationId)).toEqual([2]);
+    expect(report.resumedAfterLine).toBe(2);
+    expect(report.line).toBe(3);
+  });
+
+  it("should start over when asked to restart", async () => {
+    checkpoints.set(JOB, {
+      jobId: JOB,
+      shopName: SHOP,
+      line: 3,
+      completed: true,
+      updatedAt: date,
+    });
+
+    const report = await useCase.execute({
+      shopName: SHOP,
+      jobId: JOB,
+      restart: true,
+      source: exportOf([item(1, 10), level(2, 10, 1), level(3, 10, 2)]),
+    });
+
+    expect(report.resumedAfterLine).toBe(0);
+    expect(report.levelsSaved).toBe(2);
+  });
+
+  it("should keep the last checkpoint when a write fails", async () => {
+    const records: InventoryExportRecord[] = [];
+    for (let line = 1; line <= 150; line++) {
+      records.push(level(line, line, 1));
+    }
+    saveMany
+      .mockImplementationOnce(async (levels: InventoryLevel[]) =>
+        levels.map((): SaveResult => ({ outcome: "saved", previousAvailable: null }))
+      )
+      .mockRejectedValueOnce(new Error("DynamoDB unavailable"));
+
+    await expect(
+      useCase.execute({ shopName: SHOP, jobId: JOB, source: exportOf(records) })
+    ).rejects.toThrow("DynamoDB unavailable");
+    expect(checkpoints.get(JOB)).toMatchObject({ line: 100, completed: false });
+  });
+
+  it("should normalize the shop and refuse inactive shops", async () => {
+    requireActive.mockRejectedValue(
+      new ShopAccessError(`Shop is suspended: ${SHOP}`, SHOP)
+    );
+
+    await expect(
+      useCase.execute({
+        shopName: "https://MyShop.myshopify.com/",
+        jobId: JOB,
+        source: exportOf([item(1, 10)]),
+      })
+    ).rejects.toThrow(`Shop is suspended: ${SHOP}`);
+    expect(requireActive).toHaveBeenCalledWith(SHOP);
+    expect(saveMappings).not.toHaveBeenCalled();
+  });
+});
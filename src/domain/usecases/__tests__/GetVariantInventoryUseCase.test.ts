@@ -0,0 +1,130 @@
+import { GetVariantInventoryUseCase } from "../GetVariantInventoryUseCase";
+import { InventoryRepository } from "../../ports/InventoryRepository";
+import { LocationRepository } from "../../ports/LocationRepository";
+import { InventoryLevel } from "../../entities/InventoryLevel";
+import { Location, LocationAddress } from "../../entities/Location";
+
+describe("GetVariantInventoryUseCase", () => {
+  const date = new Date("2024-01-15T10:30:00Z");
+  const address: LocationAddress = {
+    address1: null,
+    address2: null,
+    city: null,
+    province: null,
+    provinceCode: null,
+    zip: null,
+    country: null,
+    countryCode: null,
+  };
+  const level = (locationId: number, available: number, orphanedAt?: Date) =>
+    new InventoryLevel("myshop", 55555, locationId, available, date, 12345, orphanedAt);
+  const location = (locationId: number, active: boolean, deletedAt?: Date) =>
+    new Location("myshop", locationId, `Location ${locationId}`, address, active, true, date, deletedAt);
+
+  let inventory: jest.Mocked<InventoryRepository>;
+  let locations: jest.Mocked<LocationRepository>;
+  let useCase: GetVariantInventoryUseCase;
+
+  beforeEach(() => {
+    inventory = {
+      save: jest.fn(),
+      saveMany: jest.fn(),
+      delete: jest.fn(),
+      markOrphaned: jest.fn(),
+      getByShopAndVariant: jest.fn().mockResolvedValue([]),
+      getByShopVariantAndLocation: jest.fn(),
+      getVariantTotal: jest.fn(),
+    };
+    locations = {
+      save: jest.fn(),
+      markDeleted: jest.fn(),
+      getByShop: jest.fn().mockResolvedValue([]),
+      getByShopAndLocation: jest.fn(),
+    };
+    useCase = new GetVariantInventoryUseCase(inventory, locations);
+  });
+
+  it("should join each level with its location", async () => {
+    inventory.getByShopAndVariant.mockResolvedValue([level(1, 10)]);
+    locations.getByShop.mockResolvedValue([location(1, true)]);
+
+    const result = await useCase.execute({ shopName: "myshop", variantId: 55555 });
+
+    expect(inventory.getByShopAndVariant).toHaveBeenCalledWith("myshop", 55555);
+    expect(locations.getByShop).toHaveBeenCalledWith("myshop");
+    expect(result.levels).toEqual([
+      { level: level(1, 10), location: location(1, true), sellable: true },
+    ]);
+    expect(result.sellableTotal).toBe(10);
+  });
+
+  it("should exclude stock at deactivated or deleted locations", async () => {
+    inventory.getByShopAndVariant.mockResolvedValue([
+      level(1, 10),
+      level(2, 20),
+      level(3, 40),
+    ]);
+    locations.getByShop.mockResolvedValue([
+      location(1, true),
+      location(2, false),
+      location(3, true, date),
+    ]);
+
+    const result = await useCase.execute({ shopName: "myshop", variantId: 55555 });
+
+    expect(result.levels.map((l) => l.sellable)).toEqual([true, false, false]);
+    expect(result.sellableTotal).toBe(10);
+  });
+
+  it("should count stock at locations not yet in the catalog", async () => {
+    inventory.getByShopAndVariant.mockResolvedValue([level(9, 5)]);
+
+    const result = await useCase.execute({ shopName: "myshop", variantId: 55555 });
+
+    expect(result.levels[0].location).toBeNull();
+    expect(result.sellableTotal).toBe(5);
+  });
+
+  it("should exclude orphaned stock", async () => {
+    inventory.getByShopAndVariant.mockResolvedValue([level(1, 10, date)]);
+    locations.getByShop.mockResolvedValue([location(1, true)]);
+
+    const result = await useCase.execute({ shopName: "myshop", variantId: 55555 });
+
+    expect(result.levels[0].sellable).toBe(false);
+    expect(result.sellableTotal).toBe(0);
+  });
+
+  describe("getLevel", () => {
+    const request = { shopName: "myshop", variantId: 55555, locationId: 1 };
+
+    it("should return one location's level with its location", async () => {
+      inventory.getByShopVariantAndLocation.mockResolvedValue(level(1, 10));
+      locations.getByShopAndLocation.mockResolvedValue(location(1, false));
+
+      const result = await useCase.getLevel(request);
+
+      expect(inventory.getByShopVariantAndLocation).toHaveBeenCalledWith("myshop", 55555, 1);
+      expect(locations.getByShopAndLocation).toHaveBeenCalledWith("myshop", 1);
+      expect(result).toEqual({
+        level: level(1, 10),
+        location: location(1, false),
+        sellable: false,
+      });
+    });
+
+    it("should treat an unknown location as sellable", async () => {
+      inventory.getByShopVariantAndLocation.mockResolvedValue(level(1, 10));
+      locations.getByShopAndLocation.mockResolvedValue(null);
+
+      expect((await useCase.getLevel(request))?.sellable).toBe(true);
+    });
+
+    it("should return null when the variant is not stocked there", async () => {
+      inventory.getByShopVariantAndLocation.mockResolvedValue(null);
+      locations.getByShopAndLocation.mockResolvedValue(location(1, true));
+
+      expect(await useCase.getLevel(request)).toBeNull();
+    });
+  });
+});
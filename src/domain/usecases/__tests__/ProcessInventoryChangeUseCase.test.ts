@@ -0,0 +1,169 @@
+import { ProcessInventoryChangeUseCase } from "../ProcessInventoryChangeUseCase";
+import { InventoryHistoryEntry } from "../../entities/InventoryHistoryEntry";
+import { InventoryLevel } from "../../entities/InventoryLevel";
+import { Shop } from "../../entities/Shop";
+import { InventoryChanged } from "../../events/InventoryChanged";
+import { Logger } from "../../ports/Logger";
+import { ShopRepository } from "../../ports/ShopRepository";
+import { ShopRegistry } from "../../services/ShopRegistry";
+import { StockAlertService } from "../../services/StockAlertService";
+
+describe("ProcessInventoryChangeUseCase", () => {
+  const entry = new InventoryHistoryEntry(
+    "myshop.myshopify.com",
+    55555,
+    789,
+    10,
+    3,
+    new Date("2024-01-15T10:30:00Z"),
+    new Date("2024-02-01T00:00:00Z"),
+    12345,
+    "evt-1",
+    "inventory_levels/update"
+  );
+  const removal = new InventoryHistoryEntry(
+    "myshop.myshopify.com",
+    55555,
+    789,
+    40,
+    0,
+    new Date("2024-01-15T10:30:00Z"),
+    new Date("2024-02-01T00:00:00Z"),
+    12345,
+    "evt-2",
+    "inventory_levels/disconnect",
+    true
+  );
+  const shopWith = (features: {
+    stockAlerts: boolean;
+    inventoryEvents: boolean;
+  }) =>
+    new Shop(
+      "myshop.myshopify.com",
+      "active",
+      new Date("2024-01-01T00:00:00Z"),
+      undefined,
+      undefined,
+      features
+    );
+
+  let shops: jest.Mocked<ShopRepository>;
+  let publish: jest.Mock;
+  let evaluateAlerts: jest.Mock;
+  let useCase: ProcessInventoryChangeUseCase;
+
+  beforeEach(() => {
+    shops = {
+      save: jest.fn(),
+      getByShopName: jest.fn().mockResolvedValue(null),
+    };
+    publish = jest.fn().mockResolvedValue(undefined);
+    evaluateAlerts = jest.fn().mockResolvedValue(null);
+    const logger: Logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      withContext: (_fields, work) => work(),
+    };
+    useCase = new ProcessInventoryChangeUseCase(
+      new ShopRegistry(shops),
+      { publish },
+      { evaluate: evaluateAlerts } as unknown as StockAlertService,
+      logger
+    );
+  });
+
+  it("should publish the recorded change with its source", async () => {
+    await useCase.execute(entry);
+
+    expect(publish).toHaveBeenCalledWith(
+      new InventoryChanged(
+        "myshop.myshopify.com",
+        55555,
+        789,
+        10,
+        3,
+        new Date("2024-01-15T10:30:00Z"),
+        new Date("2024-02-01T00:00:00Z"),
+        12345,
+        "evt-1",
+        "inventory_levels/update"
+      )
+    );
+  });
+
+  it("should publish for shops that have events on", async () => {
+    shops.getByShopName.mockResolvedValue(
+      shopWith({ stockAlerts: true, inventoryEvents: true })
+    );
+
+    await useCase.execute(entry);
+
+    expect(shops.getByShopName).toHaveBeenCalledWith("myshop.myshopify.com");
+    expect(publish).toHaveBeenCalled();
+  });
+
+  it("should not publish when the shop has events off", async () => {
+    shops.getByShopName.mockResolvedValue(
+      shopWith({ stockAlerts: true, inventoryEvents: false })
+    );
+
+    await useCase.execute(entry);
+
+    expect(publish).not.toHaveBeenCalled();
+    expect(evaluateAlerts).toHaveBeenCalled();
+  });
+
+  it("should evaluate alerts for the recorded level", async () => {
+    await useCase.execute(entry);
+
+    expect(evaluateAlerts).toHaveBeenCalledWith(
+      new InventoryLevel(
+        "myshop.myshopify.com",
+        55555,
+        789,
+        3,
+        new Date("2024-01-15T10:30:00Z"),
+        12345
+      )
+    );
+  });
+
+  it("should not evaluate alerts when the shop has them off", async () => {
+    shops.getByShopName.mockResolvedValue(
+      shopWith({ stockAlerts: false, inventoryEvents: true })
+    );
+
+    await useCase.execute(entry);
+
+    expect(evaluateAlerts).not.toHaveBeenCalled();
+    expect(publish).toHaveBeenCalled();
+  });
+
+  it("should publish a removal without evaluating alerts", async () => {
+    await useCase.execute(removal);
+
+    const [event] = publish.mock.calls[0];
+    expect(event.toDetail()).toEqual(
+      expect.objectContaining({
+        previousAvailable: 40,
+        newAvailable: 0,
+        topic: "inventory_levels/disconnect",
+      })
+    );
+    expect(evaluateAlerts).not.toHaveBeenCalled();
+  });
+
+  it("should let publishing failures through so the change is retried", async () => {
+    publish.mockRejectedValue(new Error("PutEvents failed"));
+
+    await expect(useCase.execute(entry)).rejects.toThrow("PutEvents failed");
+  });
+
+  it("should let alerting failures through so the change is retried", async () => {
+    evaluateAlerts.mockRejectedValue(new Error("SNS unavailable"));
+
+    await expect(useCase.execute(entry)).rejects.toThrow("SNS unavailable");
+  });
+});
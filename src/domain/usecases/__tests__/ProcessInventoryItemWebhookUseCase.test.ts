@@ -0,0 +1,192 @@
+import { ProcessInventoryItemWebhookUseCase } from "../ProcessInventoryItemWebhookUseCase";
+import { InventoryItemRepository } from "../../ports/InventoryItemRepository";
+import { InventoryRepository } from "../../ports/InventoryRepository";
+import { PendingInventoryUpdateRepository } from "../../ports/PendingInventoryUpdateRepository";
+import { VariantMappingRepository } from "../../ports/VariantMappingRepository";
+import { InventoryItem } from "../../entities/InventoryItem";
+import { VariantMapping } from "../../entities/VariantMapping";
+import { AuthenticationError } from "../../errors/AuthenticationError";
+
+describe("ProcessInventoryItemWebhookUseCase", () => {
+  const NOW = Date.parse("2024-02-01T00:00:00Z");
+
+  let validate: jest.Mock;
+  let items: jest.Mocked<InventoryItemRepository>;
+  let mappings: jest.Mocked<VariantMappingRepository>;
+  let inventory: jest.Mocked<InventoryRepository>;
+  let pending: jest.Mocked<PendingInventoryUpdateRepository>;
+  let useCase: ProcessInventoryItemWebhookUseCase;
+
+  const auth = { shopName: "myshop", rawBody: "raw", signature: "sig" };
+  const inventoryItem = {
+    id: 12345,
+    sku: "TSHIRT-RED-M",
+    tracked: true,
+    cost: "12.50",
+    country_code_of_origin: "PT",
+    requires_shipping: true,
+    updated_at: "2024-01-15T10:30:00Z",
+  };
+
+  beforeEach(() => {
+    validate = jest.fn().mockResolvedValue(true);
+    items = {
+      save: jest.fn().mockResolvedValue("saved"),
+      markDeleted: jest.fn().mockResolvedValue(undefined),
+      getByInventoryItem: jest.fn(),
+    };
+    mappings = {
+      saveMany: jest.fn(),
+      getByInventoryItem: jest
+        .fn()
+        .mockResolvedValue(
+          new VariantMapping("myshop", 12345, 55555, 777, new Date(NOW))
+        ),
+    };
+    inventory = {
+      save: jest.fn(),
+      saveMany: jest.fn(),
+      delete: jest.fn(),
+      markOrphaned: jest.fn().mockResolvedValue(2),
+      getByShopAndVariant: jest.fn(),
+      getByShopVariantAndLocation: jest.fn(),
+      getVariantTotal: jest.fn(),
+    };
+    pending = {
+      defer: jest.fn(),
+      discard: jest.fn(),
+      findForInventoryItem: jest.fn().mockResolvedValue([]),
+      remove: jest.fn(),
+    };
+    useCase = new ProcessInventoryItemWebhookUseCase(
+      { validate },
+      items,
+      mappings,
+      inventory,
+      pending,
+      () => NOW
+    );
+  });
+
+  describe("execute", () => {
+    it("should save the catalog entry", async () => {
+      const result = await useCase.execute({ ...auth, inventoryItem });
+
+      expect(result.processedCount).toBe(1);
+      expect(items.save).toHaveBeenCalledWith(
+        new InventoryItem(
+          "myshop",
+          12345,
+          "TSHIRT-RED-M",
+          true,
+          "12.50",
+          "PT",
+          true,
+          new Date("2024-01-15T10:30:00Z")
+        )
+      );
+    });
+
+    it("should default a missing cost and origin to null", async () => {
+      const { cost, country_code_of_origin, ...rest } = inventoryItem;
+
+      await useCase.execute({ ...auth, inventoryItem: rest });
+
+      expect(items.save).toHaveBeenCalledWith(
+        expect.objectContaining({ unitCost: null, countryOfOrigin: null })
+      );
+    });
+
+    it("should report a stale update as skipped", async () => {
+      items.save.mockResolvedValue("stale");
+
+      const result = await useCase.execute({ ...auth, inventoryItem });
+
+      expect(result.success).toBe(true);
+      expect(result.skippedCount).toBe(1);
+      expect(result.skipped[0].reason).toContain("Stale update");
+    });
+
+    it("should reject unauthenticated webhooks before saving", async () => {
+      validate.mockResolvedValue(false);
+
+      await expect(
+        useCase.execute({ ...auth, inventoryItem })
+      ).rejects.toBeInstanceOf(AuthenticationError);
+      expect(items.save).not.toHaveBeenCalled();
+    });
+
+    it("should throw when updated_at is invalid", async () => {
+      await expect(
+        useCase.execute({
+          ...auth,
+          inventoryItem: { ...inventoryItem, updated_at: "soon" },
+        })
+      ).rejects.toThrow("Invalid date format for updated_at: soon");
+    });
+  });
+
+  describe("delete", () => {
+    it("should tombstone the item and orphan its stock", async () => {
+      const result = await useCase.delete({
+        ...auth,
+        inventoryItem: { id: 12345 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(items.markDeleted).toHaveBeenCalledWith(
+        "myshop",
+        12345,
+        new Date(NOW)
+      );
+      expect(inventory.markOrphaned).toHaveBeenCalledWith(
+        "myshop",
+        55555,
+        new Date(NOW)
+      );
+    });
+
+    it("should discard updates still waiting on a variant", async () => {
+      pending.findForInventoryItem.mockResolvedValue([
+        {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 5,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      ]);
+
+      await useCase.delete({ ...auth, inventoryItem: { id: 12345 } });
+
+      expect(pending.findForInventoryItem).toHaveBeenCalledWith("myshop", 12345);
+      expect(pending.discard).toHaveBeenCalledWith("myshop", 12345, 789);
+    });
+
+    it("should skip orphaning when the variant is unknown", async () => {
+      mappings.getByInventoryItem.mockResolvedValue(null);
+
+      const result = await useCase.delete({
+        ...auth,
+        inventoryItem: { id: 12345 },
+      });
+
+      expect(result.success).toBe(true);
+      expect(inventory.markOrphaned).not.toHaveBeenCalled();
+    });
+
+    it("should reject unauthenticated webhooks before deleting", async () => {
+      validate.mockResolvedValue(false);
+
+      await expect(
+        useCase.delete({ ...auth, inventoryItem: { id: 12345 } })
+      ).rejects.toThrow("Invalid webhook signature");
+      expect(items.markDeleted).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the item ID is not positive", async () => {
+      await expect(
+        useCase.delete({ ...auth, inventoryItem: { id: 0 } })
+      ).rejects.toThrow("Inventory item ID must be positive");
+    });
+  });
+});
@@ -1,17 +1,65 @@
 import { ProcessInventoryWebhookUseCase, WebhookInventoryLevelDTO } from "../ProcessInventoryWebhookUseCase";
-import { InventoryRepository } from "../../ports/InventoryRepository";
-import { WebhookValidator } from "../../ports/WebhookValidator";
+import {
+  ChangeSource,
+  InventoryRepository,
+  SaveResult,
+} from "../../ports/InventoryRepository";
+import {
+  WebhookAuthenticationRequest,
+  WebhookValidator,
+} from "../../ports/WebhookValidator";
+import { AuthenticationError } from "../../errors/AuthenticationError";
+import { TransientStorageError } from "../../errors/TransientStorageError";
 import { InventoryLevel } from "../../entities/InventoryLevel";
+import { VariantInventoryTotal } from "../../entities/VariantInventoryTotal";
+import { Shop } from "../../entities/Shop";
+import { VariantMapping } from "../../entities/VariantMapping";
+import { VariantMappingRepository } from "../../ports/VariantMappingRepository";
+import { PendingInventoryUpdateRepository } from "../../ports/PendingInventoryUpdateRepository";
+import { Logger } from "../../ports/Logger";
+import { Metrics } from "../../ports/Metrics";
+
+const saved = (previousAvailable: number | null): SaveResult => ({
+  outcome: "saved",
+  previousAvailable,
+});
+const stale: SaveResult = { outcome: "stale", previousAvailable: null };
 
 // Mock implementations
 class MockInventoryRepository implements InventoryRepository {
-  saveAsync: jest.Mock = jest.fn().mockResolvedValue(undefined);
+  saveAsync: jest.Mock = jest.fn().mockResolvedValue(saved(null));
+  /**
+   * Sources the history ledger entries were written with
+   */
+  sources: ChangeSource[] = [];
 
-  async save(inventory: InventoryLevel): Promise<void> {
+  async save(inventory: InventoryLevel, source?: ChangeSource): Promise<SaveResult> {
+    if (source) {
+      this.sources.push(source);
+    }
     return this.saveAsync(inventory);
   }
 
-  async saveMany(inventories: InventoryLevel[]): Promise<void> {
+  async saveMany(inventories: InventoryLevel[]): Promise<SaveResult[]> {
+    throw new Error("Not implemented");
+  }
+
+  deleteAsync: jest.Mock = jest.fn().mockResolvedValue(saved(40));
+
+  async delete(
+    shopName: string,
+    variantId: number,
+    locationId: number,
+    deletedAt: Date,
+    source?: ChangeSource
+  ): Promise<SaveResult> {
+    if (source) {
+      this.sources.push(source);
+    }
+    return this.deleteAsync(shopName, variantId, locationId, deletedAt);
+  }
+
+  async markOrphaned(): Promise<number> {
     throw new Error("Not implemented");
   }
 
@@ -22,13 +70,71 @@ class MockInventoryRepository implements InventoryRepository {
   async getByShopVariantAndLocation(): Promise<InventoryLevel | null> {
     throw new Error("Not implemented");
   }
+
+  async getVariantTotal(): Promise<VariantInventoryTotal | null> {
+    throw new Error("Not implemented");
+  }
 }
 
 class MockWebhookValidator implements WebhookValidator {
-  validateMock: jest.Mock = jest.fn().mockReturnValue(true);
+  validateMock: jest.Mock = jest.fn().mockResolvedValue(true);
+
+  async validate(request: WebhookAuthenticationRequest): Promise<boolean> {
+    return this.validateMock(request);
+  }
+}
+
+class MockVariantMappingRepository implements VariantMappingRepository {
+  getMock: jest.Mock = jest.fn(
+    async (shopName: string, inventoryItemId: number) =>
+      new VariantMapping(
+        shopName,
+        inventoryItemId,
+        55555,
+        777,
+        new Date("2024-01-01T00:00:00Z")
+      )
+  );
+
+  async saveMany(): Promise<void> {
+    throw new Error("Not implemented");
+  }
+
+  async getByInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<VariantMapping | null> {
+    return this.getMock(shopName, inventoryItemId);
+  }
+}
+
+class MockPendingUpdateRepository implements PendingInventoryUpdateRepository {
+  deferMock: jest.Mock = jest.fn().mockResolvedValue(undefined);
+  findMock: jest.Mock = jest.fn().mockResolvedValue([]);
+  discardMock: jest.Mock = jest.fn().mockResolvedValue(undefined);
+  removeMock: jest.Mock = jest.fn().mockResolvedValue(undefined);
 
-  validate(body: string, signature: string | undefined): boolean {
-    return this.validateMock(body, signature);
+  async defer(shopName: string, update: WebhookInventoryLevelDTO): Promise<void> {
+    return this.deferMock(shopName, update);
+  }
+
+  async discard(
+    shopName: string,
+    inventoryItemId: number,
+    locationId: number
+  ): Promise<void> {
+    return this.discardMock(shopName, inventoryItemId, locationId);
+  }
+
+  async findForInventoryItem(
+    shopName: string,
+    inventoryItemId: number
+  ): Promise<WebhookInventoryLevelDTO[]> {
+    return this.findMock(shopName, inventoryItemId);
+  }
+
+  async remove(shopName: string, update: WebhookInventoryLevelDTO): Promise<void> {
+    return this.removeMock(shopName, update);
   }
 }
 
@@ -36,11 +142,33 @@ describe("ProcessInventoryWebhookUseCase", () => {
   let useCase: ProcessInventoryWebhookUseCase;
   let mockRepository: MockInventoryRepository;
   let mockValidator: MockWebhookValidator;
+  let mockMappings: MockVariantMappingRepository;
+  let mockPending: MockPendingUpdateRepository;
+  let logger: Logger & Record<"debug" | "info" | "warn" | "error", jest.Mock>;
+  let metrics: Metrics & Record<"count" | "duration", jest.Mock>;
 
   beforeEach(() => {
     mockRepository = new MockInventoryRepository();
     mockValidator = new MockWebhookValidator();
-    useCase = new ProcessInventoryWebhookUseCase(mockRepository, mockValidator);
+    mockMappings = new MockVariantMappingRepository();
+    mockPending = new MockPendingUpdateRepository();
+    logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      withContext: (_fields, work) => work(),
+    };
+    metrics = { count: jest.fn(), duration: jest.fn() };
+    useCase = new ProcessInventoryWebhookUseCase(
+      mockRepository,
+      mockValidator,
+      mockMappings,
+      mockPending,
+      logger,
+      metrics,
+      () => Date.parse("2024-02-01T00:00:00Z")
+    );
   });
 
   describe("successful processing", () => {
@@ -112,17 +240,568 @@ describe("ProcessInventoryWebhookUseCase", () => {
       expect(mockRepository.saveAsync).toHaveBeenCalledWith(
         expect.objectContaining({
           shopName: "myshop.myshopify.com",
-          variantId: 12345,
+          variantId: 55555,
           locationId: 789,
           available: 50,
+          inventoryItemId: 12345,
         })
       );
+      expect(mockMappings.getMock).toHaveBeenCalledWith(
+        "myshop.myshopify.com",
+        12345
+      );
+    });
+
+    it("should record how far behind the payload's updated_at it was saved", async () => {
+      await useCase.execute({
+        shopName: "myshop.myshopify.com",
+        rawBody: "raw",
+        signature: "sig",
+        topic: "inventory_levels/update",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-31T23:59:30Z",
+        },
+      });
+
+      expect(metrics.duration).toHaveBeenCalledWith("WebhookLag", 30000, {
+        shop: "myshop.myshopify.com",
+        topic: "inventory_levels/update",
+      });
     });
   });
 
+  describe("unmapped inventory items", () => {
+    const request = {
+      shopName: "myshop",
+      rawBody: "raw",
+      signature: "sig",
+      inventoryLevel: {
+        inventory_item_id: 12345,
+        location_id: 789,
+        available: 50,
+        updated_at: "2024-01-15T10:30:00Z",
+      },
+    };
+
+    it("should defer an update whose variant is not yet known", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(result.processedCount).toBe(0);
+      expect(result.skippedCount).toBe(1);
+      expect(result.skipped[0].reason).toBe(
+        "Deferred: no variant known for inventory item 12345"
+      );
+      expect(mockPending.deferMock).toHaveBeenCalledWith(
+        "myshop",
+        request.inventoryLevel
+      );
+      expect(mockRepository.saveAsync).not.toHaveBeenCalled();
+    });
+
+    it("should replay a deferral that raced the variant mapping", async () => {
+      mockMappings.getMock
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(
+          new VariantMapping(
+            "myshop",
+            12345,
+            55555,
+            777,
+            new Date("2024-01-01T00:00:00Z")
+          )
+        );
+      mockPending.findMock.mockResolvedValue([request.inventoryLevel]);
+
+      const result = await useCase.execute(request);
+
+      expect(result.processedCount).toBe(1);
+      expect(mockRepository.saveAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ variantId: 55555, locationId: 789 })
+      );
+      expect(mockPending.removeMock).toHaveBeenCalledWith(
+        "myshop",
+        request.inventoryLevel
+      );
+    });
+
+    it("should not defer updates that fail authentication", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+      mockValidator.validateMock.mockResolvedValue(false);
+
+      await expect(useCase.execute(request)).rejects.toThrow(
+        "Invalid webhook signature"
+      );
+      expect(mockPending.deferMock).not.toHaveBeenCalled();
+    });
+
+    it("should not defer updates with an invalid date", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+
+      await expect(
+        useCase.execute({
+          ...request,
+          inventoryLevel: { ...request.inventoryLevel, updated_at: "soon" },
+        })
+      ).rejects.toThrow("Invalid date format");
+      expect(mockPending.deferMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("history", () => {
+    const request = {
+      shopName: "myshop",
+      rawBody: "raw",
+      signature: "sig",
+      eventId: "evt-1",
+      topic: "inventory_levels/update",
+      inventoryLevel: {
+        inventory_item_id: 12345,
+        location_id: 789,
+        available: 3,
+        updated_at: "2024-01-15T10:30:00Z",
+      },
+    };
+
+    it("should save the change with its source for the history ledger", async () => {
+      await useCase.execute(request);
+
+      expect(mockRepository.sources).toEqual([
+        {
+          recordedAt: new Date("2024-02-01T00:00:00Z"),
+          eventId: "evt-1",
+          topic: "inventory_levels/update",
+        },
+      ]);
+    });
+
+    it("should report stale updates as skipped", async () => {
+      mockRepository.saveAsync.mockResolvedValue(stale);
+
+      await useCase.execute(request);
+
+      expect(logger.info).toHaveBeenCalledWith(
+        "Skipped stale inventory update",
+        expect.objectContaining({ variantId: 55555, locationId: 789 })
+      );
+      expect(metrics.count).toHaveBeenCalledWith(
+        "WebhooksSkipped",
+        expect.objectContaining({ reason: "stale" })
+      );
+      expect(metrics.duration).not.toHaveBeenCalled();
+    });
+
+    it("should not record deferred updates", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+
+      await useCase.execute(request);
+
+      expect(mockRepository.sources).toEqual([]);
+    });
+
+    it("should record a disconnect with its source", async () => {
+      await useCase.disconnect({
+        ...request,
+        topic: "inventory_levels/disconnect",
+        inventoryLevel: { inventory_item_id: 12345, location_id: 789 },
+      });
+
+      expect(mockRepository.sources).toEqual([
+        expect.objectContaining({ topic: "inventory_levels/disconnect" }),
+      ]);
+    });
+
+    it("should record replays against the releasing webhook", async () => {
+      mockPending.findMock.mockResolvedValue([request.inventoryLevel]);
+
+      await useCase.replayDeferred("myshop", 12345, 55555, {
+        eventId: "evt-2",
+        topic: "products/create",
+      });
+
+      expect(mockRepository.sources).toEqual([
+        expect.objectContaining({ eventId: "evt-2", topic: "products/create" }),
+      ]);
+    });
+  });
+
+  describe("connect", () => {
+    const connection = {
+      inventory_item_id: 12345,
+      location_id: 789,
+      updated_at: "2024-01-15T10:30:00Z",
+    };
+
+    it("should create a zero-stock level for the mapped variant", async () => {
+      const result = await useCase.connect({
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "sig",
+        inventoryLevel: { ...connection, available: null },
+      });
+
+      expect(result.processedCount).toBe(1);
+      expect(mockRepository.saveAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          variantId: 55555,
+          locationId: 789,
+          available: 0,
+        })
+      );
+    });
+
+    it("should keep stock reported with the connection", async () => {
+      await useCase.connect({
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "sig",
+        inventoryLevel: { ...connection, available: 4 },
+      });
+
+      expect(mockRepository.saveAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ available: 4 })
+      );
+    });
+
+    it("should defer a connection for an unmapped item", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+
+      const result = await useCase.connect({
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "sig",
+        inventoryLevel: connection,
+      });
+
+      expect(result.skipped[0].reason).toContain("Deferred");
+      expect(mockPending.deferMock).toHaveBeenCalledWith("myshop", {
+        ...connection,
+        available: 0,
+      });
+    });
+  });
+
+  describe("disconnect", () => {
+    const request = {
+      shopName: "myshop",
+      rawBody: "raw",
+      signature: "sig",
+      inventoryLevel: { inventory_item_id: 12345, location_id: 789 },
+    };
+
+    it("should delete the level as of when Shopify triggered the webhook", async () => {
+      await useCase.disconnect({
+        ...request,
+        triggeredAt: new Date("2024-01-31T23:59:58Z"),
+      });
+
+      expect(mockRepository.deleteAsync).toHaveBeenCalledWith(
+        "myshop",
+        55555,
+        789,
+        new Date("2024-01-31T23:59:58Z")
+      );
+    });
+
+    it("should delete the level as of receipt when the trigger time is unknown", async () => {
+      const result = await useCase.disconnect(request);
+
+      expect(result.success).toBe(true);
+      expect(result.processedCount).toBe(1);
+      expect(mockRepository.deleteAsync).toHaveBeenCalledWith(
+        "myshop",
+        55555,
+        789,
+        new Date("2024-02-01T00:00:00Z")
+      );
+    });
+
+    it("should report a disconnect older than the stored level as skipped", async () => {
+      mockRepository.deleteAsync.mockResolvedValue(stale);
+
+      const result = await useCase.disconnect(request);
+
+      expect(result.skippedCount).toBe(1);
+      expect(result.skipped[0].reason).toContain("Stale update");
+    });
+
+    it("should discard a pending update for an unmapped item", async () => {
+      mockMappings.getMock.mockResolvedValue(null);
+
+      const result = await useCase.disconnect(request);
+
+      expect(result.skipped[0].reason).toBe(
+        "Discarded: no variant known for inventory item 12345"
+      );
+      expect(mockPending.discardMock).toHaveBeenCalledWith("myshop", 12345, 789);
+      expect(mockRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+
+    it("should report storage errors as failures", async () => {
+      mockRepository.deleteAsync.mockRejectedValue(new Error("DynamoDB error"));
+
+      const result = await useCase.disconnect(request);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].reason).toBe("DynamoDB error");
+    });
+
+    it("should reject unauthenticated webhooks", async () => {
+      mockValidator.validateMock.mockResolvedValue(false);
+
+      await expect(useCase.disconnect(request)).rejects.toThrow(
+        "Invalid webhook signature"
+      );
+      expect(mockRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+
+    it("should throw when the location ID is not positive", async () => {
+      await expect(
+        useCase.disconnect({
+          ...request,
+          inventoryLevel: { inventory_item_id: 12345, location_id: 0 },
+        })
+      ).rejects.toThrow("Location ID must be positive");
+    });
+  });
+
+  describe("replayDeferred", () => {
+    it("should save every pending update under the mapped variant", async () => {
+      mockPending.findMock.mockResolvedValue([
+        {
+          inventory_item_id: 12345,
+          location_id: 1,
+          available: 5,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+        {
+          inventory_item_id: 12345,
+          location_id: 2,
+          available: 7,
+          updated_at: "2024-01-15T10:31:00Z",
+        },
+      ]);
+
+      const result = await useCase.replayDeferred("myshop", 12345, 55555);
+
+      expect(mockPending.findMock).toHaveBeenCalledWith("myshop", 12345);
+      expect(result.processedCount).toBe(2);
+      expect(mockRepository.saveAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ variantId: 55555, locationId: 2, available: 7 })
+      );
+    });
+
+    it("should report invalid pending updates by position", async () => {
+      mockPending.findMock.mockResolvedValue([
+        {
+          inventory_item_id: 12345,
+          location_id: 1,
+          available: 5,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+        {
+          inventory_item_id: 12345,
+          location_id: 2,
+          available: -1,
+          updated_at: "2024-01-15T10:31:00Z",
+        },
+      ]);
+
+      const result = await useCase.replayDeferred("myshop", 12345, 55555);
+
+      expect(result.success).toBe(false);
+      expect(result.processedCount).toBe(1);
+      expect(result.errors).toEqual([
+        { index: 1, reason: "Available stock cannot be negative" },
+      ]);
+    });
+
+    it("should remove each pending update once it is saved", async () => {
+      const applied = {
+        inventory_item_id: 12345,
+        location_id: 1,
+        available: 5,
+        updated_at: "2024-01-15T10:30:00Z",
+      };
+      const failed = { ...applied, location_id: 2 };
+      mockPending.findMock.mockResolvedValue([applied, failed]);
+      mockRepository.saveAsync.mockImplementation(async (level) => {
+        if (level.locationId === 2) {
+          throw new Error("Throttled");
+        }
+        return saved(0);
+      });
+
+      const result = await useCase.replayDeferred("myshop", 12345, 55555);
+
+      expect(result.success).toBe(false);
+      expect(mockPending.removeMock).toHaveBeenCalledTimes(1);
+      expect(mockPending.removeMock).toHaveBeenCalledWith("myshop", applied);
+    });
+
+    it("should remove pending updates that can never be applied", async () => {
+      const invalid = {
+        inventory_item_id: 12345,
+        location_id: 1,
+        available: -1,
+        updated_at: "2024-01-15T10:30:00Z",
+      };
+      mockPending.findMock.mockResolvedValue([invalid]);
+
+      await useCase.replayDeferred("myshop", 12345, 55555);
+
+      expect(mockPending.removeMock).toHaveBeenCalledWith("myshop", invalid);
+    });
+
+    it("should do nothing when no updates are pending", async () => {
+      const result = await useCase.replayDeferred("myshop", 12345, 55555);
+
+      expect(result.success).toBe(true);
+      expect(result.processedCount).toBe(0);
+      expect(mockRepository.saveAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("corrections", () => {
+    const delivery = {
+      eventId: "reconciliation:2024-02-01T00:00:00.000Z",
+      topic: "reconciliation",
+    };
+    const level = new InventoryLevel(
+      "myshop",
+      55555,
+      789,
+      12,
+      new Date("2024-01-20T00:00:00Z"),
+      12345
+    );
+
+    it("should save a corrected level and record it in history", async () => {
+      mockRepository.saveAsync.mockResolvedValue(saved(10));
+
+      const result = await useCase.applyCorrection(level, delivery);
+
+      expect(result.processedCount).toBe(1);
+      expect(mockRepository.saveAsync).toHaveBeenCalledWith(level);
+      expect(mockRepository.sources).toEqual([
+        expect.objectContaining({
+          eventId: delivery.eventId,
+          topic: "reconciliation",
+        }),
+      ]);
+    });
+
+    it("should skip a correction older than the stored level", async () => {
+      mockRepository.saveAsync.mockResolvedValue(stale);
+
+      const result = await useCase.applyCorrection(level, delivery);
+
+      expect(result.skipped[0].reason).toContain("Stale update");
+    });
+
+    it("should delete a removed level as of the given time", async () => {
+      const removedAt = new Date("2024-02-01T00:00:00Z");
+
+      const result = await useCase.removeCorrection(level, removedAt, delivery);
+
+      expect(result.processedCount).toBe(1);
+      expect(mockRepository.deleteAsync).toHaveBeenCalledWith(
+        "myshop",
+        55555,
+        789,
+        removedAt
+      );
+      expect(mockRepository.sources).toEqual([
+        expect.objectContaining({ topic: "reconciliation" }),
+      ]);
+    });
+  });
+
+  describe("shop configuration", () => {
+    const configuredShop = (trackedLocationIds?: number[]) =>
+      new Shop(
+        "myshop.myshopify.com",
+        "active",
+        new Date("2024-01-01T00:00:00Z"),
+        undefined,
+        trackedLocationIds
+      );
+    const request = {
+      shopName: "myshop.myshopify.com",
+      rawBody: "raw",
+      signature: "sig",
+      inventoryLevel: {
+        inventory_item_id: 12345,
+        location_id: 789,
+        available: 50,
+        updated_at: "2024-01-15T10:30:00Z",
+      },
+    };
+
+    it("should skip updates for untracked locations", async () => {
+      const result = await useCase.execute({
+        ...request,
+        shop: configuredShop([1, 2]),
+      });
+
+      expect(result.skipped).toEqual([
+        { index: 0, reason: "Untracked location: 789" },
+      ]);
+      expect(mockMappings.getMock).not.toHaveBeenCalled();
+      expect(mockPending.deferMock).not.toHaveBeenCalled();
+      expect(mockRepository.saveAsync).not.toHaveBeenCalled();
+    });
+
+    it("should save updates for tracked locations", async () => {
+      const result = await useCase.execute({
+        ...request,
+        shop: configuredShop([789]),
+      });
+
+      expect(result.processedCount).toBe(1);
+    });
+
+    it("should skip disconnects for untracked locations", async () => {
+      const result = await useCase.disconnect({
+        ...request,
+        inventoryLevel: { inventory_item_id: 12345, location_id: 789 },
+        shop: configuredShop([1]),
+      });
+
+      expect(result.skipped[0].reason).toBe("Untracked location: 789");
+      expect(mockRepository.deleteAsync).not.toHaveBeenCalled();
+    });
+
+    it("should skip replayed updates for untracked locations", async () => {
+      mockPending.findMock.mockResolvedValue([
+        { ...request.inventoryLevel, location_id: 1 },
+        { ...request.inventoryLevel, location_id: 2 },
+      ]);
+
+      const result = await useCase.replayDeferred(
+        "myshop.myshopify.com",
+        12345,
+        55555,
+        {},
+        configuredShop([1])
+      );
+
+      expect(result.processedCount).toBe(1);
+      expect(result.skipped).toEqual([
+        { index: 1, reason: "Untracked location: 2" },
+      ]);
+    });
+
+  });
+
   describe("validation failures", () => {
     it("should throw when webhook signature is invalid", async () => {
-      mockValidator.validateMock.mockReturnValue(false);
+      mockValidator.validateMock.mockResolvedValue(false);
 
       const request = {
         shopName: "myshop",
@@ -141,6 +820,104 @@ describe("ProcessInventoryWebhookUseCase", () => {
       );
     });
 
+    it("should throw a typed authentication error", async () => {
+      mockValidator.validateMock.mockResolvedValue(false);
+
+      const request = {
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "invalid-signature",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      };
+
+      await expect(useCase.execute(request)).rejects.toBeInstanceOf(
+        AuthenticationError
+      );
+      expect(mockRepository.saveAsync).not.toHaveBeenCalled();
+    });
+
+    it("should fail closed when the validator throws", async () => {
+      mockValidator.validateMock.mockRejectedValue(
+        new Error("secret unavailable")
+      );
+
+      const request = {
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "sig",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      };
+
+      await expect(useCase.execute(request)).rejects.toThrow(
+        "Unable to verify webhook: secret unavailable"
+      );
+      expect(mockRepository.saveAsync).not.toHaveBeenCalled();
+    });
+
+    it("should pass the raw body and signature to the validator", async () => {
+      const request = {
+        shopName: "myshop",
+        rawBody: '{"inventory_item_id":12345}',
+        signature: "sig",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      };
+
+      await useCase.execute(request);
+
+      expect(mockValidator.validateMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "http",
+          rawBody: '{"inventory_item_id":12345}',
+          signature: "sig",
+        })
+      );
+    });
+
+    it("should authenticate EventBridge deliveries by source", async () => {
+      mockValidator.validateMock.mockResolvedValue(false);
+
+      const request = {
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: undefined,
+        channel: "eventbridge" as const,
+        eventSource: "aws.partner/shopify.com/1/evil",
+        account: "123456789012",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      };
+
+      await expect(useCase.execute(request)).rejects.toThrow(
+        "Invalid webhook source"
+      );
+      expect(mockValidator.validateMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: "eventbridge",
+          eventSource: "aws.partner/shopify.com/1/evil",
+          account: "123456789012",
+        })
+      );
+    });
+
     it("should throw when shop name is empty", async () => {
       const request = {
         shopName: "",
@@ -239,7 +1016,7 @@ describe("ProcessInventoryWebhookUseCase", () => {
       );
     });
 
-    it("should throw when inventory level has invalid variant ID", async () => {
+    it("should throw when inventory level has invalid inventory item ID", async () => {
       const request = {
         shopName: "myshop",
         rawBody: "raw",
@@ -253,7 +1030,7 @@ describe("ProcessInventoryWebhookUseCase", () => {
       };
 
       await expect(useCase.execute(request)).rejects.toThrow(
-        "Variant ID must be positive"
+        "Inventory item ID must be positive"
       );
     });
   });
@@ -285,8 +1062,47 @@ describe("ProcessInventoryWebhookUseCase", () => {
       expect(result.errors[0].reason).toContain("DynamoDB error");
     });
 
+    it("should let transient storage errors through for a retry", async () => {
+      mockRepository.saveAsync.mockRejectedValueOnce(
+        new TransientStorageError("Inventory write contended after 5 attempts")
+      );
+
+      await expect(
+        useCase.execute({
+          shopName: "myshop",
+          rawBody: "raw",
+          signature: "sig",
+          inventoryLevel: {
+            inventory_item_id: 12345,
+            location_id: 789,
+            available: 50,
+            updated_at: "2024-01-15T10:30:00Z",
+          },
+        })
+      ).rejects.toBeInstanceOf(TransientStorageError);
+    });
+
+    it("should let transient storage errors through from replays", async () => {
+      mockPending.findMock.mockResolvedValue([
+        {
+          inventory_item_id: 12345,
+          location_id: 1,
+          available: 5,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      ]);
+      mockRepository.saveAsync.mockRejectedValueOnce(
+        new TransientStorageError("DynamoDB temporarily unavailable")
+      );
+
+      await expect(
+        useCase.replayDeferred("myshop", 12345, 55555)
+      ).rejects.toBeInstanceOf(TransientStorageError);
+      expect(mockPending.removeMock).not.toHaveBeenCalled();
+    });
+
     it("should return success when save succeeds", async () => {
-      mockRepository.saveAsync.mockResolvedValue(undefined);
+      mockRepository.saveAsync.mockResolvedValue(saved(null));
 
       const request = {
         shopName: "myshop",
@@ -308,6 +1124,32 @@ describe("ProcessInventoryWebhookUseCase", () => {
     });
   });
 
+  describe("stale updates", () => {
+    it("should report a stale update as skipped rather than failed", async () => {
+      mockRepository.saveAsync.mockResolvedValue(stale);
+
+      const request = {
+        shopName: "myshop",
+        rawBody: "raw",
+        signature: "sig",
+        inventoryLevel: {
+          inventory_item_id: 12345,
+          location_id: 789,
+          available: 50,
+          updated_at: "2024-01-15T10:30:00Z",
+        },
+      };
+
+      const result = await useCase.execute(request);
+
+      expect(result.success).toBe(true);
+      expect(result.processedCount).toBe(0);
+      expect(result.skippedCount).toBe(1);
+      expect(result.skipped[0].reason).toContain("Stale update");
+      expect(result.errors).toHaveLength(0);
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle very large stock quantities", async () => {
       const request = {
@@ -0,0 +1,127 @@
+import { ProcessLocationWebhookUseCase } from "../ProcessLocationWebhookUseCase";
+import { LocationRepository } from "../../ports/LocationRepository";
+import { AuthenticationError } from "../../errors/AuthenticationError";
+
+describe("ProcessLocationWebhookUseCase", () => {
+  const NOW = Date.parse("2024-02-01T00:00:00Z");
+
+  let validate: jest.Mock;
+  let locations: jest.Mocked<LocationRepository>;
+  let useCase: ProcessLocationWebhookUseCase;
+
+  const auth = { shopName: "myshop", rawBody: "raw", signature: "sig" };
+  const location = {
+    id: 789,
+    name: "Main warehouse",
+    address1: "1 Harbour Rd",
+    city: "Lisbon",
+    zip: "1000-001",
+    country: "Portugal",
+    country_code: "PT",
+    active: true,
+    updated_at: "2024-01-15T10:30:00Z",
+  };
+
+  beforeEach(() => {
+    validate = jest.fn().mockResolvedValue(true);
+    locations = {
+      save: jest.fn().mockResolvedValue("saved"),
+      markDeleted: jest.fn().mockResolvedValue(undefined),
+      getByShop: jest.fn(),
+      getByShopAndLocation: jest.fn(),
+    };
+    useCase = new ProcessLocationWebhookUseCase(
+      { validate },
+      locations,
+      () => NOW
+    );
+  });
+
+  describe("execute", () => {
+    it("should save the location with its address", async () => {
+      const result = await useCase.execute({ ...auth, location });
+
+      expect(result.processedCount).toBe(1);
+      expect(locations.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          shopName: "myshop",
+          locationId: 789,
+          name: "Main warehouse",
+          active: true,
+          address: {
+            address1: "1 Harbour Rd",
+            address2: null,
+            city: "Lisbon",
+            province: null,
+            provinceCode: null,
+            zip: "1000-001",
+            country: "Portugal",
+            countryCode: "PT",
+          },
+        })
+      );
+    });
+
+    it("should assume online fulfillment when the payload omits it", async () => {
+      await useCase.execute({ ...auth, location });
+
+      expect(locations.save).toHaveBeenCalledWith(
+        expect.objectContaining({ fulfillsOnlineOrders: true })
+      );
+    });
+
+    it("should keep an explicit online fulfillment flag", async () => {
+      await useCase.execute({
+        ...auth,
+        location: { ...location, fulfills_online_orders: false },
+      });
+
+      expect(locations.save).toHaveBeenCalledWith(
+        expect.objectContaining({ fulfillsOnlineOrders: false })
+      );
+    });
+
+    it("should report a stale update as skipped", async () => {
+      locations.save.mockResolvedValue("stale");
+
+      const result = await useCase.execute({ ...auth, location });
+
+      expect(result.skippedCount).toBe(1);
+      expect(result.skipped[0].reason).toContain("Stale update");
+    });
+
+    it("should reject unauthenticated webhooks before saving", async () => {
+      validate.mockResolvedValue(false);
+
+      await expect(
+        useCase.execute({ ...auth, location })
+      ).rejects.toBeInstanceOf(AuthenticationError);
+      expect(locations.save).not.toHaveBeenCalled();
+    });
+
+    it("should throw when updated_at is invalid", async () => {
+      await expect(
+        useCase.execute({ ...auth, location: { ...location, updated_at: "x" } })
+      ).rejects.toThrow("Invalid date format for updated_at: x");
+    });
+  });
+
+  describe("delete", () => {
+    it("should tombstone the location", async () => {
+      const result = await useCase.delete({ ...auth, location: { id: 789 } });
+
+      expect(result.processedCount).toBe(1);
+      expect(locations.markDeleted).toHaveBeenCalledWith(
+        "myshop",
+        789,
+        new Date(NOW)
+      );
+    });
+
+    it("should throw when the location ID is not positive", async () => {
+      await expect(
+        useCase.delete({ ...auth, location: { id: -1 } })
+      ).rejects.toThrow("Location ID must be positive");
+    });
+  });
+});
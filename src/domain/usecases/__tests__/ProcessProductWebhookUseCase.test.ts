@@ -0,0 +1,170 @@
+import { ProcessProductWebhookUseCase } from "../ProcessProductWebhookUseCase";
+import { ProcessInventoryWebhookUseCase } from "../ProcessInventoryWebhookUseCase";
+import { VariantMappingRepository } from "../../ports/VariantMappingRepository";
+import {
+  WebhookAuthenticationRequest,
+  WebhookValidator,
+} from "../../ports/WebhookValidator";
+import { VariantMapping } from "../../entities/VariantMapping";
+import { AuthenticationError } from "../../errors/AuthenticationError";
+
+class MockVariantMappingRepository implements VariantMappingRepository {
+  saveManyMock: jest.Mock = jest.fn().mockResolvedValue(undefined);
+
+  async saveMany(mappings: VariantMapping[]): Promise<void> {
+    return this.saveManyMock(mappings);
+  }
+
+  async getByInventoryItem(): Promise<VariantMapping | null> {
+    throw new Error("Not implemented");
+  }
+}
+
+class MockWebhookValidator implements WebhookValidator {
+  validateMock: jest.Mock = jest.fn().mockResolvedValue(true);
+
+  async validate(request: WebhookAuthenticationRequest): Promise<boolean> {
+    return this.validateMock(request);
+  }
+}
+
+const emptyResult = {
+  success: true,
+  processedCount: 0,
+  skippedCount: 0,
+  skipped: [],
+  errors: [],
+};
+
+describe("ProcessProductWebhookUseCase", () => {
+  let useCase: ProcessProductWebhookUseCase;
+  let mockMappings: MockVariantMappingRepository;
+  let mockValidator: MockWebhookValidator;
+  let replayDeferred: jest.Mock;
+
+  const request = {
+    shopName: "myshop",
+    rawBody: "raw",
+    signature: "sig",
+    product: {
+      id: 777,
+      updated_at: "2024-01-15T10:30:00Z",
+      variants: [
+        { id: 55555, inventory_item_id: 12345 },
+        {
+          id: 66666,
+          inventory_item_id: 67890,
+          updated_at: "2024-01-15T10:29:00Z",
+        },
+      ],
+    },
+  };
+
+  beforeEach(() => {
+    mockMappings = new MockVariantMappingRepository();
+    mockValidator = new MockWebhookValidator();
+    replayDeferred = jest.fn().mockResolvedValue(emptyResult);
+    useCase = new ProcessProductWebhookUseCase(
+      mockValidator,
+      mockMappings,
+      { replayDeferred } as unknown as ProcessInventoryWebhookUseCase
+    );
+  });
+
+  it("should save a mapping for every variant", async () => {
+    const result = await useCase.execute(request);
+
+    expect(result.success).toBe(true);
+    expect(result.processedCount).toBe(2);
+    expect(mockMappings.saveManyMock).toHaveBeenCalledWith([
+      new VariantMapping(
+        "myshop",
+        12345,
+        55555,
+        777,
+        new Date("2024-01-15T10:30:00Z")
+      ),
+      new VariantMapping(
+        "myshop",
+        67890,
+        66666,
+        777,
+        new Date("2024-01-15T10:29:00Z")
+      ),
+    ]);
+  });
+
+  it("should replay deferred updates for each mapped item", async () => {
+    replayDeferred.mockImplementation(
+      async (_shop: string, inventoryItemId: number) =>
+        inventoryItemId === 12345
+          ? { ...emptyResult, processedCount: 2 }
+          : {
+              ...emptyResult,
+              success: false,
+              errors: [{ index: 0, reason: "DynamoDB error" }],
+            }
+    );
+
+    const result = await useCase.execute(request);
+
+    const delivery = { eventId: undefined, topic: undefined };
+    expect(replayDeferred).toHaveBeenCalledWith(
+      "myshop",
+      12345,
+      55555,
+      delivery,
+      undefined
+    );
+    expect(replayDeferred).toHaveBeenCalledWith(
+      "myshop",
+      67890,
+      66666,
+      delivery,
+      undefined
+    );
+    expect(result.success).toBe(false);
+    expect(result.processedCount).toBe(4);
+    expect(result.errors).toEqual([{ index: 1, reason: "DynamoDB error" }]);
+  });
+
+  it("should replay only after mappings are saved", async () => {
+    const order: string[] = [];
+    mockMappings.saveManyMock.mockImplementation(async () => {
+      order.push("save");
+    });
+    replayDeferred.mockImplementation(async () => {
+      order.push("replay");
+      return emptyResult;
+    });
+
+    await useCase.execute(request);
+
+    expect(order).toEqual(["save", "replay", "replay"]);
+  });
+
+  it("should reject unauthenticated webhooks before saving", async () => {
+    mockValidator.validateMock.mockResolvedValue(false);
+
+    await expect(useCase.execute(request)).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(mockMappings.saveManyMock).not.toHaveBeenCalled();
+  });
+
+  it("should throw when shop name is empty", async () => {
+    await expect(
+      useCase.execute({ ...request, shopName: " " })
+    ).rejects.toThrow("Shop name is required");
+  });
+
+  it("should throw when a variant has an invalid date", async () => {
+    await expect(
+      useCase.execute({
+        ...request,
+        product: { ...request.product, updated_at: "soon" },
+      })
+    ).rejects.toThrow("Invalid date format for updated_at: soon");
+    expect(mockMappings.saveManyMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,252 @@
+import { ReconcileInventoryUseCase } from "../ReconcileInventoryUseCase";
+import { ProcessInventoryWebhookUseCase } from "../ProcessInventoryWebhookUseCase";
+import { WebhookProcessingResult } from "../WebhookProcessingResult";
+import { InventoryRepository } from "../../ports/InventoryRepository";
+import {
+  ShopifyAdminClient,
+  ShopifyVariantInventory,
+} from "../../ports/ShopifyAdminClient";
+import { ShopRegistry } from "../../services/ShopRegistry";
+import { InventoryLevel } from "../../entities/InventoryLevel";
+import { Shop } from "../../entities/Shop";
+import { ShopAccessError } from "../../errors/ShopAccessError";
+
+describe("ReconcileInventoryUseCase", () => {
+  const SHOP = "myshop.myshopify.com";
+  const shopifyDate = new Date("2024-01-20T00:00:00Z");
+  const storedDate = new Date("2024-01-15T10:30:00Z");
+  const startedAt = new Date("2024-02-01T00:00:00Z");
+
+  const processed: WebhookProcessingResult = {
+    success: true,
+    processedCount: 1,
+    skippedCount: 0,
+    skipped: [],
+    errors: [],
+  };
+
+  const stored = (variantId: number, locationId: number, available: number) =>
+    new InventoryLevel(SHOP, variantId, locationId, available, storedDate, variantId + 1);
+  const variant = (
+    variantId: number,
+    levels: Array<[number, number]>
+  ): ShopifyVariantInventory => ({
+    variantId,
+    inventoryItemId: variantId + 1,
+    levels: levels.map(([locationId, available]) => ({
+      locationId,
+      available,
+      updatedAt: shopifyDate,
+    })),
+  });
+
+  let listInventoryLevels: jest.Mock;
+  let getByShopAndVariant: jest.Mock;
+  let requireActive: jest.Mock;
+  let applyCorrection: jest.Mock;
+  let removeCorrection: jest.Mock;
+  let useCase: ReconcileInventoryUseCase;
+  let shop: Shop;
+
+  const storedLevels = (levels: InventoryLevel[]) => {
+    getByShopAndVariant.mockImplementation(async (_shop: string, variantId: number) =>
+      levels.filter((level) => level.variantId === variantId)
+    );
+  };
+  const shopifyPages = (...pages: ShopifyVariantInventory[][]) => {
+    pages.forEach((variants, index) =>
+      listInventoryLevels.mockResolvedValueOnce({
+        variants,
+        nextCursor: index < pages.length - 1 ? `cursor-${index + 1}` : null,
+      })
+    );
+  };
+
+  beforeEach(() => {
+    shop = new Shop(SHOP, "active", storedDate);
+    listInventoryLevels = jest.fn();
+    getByShopAndVariant = jest.fn().mockResolvedValue([]);
+    requireActive = jest.fn(async () => shop);
+    applyCorrection = jest.fn().mockResolvedValue(processed);
+    removeCorrection = jest.fn().mockResolvedValue(processed);
+
+    useCase = new ReconcileInventoryUseCase(
+      { listInventoryLevels } as ShopifyAdminClient,
+      { getByShopAndVariant } as unknown as InventoryRepository,
+      { requireActive } as unknown as ShopRegistry,
+      { applyCorrection, removeCorrection } as unknown as ProcessInventoryWebhookUseCase,
+      () => startedAt.getTime()
+    );
+  });
+
+  it("should report no discrepancies when stock matches", async () => {
+    shopifyPages([variant(100, [[1, 5], [2, 7]])]);
+    storedLevels([stored(100, 1, 5), stored(100, 2, 7)]);
+
+    const report = await useCase.execute({ shopName: SHOP });
+
+    expect(getByShopAndVariant).toHaveBeenCalledWith(SHOP, 100);
+    expect(report).toEqual({
+      shopName: SHOP,
+      repair: false,
+      variantsChecked: 1,
+      levelsChecked: 2,
+      discrepancies: [],
+      repairedCount: 0,
+      startedAt,
+      completedAt: startedAt,
+    });
+  });
+
+  it("should report missing, mismatched and unexpected levels", async () => {
+    shopifyPages([variant(100, [[1, 5], [2, 9]])]);
+    storedLevels([stored(100, 2, 7), stored(100, 3, 4)]);
+
+    const report = await useCase.execute({ shopName: SHOP });
+
+    expect(report.discrepancies).toEqual([
+      {
+        kind: "missing",
+        variantId: 100,
+        inventoryItemId: 101,
+        locationId: 1,
+        shopifyAvailable: 5,
+        storedAvailable: null,
+      },
+      {
+        kind: "mismatch",
+        variantId: 100,
+        inventoryItemId: 101,
+        locationId: 2,
+        shopifyAvailable: 9,
+        storedAvailable: 7,
+      },
+      {
+        kind: "unexpected",
+        variantId: 100,
+        inventoryItemId: 101,
+        locationId: 3,
+        shopifyAvailable: null,
+        storedAvailable: 4,
+      },
+    ]);
+    expect(applyCorrection).not.toHaveBeenCalled();
+    expect(removeCorrection).not.toHaveBeenCalled();
+  });
+
+  it("should compare only the shop's tracked locations", async () => {
+    shop = new Shop(SHOP, "active", storedDate, undefined, [1]);
+    shopifyPages([variant(100, [[1, 5], [2, 9]])]);
+    storedLevels([stored(100, 1, 5), stored(100, 3, 4)]);
+
+    const report = await useCase.execute({ shopName: SHOP });
+
+    expect(report.levelsChecked).toBe(1);
+    expect(report.discrepancies).toEqual([]);
+  });
+
+  it("should follow cursors through every page", async () => {
+    shopifyPages([variant(100, [[1, 5]])], [variant(200, [[1, 3]])]);
+    storedLevels([stored(100, 1, 5)]);
+
+    const report = await useCase.execute({ shopName: SHOP });
+
+    expect(listInventoryLevels).toHaveBeenNthCalledWith(1, SHOP, undefined);
+    expect(listInventoryLevels).toHaveBeenNthCalledWith(2, SHOP, "cursor-1");
+    expect(report.variantsChecked).toBe(2);
+    expect(report.discrepancies.map((d) => [d.kind, d.variantId])).toEqual([
+      ["missing", 200],
+    ]);
+  });
+
+  it("should normalize the shop domain before checking the registry", async () => {
+    shopifyPages([]);
+
+    const report = await useCase.execute({ shopName: "https://MyShop.myshopify.com/" });
+
+    expect(requireActive).toHaveBeenCalledWith(SHOP);
+    expect(listInventoryLevels).toHaveBeenCalledWith(SHOP, undefined);
+    expect(report.shopName).toBe(SHOP);
+  });
+
+  it("should refuse shops that are not active", async () => {
+    requireActive.mockRejectedValue(
+      new ShopAccessError(`Shop is suspended: ${SHOP}`, SHOP)
+    );
+
+    await expect(useCase.execute({ shopName: SHOP })).rejects.toThrow(
+      `Shop is suspended: ${SHOP}`
+    );
+    expect(listInventoryLevels).not.toHaveBeenCalled();
+  });
+
+  describe("repair", () => {
+    const delivery = {
+      eventId: "reconciliation:2024-02-01T00:00:00.000Z",
+      topic: "reconciliation",
+    };
+
+    it("should write Shopify's level over missing and mismatched levels", async () => {
+      shopifyPages([variant(100, [[1, 5], [2, 9]])]);
+      storedLevels([stored(100, 2, 7)]);
+
+      const report = await useCase.execute({ shopName: SHOP, repair: true });
+
+      expect(applyCorrection).toHaveBeenCalledTimes(2);
+      expect(applyCorrection).toHaveBeenCalledWith(
+        new InventoryLevel(SHOP, 100, 2, 9, shopifyDate, 101),
+        delivery
+      );
+      expect(report.repairedCount).toBe(2);
+      expect(report.discrepancies.map((d) => d.repair)).toEqual([
+        { repaired: true },
+        { repaired: true },
+      ]);
+    });
+
+    it("should remove unexpected levels as of the start of the run", async () => {
+      shopifyPages([variant(100, [])]);
+      storedLevels([stored(100, 3, 4)]);
+
+      const report = await useCase.execute({ shopName: SHOP, repair: true });
+
+      expect(removeCorrection).toHaveBeenCalledWith(
+        stored(100, 3, 4),
+        startedAt,
+        delivery
+      );
+      expect(report.repairedCount).toBe(1);
+    });
+
+    it("should report repairs the inventory use case skipped", async () => {
+      shopifyPages([variant(100, [[1, 5]])]);
+      applyCorrection.mockResolvedValue({
+        success: true,
+        processedCount: 0,
+        skippedCount: 1,
+        skipped: [{ index: 0, reason: "Stale update: stored level is newer" }],
+        errors: [],
+      });
+
+      const report = await useCase.execute({ shopName: SHOP, repair: true });
+
+      expect(report.repairedCount).toBe(0);
+      expect(report.discrepancies[0].repair).toEqual({
+        repaired: false,
+        reason: "Stale update: stored level is newer",
+      });
+    });
+
+    it("should keep repairing after one repair throws", async () => {
+      shopifyPages([variant(100, [[1, -2], [2, 9]])]);
+
+      const report = await useCase.execute({ shopName: SHOP, repair: true });
+
+      expect(report.discrepancies.map((d) => d.repair)).toEqual([
+        { repaired: false, reason: "Available stock cannot be negative" },
+        { repaired: true },
+      ]);
+      expect(report.repairedCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import {
+  Context,
+  DynamoDBBatchResponse,
+  DynamoDBStreamEvent,
+} from "aws-lambda";
+import { inventoryHistoryStreamHandler, logger } from "./bootstrap";
+
+/**
+ * Lambda handler for the inventory history table's stream
+ * Publishes each recorded change; a failed record is returned as a
+ * batchItemFailure so it and the rest of its shard are delivered again
+ */
+export async function handler(
+  event: DynamoDBStreamEvent,
+  context: Context
+): Promise<DynamoDBBatchResponse> {
+  return logger.withContext({ requestId: context.awsRequestId }, async () =>
+    inventoryHistoryStreamHandler.handle(event)
+  );
+}
@@ -0,0 +1,27 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  Context,
+} from "aws-lambda";
+import {
+  logger,
+  webhookPayloadParser,
+  webhookRequestHandler,
+} from "./bootstrap";
+
+/**
+ * Lambda handler for Shopify webhooks posted directly to API Gateway
+ * For shops that cannot use the EventBridge partner integration
+ */
+export async function handler(
+  event: APIGatewayProxyEventV2,
+  context: Context
+): Promise<APIGatewayProxyResultV2> {
+  return logger.withContext({ requestId: context.awsRequestId }, async () => {
+    logger.info("Received HTTP webhook request");
+
+    return webhookRequestHandler.handle(() =>
+      webhookPayloadParser.parseApiGatewayEvent(event)
+    );
+  });
+}
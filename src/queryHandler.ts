@@ -0,0 +1,20 @@
+import {
+  APIGatewayProxyEventV2,
+  APIGatewayProxyResultV2,
+  Context,
+} from "aws-lambda";
+import { inventoryQueryHandler, logger } from "./bootstrap";
+
+/**
+ * Lambda handler for the read-only inventory query API
+ */
+export async function handler(
+  event: APIGatewayProxyEventV2,
+  context: Context
+): Promise<APIGatewayProxyResultV2> {
+  return logger.withContext({ requestId: context.awsRequestId }, async () => {
+    logger.info("Received inventory query", { routeKey: event.routeKey });
+
+    return inventoryQueryHandler.handle(event);
+  });
+}
@@ -0,0 +1,23 @@
+import { Context } from "aws-lambda";
+import { logger, reconciliationJobHandler } from "./bootstrap";
+import {
+  ReconciliationJobEvent,
+  ReconciliationJobResult,
+} from "./adapters/handlers/ReconciliationJobHandler";
+
+/**
+ * Lambda handler for the scheduled reconciliation job
+ */
+export async function handler(
+  event: ReconciliationJobEvent,
+  context: Context
+): Promise<ReconciliationJobResult> {
+  return logger.withContext({ requestId: context.awsRequestId }, async () => {
+    logger.info("Starting inventory reconciliation", {
+      shopNames: event.shopNames,
+      repair: event.repair ?? false,
+    });
+
+    return reconciliationJobHandler.handle(event);
+  });
+}
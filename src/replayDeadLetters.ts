@@ -0,0 +1,9 @@
+import { deadLetterReplayCommandHandler } from "./bootstrap";
+
+/**
+ * Command-line entry point replaying dead-lettered webhook events
+ *   npm run replay-dead-letters -- [--shop <shop>] [--topic <topic>] [--dry-run]
+ */
+deadLetterReplayCommandHandler.run(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,20 @@
+import { Context, SQSBatchResponse, SQSEvent } from "aws-lambda";
+import { logger, sqsWebhookBatchHandler } from "./bootstrap";
+
+/**
+ * Lambda handler for Shopify EventBridge webhooks buffered through SQS
+ * Failed messages are returned as batchItemFailures so only they are
+ * redelivered
+ */
+export async function handler(
+  event: SQSEvent,
+  context: Context
+): Promise<SQSBatchResponse> {
+  return logger.withContext({ requestId: context.awsRequestId }, async () => {
+    logger.info("Received SQS webhook batch", {
+      messages: event.Records.length,
+    });
+
+    return sqsWebhookBatchHandler.handle(event);
+  });
+}
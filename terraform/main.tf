@@ -39,6 +39,212 @@ resource "aws_dynamodb_table" "shopify_inventory" {
   }
 }
 
+# DynamoDB Table for recognising redelivered webhooks
+resource "aws_dynamodb_table" "webhook_dedup" {
+  name         = "shopify-webhook-dedup-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "dedup_key"
+
+  attribute {
+    name = "dedup_key"
+    type = "S"
+  }
+
+  ttl {
+    attribute_name = "expires_at"
+    enabled        = true
+  }
+
+  tags = {
+    Name        = "shopify-webhook-dedup"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for inventory item metadata
+# Holds the item catalog (record_type "item"), inventory item → variant
+# mappings (record_type "variant") and inventory updates waiting on a
+# mapping (record_type "pending#<location_id>")
+resource "aws_dynamodb_table" "inventory_items" {
+  name         = "shopify-inventory-items-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shop_inventory_item_id"
+  range_key    = "record_type"
+
+  attribute {
+    name = "shop_inventory_item_id"
+    type = "S"
+  }
+
+  attribute {
+    name = "record_type"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-inventory-items"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for the location catalog
+resource "aws_dynamodb_table" "locations" {
+  name         = "shopify-locations-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shop_name"
+  range_key    = "location"
+
+  attribute {
+    name = "shop_name"
+    type = "S"
+  }
+
+  attribute {
+    name = "location"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-locations"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for the append-only inventory history ledger
+resource "aws_dynamodb_table" "inventory_history" {
+  name         = "shopify-inventory-history-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shop_variant_id"
+  range_key    = "change_key"
+
+  # Feeds the history stream handler, which publishes each recorded change
+  stream_enabled   = true
+  stream_view_type = "NEW_IMAGE"
+
+  attribute {
+    name = "shop_variant_id"
+    type = "S"
+  }
+
+  attribute {
+    name = "change_key"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-inventory-history"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for low-stock thresholds and alerted stock statuses
+resource "aws_dynamodb_table" "stock_alerts" {
+  name         = "shopify-stock-alerts-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shop_name"
+  range_key    = "record_key"
+
+  attribute {
+    name = "shop_name"
+    type = "S"
+  }
+
+  attribute {
+    name = "record_key"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-stock-alerts"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for the registry of installed shops and their settings
+resource "aws_dynamodb_table" "shops" {
+  name         = "shopify-shops-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shop_name"
+
+  attribute {
+    name = "shop_name"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-shops"
+    Environment = var.environment
+  }
+}
+
+# DynamoDB Table for webhook events that failed processing, kept for replay
+resource "aws_dynamodb_table" "webhook_dead_letters" {
+  name         = "shopify-webhook-dead-letters-${var.environment}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "dead_letter_id"
+
+  attribute {
+    name = "dead_letter_id"
+    type = "S"
+  }
+
+  tags = {
+    Name        = "shopify-webhook-dead-letters"
+    Environment = var.environment
+  }
+}
+
+# SNS topic receiving low-stock, sold-out and recovery notices
+resource "aws_sns_topic" "stock_alerts" {
+  name = "shopify-stock-alerts-${var.environment}"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Outbound bus for InventoryChanged events consumed by other services
+resource "aws_cloudwatch_event_bus" "inventory_events" {
+  name = "shopify-inventory-events-${var.environment}"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Webhook signing secret for direct HTTP delivery
+# The value is set outside Terraform so it never lands in state:
+#   aws secretsmanager put-secret-value --secret-id <arn> --secret-string <secret>
+resource "aws_secretsmanager_secret" "shopify_webhook_secret" {
+  name = "shopify-webhook-secret-${var.environment}"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Per-shop API keys for the inventory query API, as
+#   {"shops": {"myshop.myshopify.com": ["<key>"]}}
+# Set outside Terraform like the webhook secret
+resource "aws_secretsmanager_secret" "query_api_keys" {
+  name = "shopify-query-api-keys-${var.environment}"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Per-shop Admin API access tokens for reconciliation, as
+#   {"shops": {"myshop.myshopify.com": "<token>"}}
+# Set outside Terraform like the webhook secret
+resource "aws_secretsmanager_secret" "shopify_admin_tokens" {
+  name = "shopify-admin-tokens-${var.environment}"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
 # IAM Role for Lambda
 resource "aws_iam_role" "lambda_role" {
   name = "shopify-webhook-lambda-role-${var.environment}"
@@ -78,6 +284,154 @@ resource "aws_iam_role_policy" "lambda_dynamodb_policy" {
           "dynamodb:Query"
         ]
         Resource = aws_dynamodb_table.shopify_inventory.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:PutItem",
+          "dynamodb:GetItem",
+          "dynamodb:DeleteItem"
+        ]
+        Resource = aws_dynamodb_table.webhook_dedup.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:UpdateItem",
+          "dynamodb:GetItem",
+          "dynamodb:Query",
+          "dynamodb:DeleteItem"
+        ]
+        Resource = aws_dynamodb_table.inventory_items.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:UpdateItem",
+          "dynamodb:GetItem",
+          "dynamodb:Query"
+        ]
+        Resource = aws_dynamodb_table.locations.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:PutItem",
+          "dynamodb:Query"
+        ]
+        Resource = aws_dynamodb_table.inventory_history.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:DescribeStream",
+          "dynamodb:GetRecords",
+          "dynamodb:GetShardIterator",
+          "dynamodb:ListStreams"
+        ]
+        Resource = aws_dynamodb_table.inventory_history.stream_arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:PutItem",
+          "dynamodb:UpdateItem",
+          "dynamodb:GetItem"
+        ]
+        Resource = aws_dynamodb_table.stock_alerts.arn
+      },
+      {
+        Effect   = "Allow"
+        Action   = ["dynamodb:GetItem"]
+        Resource = aws_dynamodb_table.shops.arn
+      },
+      {
+        Effect   = "Allow"
+        Action   = ["dynamodb:UpdateItem"]
+        Resource = aws_dynamodb_table.webhook_dead_letters.arn
+      }
+    ]
+  })
+}
+
+# IAM Policy for Lambda to consume the webhook queue
+resource "aws_iam_role_policy" "lambda_sqs_policy" {
+  name = "lambda-sqs-policy"
+  role = aws_iam_role.lambda_role.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect = "Allow"
+        Action = [
+          "sqs:ReceiveMessage",
+          "sqs:DeleteMessage",
+          "sqs:GetQueueAttributes"
+        ]
+        Resource = aws_sqs_queue.webhooks.arn
+      }
+    ]
+  })
+}
+
+# IAM Policy for Lambda to publish domain events
+resource "aws_iam_role_policy" "lambda_events_policy" {
+  name = "lambda-events-policy"
+  role = aws_iam_role.lambda_role.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect   = "Allow"
+        Action   = "events:PutEvents"
+        Resource = aws_cloudwatch_event_bus.inventory_events.arn
+      }
+    ]
+  })
+}
+
+# IAM Policy for Lambda to publish stock alerts
+resource "aws_iam_role_policy" "lambda_sns_policy" {
+  name = "lambda-sns-policy"
+  role = aws_iam_role.lambda_role.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect   = "Allow"
+        Action   = "sns:Publish"
+        Resource = aws_sns_topic.stock_alerts.arn
+      }
+    ]
+  })
+}
+
+# IAM Policy for Lambda to read webhook secrets
+resource "aws_iam_role_policy" "lambda_secrets_policy" {
+  name = "lambda-secrets-policy"
+  role = aws_iam_role.lambda_role.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect   = "Allow"
+        Action   = ["secretsmanager:GetSecretValue"]
+        Resource = aws_secretsmanager_secret.shopify_webhook_secret.arn
+      },
+      {
+        # Secrets of shops registered with their own signing secret
+        Effect   = "Allow"
+        Action   = ["secretsmanager:GetSecretValue"]
+        Resource = "arn:aws:secretsmanager:${var.aws_region}:${data.aws_caller_identity.current.account_id}:secret:shopify-webhook-secret-${var.environment}-*"
+      },
+      {
+        Effect   = "Allow"
+        Action   = ["secretsmanager:GetSecretValue"]
+        Resource = aws_secretsmanager_secret.shopify_admin_tokens.arn
       }
     ]
   })
@@ -109,14 +463,27 @@ resource "aws_lambda_function" "shopify_webhook_handler" {
   filename      = "../lambda_function.zip"
   function_name = "shopify-webhook-handler-${var.environment}"
   role          = aws_iam_role.lambda_role.arn
-  handler       = "dist/handler.handler"
+  handler       = "dist/sqsHandler.handler"
   runtime       = "nodejs20.x"
   timeout       = 30
 
   environment {
     variables = {
-      DYNAMODB_TABLE = aws_dynamodb_table.shopify_inventory.name
-      ENVIRONMENT    = var.environment
+      DYNAMODB_TABLE        = aws_dynamodb_table.shopify_inventory.name
+      INVENTORY_ITEMS_TABLE = aws_dynamodb_table.inventory_items.name
+      LOCATIONS_TABLE       = aws_dynamodb_table.locations.name
+      HISTORY_TABLE         = aws_dynamodb_table.inventory_history.name
+      SHOPS_TABLE           = aws_dynamodb_table.shops.name
+      DEDUP_TABLE           = aws_dynamodb_table.webhook_dedup.name
+      DEDUP_TTL_SECONDS     = var.dedup_ttl_seconds
+      DEDUP_LEASE_SECONDS   = var.dedup_lease_seconds
+      ENVIRONMENT           = var.environment
+      LOG_LEVEL             = var.log_level
+
+      SHOPIFY_EVENT_SOURCE_PREFIX = "${data.aws_cloudwatch_event_source.shopify.name_prefix}/"
+      TRUSTED_AWS_ACCOUNT_ID      = data.aws_caller_identity.current.account_id
+      DEAD_LETTER_TABLE           = aws_dynamodb_table.webhook_dead_letters.name
+      WEBHOOK_MAX_RECEIVE_COUNT   = var.webhook_max_receive_count
     }
   }
 
@@ -127,6 +494,218 @@ resource "aws_lambda_function" "shopify_webhook_handler" {
   }
 }
 
+# Lambda Function for webhooks posted directly over HTTP
+resource "aws_lambda_function" "shopify_http_webhook_handler" {
+  filename      = "../lambda_function.zip"
+  function_name = "shopify-http-webhook-handler-${var.environment}"
+  role          = aws_iam_role.lambda_role.arn
+  handler       = "dist/httpHandler.handler"
+  runtime       = "nodejs20.x"
+  timeout       = 30
+
+  environment {
+    variables = {
+      DYNAMODB_TABLE              = aws_dynamodb_table.shopify_inventory.name
+      INVENTORY_ITEMS_TABLE       = aws_dynamodb_table.inventory_items.name
+      LOCATIONS_TABLE             = aws_dynamodb_table.locations.name
+      HISTORY_TABLE               = aws_dynamodb_table.inventory_history.name
+      SHOPS_TABLE                 = aws_dynamodb_table.shops.name
+      DEDUP_TABLE                 = aws_dynamodb_table.webhook_dedup.name
+      DEDUP_TTL_SECONDS           = var.dedup_ttl_seconds
+      DEDUP_LEASE_SECONDS         = var.dedup_lease_seconds
+      ENVIRONMENT                 = var.environment
+      LOG_LEVEL                   = var.log_level
+      SECRET_PROVIDER             = "secretsmanager"
+      SHOPIFY_WEBHOOK_SECRET_NAME = aws_secretsmanager_secret.shopify_webhook_secret.arn
+    }
+  }
+
+  source_code_hash = filebase64sha256("../lambda_function.zip")
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Log groups declared explicitly so metric filters can attach to them
+resource "aws_cloudwatch_log_group" "webhook_handlers" {
+  for_each = {
+    eventbridge = aws_lambda_function.shopify_webhook_handler.function_name
+    http        = aws_lambda_function.shopify_http_webhook_handler.function_name
+  }
+
+  name              = "/aws/lambda/${each.value}"
+  retention_in_days = 30
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Counts webhooks whose topic has no registered handler
+resource "aws_cloudwatch_log_metric_filter" "ignored_webhooks" {
+  for_each = aws_cloudwatch_log_group.webhook_handlers
+
+  name           = "shopify-ignored-webhooks-${each.key}-${var.environment}"
+  log_group_name = each.value.name
+  pattern        = "{ $.message = \"Ignored unsupported webhook topic\" }"
+
+  metric_transformation {
+    name      = "IgnoredWebhooks"
+    namespace = "ShopifyWebhooks/${var.environment}"
+    value     = "1"
+  }
+}
+
+# HTTP API for direct webhook delivery
+resource "aws_apigatewayv2_api" "shopify_webhooks" {
+  name          = "shopify-webhooks-${var.environment}"
+  protocol_type = "HTTP"
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_apigatewayv2_stage" "default" {
+  api_id      = aws_apigatewayv2_api.shopify_webhooks.id
+  name        = "$default"
+  auto_deploy = true
+}
+
+resource "aws_apigatewayv2_integration" "http_webhook_lambda" {
+  api_id                 = aws_apigatewayv2_api.shopify_webhooks.id
+  integration_type       = "AWS_PROXY"
+  integration_uri        = aws_lambda_function.shopify_http_webhook_handler.invoke_arn
+  payload_format_version = "2.0"
+}
+
+resource "aws_apigatewayv2_route" "post_webhooks" {
+  api_id    = aws_apigatewayv2_api.shopify_webhooks.id
+  route_key = "POST /webhooks"
+  target    = "integrations/${aws_apigatewayv2_integration.http_webhook_lambda.id}"
+}
+
+# Lambda Permission for API Gateway
+resource "aws_lambda_permission" "allow_api_gateway" {
+  statement_id  = "AllowExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.shopify_http_webhook_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_apigatewayv2_api.shopify_webhooks.execution_arn}/*/*"
+}
+
+# Read-only role for the inventory query Lambda
+resource "aws_iam_role" "query_lambda_role" {
+  name = "shopify-inventory-query-lambda-role-${var.environment}"
+
+  assume_role_policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Action = "sts:AssumeRole"
+        Effect = "Allow"
+        Principal = {
+          Service = "lambda.amazonaws.com"
+        }
+      }
+    ]
+  })
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_iam_role_policy" "query_lambda_policy" {
+  name = "query-lambda-policy"
+  role = aws_iam_role.query_lambda_role.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect = "Allow"
+        Action = [
+          "dynamodb:GetItem",
+          "dynamodb:Query"
+        ]
+        Resource = [
+          aws_dynamodb_table.shopify_inventory.arn,
+          aws_dynamodb_table.locations.arn
+        ]
+      },
+      {
+        Effect   = "Allow"
+        Action   = "secretsmanager:GetSecretValue"
+        Resource = aws_secretsmanager_secret.query_api_keys.arn
+      },
+      {
+        Effect = "Allow"
+        Action = [
+          "logs:CreateLogGroup",
+          "logs:CreateLogStream",
+          "logs:PutLogEvents"
+        ]
+        Resource = "arn:aws:logs:${var.aws_region}:${data.aws_caller_identity.current.account_id}:*"
+      }
+    ]
+  })
+}
+
+# Lambda Function for the read-only inventory query API
+resource "aws_lambda_function" "inventory_query_handler" {
+  filename      = "../lambda_function.zip"
+  function_name = "shopify-inventory-query-handler-${var.environment}"
+  role          = aws_iam_role.query_lambda_role.arn
+  handler       = "dist/queryHandler.handler"
+  runtime       = "nodejs20.x"
+  timeout       = 10
+
+  environment {
+    variables = {
+      DYNAMODB_TABLE             = aws_dynamodb_table.shopify_inventory.name
+      LOCATIONS_TABLE            = aws_dynamodb_table.locations.name
+      ENVIRONMENT                = var.environment
+      LOG_LEVEL                  = var.log_level
+      SECRET_PROVIDER            = "secretsmanager"
+      QUERY_API_KEYS_SECRET_NAME = aws_secretsmanager_secret.query_api_keys.arn
+    }
+  }
+
+  source_code_hash = filebase64sha256("../lambda_function.zip")
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_apigatewayv2_integration" "inventory_query_lambda" {
+  api_id                 = aws_apigatewayv2_api.shopify_webhooks.id
+  integration_type       = "AWS_PROXY"
+  integration_uri        = aws_lambda_function.inventory_query_handler.invoke_arn
+  payload_format_version = "2.0"
+}
+
+resource "aws_apigatewayv2_route" "inventory_queries" {
+  for_each = toset([
+    "GET /shops/{shop}/variants/{variantId}/inventory",
+    "GET /shops/{shop}/variants/{variantId}/locations/{locationId}",
+  ])
+
+  api_id    = aws_apigatewayv2_api.shopify_webhooks.id
+  route_key = each.value
+  target    = "integrations/${aws_apigatewayv2_integration.inventory_query_lambda.id}"
+}
+
+resource "aws_lambda_permission" "allow_api_gateway_queries" {
+  statement_id  = "AllowQueryExecutionFromAPIGateway"
+  action        = "lambda:InvokeFunction"
+  function_name = aws_lambda_function.inventory_query_handler.function_name
+  principal     = "apigateway.amazonaws.com"
+  source_arn    = "${aws_apigatewayv2_api.shopify_webhooks.execution_arn}/*/*"
+}
+
 data "aws_cloudwatch_event_source" "shopify" {
   name_prefix = "aws.partner/shopify.com/285340631041"
 }
@@ -156,21 +735,174 @@ resource "aws_cloudwatch_event_rule" "shopify_webhook" {
 }
 
 
+# Webhook events are buffered so bursts drain at a controlled rate and
+# only failed events are retried
+resource "aws_sqs_queue" "webhooks_dlq" {
+  name                      = "shopify-webhooks-dlq-${var.environment}"
+  message_retention_seconds = 1209600
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_sqs_queue" "webhooks" {
+  name = "shopify-webhooks-${var.environment}"
+  # At least six times the Lambda timeout, as AWS recommends for SQS sources
+  visibility_timeout_seconds = 180
+  message_retention_seconds  = 345600
+
+  redrive_policy = jsonencode({
+    deadLetterTargetArn = aws_sqs_queue.webhooks_dlq.arn
+    maxReceiveCount     = var.webhook_max_receive_count
+  })
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_sqs_queue_policy" "webhooks" {
+  queue_url = aws_sqs_queue.webhooks.id
+
+  policy = jsonencode({
+    Version = "2012-10-17"
+    Statement = [
+      {
+        Effect    = "Allow"
+        Principal = { Service = "events.amazonaws.com" }
+        Action    = "sqs:SendMessage"
+        Resource  = aws_sqs_queue.webhooks.arn
+        Condition = {
+          ArnEquals = { "aws:SourceArn" = aws_cloudwatch_event_rule.shopify_webhook.arn }
+        }
+      }
+    ]
+  })
+}
+
 # EventBridge Target
-resource "aws_cloudwatch_event_target" "lambda_target" {
+resource "aws_cloudwatch_event_target" "webhook_queue" {
   rule           = aws_cloudwatch_event_rule.shopify_webhook.name
   event_bus_name = aws_cloudwatch_event_bus.shopify.name
-  target_id      = "ShopifyWebhookLambda"
-  arn            = aws_lambda_function.shopify_webhook_handler.arn
+  target_id      = "ShopifyWebhookQueue"
+  arn            = aws_sqs_queue.webhooks.arn
 }
 
-# Lambda Permission for EventBridge
-resource "aws_lambda_permission" "allow_eventbridge" {
-  statement_id  = "AllowExecutionFromEventBridge"
+resource "aws_lambda_event_source_mapping" "webhook_queue" {
+  event_source_arn                   = aws_sqs_queue.webhooks.arn
+  function_name                      = aws_lambda_function.shopify_webhook_handler.arn
+  batch_size                         = var.webhook_batch_size
+  maximum_batching_window_in_seconds = 1
+  function_response_types            = ["ReportBatchItemFailures"]
+
+  scaling_config {
+    maximum_concurrency = var.webhook_max_concurrency
+  }
+}
+
+# Lambda Function publishing the changes recorded in the history ledger
+# and raising stock alerts for them
+resource "aws_lambda_function" "inventory_history_stream" {
+  filename      = "../lambda_function.zip"
+  function_name = "shopify-inventory-history-stream-${var.environment}"
+  role          = aws_iam_role.lambda_role.arn
+  handler       = "dist/historyStreamHandler.handler"
+  runtime       = "nodejs20.x"
+  timeout       = 30
+
+  environment {
+    variables = {
+      SHOPS_TABLE        = aws_dynamodb_table.shops.name
+      STOCK_ALERTS_TABLE = aws_dynamodb_table.stock_alerts.name
+      ALERT_TOPIC_ARN    = aws_sns_topic.stock_alerts.arn
+      EVENT_BUS_NAME     = aws_cloudwatch_event_bus.inventory_events.name
+      ENVIRONMENT        = var.environment
+      LOG_LEVEL          = var.log_level
+    }
+  }
+
+  source_code_hash = filebase64sha256("../lambda_function.zip")
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# A failed record is retried, holding back the rest of its shard, until
+# it succeeds or ages out of the stream
+resource "aws_lambda_event_source_mapping" "inventory_history_stream" {
+  event_source_arn        = aws_dynamodb_table.inventory_history.stream_arn
+  function_name           = aws_lambda_function.inventory_history_stream.arn
+  starting_position       = "TRIM_HORIZON"
+  batch_size              = 100
+  function_response_types = ["ReportBatchItemFailures"]
+}
+
+# Lambda Function reconciling stored inventory against the Admin API
+resource "aws_lambda_function" "inventory_reconciliation" {
+  filename      = "../lambda_function.zip"
+  function_name = "shopify-inventory-reconciliation-${var.environment}"
+  role          = aws_iam_role.lambda_role.arn
+  handler       = "dist/reconcileHandler.handler"
+  runtime       = "nodejs20.x"
+  timeout       = 900
+
+  environment {
+    variables = {
+      DYNAMODB_TABLE                   = aws_dynamodb_table.shopify_inventory.name
+      INVENTORY_ITEMS_TABLE            = aws_dynamodb_table.inventory_items.name
+      LOCATIONS_TABLE                  = aws_dynamodb_table.locations.name
+      HISTORY_TABLE                    = aws_dynamodb_table.inventory_history.name
+      SHOPS_TABLE                      = aws_dynamodb_table.shops.name
+      ENVIRONMENT                      = var.environment
+      LOG_LEVEL                        = var.log_level
+      SECRET_PROVIDER                  = "secretsmanager"
+      SHOPIFY_ADMIN_TOKENS_SECRET_NAME = aws_secretsmanager_secret.shopify_admin_tokens.arn
+      SHOPIFY_ADMIN_API_VERSION        = var.shopify_admin_api_version
+    }
+  }
+
+  source_code_hash = filebase64sha256("../lambda_function.zip")
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+# Scheduled reconciliation, only when shops are configured
+resource "aws_cloudwatch_event_rule" "inventory_reconciliation" {
+  count = length(var.reconciliation_shops) > 0 ? 1 : 0
+
+  name                = "shopify-inventory-reconciliation-${var.environment}"
+  description         = "Reconcile stored inventory with Shopify"
+  schedule_expression = var.reconciliation_schedule
+
+  tags = {
+    Environment = var.environment
+  }
+}
+
+resource "aws_cloudwatch_event_target" "inventory_reconciliation" {
+  count = length(var.reconciliation_shops) > 0 ? 1 : 0
+
+  rule      = aws_cloudwatch_event_rule.inventory_reconciliation[0].name
+  target_id = "InventoryReconciliationLambda"
+  arn       = aws_lambda_function.inventory_reconciliation.arn
+  input = jsonencode({
+    shopNames = var.reconciliation_shops
+    repair    = var.reconciliation_repair
+  })
+}
+
+resource "aws_lambda_permission" "allow_reconciliation_schedule" {
+  count = length(var.reconciliation_shops) > 0 ? 1 : 0
+
+  statement_id  = "AllowExecutionFromReconciliationSchedule"
   action        = "lambda:InvokeFunction"
-  function_name = aws_lambda_function.shopify_webhook_handler.function_name
+  function_name = aws_lambda_function.inventory_reconciliation.function_name
   principal     = "events.amazonaws.com"
-  source_arn    = aws_cloudwatch_event_rule.shopify_webhook.arn
+  source_arn    = aws_cloudwatch_event_rule.inventory_reconciliation[0].arn
 }
 
 
@@ -17,3 +17,58 @@ output "lambda_function_arn" {
   description = "Lambda function ARN"
   value       = aws_lambda_function.shopify_webhook_handler.arn
 }
+
+output "webhook_endpoint_url" {
+  description = "URL to register for direct HTTP webhook delivery"
+  value       = "${aws_apigatewayv2_api.shopify_webhooks.api_endpoint}/webhooks"
+}
+
+output "webhook_secret_arn" {
+  description = "Secrets Manager secret holding the webhook signing secret"
+  value       = aws_secretsmanager_secret.shopify_webhook_secret.arn
+}
+
+output "alert_topic_arn" {
+  description = "SNS topic receiving low-stock and sold-out alerts"
+  value       = aws_sns_topic.stock_alerts.arn
+}
+
+output "inventory_events_bus_name" {
+  description = "EventBridge bus receiving InventoryChanged events"
+  value       = aws_cloudwatch_event_bus.inventory_events.name
+}
+
+output "query_api_url" {
+  description = "Base URL of the read-only inventory query API"
+  value       = aws_apigatewayv2_api.shopify_webhooks.api_endpoint
+}
+
+output "query_api_keys_secret_arn" {
+  description = "Secrets Manager secret holding per-shop query API keys"
+  value       = aws_secretsmanager_secret.query_api_keys.arn
+}
+
+output "shops_table_name" {
+  description = "Name of the DynamoDB shop registry table"
+  value       = aws_dynamodb_table.shops.name
+}
+
+output "admin_tokens_secret_arn" {
+  description = "Secrets Manager secret holding per-shop Admin API tokens"
+  value       = aws_secretsmanager_secret.shopify_admin_tokens.arn
+}
+
+output "webhook_queue_url" {
+  description = "SQS queue buffering EventBridge webhook events"
+  value       = aws_sqs_queue.webhooks.url
+}
+
+output "webhook_dlq_url" {
+  description = "SQS dead-letter queue for webhook events that kept failing"
+  value       = aws_sqs_queue.webhooks_dlq.url
+}
+
+output "dead_letter_table_name" {
+  description = "DynamoDB table of failed webhook events, replayed with npm run replay-dead-letters"
+  value       = aws_dynamodb_table.webhook_dead_letters.name
+}
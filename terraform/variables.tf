@@ -9,3 +9,63 @@ variable "environment" {
   type        = string
   default     = "dev"
 }
+
+variable "log_level" {
+  description = "Lowest level the Lambda functions log: debug, info, warn or error"
+  type        = string
+  default     = "info"
+}
+
+variable "dedup_ttl_seconds" {
+  description = "How long a processed webhook ID is remembered for duplicate detection"
+  type        = number
+  default     = 86400
+}
+
+variable "dedup_lease_seconds" {
+  description = "How long a webhook being processed is held before a redelivery may take it over; longer than the webhook Lambda timeout"
+  type        = number
+  default     = 60
+}
+
+variable "shopify_admin_api_version" {
+  description = "Shopify Admin API version used by reconciliation"
+  type        = string
+  default     = "2024-10"
+}
+
+variable "reconciliation_schedule" {
+  description = "Schedule expression for inventory reconciliation"
+  type        = string
+  default     = "rate(1 day)"
+}
+
+variable "reconciliation_shops" {
+  description = "Shops to reconcile on schedule; no schedule is created when empty"
+  type        = list(string)
+  default     = []
+}
+
+variable "reconciliation_repair" {
+  description = "Whether scheduled reconciliation repairs discrepancies or only reports them"
+  type        = bool
+  default     = false
+}
+
+variable "webhook_batch_size" {
+  description = "Webhook events handed to the Lambda per SQS batch"
+  type        = number
+  default     = 10
+}
+
+variable "webhook_max_concurrency" {
+  description = "Most concurrent Lambda invocations draining the webhook queue, which caps DynamoDB write load"
+  type        = number
+  default     = 5
+}
+
+variable "webhook_max_receive_count" {
+  description = "Deliveries of a webhook event before it is dead-lettered for replay"
+  type        = number
+  default     = 5
+}